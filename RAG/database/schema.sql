@@ -9,6 +9,9 @@ CREATE TABLE users (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     firebase_uid VARCHAR(255) UNIQUE NOT NULL,
     email VARCHAR(255),
+    api_key_hash CHAR(64) UNIQUE, -- SHA-256 of the API key; the key itself is never stored
+    api_key_created_at TIMESTAMP,
+    api_key_last_used_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -25,7 +28,11 @@ CREATE TABLE documents (
     status VARCHAR(50) DEFAULT 'processing',
     uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     processed_at TIMESTAMP,
-    metadata JSONB DEFAULT '{}'::jsonb
+    metadata JSONB DEFAULT '{}'::jsonb,
+    -- Version history: revised uploads are new rows in the same family
+    family_id UUID NOT NULL DEFAULT gen_random_uuid(),
+    version INTEGER NOT NULL DEFAULT 1,
+    is_latest BOOLEAN NOT NULL DEFAULT TRUE
 );
 
 -- Document chunks with embeddings
@@ -45,6 +52,8 @@ CREATE TABLE chunks (
 CREATE INDEX idx_documents_user_id ON documents(user_id);
 CREATE INDEX idx_documents_status ON documents(status);
 CREATE INDEX idx_documents_uploaded_at ON documents(uploaded_at);
+CREATE UNIQUE INDEX idx_documents_family_version ON documents(family_id, version);
+CREATE INDEX idx_documents_user_latest ON documents(user_id) WHERE is_latest;
 
 CREATE INDEX idx_chunks_document_id ON chunks(document_id);
 CREATE INDEX idx_chunks_chunk_index ON chunks(chunk_index);
@@ -59,12 +68,64 @@ CREATE INDEX idx_chunks_text_search ON chunks USING gin(to_tsvector('english', t
 CREATE INDEX idx_chunks_document_user ON chunks(document_id) 
     INCLUDE (text, word_count, character_count);
 
+-- Workspaces with members and roles, and shared collections of document families
+CREATE TABLE workspaces (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(200) NOT NULL,
+    created_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE workspace_members (
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id VARCHAR(255) NOT NULL,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE TABLE collections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    created_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (workspace_id, name)
+);
+
+CREATE TABLE collection_documents (
+    collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+    family_id UUID NOT NULL, -- Every version of the document
+    added_by VARCHAR(255) NOT NULL,
+    added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (collection_id, family_id)
+);
+
+CREATE INDEX idx_workspace_members_user_id ON workspace_members(user_id);
+CREATE INDEX idx_collections_workspace_id ON collections(workspace_id);
+CREATE INDEX idx_collection_documents_family_id ON collection_documents(family_id);
+
+-- Document families in the given collections of the user's workspaces
+CREATE OR REPLACE FUNCTION collection_family_ids(user_id_param TEXT, collection_ids UUID[])
+RETURNS TABLE (family_id UUID) AS $$
+    SELECT DISTINCT cd.family_id
+    FROM collection_documents cd
+    JOIN collections col ON col.id = cd.collection_id
+    JOIN workspace_members wm ON wm.workspace_id = col.workspace_id
+    WHERE cd.collection_id = ANY(collection_ids)
+        AND wm.user_id = user_id_param
+$$ LANGUAGE sql STABLE;
+
 -- Functions for vector similarity search
 CREATE OR REPLACE FUNCTION search_similar_chunks(
     query_embedding vector(1536),
     user_id_param VARCHAR(255),
     similarity_threshold FLOAT DEFAULT 0.7,
-    max_results INTEGER DEFAULT 5
+    max_results INTEGER DEFAULT 5,
+    latest_only BOOLEAN DEFAULT TRUE, -- Hide superseded document versions
+    document_ids UUID[] DEFAULT NULL, -- Restrict to specific document versions
+    collection_ids UUID[] DEFAULT NULL -- Search these collections instead of the user's own documents
 )
 RETURNS TABLE (
     chunk_id UUID,
@@ -85,8 +146,11 @@ BEGIN
         (1 - (c.embedding <=> query_embedding)) as similarity
     FROM chunks c
     JOIN documents d ON c.document_id = d.id
-    WHERE d.user_id = user_id_param
+    WHERE (CASE WHEN collection_ids IS NULL THEN d.user_id = user_id_param
+               ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
         AND d.status = 'completed'
+        AND (NOT latest_only OR d.is_latest)
+        AND (document_ids IS NULL OR d.id = ANY(document_ids))
         AND (1 - (c.embedding <=> query_embedding)) >= similarity_threshold
     ORDER BY c.embedding <=> query_embedding
     LIMIT max_results;
@@ -101,7 +165,10 @@ CREATE OR REPLACE FUNCTION search_hybrid_chunks(
     semantic_weight FLOAT DEFAULT 0.7,
     keyword_weight FLOAT DEFAULT 0.3,
     similarity_threshold FLOAT DEFAULT 0.6,
-    max_results INTEGER DEFAULT 5
+    max_results INTEGER DEFAULT 5,
+    latest_only BOOLEAN DEFAULT TRUE, -- Hide superseded document versions
+    document_ids UUID[] DEFAULT NULL, -- Restrict to specific document versions
+    collection_ids UUID[] DEFAULT NULL -- Search these collections instead of the user's own documents
 )
 RETURNS TABLE (
     chunk_id UUID,
@@ -129,8 +196,11 @@ BEGIN
         ) as combined_score
     FROM chunks c
     JOIN documents d ON c.document_id = d.id
-    WHERE d.user_id = user_id_param
+    WHERE (CASE WHEN collection_ids IS NULL THEN d.user_id = user_id_param
+               ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
         AND d.status = 'completed'
+        AND (NOT latest_only OR d.is_latest)
+        AND (document_ids IS NULL OR d.id = ANY(document_ids))
         AND (
             (1 - (c.embedding <=> query_embedding)) >= similarity_threshold
             OR to_tsvector('english', c.text) @@ plainto_tsquery('english', query_text)
@@ -144,7 +214,10 @@ $$ LANGUAGE plpgsql;
 CREATE OR REPLACE FUNCTION search_keyword_chunks(
     query_text TEXT,
     user_id_param VARCHAR(255),
-    max_results INTEGER DEFAULT 5
+    max_results INTEGER DEFAULT 5,
+    latest_only BOOLEAN DEFAULT TRUE, -- Hide superseded document versions
+    document_ids UUID[] DEFAULT NULL, -- Restrict to specific document versions
+    collection_ids UUID[] DEFAULT NULL -- Search these collections instead of the user's own documents
 )
 RETURNS TABLE (
     chunk_id UUID,
@@ -165,8 +238,11 @@ BEGIN
         ts_rank(to_tsvector('english', c.text), plainto_tsquery('english', query_text)) as keyword_score
     FROM chunks c
     JOIN documents d ON c.document_id = d.id
-    WHERE d.user_id = user_id_param
+    WHERE (CASE WHEN collection_ids IS NULL THEN d.user_id = user_id_param
+               ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
         AND d.status = 'completed'
+        AND (NOT latest_only OR d.is_latest)
+        AND (document_ids IS NULL OR d.id = ANY(document_ids))
         AND to_tsvector('english', c.text) @@ plainto_tsquery('english', query_text)
     ORDER BY keyword_score DESC
     LIMIT max_results;
@@ -206,4 +282,46 @@ $$ LANGUAGE plpgsql;
 CREATE TRIGGER update_documents_updated_at 
     BEFORE UPDATE ON documents 
     FOR EACH ROW 
-    EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Row-level security: documents and chunks are visible only to the app.user_id
+-- session setting, plus documents shared with the user through a collection.
+-- No setting turns the policies off; maintenance scripts use the BYPASSRLS
+-- role rag_maintenance from nextjs-document-service/database/create_row_level_security.sql
+CREATE OR REPLACE FUNCTION app_user_id() RETURNS TEXT AS $$
+  SELECT NULLIF(current_setting('app.user_id', true), '')
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE documents FORCE ROW LEVEL SECURITY;
+ALTER TABLE chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chunks FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS documents_owner ON documents;
+CREATE POLICY documents_owner ON documents
+  USING (user_id = app_user_id())
+  WITH CHECK (user_id = app_user_id());
+
+DROP POLICY IF EXISTS documents_shared_read ON documents;
+CREATE POLICY documents_shared_read ON documents FOR SELECT
+  USING (EXISTS (
+    SELECT 1
+    FROM collection_documents cd
+    JOIN collections col ON col.id = cd.collection_id
+    JOIN workspace_members wm ON wm.workspace_id = col.workspace_id
+    WHERE cd.family_id = documents.family_id
+      AND wm.user_id = app_user_id()
+  ));
+
+DROP POLICY IF EXISTS chunks_owner ON chunks;
+CREATE POLICY chunks_owner ON chunks
+  USING (EXISTS (
+    SELECT 1 FROM documents d WHERE d.id = chunks.document_id AND d.user_id = app_user_id()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM documents d WHERE d.id = chunks.document_id AND d.user_id = app_user_id()
+  ));
+
+DROP POLICY IF EXISTS chunks_shared_read ON chunks;
+CREATE POLICY chunks_shared_read ON chunks FOR SELECT
+  USING (EXISTS (SELECT 1 FROM documents d WHERE d.id = chunks.document_id));
@@ -0,0 +1,120 @@
+/**
+ * Answer evaluation tests
+ * Refusal detection, token overlap and citation scoring, a full run over a
+ * scripted generator with the hashing embedding provider, and comparing
+ * runs against a baseline
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  isRefusal,
+  tokenF1,
+  scoreCitations,
+  runAnswerEval,
+  AnswerGenerator
+} from '../lib/answer-eval';
+import { parseGoldenSet, RetrievedChunk, Retriever } from '../lib/retrieval-eval';
+import { compareEvalRuns, EvalRunRecord } from '../lib/eval-runs';
+import { NO_CONTEXT_ANSWER } from '../lib/openai-chat';
+import { estimateCost } from '../lib/chat-providers';
+import { HashingEmbeddingProvider } from '../lib/embedding-providers';
+
+const chunk = (filename: string, chunk_index: number, chunk_text: string): RetrievedChunk => ({
+  chunk_id: `${filename}-${chunk_index}`,
+  filename,
+  chunk_index,
+  chunk_text,
+  pages: []
+});
+
+const corpus = [
+  chunk('diabetes.md', 0, 'Symptoms of marked hyperglycemia include polyuria, polydipsia and weight loss.'),
+  chunk('oncology.md', 0, 'The 2014 census had 1,252 respondents comprised of 974 practices.')
+];
+
+const questions = parseGoldenSet([
+  '{"id": "symptoms", "question": "What are the symptoms of hyperglycemia?", "relevant": [{"document": "diabetes.md"}], "referenceAnswer": "Polyuria, polydipsia and weight loss."}',
+  '{"id": "census", "question": "How many practices answered the census?", "relevant": [{"document": "oncology.md"}]}',
+  '{"id": "price", "question": "How much does insulin cost?", "answerable": false}'
+].join('\n'));
+
+const embedder = new HashingEmbeddingProvider({ dimensions: 64 });
+const embed = async (texts: string[]) => (await embedder.embed(texts)).embeddings;
+
+describe('Answer Evaluation', () => {
+  it('should recognise refusals and score token overlap', () => {
+    expect(isRefusal(NO_CONTEXT_ANSWER)).toBe(true);
+    expect(isRefusal('The provided sources do not contain enough information to answer this.')).toBe(true);
+    expect(isRefusal('Metformin is the first-line therapy [1].')).toBe(false);
+
+    expect(tokenF1('Polyuria and polydipsia [1].', 'polyuria, polydipsia and weight loss')).toBeCloseTo((2 * 1 * 0.6) / 1.6);
+    expect(tokenF1('Nothing related.', 'polyuria')).toBe(0);
+  });
+
+  it('should score citations against the labels', () => {
+    const ranked = [corpus[1], corpus[0]];
+    expect(scoreCitations('Polyuria [2]. Also 974 practices [1], [7].', ranked, questions[0])).toEqual({
+      citedSources: [2, 1, 7],
+      citationPrecision: 1 / 3,
+      citationRecall: 1
+    });
+    expect(scoreCitations('No markers here.', ranked, questions[0]).citationPrecision).toBeNull();
+    expect(scoreCitations('Insulin is cheap [1].', ranked, questions[2])).toMatchObject({ citationPrecision: null, citationRecall: null });
+  });
+
+  it('should run questions through retrieval and generation', async () => {
+    // Nothing is retrieved for the unanswerable question, as with an empty search in /api/chat
+    const retriever: Retriever = async question => (question.includes('insulin') ? [] : corpus);
+    const prompts: string[] = [];
+    const generator: AnswerGenerator = async (question, results) => {
+      prompts.push(question);
+      expect(results[0]).toMatchObject({ document_name: 'diabetes.md', text: corpus[0].chunk_text });
+      const usage = { prompt_tokens: 1000, completion_tokens: 100, total_tokens: 1100 };
+      return question.includes('symptoms')
+        ? { answer: 'Symptoms include polyuria, polydipsia and weight loss [1]. Insulin pumps are mandatory for everyone.', model_used: 'gpt-4o', usage }
+        : { answer: 'The provided sources do not contain enough information about that.', model_used: 'local-llm', usage };
+    };
+
+    const report = await runAnswerEval(questions, retriever, generator, { embed, maxResults: 2 });
+    const [symptoms, census, price] = report.results;
+
+    expect(prompts).toHaveLength(2);
+    expect(symptoms).toMatchObject({ refused: false, refusalCorrect: true, citationPrecision: 1, citationRecall: 1, faithfulness: 0.5 });
+    expect(symptoms.unsupportedClaims).toEqual(['Insulin pumps are mandatory for everyone.']);
+    expect(symptoms.answerF1).toBeGreaterThan(0.5);
+    expect(symptoms.costUsd).toBeCloseTo(estimateCost('gpt-4o', symptoms.usage)!);
+
+    expect(census).toMatchObject({ refused: true, refusalCorrect: false, citationRecall: 0, faithfulness: null, costUsd: null });
+    expect(price).toMatchObject({ answer: NO_CONTEXT_ANSWER, model_used: 'none', refused: true, refusalCorrect: true, costUsd: 0 });
+
+    expect(report.summary).toMatchObject({
+      questions: 3,
+      answerable: 2,
+      unanswerable: 1,
+      citationRecall: 0.5,
+      faithfulness: 0.5,
+      falseRefusals: 1,
+      missedRefusals: 0,
+      unpricedAnswers: 1
+    });
+    expect(report.summary.refusalAccuracy).toBeCloseTo(2 / 3, 3);
+    expect(report.summary.tokens.total).toBe(2200);
+  });
+
+  it('should compare runs against the first one', () => {
+    const run = (id: string, summary: any, config: any): EvalRunRecord => ({
+      id, user_id: 'u', kind: 'answer', name: id, question_count: 3, config, summary, created_at: new Date()
+    });
+
+    const comparison = compareEvalRuns([
+      run('base', { faithfulness: 0.5, tokens: { total: 2200 } }, { modelChain: ['openai:gpt-4'], maxResults: 10 }),
+      run('next', { faithfulness: 0.75, tokens: { total: 1800 }, answerF1: null }, { modelChain: ['openai:gpt-4o'], maxResults: 10 })
+    ]);
+
+    expect(comparison.metrics).toEqual([
+      { metric: 'faithfulness', values: [0.5, 0.75], delta: 0.25 },
+      { metric: 'tokens.total', values: [2200, 1800], delta: -400 }
+    ]);
+    expect(comparison.configChanges).toEqual([{ setting: 'modelChain', values: [['openai:gpt-4'], ['openai:gpt-4o']] }]);
+  });
+});
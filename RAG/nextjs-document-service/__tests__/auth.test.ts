@@ -0,0 +1,117 @@
+/**
+ * Authentication tests
+ * JWT verification with RS256 and ES256 keys generated per run, rejection of
+ * tampered, expired, unsigned and foreign tokens, UI session tokens, admin
+ * checks and API key hashing
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { generateKeyPairSync, sign, JsonWebKey } from 'crypto';
+import { verifyJwt, resolveUserId, requireAdmin, hashApiKey, createSessionToken, verifySessionToken, AuthError } from '../lib/auth';
+
+const ISSUER = 'https://auth.example.com';
+const NOW = 1_700_000_000;
+
+function base64url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+describe('Authentication', () => {
+  const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const keys: JsonWebKey[] = [
+    { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-1' },
+    { ...ec.publicKey.export({ format: 'jwk' }), kid: 'ec-1' }
+  ];
+
+  function signRs256(claims: object, kid = 'rsa-1'): string {
+    const data = `${base64url({ alg: 'RS256', typ: 'JWT', kid })}.${base64url(claims)}`;
+    return `${data}.${sign('sha256', Buffer.from(data), rsa.privateKey).toString('base64url')}`;
+  }
+
+  const validClaims = { sub: 'user-123', iss: ISSUER, aud: 'rag-service', exp: NOW + 3600 };
+
+  it('should accept a valid RS256 token and return its claims', () => {
+    const claims = verifyJwt(signRs256(validClaims), { issuer: ISSUER, audience: 'rag-service', keys, now: NOW });
+    expect(claims.sub).toBe('user-123');
+  });
+
+  it('should accept a valid ES256 token', () => {
+    const data = `${base64url({ alg: 'ES256', kid: 'ec-1' })}.${base64url(validClaims)}`;
+    const signature = sign('sha256', Buffer.from(data), { key: ec.privateKey, dsaEncoding: 'ieee-p1363' });
+    const token = `${data}.${signature.toString('base64url')}`;
+
+    expect(verifyJwt(token, { issuer: ISSUER, keys, now: NOW }).sub).toBe('user-123');
+  });
+
+  it('should reject tampered, expired and foreign tokens', () => {
+    const options = { issuer: ISSUER, audience: 'rag-service', keys, now: NOW };
+
+    const [header, , signature] = signRs256(validClaims).split('.');
+    const tampered = `${header}.${base64url({ ...validClaims, sub: 'someone-else' })}.${signature}`;
+    expect(() => verifyJwt(tampered, options)).toThrow('Invalid token signature');
+
+    expect(() => verifyJwt(signRs256({ ...validClaims, exp: NOW - 3600 }), options)).toThrow('Token has expired');
+    expect(() => verifyJwt(signRs256({ ...validClaims, exp: undefined }), options)).toThrow('Token has no expiry');
+    expect(() => verifyJwt(signRs256({ ...validClaims, iss: 'https://evil.example.com' }), options)).toThrow('Token issuer is not trusted');
+    expect(() => verifyJwt(signRs256({ ...validClaims, aud: 'other-service' }), options)).toThrow('Token audience is not accepted');
+    expect(() => verifyJwt(signRs256(validClaims, 'unknown-kid'), options)).toThrow('No signing key matches token');
+  });
+
+  it('should reject unsigned tokens', () => {
+    const token = `${base64url({ alg: 'none' })}.${base64url(validClaims)}.`;
+    expect(() => verifyJwt(token, { issuer: ISSUER, keys, now: NOW })).toThrow(AuthError);
+  });
+
+  it('should reject a userId that disagrees with the authenticated user', () => {
+    const user = { userId: 'user-123', method: 'jwt' as const };
+
+    expect(resolveUserId(user)).toBe('user-123');
+    expect(resolveUserId(user, 'user-123')).toBe('user-123');
+
+    try {
+      resolveUserId(user, 'user-456');
+      throw new Error('expected resolveUserId to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AuthError);
+      expect((error as AuthError).status).toBe(403);
+    }
+  });
+
+  it('should accept only untampered, unexpired session tokens', () => {
+    const token = createSessionToken('user-123', 'session-secret', 3600, NOW);
+    const [payload, signature] = token.split('.');
+
+    expect(verifySessionToken(token, 'session-secret', NOW + 60)).toBe('user-123');
+    expect(() => verifySessionToken(token, 'other-secret', NOW)).toThrow('Invalid session');
+    expect(() => verifySessionToken(`${base64url({ sub: 'user-456', exp: NOW + 3600 })}.${signature}`, 'session-secret', NOW))
+      .toThrow('Invalid session');
+    expect(() => verifySessionToken(token, 'session-secret', NOW + 3601)).toThrow('Session has expired');
+    expect(() => verifySessionToken(payload, 'session-secret', NOW)).toThrow('Malformed session');
+  });
+
+  it('should allow admin jobs only for listed, authenticated users', () => {
+    const admins = ['ops-admin'];
+
+    expect(() => requireAdmin({ userId: 'ops-admin', method: 'api_key' }, admins)).not.toThrow();
+    expect(() => requireAdmin({ userId: 'ops-admin', method: 'session' }, admins)).not.toThrow();
+    // Without authentication the userId is only claimed
+    expect(() => requireAdmin({ userId: 'ops-admin', method: 'anonymous' }, admins)).toThrow('Administrator access required');
+
+    try {
+      requireAdmin({ userId: 'user-123', method: 'jwt' }, admins);
+      throw new Error('expected requireAdmin to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AuthError);
+      expect((error as AuthError).status).toBe(403);
+    }
+    expect(() => requireAdmin({ userId: 'user-123', method: 'jwt' }, [])).toThrow('Administrator access required');
+  });
+
+  it('should hash API keys deterministically without storing the key', () => {
+    const hash = hashApiKey('rag_example-key');
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(hash).toBe(hashApiKey('rag_example-key'));
+    expect(hash).not.toContain('example');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Chat provider tests
+ * Scripted providers stand in for real models; the wire-format test mocks fetch
+ */
+
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import {
+  createChatProviders,
+  setChatProviders,
+  OpenAICompatibleChatProvider,
+  ScriptedChatProvider,
+  ChatProviderError
+} from '../lib/chat-providers';
+import { setEmbeddingProvider, HashingEmbeddingProvider } from '../lib/embedding-providers';
+import { generateChatResponse, streamChatResponse } from '../lib/openai-chat';
+
+const searchResults = [
+  { chunk_id: 'c1', document_name: 'guideline.pdf', text: 'Metformin is the first-line therapy for type 2 diabetes.', similarity_score: 0.9 }
+];
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('Chat Providers', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    setChatProviders(null);
+    setEmbeddingProvider(null);
+  });
+
+  it('should build the fallback chain from provider:model entries', () => {
+    const providers = createChatProviders({
+      modelChain: ['compatible:llama3.1:8b', 'openai:gpt-4o-mini', 'gpt-4o'],
+      compatibleBaseUrl: 'http://localhost:11434/v1',
+      compatibleApiKey: ''
+    } as any, 'test-key');
+
+    expect(providers.map(p => `${p.name}|${p.model}`)).toEqual([
+      'compatible|llama3.1:8b',
+      'openai|gpt-4o-mini',
+      'openai|gpt-4o'
+    ]);
+    expect(() => createChatProviders({ modelChain: ['anthropic:claude'] } as any)).toThrow('Unknown chat provider');
+  });
+
+  it('should call an OpenAI-compatible server without an API key', async () => {
+    const fetchMock = jest.fn(async (_url: any, _init?: any) => new Response(JSON.stringify({
+      choices: [{ message: { content: ' Local answer ' } }],
+      usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 }
+    }), { status: 200 }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const provider = new OpenAICompatibleChatProvider({ baseUrl: 'http://gpu-box:8000/v1/', model: 'qwen2.5' });
+    const completion = await provider.complete([{ role: 'user', content: 'Hi' }], { maxTokens: 50 });
+
+    expect(completion).toEqual({ content: 'Local answer', usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 } });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://gpu-box:8000/v1/chat/completions');
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'qwen2.5', max_tokens: 50 });
+  });
+
+  it('should surface HTTP failures as ChatProviderError', async () => {
+    global.fetch = jest.fn(async () => new Response(JSON.stringify({ error: { message: 'model not found' } }), { status: 404 })) as unknown as typeof fetch;
+
+    const provider = new OpenAICompatibleChatProvider({ baseUrl: 'http://localhost:11434/v1', model: 'missing' });
+    await expect(provider.complete([{ role: 'user', content: 'Hi' }])).rejects.toThrow(ChatProviderError);
+    await expect(provider.complete([{ role: 'user', content: 'Hi' }])).rejects.toThrow('model not found');
+  });
+
+  it('should answer with the scripted provider and report its model', async () => {
+    setEmbeddingProvider(new HashingEmbeddingProvider({ dimensions: 64 }));
+    const scripted = new ScriptedChatProvider({ responses: ['Metformin is the first-line therapy [1].'], model: 'fake-1' });
+    setChatProviders([scripted]);
+
+    const response = await generateChatResponse({ question: 'First-line therapy?', userId: 'user-123', searchResults });
+
+    expect(response.answer).toBe('Metformin is the first-line therapy [1].');
+    expect(response.model_used).toBe('fake-1');
+    expect(response.tokens_used).toBeGreaterThan(0);
+    expect(scripted.calls[0][0].content).toContain('QUESTION: First-line therapy?');
+  });
+
+  it('should fall back to the next provider when one refuses to stream', async () => {
+    setEmbeddingProvider(new HashingEmbeddingProvider({ dimensions: 64 }));
+    const down = new ScriptedChatProvider({ responses: [new ChatProviderError('connection refused')], model: 'down' });
+    const backup = new ScriptedChatProvider({ responses: ['Metformin first [1].'], model: 'backup' });
+    setChatProviders([down, backup]);
+
+    const events = await collect(streamChatResponse({ question: 'First-line therapy?', userId: 'user-123', searchResults }));
+
+    expect(events.filter(e => e.type === 'delta').map(e => (e as any).content).join('')).toBe('Metformin first [1].');
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', model_used: 'backup' });
+    expect(down.calls).toHaveLength(1);
+  });
+
+  it('should fail with ChatProviderError when every provider fails', async () => {
+    setChatProviders([new ScriptedChatProvider({ responses: [new Error('offline')] })]);
+
+    await expect(collect(streamChatResponse({ question: 'Q?', userId: 'user-123', searchResults })))
+      .rejects.toThrow('All chat models failed');
+  });
+});
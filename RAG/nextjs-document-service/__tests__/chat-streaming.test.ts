@@ -0,0 +1,73 @@
+/**
+ * Streaming chat tests
+ * SSE framing across network chunks and the order of streamed events, with
+ * a canned OpenAI response in place of the API
+ */
+
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { encodeSSE, readSSEData } from '../lib/sse';
+import { streamChatResponse, ChatStreamEvent } from '../lib/openai-chat';
+
+function streamOf(parts: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      parts.forEach(part => controller.enqueue(encoder.encode(part)));
+      controller.close();
+    }
+  });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('Streaming Chat', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should reassemble events split across network chunks', async () => {
+    const frame = new TextDecoder().decode(encodeSSE({ type: 'delta', content: 'Hello' }));
+    const data = await collect(readSSEData(streamOf([
+      frame.slice(0, 7),
+      frame.slice(7) + 'data: line one\ndata: line two\n\n',
+      ': comment\n\ndata: [DONE]\n\n'
+    ])));
+
+    expect(data).toEqual(['{"type":"delta","content":"Hello"}', 'line one\nline two', '[DONE]']);
+  });
+
+  it('should emit sources, then deltas, then usage and model', async () => {
+    process.env.OPENAI_API_KEY = 'test-key';
+    const chunk = (body: object) => `data: ${JSON.stringify(body)}\n\n`;
+
+    global.fetch = jest.fn(async () => new Response(streamOf([
+      chunk({ choices: [{ delta: { role: 'assistant' } }] }),
+      chunk({ choices: [{ delta: { content: 'Metformin ' } }] }),
+      chunk({ choices: [{ delta: { content: 'is first-line [1].' } }] }),
+      chunk({ choices: [], usage: { prompt_tokens: 120, completion_tokens: 6, total_tokens: 126 } }),
+      'data: [DONE]\n\n'
+    ]), { status: 200 })) as typeof fetch;
+
+    const events = await collect(streamChatResponse({
+      question: 'What is first-line therapy for type 2 diabetes?',
+      userId: 'user-123',
+      searchResults: [{ chunk_id: 'c1', document_name: 'guideline.pdf', text: 'Metformin is first-line therapy.', similarity_score: 0.9, page: 4 }]
+    }));
+
+    expect(events.map(event => event.type)).toEqual(['sources', 'delta', 'delta', 'done']);
+    expect((events[0] as Extract<ChatStreamEvent, { type: 'sources' }>).sources[0].document).toBe('guideline.pdf');
+    expect(events.filter(event => event.type === 'delta').map(event => (event as any).content).join('')).toBe('Metformin is first-line [1].');
+    expect(events[3]).toMatchObject({
+      type: 'done',
+      tokens_used: 126,
+      model_used: 'gpt-4o',
+      usage: { prompt_tokens: 120, completion_tokens: 6, total_tokens: 126 }
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Citation verification tests
+ * Embeddings come from the offline hashing provider
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { splitSentences, parseCitations, lexicalOverlap, verifyCitations } from '../lib/citations';
+import { HashingEmbeddingProvider } from '../lib/embedding-providers';
+
+const provider = new HashingEmbeddingProvider({ dimensions: 256 });
+const embed = async (texts: string[]) => (await provider.embed(texts)).embeddings;
+
+const sources = [
+  { text: 'Metformin is the first-line pharmacological treatment for adults with type 2 diabetes. Start at 500 mg once daily with meals.' },
+  { text: 'Pharmacists in Ontario may renew prescriptions for up to 6 months of supply for most chronic medications.' }
+];
+
+describe('Citation Verification', () => {
+  it('should split sentences and keep markers placed after the period', () => {
+    const answer = 'Metformin is first-line [1]. Start at 500 mg daily. [1]\n- Renewals last 6 months [2]';
+    const sentences = splitSentences(answer);
+
+    expect(sentences.map(s => s.text)).toEqual([
+      'Metformin is first-line [1].',
+      'Start at 500 mg daily. [1]',
+      '- Renewals last 6 months [2]'
+    ]);
+    expect(answer.slice(sentences[1].start, sentences[1].end)).toBe('Start at 500 mg daily. [1]');
+  });
+
+  it('should parse single, grouped and repeated markers', () => {
+    expect(parseCitations('Both apply [1, 3] and [2][3].')).toEqual([1, 3, 2]);
+    expect(parseCitations('No citations here.')).toEqual([]);
+  });
+
+  it('should measure lexical overlap on content words', () => {
+    expect(lexicalOverlap('Metformin is the first-line treatment [1]', sources[0].text)).toBe(1);
+    expect(lexicalOverlap('Insulin pumps require training', sources[0].text)).toBe(0);
+  });
+
+  it('should mark supported and unsupported sentences', async () => {
+    const answer = 'Metformin is the first-line treatment for adults with type 2 diabetes [1]. ' +
+      'Insulin pumps are recommended for all children [1]. ' +
+      'Pharmacists may renew prescriptions for up to 6 months [2].';
+
+    const report = await verifyCitations(answer, sources, { embed });
+
+    expect(report.sentences.map(s => s.verdict)).toEqual(['supported', 'unsupported', 'supported']);
+    expect(report.supportedCount).toBe(2);
+    expect(report.allSupported).toBe(false);
+    expect(report.sentences[0].scores[0].semantic).not.toBeNull();
+  });
+
+  it('should flag citation indices that name no source', async () => {
+    const report = await verifyCitations('Metformin is first-line [1]. It is also safe in pregnancy [4].', sources, { embed });
+
+    expect(report.invalidCitations).toEqual([4]);
+    expect(report.sentences[1].invalidCitations).toEqual([4]);
+    expect(report.sentences[1].verdict).toBe('unsupported');
+  });
+
+  it('should fall back to lexical overlap when embeddings fail', async () => {
+    const failingEmbed = async (): Promise<number[][]> => { throw new Error('offline'); };
+    const report = await verifyCitations('Metformin is the first-line treatment [1].', sources, { embed: failingEmbed });
+
+    expect(report.sentences[0].scores[0].semantic).toBeNull();
+    expect(report.sentences[0].verdict).toBe('supported');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Conversation tests
+ * History bounding, follow-up condensation (OpenAI is mocked), storing a
+ * question with its answer as one transaction (fixtures/mock-db.ts) and
+ * conversation ids that are not UUIDs
+ */
+
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { boundHistory, conversationTitle, ChatHistoryMessage, ConversationService } from '../lib/conversations';
+import { condenseQuestion, validateChatRequest } from '../lib/openai-chat';
+import { mockDatabase } from './fixtures/mock-db';
+
+const history: ChatHistoryMessage[] = [
+  { role: 'user', content: 'What is the first-line treatment for type 2 diabetes?' },
+  { role: 'assistant', content: 'Metformin is the first-line treatment for adults [1].' }
+];
+
+describe('Conversations', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should keep the newest messages within the message and character limits', () => {
+    const messages: ChatHistoryMessage[] = [
+      { role: 'user', content: 'a'.repeat(100) },
+      { role: 'assistant', content: 'b'.repeat(100) },
+      { role: 'user', content: 'c'.repeat(100) },
+      { role: 'assistant', content: 'd'.repeat(100) }
+    ];
+
+    expect(boundHistory(messages, 3, 10_000).map(m => m.content[0])).toEqual(['b', 'c', 'd']);
+    expect(boundHistory(messages, 10, 250).map(m => m.content[0])).toEqual(['c', 'd']);
+
+    // A single oversized message is truncated rather than dropped
+    const truncated = boundHistory(messages, 10, 40);
+    expect(truncated).toHaveLength(1);
+    expect(truncated[0].content).toBe('d'.repeat(40));
+  });
+
+  it('should derive a short title from the first question', () => {
+    expect(conversationTitle('  What is   metformin?  ')).toBe('What is metformin?');
+    expect(conversationTitle('x'.repeat(200))).toHaveLength(80);
+  });
+
+  it('should return the question unchanged without history', async () => {
+    global.fetch = jest.fn() as unknown as typeof fetch;
+
+    expect(await condenseQuestion('What is metformin?', [])).toBe('What is metformin?');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should rewrite follow-ups into standalone queries', async () => {
+    process.env.OPENAI_API_KEY = 'test-key';
+    const fetchMock = jest.fn(async (_url: any, _init?: any) => new Response(JSON.stringify({
+      choices: [{ message: { content: '"What is the first-line treatment for type 2 diabetes in children?"' } }],
+      usage: { total_tokens: 80 }
+    }), { status: 200 }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const condensed = await condenseQuestion('What about for children?', history);
+
+    expect(condensed).toBe('What is the first-line treatment for type 2 diabetes in children?');
+    const prompt = JSON.parse(fetchMock.mock.calls[0][1].body).messages[0].content;
+    expect(prompt).toContain('Metformin is the first-line treatment');
+    expect(prompt).toContain('What about for children?');
+  });
+
+  it('should fall back to the previous question when condensation fails', async () => {
+    process.env.OPENAI_API_KEY = 'test-key';
+    global.fetch = jest.fn(async () => new Response('{}', { status: 500 })) as unknown as typeof fetch;
+
+    expect(await condenseQuestion('What about for children?', history))
+      .toBe('What is the first-line treatment for type 2 diabetes? What about for children?');
+  });
+
+  it('should store a question and its answer together, creating a new conversation with them', async () => {
+    const database = mockDatabase(() => []);
+    const askedAt = new Date('2026-10-19T09:00:00Z');
+
+    try {
+      await ConversationService.addTurn({
+        conversationId: 'conv-1',
+        newConversation: { userId: 'user-1', title: '  What is   metformin?' },
+        question: 'What is metformin?',
+        askedAt,
+        answer: 'A biguanide [1].',
+        sources: [{ filename: 'metformin.pdf' }],
+        metadata: { modelUsed: 'gpt-4o-mini' }
+      });
+
+      expect(database.queries.map(query => query.text.split(' ').slice(0, 3).join(' '))).toEqual([
+        'BEGIN',
+        'INSERT INTO conversations',
+        'INSERT INTO conversation_messages',
+        'COMMIT'
+      ]);
+      expect(database.queries[1].params).toEqual(['conv-1', 'user-1', 'What is metformin?']);
+      expect(database.queries[2].params).toEqual([
+        'conv-1', 'What is metformin?', null, askedAt, 'A biguanide [1].',
+        '[{"filename":"metformin.pdf"}]', '{"modelUsed":"gpt-4o-mini"}'
+      ]);
+    } finally {
+      database.restore();
+    }
+  });
+
+  it('should store nothing when either message of a turn fails', async () => {
+    const database = mockDatabase((text) => {
+      if (text.startsWith('INSERT INTO conversation_messages')) throw new Error('connection terminated');
+    });
+
+    try {
+      await expect(ConversationService.addTurn({
+        conversationId: 'conv-1',
+        question: 'What about for children?',
+        standaloneQuery: 'Metformin dosing in children',
+        askedAt: new Date(),
+        answer: 'Not established [1].'
+      })).rejects.toThrow('connection terminated');
+
+      expect(database.matching('UPDATE conversations SET updated_at')).toHaveLength(1);
+      expect(database.matching('ROLLBACK')).toHaveLength(1);
+      expect(database.matching('COMMIT')).toHaveLength(0);
+    } finally {
+      database.restore();
+    }
+  });
+
+  it('should treat conversation ids that are not UUIDs as missing, or invalid in a chat request', async () => {
+    const database = mockDatabase(() => {
+      throw new Error('invalid input syntax for type uuid');
+    });
+
+    try {
+      expect(await ConversationService.getConversation('conv-1', 'user-1')).toBeNull();
+      expect(await ConversationService.deleteConversation('conv-1', 'user-1')).toBe(false);
+      expect(database.queries).toHaveLength(0);
+    } finally {
+      database.restore();
+    }
+
+    expect(validateChatRequest({ question: 'And for children?', conversationId: 'conv-1' }).error)
+      .toBe('conversationId must be a conversation id (UUID)');
+    expect(validateChatRequest({ question: 'And for children?', conversationId: '6f1c2a9e-3b7d-4e8a-9c1f-2d3e4f5a6b7c' }).isValid).toBe(true);
+  });
+});
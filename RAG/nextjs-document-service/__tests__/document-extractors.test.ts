@@ -0,0 +1,175 @@
+/**
+ * Document extractor tests
+ * HTML, DOCX, PPTX, XLSX and CSV uploads: headings kept as markdown, tables
+ * read into ExtractedTables with merged cells, slides and sheets as pages,
+ * and the uncompressed size limits on Office ZIPs. Office files are built in
+ * memory (fixtures/office-builder.ts).
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { processHtml } from '../lib/html-processor';
+import { processDocx, processPptx, processXlsx } from '../lib/office-processor';
+import { parseCsv, processCsv } from '../lib/csv-processor';
+import { readZip } from '../lib/zip';
+import { buildDocx, buildPptx, buildXlsx, buildZip } from './fixtures/office-builder';
+
+describe('Document Extractors', () => {
+  it('should read HTML headings, lists and tables', () => {
+    const result = processHtml(`<!DOCTYPE html>
+      <html><head><title>Formulary</title><style>p { color: red }</style></head>
+      <body>
+        <nav><a href="/">Home</a></nav>
+        <h1>Diabetes &amp; Dosing</h1>
+        <p>Start low,
+           go slow.<br>Review at 3&nbsp;months.
+        <ul><li>Metformin<ul><li>with food</ul><li>Insulin</ul>
+        <table>
+          <caption>Adult doses</caption>
+          <thead><tr><th rowspan="2">Drug<th colspan="2">Dose (mg)</tr><tr><th>Adult<th>Child</tr></thead>
+          <tr><td>Metformin<td>500<td>250
+          <tr><td>Insulin<td>10<td>5
+        </table>
+        <script>document.write('<p>tracking</p>')</script>
+      </body></html>`);
+
+    expect(result.text).toBe([
+      '# Diabetes & Dosing',
+      'Start low, go slow.\nReview at 3 months.',
+      '- Metformin\n  - with food\n- Insulin',
+      'Adult doses\n\n| Drug | Dose (mg) Adult | Dose (mg) Child |\n| --- | --- | --- |\n| Metformin | 500 | 250 |\n| Insulin | 10 | 5 |'
+    ].join('\n\n'));
+    expect(result.tables).toEqual([{
+      data: [['Metformin', '500', '250'], ['Insulin', '10', '5']],
+      headers: ['Drug', 'Dose (mg) Adult', 'Dose (mg) Child'],
+      rowCount: 2,
+      colCount: 3,
+      page: 1,
+      confidence: 1,
+      title: 'Adult doses'
+    }]);
+  });
+
+  it('should read DOCX heading styles, lists and merged table cells', () => {
+    // Style ids are localized; the style name says it is a heading
+    const styles = '<w:style w:type="paragraph" w:styleId="berschrift2"><w:name w:val="heading 2"/></w:style>';
+    const paragraph = (text: string, properties: string = '') => `<w:p><w:pPr>${properties}</w:pPr><w:r><w:t>${text}</w:t></w:r></w:p>`;
+    const cell = (text: string, properties: string = '') => `<w:tc><w:tcPr>${properties}</w:tcPr>${paragraph(text)}</w:tc>`;
+
+    const result = processDocx(buildDocx([
+      paragraph('Dosing', '<w:pStyle w:val="berschrift2"/>'),
+      '<w:p><w:r><w:t xml:space="preserve">Take </w:t></w:r><w:del><w:r><w:delText>never </w:delText></w:r></w:del>'
+        + '<w:hyperlink><w:r><w:t>with food</w:t></w:r></w:hyperlink><w:r><w:t>.</w:t></w:r></w:p>',
+      paragraph('Check renal function', '<w:numPr><w:ilvl w:val="0"/></w:numPr>'),
+      paragraph('eGFR above 30', '<w:numPr><w:ilvl w:val="1"/></w:numPr>'),
+      '<w:tbl>',
+      `<w:tr><w:trPr><w:tblHeader/></w:trPr>${cell('Drug')}${cell('Dose (mg)', '<w:gridSpan w:val="2"/>')}</w:tr>`,
+      `<w:tr>${cell('Metformin', '<w:vMerge w:val="restart"/>')}${cell('500')}${cell('twice daily')}</w:tr>`,
+      `<w:tr>${cell('', '<w:vMerge/>')}${cell('1000')}${cell('extended release')}</w:tr>`,
+      '</w:tbl>'
+    ].join(''), styles));
+
+    expect(result.text).toBe([
+      '## Dosing',
+      'Take with food.',
+      '- Check renal function\n  - eGFR above 30',
+      '| Drug | Dose (mg) | Dose (mg) |\n| --- | --- | --- |\n| Metformin | 500 | twice daily |\n| Metformin | 1000 | extended release |'
+    ].join('\n\n'));
+    expect(result.tables![0].data).toEqual([
+      ['Metformin', '500', 'twice daily'],
+      ['Metformin', '1000', 'extended release']
+    ]);
+  });
+
+  it('should keep PPTX slide numbers as pages', () => {
+    const shape = (text: string, placeholder: string = '') =>
+      `<p:sp><p:nvSpPr><p:nvPr>${placeholder}</p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sp>`;
+    const cell = (text: string, attributes: string = '') => `<a:tc${attributes}><a:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></a:txBody></a:tc>`;
+
+    const result = processPptx(buildPptx([
+      { shapes: shape('Hypertension', '<p:ph type="ctrTitle"/>') + shape('1', '<p:ph type="sldNum"/>') },
+      {
+        shapes: shape('First line agents', '<p:ph type="title"/>')
+          + '<p:grpSp>' + shape('ACE inhibitors', '<p:ph idx="1"/>') + '</p:grpSp>'
+          + '<p:graphicFrame><a:graphic><a:graphicData><a:tbl>'
+          + `<a:tr>${cell('Drug')}${cell('Dose', ' gridSpan="2"')}${cell('', ' hMerge="1"')}</a:tr>`
+          + `<a:tr>${cell('Lisinopril')}${cell('10 mg')}${cell('daily')}</a:tr>`
+          + '</a:tbl></a:graphicData></a:graphic></p:graphicFrame>',
+        notes: shape('Slide image', '<p:ph type="sldImg"/>') + shape('Mention renal monitoring', '<p:ph type="body" idx="1"/>')
+      }
+    ]));
+
+    expect(result.text).toBe([
+      '# Hypertension',
+      '# First line agents\n\nACE inhibitors\n\n| Drug | Dose | Dose |\n| --- | --- | --- |\n| Lisinopril | 10 mg | daily |\n\nSpeaker notes:\nMention renal monitoring'
+    ].join('\n\n'));
+    expect(Array.from(result.pageMap!.values()).map(({ page }) => page)).toEqual([1, 2]);
+    const [, second] = Array.from(result.pageMap!.values());
+    expect(result.text.slice(second.start, second.end).startsWith('# First line agents')).toBe(true);
+    expect(result.tables).toHaveLength(1);
+    expect(result.tables![0].page).toBe(2);
+  });
+
+  it('should turn XLSX sheets into tables with merged headers and dates', () => {
+    const strings = ['Drug', 'Dose (mg)', 'Adult', 'Child', 'Metformin', 'Reviewed'];
+    const styles = '<numFmts><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/></numFmts>'
+      + '<cellXfs><xf numFmtId="0"/><xf numFmtId="164"/></cellXfs>';
+
+    const result = processXlsx(buildXlsx([
+      {
+        name: 'Doses',
+        merges: ['B2:C2', 'A2:A3'],
+        rows: '<row r="2"><c r="A2" t="s"><v>0</v></c><c r="B2" t="s"><v>1</v></c></row>'
+          + '<row r="3"><c r="B3" t="s"><v>2</v></c><c r="C3" t="s"><v>3</v></c><c r="D3" t="s"><v>5</v></c></row>'
+          + '<row r="4"><c r="A4" t="s"><v>4</v></c><c r="B4"><v>500</v></c><c r="C4"><v>0.30000000000000004</v></c>'
+          + '<c r="D4" s="1"><v>45292</v></c></row>'
+      },
+      { name: 'Old', hidden: true, rows: '<row r="1"><c r="A1" t="inlineStr"><is><t>ignored</t></is></c></row>' },
+      { name: 'Notes', rows: '<row r="1"><c r="A1" t="inlineStr"><is><t>Reviewed yearly</t></is></c></row>' }
+    ], strings, styles));
+
+    expect(result.tables).toEqual([{
+      data: [['Metformin', '500', '0.3', '2024-01-01']],
+      headers: ['Drug', 'Dose (mg) Adult', 'Dose (mg) Child', 'Reviewed'],
+      rowCount: 1,
+      colCount: 4,
+      page: 1,
+      confidence: 1,
+      title: 'Doses'
+    }]);
+    expect(result.text).toBe(
+      '## Doses\n\n| Drug | Dose (mg) Adult | Dose (mg) Child | Reviewed |\n| --- | --- | --- | --- |\n| Metformin | 500 | 0.3 | 2024-01-01 |'
+      + '\n\n## Notes\nReviewed yearly'
+    );
+    expect(Array.from(result.pageMap!.values()).map(({ page }) => page)).toEqual([1, 2]);
+  });
+
+  it('should parse quoted CSV fields and detect the delimiter', () => {
+    expect(parseCsv('Drug,Notes\r\nMetformin,"with food, ""twice""\ndaily"\r\n')).toEqual([
+      ['Drug', 'Notes'],
+      ['Metformin', 'with food, "twice"\ndaily']
+    ]);
+
+    const result = processCsv(Buffer.from('\uFEFFDrug;Dose (mg)\nMetformin;500\nInsulin;10\n'), 'doses');
+    expect(result.tables![0].headers).toEqual(['Drug', 'Dose (mg)']);
+    expect(result.tables![0].data).toEqual([['Metformin', '500'], ['Insulin', '10']]);
+    expect(result.tables![0].title).toBe('doses');
+    expect(result.text).toBe('| Drug | Dose (mg) |\n| --- | --- |\n| Metformin | 500 |\n| Insulin | 10 |');
+  });
+
+  it('should reject ZIP entries and archives that inflate past the limits', () => {
+    const limits = { maxEntrySize: 1000, maxTotalSize: 1500 };
+    const zip = buildZip({ 'a.xml': 'a'.repeat(800), 'b.xml': 'b'.repeat(800) });
+
+    expect(readZip(zip, name => name === 'a.xml', limits).get('a.xml')!.length).toBe(800);
+    expect(() => readZip(zip, () => true, limits)).toThrow('ZIP archive is larger than 1500 bytes uncompressed');
+    expect(() => readZip(buildZip({ 'big.xml': 'x'.repeat(5000) }), () => true, limits))
+      .toThrow('ZIP entry big.xml is larger than 1000 bytes uncompressed');
+
+    // A central directory that understates the size is caught while inflating
+    const understated = buildZip({ 'bomb.xml': 'x'.repeat(5000) });
+    understated.writeUInt32LE(10, understated.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+    expect(() => readZip(understated, () => true, limits)).toThrow('ZIP entry bomb.xml inflates past the 1000 byte limit');
+
+    expect(() => readZip(Buffer.from('PK'))).toThrow('Not a ZIP archive');
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Document version tests
+ * Version selectors, version scopes over own and shared documents, and
+ * chunk identity, then diff-aware ingestion against a
+ * stand-in database (fixtures/mock-db.ts): unchanged chunks are matched by
+ * hash, copied into a new version or moved in place by a reindex, and only
+ * changed chunks are embedded. A failed reindex leaves the document alone.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import { parseVersionSelector, parseVersionScope, hashChunkText, DocumentVersionService } from '../lib/document-versions';
+import { EmbeddingProvider, setEmbeddingProvider } from '../lib/embedding-providers';
+import { ingestDocument, IngestionError } from '../lib/ingestion';
+import { processingEmitter } from '../lib/realtime';
+import { mockDatabase, QueryResponder } from './fixtures/mock-db';
+
+// Two sections, so the markdown chunker makes two chunks
+const KEPT = '# Dosing\n\nStart metformin at 500 mg.';
+const CHANGED = '# Monitoring\n\nCheck eGFR every year.';
+const UPLOAD = { userId: 'user-1', filename: 'metformin.md', fileType: 'text/markdown' };
+
+function fakeProvider(fail: boolean = false) {
+  const calls: string[][] = [];
+  const provider: EmbeddingProvider = {
+    name: 'fake',
+    model: 'test-embed',
+    dimensions: 2,
+    embed: async (texts: string[]) => {
+      calls.push(texts);
+      if (fail) throw new Error('Embedding provider unavailable (503)');
+      return { embeddings: texts.map(() => [0.6, 0.8]), usage: { prompt_tokens: 4, total_tokens: 4 } };
+    }
+  };
+  return { provider, calls };
+}
+
+// Answers the statements ingestion sends, with `overrides` tried first
+function ingestionDatabase(overrides: QueryResponder = () => undefined) {
+  return mockDatabase(async (text, params) => {
+    const override = await overrides(text, params);
+    if (override) return override;
+    if (text.includes('FROM chunks WHERE document_id = $1 AND embedding IS NOT NULL')) {
+      return [{ id: 'old-kept', text: KEPT }, { id: 'old-removed', text: '# Storage\n\nKeep below 25 C.' }];
+    }
+    if (text.startsWith('INSERT INTO chunks') && text.includes('VALUES')) return [{ id: `new-${params[1]}` }];
+    if (text.startsWith('INSERT INTO chunks')) return [{ id: `copy-${params[1]}` }];
+    if (text.startsWith('UPDATE chunks')) return [{ id: params[0] }];
+    if (/^(BEGIN|COMMIT|ROLLBACK|DELETE|UPDATE documents|UPDATE embedding_cache|INSERT INTO embedding_cache)/.test(text)) return [];
+    throw new Error(`Unexpected query: ${text}`);
+  });
+}
+
+describe('Document Versions', () => {
+  it('should default the version selector to latest', () => {
+    expect(parseVersionSelector(undefined)).toBe('latest');
+    expect(parseVersionSelector(null)).toBe('latest');
+    expect(parseVersionSelector('latest')).toBe('latest');
+    expect(parseVersionSelector('all')).toBe('all');
+  });
+
+  it('should accept positive integer versions from JSON or query strings', () => {
+    expect(parseVersionSelector(3)).toBe(3);
+    expect(parseVersionSelector('2')).toBe(2);
+  });
+
+  it('should reject invalid version selectors', () => {
+    expect(parseVersionSelector(0)).toBeNull();
+    expect(parseVersionSelector(-1)).toBeNull();
+    expect(parseVersionSelector(1.5)).toBeNull();
+    expect(parseVersionSelector('newest')).toBeNull();
+    expect(parseVersionSelector({})).toBeNull();
+  });
+
+  it('should need a family id for a version number and accept only UUIDs for it', () => {
+    const familyId = '0b6f6b0e-8a9e-4f0e-9a57-3c1f2d4e5a6b';
+
+    expect(parseVersionScope(2, familyId)).toEqual({ version: 2, familyId });
+    expect(parseVersionScope('all', undefined)).toEqual({ version: 'all', familyId: undefined });
+    expect(parseVersionScope(2, undefined).error).toBe('A numeric version needs a familyId: version numbers count within one document family');
+    expect(parseVersionScope('latest', 'metformin').error).toBe('familyId must be a document family id (UUID)');
+  });
+
+  it('should pin versions among the documents the search reads, shared ones included', async () => {
+    const familyId = '0b6f6b0e-8a9e-4f0e-9a57-3c1f2d4e5a6b';
+    const collectionId = '7d2c8e4a-1f3b-4c5d-8e9f-0a1b2c3d4e5f';
+    const database = mockDatabase(() => [{ id: 'doc-v2' }]);
+
+    try {
+      const own = await DocumentVersionService.resolveScope('user-1', 2, familyId);
+      const shared = await DocumentVersionService.resolveScope('user-1', 2, familyId, [collectionId]);
+
+      expect(own).toEqual({ latestOnly: false, documentIds: ['doc-v2'] });
+      expect(shared).toEqual(own);
+      expect(database.queries[0].text).toContain('WHERE d.user_id = $1');
+      expect(database.queries[1].text).toContain('collection_family_ids($1, $5::uuid[])');
+      expect(database.queries[1].params).toEqual(['user-1', familyId, 2, false, [collectionId]]);
+    } finally {
+      database.restore();
+    }
+  });
+
+  it('should identify chunks by exact text', () => {
+    const text = 'Metformin is first-line therapy for type 2 diabetes';
+
+    expect(hashChunkText(text)).toBe(hashChunkText(text));
+    expect(hashChunkText(text)).not.toBe(hashChunkText(`${text}.`));
+    expect(hashChunkText(text)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  describe('diff-aware ingestion', () => {
+    // Failed jobs emit 'error', which throws without a listener (the SSE route is one)
+    const onError = () => undefined;
+    let database: ReturnType<typeof mockDatabase> | null = null;
+
+    beforeAll(() => {
+      processingEmitter.on('error', onError);
+    });
+
+    afterAll(() => {
+      processingEmitter.off('error', onError);
+    });
+
+    afterEach(() => {
+      database?.restore();
+      database = null;
+      setEmbeddingProvider(null);
+    });
+
+    it('should match reusable chunks by text hash for the current model', async () => {
+      database = mockDatabase(() => [{ id: 'a', text: KEPT }, { id: 'b', text: CHANGED }, { id: 'c', text: KEPT }]);
+
+      const reusable = await DocumentVersionService.getReusableChunks('doc-1', 'test-embed', 2);
+
+      expect(Array.from(reusable.entries())).toEqual([
+        [hashChunkText(KEPT), ['a', 'c']],
+        [hashChunkText(CHANGED), ['b']]
+      ]);
+      expect(database.queries[0].params).toEqual(['doc-1', 'test-embed', 2]);
+    });
+
+    it('should copy unchanged chunks into a new version and embed only the changed ones', async () => {
+      database = ingestionDatabase((text) => {
+        if (text.includes("metadata->>'contentHash'")) return [];
+        if (text.includes('SELECT d.family_id')) return [{ family_id: 'family-1', latest_id: 'doc-1', max_version: '1' }];
+        if (text.startsWith('INSERT INTO documents')) return [{ id: 'doc-2' }];
+      });
+      const { provider, calls } = fakeProvider();
+      setEmbeddingProvider(provider);
+
+      const text = `${KEPT}\n\n${CHANGED}`;
+      const result = await ingestDocument({ ...UPLOAD, fileSize: text.length, buffer: Buffer.from(text) });
+
+      expect(calls).toEqual([[CHANGED.replace(/\n/g, ' ')]]);
+      expect(result.document).toMatchObject({ id: 'doc-2', version: 2, previousVersionId: 'doc-1', reusedChunks: 1, embeddedChunks: 1 });
+
+      const [copied] = database.matching('SELECT $1, $2, text, word_count');
+      expect(copied.params[0]).toBe('doc-2');
+      expect(copied.params[1]).toBe(0);
+      expect(copied.params[4]).toBe('old-kept');
+      expect(JSON.parse(copied.params[3])).toMatchObject({ embeddingReused: true, reusedFromChunkId: 'old-kept' });
+      const embedded = database.matching('VALUES ($1, $2, $3').filter(query => query.text.startsWith('INSERT INTO chunks'));
+      expect(embedded.map(query => query.params.slice(0, 3))).toEqual([['doc-2', 1, CHANGED]]);
+      expect(database.matching('SET is_latest')).toHaveLength(1);
+    });
+
+    it('should move kept chunks in place when reindexing, in one transaction', async () => {
+      database = ingestionDatabase((text) => {
+        if (text.startsWith('SELECT id FROM documents')) return [{ id: 'doc-1' }];
+        if (text.startsWith('UPDATE documents')) return [{ id: 'doc-1' }];
+      });
+      const { provider, calls } = fakeProvider();
+      setEmbeddingProvider(provider);
+
+      const text = `${CHANGED}\n\n${KEPT}`;
+      const result = await ingestDocument({ ...UPLOAD, fileSize: text.length, buffer: Buffer.from(text), targetDocumentId: 'doc-1' });
+
+      expect(calls).toHaveLength(1);
+      expect(result.document).toMatchObject({ id: 'doc-1', reusedChunks: 1, embeddedChunks: 1 });
+
+      const writes = database.queries
+        .filter(query => !query.text.includes('embedding_cache') && !query.text.startsWith('SELECT'))
+        .map(query => query.text.split(' ').slice(0, 3).join(' '));
+      expect(writes).toEqual([
+        'BEGIN',
+        'UPDATE documents SET',
+        'DELETE FROM medical_tables',
+        'INSERT INTO chunks',
+        'UPDATE chunks SET',
+        'DELETE FROM chunks',
+        'COMMIT'
+      ]);
+      expect(database.matching('UPDATE chunks')[0].params.slice(0, 2)).toEqual(['old-kept', 1]);
+      expect(database.matching('DELETE FROM chunks')[0].params).toEqual(['doc-1', ['new-0', 'old-kept']]);
+    });
+
+    it('should leave a document untouched when its reindex fails', async () => {
+      database = ingestionDatabase((text) => {
+        if (text.startsWith('SELECT id FROM documents')) return [{ id: 'doc-1' }];
+      });
+      setEmbeddingProvider(fakeProvider(true).provider);
+
+      const text = `${KEPT}\n\n${CHANGED}`;
+      await expect(ingestDocument({ ...UPLOAD, fileSize: text.length, buffer: Buffer.from(text), targetDocumentId: 'doc-1' }))
+        .rejects.toThrow(IngestionError);
+      expect(database.queries.filter(query => !query.text.startsWith('SELECT') && !query.text.includes('embedding_cache'))).toEqual([]);
+      database.restore();
+
+      // A failure while storing rolls back instead of marking the document failed
+      database = ingestionDatabase((text) => {
+        if (text.startsWith('SELECT id FROM documents')) return [{ id: 'doc-1' }];
+        if (text.startsWith('UPDATE documents')) return [{ id: 'doc-1' }];
+        if (text.startsWith('INSERT INTO chunks')) throw new Error('deadlock detected');
+      });
+      setEmbeddingProvider(fakeProvider().provider);
+
+      await expect(ingestDocument({ ...UPLOAD, fileSize: text.length, buffer: Buffer.from(text), targetDocumentId: 'doc-1' }))
+        .rejects.toThrow('deadlock detected');
+      expect(database.matching('ROLLBACK')).toHaveLength(1);
+      expect(database.matching('COMMIT')).toHaveLength(0);
+      expect(database.queries.filter(query => query.params.includes('failed'))).toEqual([]);
+    });
+  });
+});
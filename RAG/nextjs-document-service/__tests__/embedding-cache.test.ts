@@ -0,0 +1,161 @@
+/**
+ * Embedding cache tests
+ * Batch embedding through the cache: hits skip the provider, misses are
+ * embedded once and stored under their model and dimensions, usage counts
+ * only what was embedded, and a failing cache query falls back to the
+ * provider. The cache table is an in-memory stand-in (fixtures/mock-db.ts).
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { EmbeddingProvider, setEmbeddingProvider } from '../lib/embedding-providers';
+import { EmbeddingCache, hashEmbeddingText } from '../lib/embedding-cache';
+import { generateBatchEmbeddings } from '../lib/embeddings';
+import { mockDatabase } from './fixtures/mock-db';
+
+// Embeds each text as [length, dimensions] and records what it was asked for
+function fakeProvider(model: string = 'test-embed', dimensions: number = 2) {
+  const calls: string[][] = [];
+  const provider: EmbeddingProvider = {
+    name: 'fake',
+    model,
+    dimensions,
+    embed: async (texts: string[]) => {
+      calls.push(texts);
+      return {
+        embeddings: texts.map(text => [text.length, dimensions]),
+        usage: { prompt_tokens: texts.length * 5, total_tokens: texts.length * 5 }
+      };
+    }
+  };
+  return { provider, calls };
+}
+
+// embedding_cache rows keyed by model, dimensions and content hash
+function cacheTable(failOn?: 'lookup' | 'store') {
+  const rows = new Map<string, string>();
+  const key = (model: string, dimensions: number, hash: string) => `${model}|${dimensions}|${hash}`;
+
+  const database = mockDatabase((text, params) => {
+    if (text.startsWith('UPDATE embedding_cache')) {
+      if (failOn === 'lookup') throw new Error('relation "embedding_cache" does not exist');
+      const [model, dimensions, hashes] = params;
+      return (hashes as string[])
+        .filter(hash => rows.has(key(model, dimensions, hash)))
+        .map(hash => ({ content_hash: hash, embedding: rows.get(key(model, dimensions, hash)) }));
+    }
+    if (text.startsWith('INSERT INTO embedding_cache')) {
+      if (failOn === 'store') throw new Error('connection terminated');
+      const [hashes, embeddings, model, dimensions] = params;
+      (hashes as string[]).forEach((hash, index) => rows.set(key(model, dimensions, hash), embeddings[index]));
+      return [];
+    }
+    throw new Error(`Unexpected query: ${text}`);
+  });
+
+  return { rows, key, database };
+}
+
+describe('Embedding Cache', () => {
+  let restore: (() => void) | null = null;
+
+  afterEach(() => {
+    restore?.();
+    restore = null;
+    setEmbeddingProvider(null);
+  });
+
+  it('should embed only the misses and count only their usage', async () => {
+    const table = cacheTable();
+    restore = table.database.restore;
+    table.rows.set(table.key('test-embed', 2, hashEmbeddingText('cached text')), '[0.5,0.25]');
+    const { provider, calls } = fakeProvider();
+    setEmbeddingProvider(provider);
+
+    const result = await generateBatchEmbeddings(['cached text', 'new text']);
+
+    expect(result.embeddings).toEqual([[0.5, 0.25], [8, 2]]);
+    expect(calls).toEqual([['new text']]);
+    expect(result.usage).toEqual({ prompt_tokens: 5, total_tokens: 5 });
+
+    // The miss is stored and is a hit next time
+    expect(table.database.matching('INSERT INTO embedding_cache')[0].params[0]).toEqual([hashEmbeddingText('new text')]);
+    const again = await generateBatchEmbeddings(['new text']);
+    expect(again.embeddings).toEqual([[8, 2]]);
+    expect(again.usage.total_tokens).toBe(0);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should embed duplicate texts in a batch once', async () => {
+    const table = cacheTable();
+    restore = table.database.restore;
+    const { provider, calls } = fakeProvider();
+    setEmbeddingProvider(provider);
+
+    const result = await generateBatchEmbeddings(['metformin', 'insulin', 'metformin']);
+
+    expect(calls).toEqual([['metformin', 'insulin']]);
+    expect(result.embeddings).toEqual([[9, 2], [7, 2], [9, 2]]);
+    expect(result.usage.total_tokens).toBe(10);
+    expect(table.database.matching('UPDATE embedding_cache')[0].params[2]).toHaveLength(2);
+  });
+
+  it('should keep entries for other models and dimensions apart', async () => {
+    const table = cacheTable();
+    restore = table.database.restore;
+    const first = fakeProvider('model-a', 2);
+    setEmbeddingProvider(first.provider);
+    await generateBatchEmbeddings(['metformin']);
+
+    const otherModel = fakeProvider('model-b', 2);
+    setEmbeddingProvider(otherModel.provider);
+    await generateBatchEmbeddings(['metformin']);
+
+    const otherDimensions = fakeProvider('model-a', 3);
+    setEmbeddingProvider(otherDimensions.provider);
+    const result = await generateBatchEmbeddings(['metformin']);
+
+    expect(otherModel.calls).toEqual([['metformin']]);
+    expect(otherDimensions.calls).toEqual([['metformin']]);
+    expect(result.embeddings).toEqual([[9, 3]]);
+    expect(table.rows.size).toBe(3);
+  });
+
+  it('should fall back to the provider when the cache queries fail', async () => {
+    const lookupFails = cacheTable('lookup');
+    restore = lookupFails.database.restore;
+    const { provider, calls } = fakeProvider();
+    setEmbeddingProvider(provider);
+
+    const looked = await generateBatchEmbeddings(['metformin', 'insulin']);
+    expect(looked.embeddings).toEqual([[9, 2], [7, 2]]);
+    expect(calls).toEqual([['metformin', 'insulin']]);
+    lookupFails.database.restore();
+
+    const storeFails = cacheTable('store');
+    restore = storeFails.database.restore;
+    const stored = await generateBatchEmbeddings(['metformin']);
+    expect(stored.embeddings).toEqual([[9, 2]]);
+    expect(stored.usage.total_tokens).toBe(5);
+    expect(storeFails.rows.size).toBe(0);
+  });
+
+  it('should count hits and misses per unique text', async () => {
+    const table = cacheTable();
+    restore = table.database.restore;
+    table.rows.set(table.key('test-embed', 2, hashEmbeddingText('cached text')), '[1,0]');
+    const cache = new EmbeddingCache();
+
+    const found = await cache.lookup(['cached text', 'cached text', 'other'], 'test-embed', 2);
+
+    expect(Array.from(found.entries())).toEqual([['cached text', [1, 0]]]);
+    // Lifetime totals are unavailable here (the stats query fails), session counts are not
+    expect(await cache.getStats(true)).toEqual({
+      enabled: true,
+      sessionHits: 1,
+      sessionMisses: 1,
+      sessionHitRate: 0.5,
+      totalEntries: 0,
+      lifetimeHits: 0
+    });
+  });
+});
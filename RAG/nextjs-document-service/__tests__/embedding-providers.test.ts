@@ -0,0 +1,64 @@
+/**
+ * Embedding provider tests
+ * Uses the offline hashing provider so no API calls are made
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { HashingEmbeddingProvider, createEmbeddingProvider } from '../lib/embedding-providers';
+import { calculateCosineSimilarity } from '../lib/embeddings';
+
+describe('Embedding Providers', () => {
+  const provider = new HashingEmbeddingProvider({ dimensions: 1536 });
+
+  it('should produce vectors with the configured dimensions', async () => {
+    const { embeddings } = await provider.embed(['Metformin is first-line therapy for type 2 diabetes']);
+
+    expect(embeddings).toHaveLength(1);
+    expect(embeddings[0]).toHaveLength(1536);
+  });
+
+  it('should be deterministic and unit length', async () => {
+    const text = 'Insulin dosing for children';
+    const first = await provider.embed([text]);
+    const second = await provider.embed([text]);
+
+    expect(first.embeddings[0]).toEqual(second.embeddings[0]);
+
+    const magnitude = Math.sqrt(first.embeddings[0].reduce((sum, val) => sum + val * val, 0));
+    expect(magnitude).toBeCloseTo(1, 6);
+  });
+
+  it('should rank related text above unrelated text', async () => {
+    const { embeddings } = await provider.embed([
+      'blood glucose monitoring in diabetes',
+      'monitoring blood glucose for diabetes patients',
+      'scope of practice for pharmacists in Ontario'
+    ]);
+
+    const related = calculateCosineSimilarity(embeddings[0], embeddings[1]);
+    const unrelated = calculateCosineSimilarity(embeddings[0], embeddings[2]);
+
+    expect(related).toBeGreaterThan(unrelated);
+  });
+
+  it('should select providers from configuration', () => {
+    const base = {
+      apiKey: '',
+      embeddingModel: 'text-embedding-3-small',
+      chatModel: 'gpt-4',
+      embeddingDimensions: 256,
+      maxBatchSize: 100,
+      localEmbeddingUrl: 'http://localhost:8080/v1/embeddings',
+      localEmbeddingModel: 'nomic-embed-text',
+      embeddingCacheEnabled: false
+    };
+
+    const hashing = createEmbeddingProvider({ ...base, embeddingProvider: 'hashing' });
+    expect(hashing.name).toBe('hashing');
+    expect(hashing.dimensions).toBe(256);
+
+    const local = createEmbeddingProvider({ ...base, embeddingProvider: 'local' });
+    expect(local.name).toBe('local');
+    expect(local.model).toBe('nomic-embed-text');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Feedback tests
+ * Parsing answer ratings and source marks, smoothing the marks into chunk
+ * boosts, turning rated queries into eval cases, and the reranker adding
+ * the boosts to its scores
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { parseFeedback, computeChunkBoost, buildFeedbackEvalCases } from '../lib/feedback';
+import { applyReranker, applyFeedbackBoosts, setReranker, setFeedbackBoostLoader } from '../lib/reranker';
+import { formatGoldenSet, parseGoldenSet } from '../lib/retrieval-eval';
+
+const CHUNK_A = '11111111-1111-4111-8111-111111111111';
+const CHUNK_B = '22222222-2222-4222-8222-222222222222';
+
+describe('Feedback', () => {
+  afterEach(() => {
+    setReranker(null);
+    setFeedbackBoostLoader(null);
+  });
+
+  it('should parse answer ratings and source marks', () => {
+    expect(parseFeedback({ answer: { rating: 'down', comment: '  Wrong dosage  ' } }).feedback).toEqual({
+      answer: { rating: 'down', comment: 'Wrong dosage' },
+      sources: []
+    });
+
+    // A chunk marked twice keeps its last mark
+    const { feedback } = parseFeedback({
+      sources: [{ chunkId: CHUNK_A, relevant: true }, { chunkId: CHUNK_B, relevant: true }, { chunkId: CHUNK_A, relevant: false }]
+    });
+    expect(feedback).toEqual({
+      answer: null,
+      sources: [{ chunkId: CHUNK_A, relevant: false }, { chunkId: CHUNK_B, relevant: true }]
+    });
+
+    expect(parseFeedback({}).error).toContain('answer feedback');
+    expect(parseFeedback({ answer: { rating: 5 } }).error).toContain('answer.rating');
+    expect(parseFeedback({ sources: [{ chunkId: 'chunk-1', relevant: true }] }).error).toContain('chunkId');
+    expect(parseFeedback({ answer: { rating: 'up', comment: 'x'.repeat(2001) } }).error).toContain('answer.comment');
+  });
+
+  it('should turn source marks into smoothed boosts', () => {
+    const options = { weight: 0.2, minVotes: 3 };
+    expect(computeChunkBoost(2, 0, options)).toBe(0);
+    expect(computeChunkBoost(3, 0, options)).toBe(0.1);
+    expect(computeChunkBoost(1, 5, options)).toBe(-0.0889);
+    expect(computeChunkBoost(20, 0, options)).toBeLessThan(0.2);
+    expect(computeChunkBoost(4, 4, options)).toBe(0);
+  });
+
+  it('should build eval cases from rated queries', () => {
+    const cases = buildFeedbackEvalCases([
+      { query_id: '7', query_text: 'Metformin dose? ', result_count: 5, answer_rating: 1, relevant_chunk_ids: [CHUNK_A] },
+      { query_id: '9', query_text: 'metformin dose?', result_count: 5, answer_rating: null, relevant_chunk_ids: [CHUNK_A, CHUNK_B] },
+      { query_id: '12', query_text: 'Price of insulin', result_count: 0, answer_rating: 1, relevant_chunk_ids: [] },
+      { query_id: '15', query_text: 'Side effects', result_count: 4, answer_rating: -1, relevant_chunk_ids: [] }
+    ]);
+
+    expect(cases).toEqual([
+      { id: 'fb-7', question: 'Metformin dose?', relevant: [{ chunkId: CHUNK_A }, { chunkId: CHUNK_B }], answerable: true },
+      { id: 'fb-12', question: 'Price of insulin', relevant: [], answerable: false }
+    ]);
+    expect(parseGoldenSet(formatGoldenSet(cases, 'From feedback'))).toEqual(cases);
+  });
+
+  it('should add feedback boosts to reranked scores', async () => {
+    const candidates = [
+      { chunk_id: CHUNK_A, chunk_text: 'a', chunk_index: 0, score: 0.9 },
+      { chunk_id: CHUNK_B, chunk_text: 'b', chunk_index: 1, score: 0.8 }
+    ];
+    const boosts = new Map([[CHUNK_A, -0.15]]);
+
+    expect(applyFeedbackBoosts([{ score: 0.9, factors: {} }, { score: 0.8, factors: {} }], candidates, boosts)).toEqual([
+      { score: 0.75, factors: { feedback_boost: -0.15 } },
+      { score: 0.8, factors: {} }
+    ]);
+
+    setReranker({ name: 'heuristic', score: async (_query, items) => items.map(item => ({ score: item.score, factors: {} })) });
+    setFeedbackBoostLoader(async () => boosts);
+
+    const boosted = await applyReranker('q', candidates, { reranker: 'heuristic', topN: 2, feedback: true }, c => c);
+    expect(boosted.results.map(r => r.chunk_id)).toEqual([CHUNK_B, CHUNK_A]);
+    expect(boosted.details.feedbackBoosted).toBe(1);
+
+    const plain = await applyReranker('q', candidates, { reranker: 'heuristic', topN: 2, feedback: false }, c => c);
+    expect(plain.results.map(r => r.chunk_id)).toEqual([CHUNK_A, CHUNK_B]);
+    expect(plain.details.feedbackBoosted).toBeUndefined();
+  });
+});
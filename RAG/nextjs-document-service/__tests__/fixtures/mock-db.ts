@@ -0,0 +1,41 @@
+/**
+ * Stands in for the database singleton: every statement sent through
+ * db.query or a db.getClient() client goes to `respond`, which returns the
+ * rows for it or throws. Statements are recorded in order, with whitespace
+ * collapsed so tests can match on fragments of the SQL.
+ */
+
+import { jest } from '@jest/globals';
+import { db } from '../../lib/database';
+
+export interface RecordedQuery {
+  text: string;
+  params: any[];
+}
+
+export type QueryResponder = (text: string, params: any[]) => any[] | void | Promise<any[] | void>;
+
+export function mockDatabase(respond: QueryResponder) {
+  const queries: RecordedQuery[] = [];
+
+  const run = async (text: string, params?: any[]) => {
+    const query = { text: text.replace(/\s+/g, ' ').trim(), params: params || [] };
+    queries.push(query);
+    const rows = (await respond(query.text, query.params)) || [];
+    return { rows, rowCount: rows.length };
+  };
+
+  const querySpy = jest.spyOn(db, 'query').mockImplementation(run);
+  const clientSpy = jest.spyOn(db, 'getClient').mockImplementation(async () =>
+    ({ query: run, release: () => undefined }) as any);
+
+  return {
+    queries,
+    // Statements whose text contains the fragment
+    matching: (fragment: string) => queries.filter(query => query.text.includes(fragment)),
+    restore: () => {
+      querySpy.mockRestore();
+      clientSpy.mockRestore();
+    }
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Builds small Office Open XML fixtures in memory: a ZIP of the given XML
+ * parts, with the package relationships each format needs. Part contents
+ * are written without namespace declarations, which the reader ignores.
+ */
+
+import { deflateRawSync } from 'zlib';
+
+// Entries are deflated; CRCs are left at zero because the reader does not check them
+export function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const raw = Buffer.from(content, 'utf8');
+    const data = deflateRawSync(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function relationships(targets: Array<{ id: string; type: string; target: string }>): string {
+  const rels = targets.map(rel =>
+    `<Relationship Id="${rel.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${rel.type}" Target="${rel.target}"/>`);
+  return `<?xml version="1.0" encoding="UTF-8"?><Relationships>${rels.join('')}</Relationships>`;
+}
+
+export function buildDocx(body: string, styles?: string): Buffer {
+  return buildZip({
+    'word/document.xml': `<?xml version="1.0" encoding="UTF-8"?><w:document><w:body>${body}</w:body></w:document>`,
+    ...(styles && { 'word/styles.xml': `<w:styles>${styles}</w:styles>` })
+  });
+}
+
+/**
+ * Slides are listed in the given order but stored under reversed file names,
+ * so reading them in file order would get them wrong
+ */
+export function buildPptx(slides: Array<{ shapes: string; notes?: string }>): Buffer {
+  const files: Record<string, string> = {};
+  const slideIds = slides.map((slide, index) => {
+    const file = `slide${slides.length - index}.xml`;
+    files[`ppt/slides/${file}`] = `<p:sld><p:cSld><p:spTree>${slide.shapes}</p:spTree></p:cSld></p:sld>`;
+    if (slide.notes) {
+      files[`ppt/notesSlides/notes${index + 1}.xml`] = `<p:notes><p:cSld><p:spTree>${slide.notes}</p:spTree></p:cSld></p:notes>`;
+      files[`ppt/slides/_rels/${file}.rels`] = relationships([{ id: 'rId1', type: 'notesSlide', target: `../notesSlides/notes${index + 1}.xml` }]);
+    }
+    return { id: `rId${index + 1}`, type: 'slide', target: `slides/${file}` };
+  });
+
+  files['ppt/presentation.xml'] = `<p:presentation><p:sldIdLst>${
+    slideIds.map((rel, index) => `<p:sldId id="${256 + index}" r:id="${rel.id}"/>`).join('')
+  }</p:sldIdLst></p:presentation>`;
+  files['ppt/_rels/presentation.xml.rels'] = relationships(slideIds);
+  return buildZip(files);
+}
+
+export function buildXlsx(
+  sheets: Array<{ name: string; rows: string; merges?: string[]; hidden?: boolean }>,
+  sharedStrings: string[],
+  styles?: string
+): Buffer {
+  const files: Record<string, string> = {
+    'xl/workbook.xml': `<workbook><sheets>${
+      sheets.map((sheet, index) =>
+        `<sheet name="${sheet.name}" sheetId="${index + 1}"${sheet.hidden ? ' state="hidden"' : ''} r:id="rId${index + 1}"/>`).join('')
+    }</sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': relationships(sheets.map((_, index) =>
+      ({ id: `rId${index + 1}`, type: 'worksheet', target: `worksheets/sheet${index + 1}.xml` }))),
+    'xl/sharedStrings.xml': `<sst>${sharedStrings.map(text => `<si><t>${text}</t></si>`).join('')}</sst>`,
+    ...(styles && { 'xl/styles.xml': `<styleSheet>${styles}</styleSheet>` })
+  };
+  sheets.forEach((sheet, index) => {
+    const merges = sheet.merges ? `<mergeCells>${sheet.merges.map(ref => `<mergeCell ref="${ref}"/>`).join('')}</mergeCells>` : '';
+    files[`xl/worksheets/sheet${index + 1}.xml`] = `<worksheet><sheetData>${sheet.rows}</sheetData>${merges}</worksheet>`;
+  });
+  return buildZip(files);
+}
@@ -0,0 +1,82 @@
+/**
+ * Builds small PDF fixtures in memory: text runs in Helvetica, stroked
+ * lines at given positions (PDF units, origin at the bottom left of a
+ * 612x792 page) and a full-page grayscale image standing in for a scan
+ */
+
+export interface FixtureText {
+  text: string;
+  x: number;
+  y: number;
+  size?: number;
+}
+
+export interface FixturePage {
+  text?: FixtureText[];
+  // Stroked lines as [x0, y0, x1, y1]
+  lines?: Array<[number, number, number, number]>;
+  // Stroked rectangles as [x, y, width, height]
+  rects?: Array<[number, number, number, number]>;
+  // 8-bit grayscale pixels drawn over the whole page
+  image?: { width: number; height: number; pixels: Buffer };
+}
+
+export function buildPdf(pages: FixturePage[]): Buffer {
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '', // pages, filled in below
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ];
+  const pageIds: number[] = [];
+
+  for (const page of pages) {
+    let imageId: number | null = null;
+    if (page.image) {
+      const { width, height, pixels } = page.image;
+      objects.push(`<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Length ${pixels.length} >>\nstream\n${pixels.toString('latin1')}\nendstream`);
+      imageId = objects.length;
+    }
+
+    const stream = [
+      ...(imageId ? ['q 612 0 0 792 0 0 cm /Im1 Do Q'] : []),
+      ...(page.lines || []).map(([x0, y0, x1, y1]) => `${x0} ${y0} m ${x1} ${y1} l S`),
+      ...(page.rects || []).map(([x, y, width, height]) => `${x} ${y} ${width} ${height} re S`),
+      ...(page.text || []).map(run =>
+        `BT /F1 ${run.size || 10} Tf ${run.x} ${run.y} Td (${run.text.replace(/[()\\]/g, '\\$&')}) Tj ET`)
+    ].join('\n');
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    const contentId = objects.length;
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${contentId} 0 R /Resources << /Font << /F1 3 0 R >>${imageId ? ` /XObject << /Im1 ${imageId} 0 R >>` : ''} >> >>`);
+    pageIds.push(objects.length);
+  }
+  objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * A page set in two columns (x 72 and 324, 14 units leading) under a
+ * full-width title, with an optional full-width line below them
+ */
+export function twoColumnPage(title: string, left: string[], right: string[], footer?: string): FixturePage {
+  const column = (lines: string[], x: number) => lines.map((text, index) => ({ text, x, y: 700 - index * 14 }));
+  const bottom = 700 - Math.max(left.length, right.length) * 14;
+  return {
+    text: [
+      { text: title, x: 72, y: 740, size: 14 },
+      ...column(left, 72),
+      ...column(right, 324),
+      ...(footer ? [{ text: footer, x: 72, y: bottom - 30 }] : [])
+    ]
+  };
+}
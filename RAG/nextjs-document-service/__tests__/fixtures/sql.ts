@@ -0,0 +1,8 @@
+/**
+ * Helpers for asserting on generated SQL statements
+ */
+
+// Highest $n placeholder referenced by a statement
+export function maxPlaceholder(text: string): number {
+  return Math.max(...Array.from(text.matchAll(/\$(\d+)/g)).map(match => parseInt(match[1])));
+}
@@ -0,0 +1,153 @@
+/**
+ * Hybrid search tests
+ * Ranking arithmetic of each fusion strategy over two small fixed lists,
+ * the 0-1 scaling of fused scores, request option validation and hybrid
+ * retrieval over mocked search statements
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { fuseResults, parseFusionOptions, defaultFusionOptions, maxFusedScore, hybridSearch, FusionOptions } from '../lib/hybrid-search';
+import { setEmbeddingProvider } from '../lib/embedding-providers';
+import { mockDatabase } from './fixtures/mock-db';
+
+const semantic = [
+  { chunk_id: 'a', score: 0.9 },
+  { chunk_id: 'b', score: 0.7 },
+  { chunk_id: 'c', score: 0.5 }
+];
+const keyword = [
+  { chunk_id: 'c', score: 0.6 },
+  { chunk_id: 'd', score: 0.4 },
+  { chunk_id: 'a', score: 0.2 }
+];
+
+const options = (overrides: Partial<FusionOptions>): FusionOptions => ({
+  ...defaultFusionOptions(),
+  semanticWeight: 1,
+  keywordWeight: 1,
+  alpha: 0.5,
+  minScore: 0,
+  ...overrides
+});
+
+describe('Hybrid Search Fusion', () => {
+  it('should fuse by reciprocal rank', () => {
+    const fused = fuseResults(semantic, keyword, options({ strategy: 'rrf', k: 60 }));
+
+    expect(fused.map(r => r.item.chunk_id)).toEqual(['a', 'c', 'b', 'd']);
+    expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 63);
+    expect(fused[0].derivation).toMatchObject({
+      chunk_id: 'a',
+      semantic: { rank: 1, score: 0.9 },
+      keyword: { rank: 3, score: 0.2 }
+    });
+    expect(fused[2].derivation.keyword).toBeNull();
+  });
+
+  it('should min-max normalize each list for weighted fusion', () => {
+    const fused = fuseResults(semantic, keyword, options({ strategy: 'weighted', semanticWeight: 0.6, keywordWeight: 0.4 }));
+    const c = fused.find(r => r.item.chunk_id === 'c')!;
+
+    expect(c.derivation.semantic).toMatchObject({ normalized: 0, contribution: 0 });
+    expect(c.derivation.keyword).toMatchObject({ normalized: 1, contribution: 0.4 });
+    expect(fused[0].item.chunk_id).toBe('a');
+    expect(fused[0].score).toBeCloseTo(0.6);
+  });
+
+  it('should combine raw scores convexly and apply minScore and maxResults', () => {
+    const fused = fuseResults(semantic, keyword, options({ strategy: 'convex', alpha: 0.8, minScore: 0.1 }), 3);
+
+    // d (0.2 * 0.4 = 0.08) falls below minScore
+    expect(fused.map(r => [r.item.chunk_id, Number(r.score.toFixed(3))])).toEqual([['a', 0.76], ['b', 0.56], ['c', 0.52]]);
+    expect(fused[0].derivation.fused_score).toBe(fused[0].score);
+  });
+
+  it('should scale fused scores to 0-1 by the best score the options allow', () => {
+    const rrf = options({ strategy: 'rrf', k: 60 });
+    expect(maxFusedScore(rrf)).toBeCloseTo(2 / 61);
+
+    // First in both lists is the maximum
+    const top = fuseResults([{ chunk_id: 'a', score: 0.9 }], [{ chunk_id: 'a', score: 0.3 }], rrf);
+    expect(top[0].normalizedScore).toBe(1);
+
+    const fused = fuseResults(semantic, keyword, rrf);
+    expect(fused[0].normalizedScore).toBeCloseTo((1 / 61 + 1 / 63) / (2 / 61));
+    expect(fused[0].derivation.normalized_score).toBe(fused[0].normalizedScore);
+    fused.forEach((result, index) => {
+      expect(result.normalizedScore).toBeGreaterThan(0);
+      expect(result.normalizedScore).toBeLessThanOrEqual(index === 0 ? 1 : fused[index - 1].normalizedScore);
+    });
+
+    const weighted = fuseResults(semantic, keyword, options({ strategy: 'weighted', semanticWeight: 0.6, keywordWeight: 0.4 }));
+    expect(weighted[0].normalizedScore).toBeCloseTo(0.6);
+    const convex = fuseResults(semantic, keyword, options({ strategy: 'convex', alpha: 0.8 }));
+    expect(convex[0].normalizedScore).toBeCloseTo(convex[0].score);
+  });
+
+  it('should validate request options and fill in the complementary weight', () => {
+    expect(parseFusionOptions('weighted').options!.strategy).toBe('weighted');
+    expect(parseFusionOptions({ strategy: 'convex', alpha: 0.8 }).options!.alpha).toBe(0.8);
+    expect(parseFusionOptions({ semanticWeight: 0.7 }).options!.keywordWeight).toBeCloseTo(0.3);
+    expect(parseFusionOptions({ strategy: 'max' }).error).toContain('fusion.strategy');
+    expect(parseFusionOptions({ k: -1 }).error).toContain('fusion.k');
+    expect(parseFusionOptions({ alpha: 2 }).error).toContain('fusion.alpha');
+    expect(parseFusionOptions({ minScore: 0.03 }).options!.minScore).toBe(0.03);
+    expect(parseFusionOptions({ minScore: 1.5 }).error).toContain('fusion.minScore');
+  });
+
+  it('should apply minScore to the normalized score', () => {
+    // rrf sums are around 0.03, so a minScore of 0.5 on them would drop everything
+    const fused = fuseResults(semantic, keyword, options({ strategy: 'rrf', k: 60, minScore: 0.5 }));
+
+    expect(fused.map(r => r.item.chunk_id)).toEqual(['a', 'c']);
+    fused.forEach(result => expect(result.normalizedScore).toBeGreaterThanOrEqual(0.5));
+  });
+
+  describe('hybrid retrieval', () => {
+    let restore: (() => void) | null = null;
+
+    afterEach(() => {
+      restore?.();
+      restore = null;
+      setEmbeddingProvider(null);
+    });
+
+    it('should fuse the semantic and keyword statements into 0-1 scored chunks', async () => {
+      const row = (id: string, scores: Record<string, number>) => ({
+        chunk_id: id,
+        document_id: 'doc-1',
+        filename: 'metformin.md',
+        chunk_text: `Chunk ${id}`,
+        chunk_index: 0,
+        page: 2,
+        metadata: { section: 'Dosing' },
+        ...scores
+      });
+      const database = mockDatabase((text) => {
+        if (text === 'SELECT NOW()') return [{ now: new Date() }];
+        if (text.includes('embedding_cache')) return [];
+        if (text.includes('::vector')) return [row('a', { similarity_score: 0.9 }), row('b', { similarity_score: 0.5 })];
+        if (text.includes('keyword_score')) return [row('a', { raw_score: 1, keyword_score: 0.5 }), row('c', { raw_score: 0.2, keyword_score: 0.17 })];
+        throw new Error(`Unexpected query: ${text}`);
+      });
+      restore = database.restore;
+      setEmbeddingProvider({
+        name: 'fake',
+        model: 'test-embed',
+        dimensions: 2,
+        embed: async (texts: string[]) => ({ embeddings: texts.map(() => [0.6, 0.8]), usage: { prompt_tokens: 3, total_tokens: 3 } })
+      });
+
+      const fusion = options({ strategy: 'rrf', k: 60 });
+      const { results, searchDetails } = await hybridSearch('metformin dose', { userId: 'user-1', maxResults: 3, similarityThreshold: 0.3, fusion });
+
+      expect(results.map(r => [r.chunk_id, r.source_type])).toEqual([['a', 'hybrid'], ['b', 'semantic'], ['c', 'keyword']]);
+      expect(results[0]).toMatchObject({ similarity_score: 1, semantic_score: 0.9, keyword_score: 0.5, search_type: 'hybrid', page: 2 });
+      expect(results[0].metadata.section).toBe('Dosing');
+      expect(searchDetails).toMatchObject({ semanticResults: 2, keywordResults: 2, semanticDetails: { tokensUsed: 3 } });
+
+      const minScore = await hybridSearch('metformin dose', { userId: 'user-1', maxResults: 3, similarityThreshold: 0.3, fusion: { ...fusion, minScore: 0.5 } });
+      expect(minScore.results.map(r => r.chunk_id)).toEqual(['a']);
+    });
+  });
+});
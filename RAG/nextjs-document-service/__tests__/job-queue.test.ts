@@ -0,0 +1,72 @@
+/**
+ * Ingestion job queue tests
+ * Retry backoff, the lease (completing, failing and renewing a job only take
+ * effect for the worker that holds it, so a worker whose job was reclaimed
+ * cannot overwrite the new owner's state) and malformed job ids.
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { JobService, calculateRetryDelay } from '../lib/job-queue';
+import { mockDatabase } from './fixtures/mock-db';
+
+// ingestion_jobs with one running job held by worker-a
+function jobTable() {
+  const job = { id: 'job-1', status: 'running', locked_by: 'worker-a' as string | null };
+
+  const database = mockDatabase((text, params) => {
+    if (!text.startsWith('UPDATE ingestion_jobs')) throw new Error(`Unexpected query: ${text}`);
+    const lease = /WHERE id = \$1 AND locked_by = \$(\d+)/.exec(text);
+    const workerId = lease ? params[Number(lease[1]) - 1] : null;
+    if (params[0] !== job.id || job.locked_by !== workerId || job.status !== 'running') return [];
+
+    if (text.includes("status = 'completed'")) {
+      job.status = 'completed';
+      job.locked_by = null;
+    } else if (text.includes('last_error = $2')) {
+      job.status = params[2] ? 'queued' : 'failed';
+      job.locked_by = null;
+    }
+    return [{ status: job.status }];
+  });
+
+  return { job, database };
+}
+
+describe('Ingestion Job Queue', () => {
+  let restore: (() => void) | null = null;
+
+  afterEach(() => {
+    restore?.();
+    restore = null;
+  });
+
+  it('should back off exponentially up to an hour', () => {
+    expect([1, 2, 3].map(attempt => calculateRetryDelay(attempt, 1000))).toEqual([1000, 2000, 4000]);
+    expect(calculateRetryDelay(30, 1000)).toBe(60 * 60 * 1000);
+  });
+
+  it('should only let the worker holding the lease renew, complete or fail a job', async () => {
+    const { job, database } = jobTable();
+    restore = database.restore;
+
+    expect(await JobService.renewLease('job-1', 'worker-b')).toBe(false);
+    expect(await JobService.completeJob('job-1', 'worker-b', { isDuplicate: false })).toBe(false);
+    expect(await JobService.failJob('job-1', 'worker-b', 'timed out', true, 1000)).toBeNull();
+    expect(job).toEqual({ id: 'job-1', status: 'running', locked_by: 'worker-a' });
+
+    expect(await JobService.renewLease('job-1', 'worker-a')).toBe(true);
+    expect(await JobService.failJob('job-1', 'worker-a', 'timed out', true, 1000)).toBe('queued');
+    expect(job.locked_by).toBeNull();
+    database.matching('UPDATE ingestion_jobs').forEach(query => expect(query.text).toContain('locked_by = $'));
+  });
+
+  it('should report job ids that are not UUIDs as missing without querying', async () => {
+    const database = mockDatabase(() => {
+      throw new Error('invalid input syntax for type uuid');
+    });
+    restore = database.restore;
+
+    expect(await JobService.getJob('not-a-job')).toBeNull();
+    expect(database.queries).toHaveLength(0);
+  });
+});
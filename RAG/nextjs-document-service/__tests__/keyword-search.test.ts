@@ -0,0 +1,50 @@
+/**
+ * Keyword search tests
+ * Splitting phrases from loose terms and the statements built for ts_rank_cd
+ * and BM25 ranking, checked by their text and bound values
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseKeywordQuery, toTsQuery, buildKeywordSearch } from '../lib/keyword-search';
+import { maxPlaceholder } from './fixtures/sql';
+
+describe('Keyword Search', () => {
+  it('should split quoted phrases from loose terms', () => {
+    expect(parseKeywordQuery('"heart failure" dosage for Type-2 diabetes dosage')).toEqual({
+      phrases: [['heart', 'failure']],
+      terms: ['dosage', 'for', 'type', '2', 'diabetes']
+    });
+  });
+
+  it('should require phrases and accept any loose term', () => {
+    expect(toTsQuery(parseKeywordQuery('metformin dose'))).toBe("('metformin' | 'dose')");
+    expect(toTsQuery(parseKeywordQuery('"heart failure" "ace" dose'))).toBe("('heart' <-> 'failure') & 'ace' & ('dose')");
+    expect(toTsQuery(parseKeywordQuery(`'; DROP TABLE chunks; --`))).toBe("('drop' | 'table' | 'chunks')");
+    expect(toTsQuery(parseKeywordQuery('?! ""'))).toBe('');
+  });
+
+  it('should return null when the query has no words', () => {
+    expect(buildKeywordSearch('   ', 'user-123')).toBeNull();
+  });
+
+  it('should bind exactly the parameters each ranking references', () => {
+    const scope = { latestOnly: false, documentIds: ['d1'] };
+
+    const tsRank = buildKeywordSearch('metformin', 'user-123', { ranking: 'ts_rank_cd', maxResults: 7, scope })!;
+    expect(tsRank.text).toContain('ts_rank_cd(');
+    expect(tsRank.values).toEqual(['user-123', 7, false, ['d1'], "('metformin')"]);
+    expect(maxPlaceholder(tsRank.text)).toBe(tsRank.values.length);
+
+    const bm25 = buildKeywordSearch('"renal dose" metformin', 'user-123', { ranking: 'bm25', k1: 1.5, b: 0.5 })!;
+    expect(bm25.values.slice(5)).toEqual(['renal dose metformin', 1.5, 0.5]);
+    expect(maxPlaceholder(bm25.text)).toBe(bm25.values.length);
+    expect(bm25.text).toContain('m.word_count / corpus.avgdl');
+  });
+
+  it('should inline the language so the GIN expression index applies', () => {
+    const search = buildKeywordSearch('metformin', 'user-123', { language: 'english' })!;
+    expect(search.text).toContain("to_tsvector('english'::regconfig, s.text)");
+
+    expect(() => buildKeywordSearch('metformin', 'user-123', { language: "english'); --" })).toThrow('Invalid text search language');
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Markdown chunker tests
+ * Chunks follow the heading hierarchy and carry their section path; lists
+ * split only between items, code blocks stay whole up to the table size
+ * limit and large tables repeat their header. Small chunk sizes make the
+ * splits visible.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { MarkdownChunker } from '../lib/markdown-chunker';
+
+const chunker = (chunkSize: number, maxChunkSizeForTables: number = 3000) =>
+  new MarkdownChunker({ chunkSize, maxChunkSizeForTables, preservePageBoundaries: true });
+
+describe('Markdown Chunker', () => {
+  it('should keep the heading path with each chunk', async () => {
+    const text = [
+      '# Diabetes',
+      'A group of metabolic diseases.',
+      '## Insulin',
+      '### Dosing',
+      'Start with **10 units** at bedtime.',
+      '### Storage:',
+      'Keep unopened pens in the fridge.',
+      'Overview\n========',
+      'Setext headings count too.'
+    ].join('\n\n');
+
+    const chunks = await chunker(1000).chunkText(text);
+
+    expect(chunks.map(chunk => chunk.metadata.sectionPath)).toEqual([
+      ['Diabetes'],
+      ['Diabetes', 'Insulin', 'Dosing'],
+      ['Diabetes', 'Insulin', 'Storage'],
+      ['Overview']
+    ]);
+    // A heading with nothing under it before the next one stays in the text
+    expect(chunks[1].content).toBe('## Insulin\n\n### Dosing\n\nStart with **10 units** at bedtime.');
+    expect(chunks[3].content).toBe('Overview\n========\n\nSetext headings count too.');
+  });
+
+  it('should read a dash line above a heading as a section break', async () => {
+    const chunks = await chunker(1000).chunkText('# Survey\n\nd. Very uncomfortable\n---\n# Test Questions\n\n1. Which province?');
+
+    expect(chunks.map(chunk => [chunk.content, chunk.metadata.sectionPath])).toEqual([
+      ['# Survey\n\nd. Very uncomfortable', ['Survey']],
+      ['# Test Questions\n\n1. Which province?', ['Test Questions']]
+    ]);
+  });
+
+  it('should split lists between items and never split code blocks', async () => {
+    const text = [
+      '## Steps',
+      '- Check renal function before starting\n  - eGFR above 30\n  - repeat yearly',
+      '- Start metformin 500 mg with the evening meal',
+      '```\nconst dose = 500;\n\nconst max = 2000;\n```',
+      'Done.'
+    ].join('\n');
+
+    const chunks = await chunker(90).chunkText(text);
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      '## Steps\n- Check renal function before starting\n  - eGFR above 30\n  - repeat yearly',
+      '- Start metformin 500 mg with the evening meal',
+      '```\nconst dose = 500;\n\nconst max = 2000;\n```\nDone.'
+    ]);
+    chunks.forEach(chunk => expect(chunk.metadata.sectionPath).toEqual(['Steps']));
+  });
+
+  it('should cut list items and code blocks over the table size limit between lines', async () => {
+    const code = '```\nconst dose = 500;\nconst max = 2000;\nconst interval = 12;\n```';
+    const item = '- Metformin\n  500 mg with the evening meal\n  ' + 'x'.repeat(50);
+
+    const chunks = await chunker(20, 40).chunkText(`${code}\n\n${item}`);
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      '```\nconst dose = 500;\nconst max = 2000;',
+      'const interval = 12;\n```',
+      '- Metformin',
+      '  500 mg with the evening meal',
+      // A line longer than the limit is cut like prose
+      '  ' + 'x'.repeat(38),
+      'x'.repeat(12)
+    ]);
+  });
+
+  it('should split long paragraphs at sentence ends', async () => {
+    const text = '# Notes\n\nFirst sentence here. Second sentence is here. Third one.';
+
+    const chunks = await chunker(40).chunkText(text);
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      '# Notes\n\nFirst sentence here.',
+      'Second sentence is here. Third one.'
+    ]);
+  });
+
+  it('should split large tables between rows and repeat the header', async () => {
+    const header = '| Drug | Dose |\n| --- | --- |';
+    const text = `## Doses\n\n${header}\n| Metformin | 500 mg |\n| Insulin | 10 units |\n| Lisinopril | 10 mg |`;
+
+    const chunks = await chunker(1000, 60).chunkText(text);
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      `## Doses\n\n${header}\n| Metformin | 500 mg |`,
+      `${header}\n| Insulin | 10 units |`,
+      `${header}\n| Lisinopril | 10 mg |`
+    ]);
+    chunks.forEach(chunk => {
+      expect(chunk.metadata.isTable).toBe(true);
+      expect(chunk.metadata.sectionPath).toEqual(['Doses']);
+    });
+  });
+
+  it('should break chunks where pages start', async () => {
+    const first = '# Hypertension\n\nOverview slide.';
+    const second = 'ACE inhibitors first.';
+    const text = `${first}\n\n${second}`;
+    const pageMap = new Map([
+      [0, { start: 0, end: first.length, page: 1 }],
+      [1, { start: first.length + 2, end: text.length, page: 2 }]
+    ]);
+
+    const chunks = await chunker(1000).chunkText(text, pageMap);
+
+    expect(chunks.map(chunk => [chunk.content, chunk.metadata.pageNumbers])).toEqual([
+      [first, [1]],
+      [second, [2]]
+    ]);
+    expect(chunks[1].metadata.sectionPath).toEqual(['Hypertension']);
+  });
+});
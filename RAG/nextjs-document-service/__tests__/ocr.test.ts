@@ -0,0 +1,160 @@
+/**
+ * OCR tests
+ * Tesseract TSV parsing, image encoding, per-chunk confidence and search
+ * down-weighting, and rejecting image uploads while OCR cannot run. Scanned
+ * PDFs and image uploads go through a fake OCR runner with OCR_ENABLED
+ * switched on, so Tesseract need not be installed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { readFileSync } from 'fs';
+import {
+  parseTesseractTsv,
+  encodePnm,
+  ocrChunkMetadata,
+  parseOcrWeighting,
+  applyOcrWeighting,
+  setOcrRunner
+} from '../lib/ocr';
+import { ocrConfig } from '../lib/config';
+import { validateImageUpload } from '../lib/ingestion';
+import { processPDF, processImage } from '../lib/pdf-processor';
+import { buildPdf } from './fixtures/pdf-builder';
+
+const TSV_HEADER = 'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext';
+
+// Tesseract TSV with a word row for each [page, block, paragraph, line, confidence, text]
+function tsv(words: Array<[number, number, number, number, number, string]>): string {
+  const rows = words.map(([page, block, paragraph, line, confidence, text], index) =>
+    ['5', page, block, paragraph, line, index + 1, 0, 0, 10, 10, confidence, text].join('\t'));
+  // Page, block and line rows carry no text and are skipped
+  return [TSV_HEADER, '1\t1\t0\t0\t0\t0\t0\t0\t612\t792\t-1\t', ...rows].join('\n');
+}
+
+const scanTsv = tsv([
+  [1, 1, 1, 1, 96, 'Metformin'],
+  [1, 1, 1, 1, 91, 'dosing'],
+  [1, 1, 1, 2, 88, 'Start'],
+  [1, 1, 1, 2, 42, 'at'],
+  [1, 1, 1, 2, 30, '5OO'],
+  [1, 1, 1, 2, 90, 'mg'],
+  [1, 2, 1, 1, 95, 'Take'],
+  [1, 2, 1, 1, 93, 'with'],
+  [1, 2, 1, 1, 97, 'food']
+]);
+
+describe('OCR', () => {
+  beforeEach(() => {
+    jest.replaceProperty(ocrConfig, 'enabled', true);
+  });
+
+  afterEach(() => {
+    setOcrRunner(null);
+    jest.restoreAllMocks();
+  });
+
+  it('should read Tesseract TSV into lines and paragraphs of words', () => {
+    const [page] = parseTesseractTsv(scanTsv);
+
+    expect(page.page).toBe(1);
+    expect(page.lines).toEqual(['Metformin dosing', 'Start at 5OO mg', '', 'Take with food']);
+    expect(page.lineWords[1].map(word => [word.text, word.confidence, word.start, word.end])).toEqual([
+      ['Start', 0.88, 0, 5],
+      ['at', 0.42, 6, 8],
+      ['5OO', 0.3, 9, 12],
+      ['mg', 0.9, 13, 15]
+    ]);
+    expect(page.lineWords[2]).toEqual([]);
+  });
+
+  it('should encode decoded images as PGM or PPM', () => {
+    // 1 bit grayscale: a set bit is white
+    const gray = encodePnm({ width: 3, height: 1, kind: 1, data: new Uint8Array([0b10100000]) });
+    expect(gray.toString('latin1', 0, 11)).toBe('P5\n3 1\n255\n');
+    expect(Array.from(gray.subarray(11))).toEqual([255, 0, 255]);
+
+    const rgba = encodePnm({ width: 1, height: 1, kind: 3, data: new Uint8Array([10, 20, 30, 255]) });
+    expect(rgba.toString('latin1', 0, 11)).toBe('P6\n1 1\n255\n');
+    expect(Array.from(rgba.subarray(11))).toEqual([10, 20, 30]);
+  });
+
+  it('should OCR a scanned page and keep word offsets into the text', async () => {
+    let imageHeader = '';
+    setOcrRunner(async imagePath => {
+      imageHeader = readFileSync(imagePath).toString('latin1', 0, 2);
+      return scanTsv;
+    });
+
+    const pixels = Buffer.alloc(40 * 20, 255);
+    const result = await processPDF(buildPdf([
+      { text: [{ text: 'Formulary cover page', x: 72, y: 700 }] },
+      { image: { width: 40, height: 20, pixels } }
+    ]));
+
+    expect(imageHeader).toBe('P6');
+    expect(result.ocrPages).toEqual([2]);
+    expect(result.pages[1]).toEqual({ page: 2, text: 'Metformin dosing\nStart at 5OO mg\n\nTake with food' });
+    expect(result.text).toBe('Formulary cover page\n\nMetformin dosing\nStart at 5OO mg\n\nTake with food');
+    for (const word of result.ocrWords) {
+      expect(result.text.slice(word.start, word.end)).toBe(word.text);
+    }
+
+    // The chunk holding the second line records its words and their confidence
+    const lineStart = result.text.indexOf('Start');
+    const metadata = ocrChunkMetadata(result.ocrWords, lineStart, lineStart + 'Start at 5OO mg'.length)!;
+    expect(metadata.ocrConfidence).toBe(0.625);
+    expect(metadata.ocrLowConfidenceWords).toBe(2);
+    expect(metadata.ocrWords.map(word => word.text)).toEqual(['Start', 'at', '5OO', 'mg']);
+    expect(ocrChunkMetadata(result.ocrWords, 0, 'Formulary cover page'.length)).toBeNull();
+  });
+
+  it('should read each page of an image upload', async () => {
+    setOcrRunner(async () => tsv([
+      [1, 1, 1, 1, 90, 'First'],
+      [2, 1, 1, 1, 80, 'Second']
+    ]));
+
+    const result = await processImage(Buffer.from('not decoded here'), 'tiff');
+
+    expect(result.pageCount).toBe(2);
+    expect(result.ocrPages).toEqual([1, 2]);
+    expect(result.text).toBe('First\n\nSecond');
+    expect(Array.from(result.pageMap.values())).toEqual([
+      { start: 0, end: 5, page: 1 },
+      { start: 7, end: 13, page: 2 }
+    ]);
+  });
+
+  it('should reject image uploads while OCR is off or Tesseract is missing', async () => {
+    const scan = { name: 'scan.png', type: 'image/png' };
+    expect(await validateImageUpload({ name: 'notes.pdf', type: 'application/pdf' })).toBeNull();
+
+    jest.replaceProperty(ocrConfig, 'tesseractPath', '/nonexistent/tesseract');
+    expect(await validateImageUpload(scan)).toBe(
+      'Image uploads need OCR, which is unavailable: Tesseract not found at "/nonexistent/tesseract" (install it or set TESSERACT_PATH)');
+
+    setOcrRunner(async () => tsv([]));
+    expect(await validateImageUpload(scan)).toBeNull();
+
+    jest.replaceProperty(ocrConfig, 'enabled', false);
+    expect(await validateImageUpload({ name: 'fax', type: 'image/tiff' })).toBe(
+      'Image uploads need OCR, which is unavailable: OCR is disabled (set OCR_ENABLED=true and install Tesseract)');
+  });
+
+  it('should down-weight results with low OCR confidence', () => {
+    expect(parseOcrWeighting(undefined)).toEqual({ options: null });
+    expect(parseOcrWeighting(true).options).toEqual({ threshold: 0.7, penalty: 0.5 });
+    expect(parseOcrWeighting({ penalty: 2 }).error).toBe('ocrWeighting.penalty must be a number between 0 and 1');
+
+    const results = applyOcrWeighting([
+      { chunk_id: 'scan', similarity_score: 0.9, ocr_confidence: 0.14 },
+      { chunk_id: 'clean-scan', similarity_score: 0.7, ocr_confidence: 0.95 },
+      { chunk_id: 'text', similarity_score: 0.6, ocr_confidence: null }
+    ], { threshold: 0.7, penalty: 0.5 });
+
+    expect(results.map(result => result.chunk_id)).toEqual(['clean-scan', 'text', 'scan']);
+    expect(results[2].ocr_weight).toBe(0.6);
+    expect(results[2].similarity_score).toBeCloseTo(0.54);
+    expect(results[0].ocr_weight).toBeUndefined();
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * PDF page layout tests
+ * Line assembly from text positions (columns and table rows), running
+ * header/footer removal and the page map, plus a small PDF built in memory and read through pdf.js
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { processPDF, layoutTextItems, stripRunningLines, joinPages, PDFTextItem } from '../lib/pdf-processor';
+import { buildPdf, twoColumnPage } from './fixtures/pdf-builder';
+
+const item = (str: string, x: number, y: number, size: number = 10): PDFTextItem => ({
+  str,
+  x,
+  y,
+  width: str.length * size * 0.5,
+  height: size
+});
+
+describe('PDF Layout', () => {
+  it('should order text top to bottom and left to right', () => {
+    const lines = layoutTextItems([
+      item('second line', 72, 686),
+      item('Dose', 72, 700),
+      item('500 mg', 300, 700.5),
+      item('New', 72, 640),
+      item('paragraph', 93, 640),
+      item('   ', 150, 640)
+    ]);
+
+    expect(lines).toEqual(['Dose   500 mg', 'second line', '', 'New paragraph']);
+  });
+
+  it('should read table rows across rather than as columns', () => {
+    const lines = layoutTextItems([
+      item('Metformin', 72, 700),
+      item('500 mg twice daily', 300, 700),
+      item('Gliclazide', 72, 686),
+      item('40 mg daily', 300, 686),
+      item('Sitagliptin', 72, 672),
+      item('100 mg daily', 300, 672)
+    ]);
+
+    expect(lines).toEqual(['Metformin   500 mg twice daily', 'Gliclazide   40 mg daily', 'Sitagliptin   100 mg daily']);
+  });
+
+  it('should strip running headers, footers and page numbers', () => {
+    const bodies = [['Metformin', 'Start at 500 mg'], ['Insulin', 'Titrate weekly'], ['Statins', 'Check lipids']];
+    const pages = bodies.map((body, index) => ({
+      page: index + 1,
+      lines: ['Formulary 2024 - Cardiology', ...body, `Page ${index + 1} of 3`]
+    }));
+    pages[1].lines.push('7');
+
+    const stripped = stripRunningLines(pages);
+    expect(stripped.map(page => page.lines)).toEqual(bodies);
+
+    // A single page has nothing to repeat
+    expect(stripRunningLines([{ lines: ['Title', 'Body'] }])[0].lines).toEqual(['Title', 'Body']);
+  });
+
+  it('should map each page to its span of the combined text', () => {
+    const { text, pageMap } = joinPages([
+      { page: 1, text: 'first' },
+      { page: 2, text: '' },
+      { page: 3, text: 'third page' }
+    ]);
+
+    expect(text).toBe('first\n\nthird page');
+    expect(Array.from(pageMap.values())).toEqual([
+      { start: 0, end: 5, page: 1 },
+      { start: 7, end: 17, page: 3 }
+    ]);
+    expect(text.substring(7, 17)).toBe('third page');
+  });
+
+  it('should extract each page of a PDF separately', async () => {
+    const page = (number: number, body: string) => ({
+      text: [
+        { text: 'Clinical Guide - Confidential', x: 72, y: 750 },
+        { text: body, x: 72, y: 700 },
+        { text: `Page ${number}`, x: 300, y: 40 }
+      ]
+    });
+    const result = await processPDF(buildPdf([page(1, 'Metformin dosing'), page(2, 'Insulin titration'), page(3, 'Renal adjustment')]));
+
+    expect(result.pageCount).toBe(3);
+    expect(result.pages).toEqual([
+      { page: 1, text: 'Metformin dosing' },
+      { page: 2, text: 'Insulin titration' },
+      { page: 3, text: 'Renal adjustment' }
+    ]);
+    const spans = Array.from(result.pageMap.values());
+    expect(spans.map(span => result.text.substring(span.start, span.end))).toEqual([
+      'Metformin dosing',
+      'Insulin titration',
+      'Renal adjustment'
+    ]);
+    expect(spans.map(span => span.page)).toEqual([1, 2, 3]);
+  });
+
+  it('should read a two-column page one column at a time', async () => {
+    const left = [
+      'Metformin is the first-line therapy for',
+      'type 2 diabetes. Start at 500 mg once',
+      'daily with the evening meal.'
+    ];
+    const right = [
+      'Insulin is added when the HbA1c target',
+      'is not reached on two oral agents. Basal',
+      'insulin starts at 10 units at night.',
+      'Titrate by 2 units every three days.'
+    ];
+    const footer = 'Review every patient annually and adjust doses for renal function before renewing.';
+    const result = await processPDF(buildPdf([twoColumnPage('Diabetes Formulary', left, right, footer)]));
+
+    expect(result.pages[0].text.split('\n')).toEqual(['Diabetes Formulary', '', ...left, ...right, '', footer]);
+  });
+});
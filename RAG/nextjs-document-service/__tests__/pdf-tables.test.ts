@@ -0,0 +1,113 @@
+/**
+ * PDF table extraction tests
+ * Ruled and unruled tables with merged header cells and wrapped cells, read
+ * from fixture PDFs built in memory (fixtures/pdf-builder.ts), and prose in
+ * two columns that must not be taken for a table
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { processPDF, PDFTextItem } from '../lib/pdf-processor';
+import { extractTablesFromPage } from '../lib/pdf-tables';
+import { buildPdf, FixturePage } from './fixtures/pdf-builder';
+
+// Grid with "Drug" merged over two header rows and "Dose (mg)" over two columns
+const ruledPage: FixturePage = {
+  rects: [[72, 600, 328, 100]],
+  lines: [
+    [200, 680, 400, 680],
+    [72, 660, 400, 660],
+    [72, 620, 400, 620],
+    [200, 600, 200, 700],
+    [300, 600, 300, 680]
+  ],
+  text: [
+    { text: 'Drug', x: 80, y: 683 },
+    { text: 'Dose (mg)', x: 225, y: 686 },
+    { text: 'Adult', x: 210, y: 666 },
+    { text: 'Child', x: 310, y: 666 },
+    { text: 'Metformin', x: 80, y: 645 },
+    { text: 'extended release', x: 80, y: 632 },
+    { text: '500', x: 210, y: 638 },
+    { text: '250', x: 310, y: 638 },
+    { text: 'Insulin', x: 80, y: 606 },
+    { text: '10', x: 210, y: 606 },
+    { text: '5', x: 310, y: 606 }
+  ]
+};
+
+// The same table laid out with whitespace only, between two paragraphs
+const unruledPage: FixturePage = {
+  text: [
+    { text: 'Dosing guidance for adults and children.', x: 72, y: 760 },
+    { text: 'Dose (mg)', x: 230, y: 720 },
+    { text: 'Drug', x: 72, y: 706 },
+    { text: 'Adult', x: 200, y: 706 },
+    { text: 'Child', x: 300, y: 706 },
+    { text: 'Notes', x: 400, y: 706 },
+    { text: 'Metformin', x: 72, y: 692 },
+    { text: '500', x: 200, y: 692 },
+    { text: '250', x: 300, y: 692 },
+    { text: 'with food', x: 400, y: 692 },
+    { text: 'twice daily', x: 400, y: 680 },
+    { text: 'Insulin', x: 72, y: 666 },
+    { text: '10', x: 200, y: 666 },
+    { text: '5', x: 300, y: 666 },
+    { text: 'at bedtime', x: 400, y: 666 },
+    { text: 'Lisinopril', x: 72, y: 652 },
+    { text: '20', x: 200, y: 652 },
+    { text: '-', x: 300, y: 652 },
+    { text: 'monitor BP', x: 400, y: 652 },
+    { text: 'Doses are typical starting points.', x: 72, y: 600 }
+  ]
+};
+
+describe('PDF Tables', () => {
+  it('should read a ruled table with merged and wrapped cells', async () => {
+    const result = await processPDF(buildPdf([{ text: [{ text: 'Cover page', x: 72, y: 700 }] }, ruledPage]));
+
+    expect(result.tables).toHaveLength(1);
+    const [table] = result.tables;
+    expect(table.page).toBe(2);
+    expect(table.headers).toEqual(['Drug', 'Dose (mg) Adult', 'Dose (mg) Child']);
+    expect(table.data).toEqual([
+      ['Metformin extended release', '500', '250'],
+      ['Insulin', '10', '5']
+    ]);
+    expect(table.rowCount).toBe(2);
+    expect(table.colCount).toBe(3);
+    expect(table.bbox).toEqual({ x0: 72, y0: 600, x1: 400, y1: 700 });
+    expect(table.confidence).toBe(1);
+  });
+
+  it('should cluster the columns of an unruled table', async () => {
+    const result = await processPDF(buildPdf([unruledPage]));
+
+    expect(result.tables).toHaveLength(1);
+    const [table] = result.tables;
+    expect(table.page).toBe(1);
+    expect(table.headers).toEqual(['Drug', 'Dose (mg) Adult', 'Dose (mg) Child', 'Notes']);
+    expect(table.data).toEqual([
+      ['Metformin', '500', '250', 'with food twice daily'],
+      ['Insulin', '10', '5', 'at bedtime'],
+      ['Lisinopril', '20', '-', 'monitor BP']
+    ]);
+
+    // The box spans the table's text, not the paragraphs around it
+    const bbox = table.bbox!;
+    expect(bbox.x0).toBe(72);
+    expect(bbox.y0).toBe(652);
+    expect(bbox.y1).toBeGreaterThan(720);
+    expect(bbox.y1).toBeLessThan(760);
+  });
+
+  it('should not read two columns of prose as a table', () => {
+    const words = 'the patient should be counselled on adherence and side effects';
+    const items: PDFTextItem[] = [];
+    for (let line = 0; line < 6; line++) {
+      items.push({ str: words, x: 72, y: 700 - line * 12, width: 220, height: 10 });
+      items.push({ str: words, x: 320, y: 700 - line * 12, width: 220, height: 10 });
+    }
+
+    expect(extractTablesFromPage(items, [], 1)).toEqual([]);
+  });
+});
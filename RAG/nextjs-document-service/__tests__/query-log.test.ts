@@ -0,0 +1,75 @@
+/**
+ * Query log tests
+ * Per-stage latency timing, which score is stored for each result and the
+ * token spend of every model call and embedding a query made
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { StageTimer, UsageMeter, QueryLogService, toLoggedResults } from '../lib/query-log';
+import { mockDatabase } from './fixtures/mock-db';
+
+describe('Query Log', () => {
+  it('should time stages and accumulate repeated ones', async () => {
+    const timer = new StageTimer();
+    const value = await timer.time('retrieval', async () => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return 42;
+    });
+    timer.add('generation', 100);
+    timer.add('generation', 50);
+
+    expect(value).toBe(42);
+    expect(timer.stages.retrieval).toBeGreaterThanOrEqual(15);
+    expect(timer.stages.generation).toBe(150);
+    expect(timer.elapsed()).toBeGreaterThanOrEqual(timer.stages.retrieval);
+
+    // A failing stage is still timed
+    await expect(timer.time('rerank', async () => { throw new Error('reranker down'); })).rejects.toThrow('reranker down');
+    expect(timer.stages.rerank).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should log the score the caller saw for each result', () => {
+    expect(toLoggedResults([
+      { chunk_id: 'a', similarity_score: 0.812345, reranked_score: 0.9 },
+      { chunk_id: 7, fused_score: 0.0163934, similarity_score: 0.516393 },
+      { chunk_id: 'c', similarity_score: '0.71' }, // DECIMAL columns arrive as strings
+      { id: 'table-1' }
+    ])).toEqual([
+      { chunk_id: 'a', score: 0.9 },
+      { chunk_id: '7', score: 0.5164 },
+      { chunk_id: 'c', score: 0.71 },
+      { chunk_id: 'table-1', score: null }
+    ]);
+  });
+
+  it('should log the tokens of every model call and embedding of a query', async () => {
+    const usage = new UsageMeter();
+    usage.addChat({ prompt_tokens: 120, completion_tokens: 15, total_tokens: 135 }, 'gpt-4o-mini'); // Condensing
+    usage.addEmbedding(9); // Query embedding
+    usage.addChat({ prompt_tokens: 900, completion_tokens: 60, total_tokens: 960 }, 'gpt-4o'); // LLM reranking
+    usage.addEmbedding(140); // Citation verification
+
+    expect(usage.usage).toEqual({ prompt_tokens: 1020, completion_tokens: 75, embedding_tokens: 149, total_tokens: 1244 });
+    expect(usage.model).toBe('gpt-4o-mini');
+
+    const database = mockDatabase(() => [{ id: '1' }]);
+    try {
+      await QueryLogService.record({
+        userId: 'user-1',
+        source: 'search',
+        query: 'metformin dose',
+        searchMode: 'hybrid',
+        results: [],
+        stageLatencyMs: {},
+        totalMs: 10,
+        modelUsed: usage.model,
+        usage: usage.usage
+      });
+    } finally {
+      database.restore();
+    }
+
+    const [insert] = database.matching('INSERT INTO query_log');
+    expect(insert.params.slice(9, 14)).toEqual(['gpt-4o-mini', 1020, 75, 149, 1244]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Reranker tests
+ * Heuristic, LLM and cross-encoder scoring, reranking only the top N, and
+ * keeping retrieval order when a reranker fails. The LLM reranker uses a
+ * scripted chat provider and the cross-encoder a mocked fetch.
+ */
+
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import {
+  SearchReranker,
+  LLMReranker,
+  CrossEncoderReranker,
+  applyReranker,
+  parseRerankOptions,
+  setReranker,
+  Reranker,
+  RerankCandidate
+} from '../lib/reranker';
+import { ScriptedChatProvider } from '../lib/chat-providers';
+import { UsageMeter } from '../lib/query-log';
+
+const candidates: RerankCandidate[] = [
+  { chunk_id: 'a', chunk_text: 'Annual report of the pharmacy board, meeting minutes and budget.', chunk_index: 9, score: 0.8 },
+  { chunk_id: 'b', chunk_text: 'Metformin dose reduction is required when eGFR falls below 45.', chunk_index: 0, score: 0.6 },
+  { chunk_id: 'c', chunk_text: 'Metformin is contraindicated when eGFR is below 30.', chunk_index: 3, score: 0.5 }
+];
+
+describe('Rerankers', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    setReranker(null);
+  });
+
+  it('should score with heuristic factors on top of the retrieval score', async () => {
+    const scores = await new SearchReranker().score('metformin egfr dose', candidates);
+
+    expect(scores[1].factors).toMatchObject({ position_boost: 1, query_coverage: 1 });
+    // The on-topic chunk gains more than the off-topic one
+    expect(scores[1].score - 0.6).toBeGreaterThan(scores[0].score - 0.8);
+  });
+
+  it('should read listwise ratings from the LLM', async () => {
+    const provider = new ScriptedChatProvider({ responses: ['Ratings:\n[{"id": 1, "score": 1}, {"id": 2, "score": 9}, {"id": 3, "score": 14}]'] });
+    const usage = new UsageMeter();
+    const scores = await new LLMReranker(provider).score('When should metformin be reduced?', candidates, undefined, usage);
+
+    expect(scores.map(s => s.score)).toEqual([0.1, 0.9, 1]);
+    expect(scores[0].factors).toEqual({ llm_rating: 1, retrieval_score: 0.8 });
+    expect(provider.calls[0][0].content).toContain('[2] Metformin dose reduction');
+    // The rating call counts towards the query's token spend
+    expect(usage.usage.prompt_tokens).toBeGreaterThan(0);
+    expect(usage.usage.total_tokens).toBe(usage.usage.prompt_tokens + usage.usage.completion_tokens);
+    expect(usage.model).toBe(provider.model);
+  });
+
+  it('should call the cross-encoder endpoint and squash logits', async () => {
+    const fetchMock = jest.fn(async (_url: any, _init?: any) => new Response(JSON.stringify({
+      results: [{ index: 2, relevance_score: 2.0 }, { index: 0, relevance_score: -3.0 }, { index: 1, relevance_score: 0.5 }]
+    }), { status: 200 }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const scores = await new CrossEncoderReranker('http://localhost:8081/v1/rerank', 'bge-reranker').score('metformin egfr', candidates);
+
+    expect(scores[1].score).toBe(0.5);
+    expect(scores[2].score).toBeCloseTo(1 / (1 + Math.exp(-2)));
+    expect(scores[0].factors.cross_encoder_score).toBe(-3);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ model: 'bge-reranker', query: 'metformin egfr' });
+  });
+
+  it('should rerank only the top N and keep the rest in order', async () => {
+    const reversed: Reranker = {
+      name: 'heuristic',
+      score: async (_query, items) => items.map((_, index) => ({ score: index, factors: { position: index } }))
+    };
+    setReranker(reversed);
+
+    const { results, details } = await applyReranker('q', candidates, { reranker: 'heuristic', topN: 2 }, c => c);
+
+    expect(results.map(r => r.chunk_id)).toEqual(['b', 'a', 'c']);
+    expect(results[0]).toMatchObject({ original_score: 0.6, reranked_score: 1, reranking_factors: { position: 1 } });
+    expect(results[2].reranking_factors).toBeUndefined();
+    expect(details).toEqual({ reranker: 'heuristic', topN: 2, reranked: 2 });
+  });
+
+  it('should keep retrieval order when the reranker fails', async () => {
+    setReranker({ name: 'llm', score: async () => { throw new Error('model offline'); } });
+
+    const { results, details } = await applyReranker('q', candidates, { reranker: 'llm', topN: 10 }, c => c);
+
+    expect(results).toEqual(candidates);
+    expect(details.error).toBe('model offline');
+  });
+
+  it('should parse the rerank request option', () => {
+    expect(parseRerankOptions(undefined).options).toBeNull();
+    expect(parseRerankOptions(true).options).toEqual({ reranker: 'heuristic', topN: 20 });
+    expect(parseRerankOptions({ reranker: 'llm', topN: 8 }).options).toEqual({ reranker: 'llm', topN: 8 });
+    expect(parseRerankOptions('colbert').error).toContain('rerank.reranker');
+    expect(parseRerankOptions({ topN: 0 }).error).toContain('rerank.topN');
+  });
+});
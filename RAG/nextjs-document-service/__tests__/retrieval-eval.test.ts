@@ -0,0 +1,101 @@
+/**
+ * Retrieval evaluation tests
+ * Golden set parsing with line-numbered errors, recall, reciprocal rank and
+ * nDCG, and the runner over an in-memory retriever with the hashing
+ * embedding provider
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  parseGoldenSet,
+  scoreRanking,
+  runRetrievalEval,
+  EvalSetError,
+  RetrievedChunk,
+  Retriever
+} from '../lib/retrieval-eval';
+import { HashingEmbeddingProvider } from '../lib/embedding-providers';
+import { calculateCosineSimilarity } from '../lib/embeddings';
+
+const chunk = (filename: string, chunk_index: number, chunk_text: string, pages: number[] = []): RetrievedChunk => ({
+  chunk_id: `${filename}-${chunk_index}`,
+  filename,
+  chunk_index,
+  chunk_text,
+  pages
+});
+
+const corpus = [
+  chunk('diabetes.md', 0, 'Symptoms of marked hyperglycemia include polyuria, polydipsia and weight loss.'),
+  chunk('diabetes.md', 1, 'Maturity-onset diabetes of the young (MODY) is characterized by impaired insulin secretion.'),
+  chunk('oncology.md', 0, 'The 2014 census had 1,252 respondents comprised of 974 practices.', [3]),
+  chunk('oncology.md', 1, 'Advanced practice providers help meet oncology workforce demands.', [4])
+];
+
+describe('Retrieval Evaluation', () => {
+  it('should parse golden sets and report the offending line', () => {
+    const questions = parseGoldenSet([
+      '// comment',
+      '{"id": "a", "question": "What is MODY?", "relevant": [{"document": "diabetes.md", "text": "MODY"}]}',
+      '',
+      '{"question": "How many practices?", "relevant": [{"page": 3}]}'
+    ].join('\n'));
+
+    expect(questions.map(q => q.id)).toEqual(['a', 'q2']);
+    expect(questions[1].relevant).toEqual([{ page: 3 }]);
+
+    expect(() => parseGoldenSet('{"question": "x"}')).toThrow('line 1: relevant must be a non-empty array');
+    expect(() => parseGoldenSet('{"question": "x", "relevant": [{"page": -1}]}')).toThrow(EvalSetError);
+    expect(() => parseGoldenSet('\n{oops')).toThrow('line 2: invalid JSON');
+    expect(() => parseGoldenSet('')).toThrow('no questions');
+  });
+
+  it('should parse the sample golden set for /data', () => {
+    const questions = parseGoldenSet(readFileSync(join(__dirname, '../eval/golden/sample-docs.jsonl'), 'utf8'));
+    expect(questions.length).toBeGreaterThanOrEqual(10);
+  });
+
+  it('should compute recall, reciprocal rank and nDCG', () => {
+    const ranking = [corpus[2], corpus[0], corpus[3]];
+    const score = scoreRanking(ranking, [{ text: 'POLYURIA,  polydipsia' }, { document: 'oncology.md', page: 4 }], 3);
+
+    expect(score.recall).toBe(1);
+    expect(score.reciprocalRank).toBe(0.5);
+    expect(score.relevantRanks).toEqual([2, 3]);
+    const ideal = 1 + 1 / Math.log2(3);
+    expect(score.ndcg).toBeCloseTo((1 / Math.log2(3) + 1 / Math.log2(4)) / ideal);
+
+    // Cut off at k, and one chunk cannot satisfy two labels
+    expect(scoreRanking(ranking, [{ text: 'polyuria' }], 1)).toMatchObject({ recall: 0, reciprocalRank: 0, ndcg: 0 });
+    expect(scoreRanking([corpus[2]], [{ document: 'oncology.md' }, { page: 3 }], 5).recall).toBe(0.5);
+  });
+
+  it('should run each mode with the deterministic hashing embeddings', async () => {
+    const provider = new HashingEmbeddingProvider({ dimensions: 256 });
+    const { embeddings } = await provider.embed(corpus.map(c => c.chunk_text));
+
+    const retriever: Retriever = async (question, mode, k) => {
+      if (mode === 'keyword') throw new Error('keyword index offline');
+      const { embeddings: [query] } = await provider.embed([question]);
+      return corpus
+        .map((c, i) => ({ c, score: calculateCosineSimilarity(query, embeddings[i]) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k)
+        .map(({ c }) => c);
+    };
+
+    const questions = parseGoldenSet([
+      '{"id": "mody", "question": "What is maturity-onset diabetes of the young (MODY)?", "relevant": [{"text": "MODY"}]}',
+      '{"id": "census", "question": "How many practices responded to the 2014 census?", "relevant": [{"document": "oncology.md", "chunkIndex": 0}]}'
+    ].join('\n'));
+
+    const report = await runRetrievalEval(questions, retriever, { modes: ['semantic', 'keyword'], k: 2 });
+
+    expect(report.summary.semantic).toMatchObject({ questions: 2, errors: 0, recallAtK: 1, mrr: 1, ndcg: 1 });
+    expect(report.results.semantic![0].retrieved[0]).toMatchObject({ rank: 1, chunk_id: 'diabetes.md-1', relevant: true });
+    expect(report.summary.keyword).toMatchObject({ errors: 2, recallAtK: 0 });
+    expect(report.results.keyword![0].error).toBe('keyword index offline');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Search filter tests
+ * Validating the filters object, filename globs as ILIKE patterns, and where
+ * the filter clauses and their parameters land in the search statements
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseSearchFilters, buildFilterClause, globToLike } from '../lib/search-filters';
+import { buildSemanticSearch } from '../lib/semantic-search';
+import { buildKeywordSearch } from '../lib/keyword-search';
+import { maxPlaceholder } from './fixtures/sql';
+
+const DOC_ID = '0b5c7f8e-2d1a-4c3b-9e8f-123456789abc';
+
+describe('Search Filters', () => {
+  it('should accept a full filter object and normalize dates', () => {
+    const { filters, error } = parseSearchFilters({
+      documentIds: [DOC_ID],
+      filename: 'guidelines-*.pdf',
+      contentTypes: 'medical',
+      pageFrom: 2,
+      pageTo: 5,
+      uploadedAfter: '2024-01-01',
+      metadata: { hasTable: true }
+    });
+
+    expect(error).toBeUndefined();
+    expect(filters).toMatchObject({ contentTypes: ['medical'], uploadedAfter: '2024-01-01T00:00:00.000Z' });
+    expect(parseSearchFilters(undefined)).toEqual({ filters: null });
+    expect(parseSearchFilters({})).toEqual({ filters: null });
+  });
+
+  it('should reject malformed filters', () => {
+    expect(parseSearchFilters('medical').error).toBe('filters must be an object');
+    expect(parseSearchFilters({ documentIds: ['abc'] }).error).toContain('filters.documentIds');
+    expect(parseSearchFilters({ contentTypes: ['legal'] }).error).toContain('filters.contentTypes');
+    expect(parseSearchFilters({ pageFrom: 0 }).error).toContain('filters.pageFrom');
+    expect(parseSearchFilters({ pageFrom: 5, pageTo: 2 }).error).toContain('must not be after');
+    expect(parseSearchFilters({ uploadedBefore: 'last week' }).error).toContain('filters.uploadedBefore');
+    expect(parseSearchFilters({ metadata: [{ path: "a'); --", op: 'eq', value: 1 }] }).error).toContain('path');
+    expect(parseSearchFilters({ metadata: [{ path: 'pageCount', op: 'gt', value: '10' }] }).error).toContain('numeric');
+  });
+
+  it('should translate filename globs to escaped ILIKE patterns', () => {
+    expect(globToLike('report_*.pdf')).toBe('report\\_%.pdf');
+    expect(globToLike('100%?.txt')).toBe('100\\%_.txt');
+  });
+
+  it('should bind every value as a parameter after the caller\'s own', () => {
+    const values: any[] = ['user-123', 5];
+    const clause = buildFilterClause({
+      filename: '*.pdf',
+      pageTo: 3,
+      metadata: [{ path: 'source.section', op: 'gte', value: 2 }, { path: 'language', op: 'in', value: ['en', 'de'] }]
+    }, values);
+
+    expect(values).toEqual(['user-123', 5, '%.pdf', 3, ['source', 'section'], 2, ['language'], '["en","de"]']);
+    expect(clause).toContain('d.filename ILIKE $3');
+    expect(clause).toContain("jsonb_typeof(c.metadata->'pages') = 'array'");
+    expect(clause).toContain("jsonb_typeof(c.metadata #> $5::text[]) = 'number'");
+    expect(clause).not.toContain('pageFrom');
+    expect(buildFilterClause(null, values)).toBe('');
+  });
+
+  it('should add filters to the semantic and keyword statements', () => {
+    const filters = { contentTypes: ['regulatory'], uploadedBefore: '2024-06-01T00:00:00.000Z' };
+
+    const semantic = buildSemanticSearch([0.1, 0.2], 'user-123', { filters });
+    expect(semantic.values.slice(6)).toEqual([['regulatory'], '2024-06-01T00:00:00.000Z']);
+    expect(semantic.text).toContain("c.metadata->>'contentType' = ANY($7::text[])");
+    expect(maxPlaceholder(semantic.text)).toBe(semantic.values.length);
+
+    // BM25's own parameters follow the filter parameters
+    const bm25 = buildKeywordSearch('metformin', 'user-123', { ranking: 'bm25', filters, k1: 1.5, b: 0.5 })!;
+    expect(bm25.values.slice(5)).toEqual([['regulatory'], '2024-06-01T00:00:00.000Z', 'metformin', 1.5, 0.5]);
+    expect(bm25.text).toContain('$9::float8');
+    expect(maxPlaceholder(bm25.text)).toBe(bm25.values.length);
+  });
+});
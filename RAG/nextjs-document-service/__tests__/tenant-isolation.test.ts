@@ -0,0 +1,209 @@
+/**
+ * Tenant isolation tests
+ * The tenant context, the setting both drivers send with each query, and the
+ * policy SQL every setup path applies. The policies themselves are checked
+ * against a real database when RLS_TEST_DATABASE_URL names one; see
+ * scripts/setup-rls-test-db.sh. It must be reached as an ordinary role, since
+ * superusers skip the policies. Everything is rolled back.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { Pool } from 'pg';
+import { NeonQueryFunction, NeonQueryPromise } from '@neondatabase/serverless';
+import {
+  enterTenantContext,
+  runAsTenant,
+  runWithoutTenant,
+  currentTenantId,
+  applyTenantSetting,
+  withTenantSetting,
+  TENANT_SETTING_SQL
+} from '../lib/tenant-context';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+// Shaped like authenticateRequest(): the caller is only known after an await
+async function authenticate(userId: string): Promise<void> {
+  const tenant = enterTenantContext();
+  await tick();
+  tenant.userId = userId;
+}
+
+// Records what the wrapped driver would send, one entry per HTTP request
+function fakeNeon() {
+  const requests: Array<Array<{ query: string; params: any[] }>> = [];
+  const execute = async (queryData: any) => {
+    requests.push([queryData]);
+    return [{ request: requests.length }];
+  };
+  const sql: any = (strings: TemplateStringsArray, ...params: any[]) =>
+    new NeonQueryPromise(execute, { query: strings.join('?'), params });
+  sql.query = (query: string, params?: any[]) => new NeonQueryPromise(execute, { query, params: params ?? [] });
+  sql.transaction = async (queries: NeonQueryPromise<false, false>[]) => {
+    requests.push(queries.map(query => query.queryData as any));
+    return queries.map((_, index) => [{ statement: index }]);
+  };
+  return { sql: sql as NeonQueryFunction<false, false>, requests };
+}
+
+describe('Tenant Isolation', () => {
+  it('should carry the authenticated user into the rest of the request', async () => {
+    const request = async (userId: string) => {
+      await authenticate(userId);
+      await tick();
+      return currentTenantId();
+    };
+
+    // Concurrent requests keep their own tenant
+    const tenants = await Promise.all([
+      runWithoutTenant(() => request('user-a')),
+      runWithoutTenant(() => request('user-b'))
+    ]);
+    expect(tenants).toEqual(['user-a', 'user-b']);
+    expect(runWithoutTenant(() => currentTenantId())).toBeNull();
+  });
+
+  it('should set the tenant on every pg connection, clearing it outside a tenant', async () => {
+    const queries: Array<{ text: string; values?: any[] }> = [];
+    const client = { query: async (text: string, values?: any[]) => queries.push({ text, values }) };
+
+    await runAsTenant('user-a', () => applyTenantSetting(client));
+    await runWithoutTenant(() => applyTenantSetting(client));
+
+    expect(queries).toEqual([
+      { text: TENANT_SETTING_SQL, values: ['user-a'] },
+      { text: TENANT_SETTING_SQL, values: [''] }
+    ]);
+  });
+
+  it('should send the tenant with every Neon query and transaction', async () => {
+    const { sql, requests } = fakeNeon();
+    const tenantSql = withTenantSetting(sql);
+
+    const rows = await runAsTenant('user-a', () => tenantSql`SELECT * FROM documents WHERE id = ${'doc-1'}`);
+    expect(rows).toEqual([{ statement: 1 }]);
+    expect(requests[0]).toEqual([
+      { query: "SELECT set_config('app.user_id', ?, true)", params: ['user-a'] },
+      { query: 'SELECT * FROM documents WHERE id = ?', params: ['doc-1'] }
+    ]);
+
+    const results = await runAsTenant('user-b', () => tenantSql.transaction([
+      tenantSql`DELETE FROM chunks WHERE document_id = ${'doc-1'}`,
+      tenantSql.query('DELETE FROM documents WHERE id = $1', ['doc-1'])
+    ]));
+    expect(results).toEqual([[{ statement: 1 }], [{ statement: 2 }]]);
+    expect(requests[1].map(query => query.params)).toEqual([['user-b'], ['doc-1'], ['doc-1']]);
+    expect(requests).toHaveLength(2);
+  });
+});
+
+const readSetup = (file: string) => readFileSync(path.join(__dirname, '..', file), 'utf8');
+
+// Every place that creates the policies
+const SETUP_FILES = [
+  'database/create_row_level_security.sql',
+  '../database/schema.sql',
+  'scripts/setup-local-postgres.sql',
+  'scripts/setup-neon-database.js'
+];
+
+describe('Row-Level Security policies (SQL)', () => {
+  const sql = readSetup('database/create_row_level_security.sql');
+  const policies = Array.from(sql.matchAll(/CREATE POLICY (\w+) ON (\w+)([^;]*);/g))
+    .map(([, name, table, body]) => ({ name, table, body }));
+
+  it('should force the policies on every tenant table', () => {
+    for (const table of ['documents', 'chunks', 'medical_tables']) {
+      expect(sql).toContain(`ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY;`);
+      expect(sql).toContain(`ALTER TABLE ${table} FORCE ROW LEVEL SECURITY;`);
+      expect(policies.filter(policy => policy.table === table).map(policy => policy.name))
+        .toEqual([`${table}_owner`, `${table}_shared_read`]);
+    }
+  });
+
+  it('should check writes against the caller and share reads only', () => {
+    policies.filter(policy => policy.name.endsWith('_owner')).forEach(policy => {
+      expect(policy.body).not.toContain('FOR ');
+      expect(policy.body).toMatch(/USING \([\s\S]*app_user_id\(\)[\s\S]*WITH CHECK \([\s\S]*app_user_id\(\)/);
+    });
+    policies.filter(policy => policy.name.endsWith('_shared_read')).forEach(policy => {
+      expect(policy.body.trim()).toMatch(/^FOR SELECT/);
+    });
+  });
+
+  it('should offer no session setting that turns the policies off', () => {
+    for (const file of SETUP_FILES) {
+      const setup = readSetup(file);
+      const settings = Array.from(setup.matchAll(/current_setting\('([^']+)'/g)).map(match => match[1]);
+      expect(settings).toEqual(['app.user_id']);
+      expect(setup).not.toMatch(/app_bypass_rls\(\) OR|'app\.bypass_rls'/);
+    }
+
+    // Maintenance goes through a role that only a superuser can grant
+    expect(sql).toContain('DROP FUNCTION IF EXISTS app_bypass_rls();');
+    expect(sql).toContain('CREATE ROLE rag_maintenance NOLOGIN BYPASSRLS;');
+    for (const script of ['scripts/cleanup-database.js', 'scripts/validate-embeddings.js']) {
+      expect(readSetup(script)).toContain(`SET ROLE rag_maintenance`);
+    }
+  });
+});
+
+const databaseUrl = process.env.RLS_TEST_DATABASE_URL;
+
+(databaseUrl ? describe : describe.skip)('Row-Level Security (database)', () => {
+  it('should return nothing across tenants', async () => {
+    const pool = new Pool({ connectionString: databaseUrl });
+    const client = await pool.connect();
+    const as = (userId: string | null) => userId
+      ? runAsTenant(userId, () => applyTenantSetting(client))
+      : runWithoutTenant(() => applyTenantSetting(client));
+
+    try {
+      const role = await client.query('SELECT rolsuper OR rolbypassrls as bypasses FROM pg_roles WHERE rolname = current_user');
+      expect(role.rows[0].bypasses).toBe(false);
+
+      await client.query('BEGIN');
+
+      await as('tenant-a');
+      const inserted = await client.query(`
+        INSERT INTO documents (user_id, filename, file_size, file_type, text_length, status)
+        VALUES ('tenant-a', 'a.txt', 10, 'text/plain', 10, 'completed')
+        RETURNING id
+      `);
+      const documentId = inserted.rows[0].id;
+      await client.query(`
+        INSERT INTO chunks (document_id, chunk_index, text, word_count, character_count)
+        VALUES ($1, 0, 'tenant a only', 3, 13)
+      `, [documentId]);
+      expect((await client.query('SELECT id FROM chunks WHERE document_id = $1', [documentId])).rows).toHaveLength(1);
+
+      await as('tenant-b');
+      expect((await client.query('SELECT id FROM documents WHERE id = $1', [documentId])).rows).toEqual([]);
+      expect((await client.query('SELECT id FROM chunks WHERE document_id = $1', [documentId])).rows).toEqual([]);
+      expect((await client.query(`SELECT id FROM documents WHERE user_id = 'tenant-a'`)).rows).toEqual([]);
+      expect((await client.query(`UPDATE documents SET filename = 'b.txt' WHERE id = $1`, [documentId])).rowCount).toBe(0);
+      expect((await client.query('DELETE FROM chunks WHERE document_id = $1', [documentId])).rowCount).toBe(0);
+
+      // Nothing is visible without a tenant either
+      await as(null);
+      expect((await client.query('SELECT id FROM documents WHERE id = $1', [documentId])).rows).toEqual([]);
+
+      // The setting older versions trusted no longer opens anything
+      await client.query(`SELECT set_config('app.bypass_rls', 'on', true)`);
+      expect((await client.query('SELECT id FROM documents WHERE id = $1', [documentId])).rows).toEqual([]);
+
+      // Writing rows for another tenant is rejected
+      await as('tenant-b');
+      await expect(client.query(`
+        INSERT INTO documents (user_id, filename, file_size, file_type, text_length)
+        VALUES ('tenant-a', 'forged.txt', 1, 'text/plain', 1)
+      `)).rejects.toThrow('row-level security');
+    } finally {
+      await client.query('ROLLBACK').catch(() => undefined);
+      client.release();
+      await pool.end();
+    }
+  });
+});
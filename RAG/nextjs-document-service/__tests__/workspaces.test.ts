@@ -0,0 +1,95 @@
+/**
+ * Workspace and collection scope tests
+ * Role ordering, collectionIds validation, the collection access clause
+ * that precedes the filters in the generated search statements, and ids that
+ * are not UUIDs reported as missing before any query (fixtures/mock-db.ts)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { hasRole, isWorkspaceRole, parseName, WorkspaceService } from '../lib/workspaces';
+import { parseCollectionIds, buildAccessClause, isUuid, MAX_COLLECTIONS } from '../lib/collection-scope';
+import { buildSemanticSearch } from '../lib/semantic-search';
+import { buildKeywordSearch } from '../lib/keyword-search';
+import { maxPlaceholder } from './fixtures/sql';
+import { mockDatabase } from './fixtures/mock-db';
+
+const COLLECTION_A = 'A1B2C3D4-0000-4000-8000-00000000000A';
+const COLLECTION_B = 'a1b2c3d4-0000-4000-8000-00000000000b';
+
+describe('Workspaces', () => {
+  it('should rank roles owner > editor > viewer', () => {
+    expect(hasRole('owner', 'editor')).toBe(true);
+    expect(hasRole('editor', 'editor')).toBe(true);
+    expect(hasRole('viewer', 'editor')).toBe(false);
+    expect(hasRole('editor', 'owner')).toBe(false);
+    expect(isWorkspaceRole('viewer')).toBe(true);
+    expect(isWorkspaceRole('admin')).toBe(false);
+    expect(parseName('  Cardiology  ')).toEqual({ name: 'Cardiology' });
+    expect(parseName('   ').error).toBe('name is required');
+  });
+
+  it('should validate and normalize collectionIds', () => {
+    expect(parseCollectionIds(undefined)).toEqual({ collectionIds: null });
+    expect(parseCollectionIds([])).toEqual({ collectionIds: null });
+    expect(parseCollectionIds([COLLECTION_A, COLLECTION_B, COLLECTION_A.toLowerCase()])).toEqual({
+      collectionIds: [COLLECTION_A.toLowerCase(), COLLECTION_B]
+    });
+
+    expect(parseCollectionIds(COLLECTION_A).error).toContain('array');
+    expect(parseCollectionIds(['shared']).error).toContain('UUIDs');
+    const tooMany = Array.from({ length: MAX_COLLECTIONS + 1 }, (_, i) => `a1b2c3d4-0000-4000-8000-${String(i).padStart(12, '0')}`);
+    expect(parseCollectionIds(tooMany).error).toContain(`at most ${MAX_COLLECTIONS}`);
+  });
+
+  it('should read the user\'s own documents unless collections are given', () => {
+    const values: any[] = ['user-123'];
+    expect(buildAccessClause('$1', null, values)).toBe('d.user_id = $1');
+    expect(values).toEqual(['user-123']);
+
+    expect(buildAccessClause('$1', [COLLECTION_B], values)).toBe(
+      'd.family_id IN (SELECT f.family_id FROM collection_family_ids($1, $2::uuid[]) f)'
+    );
+    expect(values).toEqual(['user-123', [COLLECTION_B]]);
+  });
+
+  it('should scope the search statements to collections before the filters', () => {
+    const filters = { contentTypes: ['medical'] };
+
+    const semantic = buildSemanticSearch([0.1, 0.2], 'user-123', { filters, collectionIds: [COLLECTION_B] });
+    expect(semantic.values.slice(6)).toEqual([[COLLECTION_B], ['medical']]);
+    expect(semantic.text).toContain('collection_family_ids($2, $7::uuid[])');
+    expect(semantic.text).not.toContain('d.user_id');
+    expect(maxPlaceholder(semantic.text)).toBe(semantic.values.length);
+
+    const bm25 = buildKeywordSearch('metformin', 'user-123', { ranking: 'bm25', filters, collectionIds: [COLLECTION_B] })!;
+    expect(bm25.values.slice(5, 7)).toEqual([[COLLECTION_B], ['medical']]);
+    expect(bm25.text).toContain('collection_family_ids($1, $6::uuid[])');
+    expect(bm25.text).not.toContain('d.user_id');
+    expect(maxPlaceholder(bm25.text)).toBe(bm25.values.length);
+  });
+
+  it('should treat ids that are not UUIDs as missing without querying them', async () => {
+    expect(isUuid(COLLECTION_A)).toBe(true);
+    expect(isUuid('1; DROP TABLE workspaces')).toBe(false);
+
+    const database = mockDatabase(() => [{ id: COLLECTION_A, role: 'owner' }]);
+    try {
+      expect(await WorkspaceService.getRole('not-a-uuid', 'user-123')).toBeNull();
+      expect(await WorkspaceService.deleteWorkspace('42', 'user-123')).toBe(false);
+      expect(await WorkspaceService.setMember('42', 'user-123', 'user-456', 'viewer')).toBe(false);
+      expect(await WorkspaceService.createCollection('42', 'user-123', { name: 'Cardiology' })).toBeNull();
+      expect(await WorkspaceService.listCollections('user-123', 'workspace-1')).toEqual([]);
+      expect(await WorkspaceService.getCollection('collection-1', 'user-123')).toBeNull();
+      expect(await WorkspaceService.deleteCollection('collection-1', 'user-123')).toBe(false);
+      expect(database.queries).toEqual([]);
+
+      // A real collection with a malformed document or family id stops after the role check
+      expect(await WorkspaceService.addDocument(COLLECTION_A, 'user-123', 'doc-1')).toBeNull();
+      expect(await WorkspaceService.removeDocument(COLLECTION_A, 'user-123', 'family-1')).toBe(false);
+      expect(database.queries).toHaveLength(2);
+      database.queries.forEach(query => expect(query.text).toContain('FROM collections c'));
+    } finally {
+      database.restore();
+    }
+  });
+});
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QueryLogService } from '../../../lib/query-log';
+import { authenticateRequest, resolveUserId, AuthError, authErrorResponse } from '../../../lib/auth';
+
+/**
+ * Search and chat analytics from the query log
+ * GET /api/analytics?days=30&limit=10&slowMs=2000
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const requestedUserId = searchParams.get('userId');
+    const user = await authenticateRequest(request, requestedUserId);
+    const userId = resolveUserId(user, requestedUserId);
+
+    const days = Math.min(parseInt(searchParams.get('days') || '30') || 30, 365);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '10') || 10, 100);
+    const slowMs = searchParams.get('slowMs');
+    const slowQueryMs = slowMs !== null ? parseInt(slowMs) : undefined;
+    if (days < 1 || limit < 1 || (slowQueryMs !== undefined && (isNaN(slowQueryMs) || slowQueryMs < 0))) {
+      return NextResponse.json(
+        { error: 'days and limit must be positive integers, slowMs a non-negative integer', success: false },
+        { status: 400 }
+      );
+    }
+
+    const analytics = await QueryLogService.getAnalytics(userId, { days, limit, slowQueryMs });
+
+    return NextResponse.json({
+      success: true,
+      ...analytics,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Analytics API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch analytics', success: false },
+      { status: 500 }
+    );
+  }
+}
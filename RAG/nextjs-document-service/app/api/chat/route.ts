@@ -1,13 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '../../../lib/database';
-import { generateEmbedding } from '../../../lib/embeddings';
-import { generateChatResponse, validateChatRequest } from '../../../lib/openai-chat';
+import { randomUUID } from 'crypto';
+import { generateChatResponse, streamChatResponse, condenseQuestion, validateChatRequest, ChatStreamEvent, NO_CONTEXT_ANSWER } from '../../../lib/openai-chat';
+import { ConversationService, ChatHistoryMessage, boundHistory } from '../../../lib/conversations';
+import { chatConfig } from '../../../lib/config';
+import { encodeSSE, SSE_HEADERS } from '../../../lib/sse';
+import { ChatProviderError, ChatUsage } from '../../../lib/chat-providers';
+import { retrieve, RETRIEVAL_MODES, FusionOptions, RetrievalMode, RetrievedChunk } from '../../../lib/hybrid-search';
+import { applyReranker, RerankOptions } from '../../../lib/reranker';
+import type { SearchFilters } from '../../../lib/search-filters';
+import { WorkspaceService } from '../../../lib/workspaces';
+import { authenticateRequest, resolveUserId, AuthError, authErrorResponse } from '../../../lib/auth';
+import { QueryLogService, StageTimer, UsageMeter } from '../../../lib/query-log';
 
 /**
- * Chat endpoint that combines RAG search with OpenAI question answering
+ * Chat endpoint that combines RAG search with LLM question answering
  * POST /api/chat
+ * With `stream: true` the answer is sent as Server-Sent Events
+ * (see ChatStreamEvent in lib/openai-chat.ts).
+ * Questions are stored in the conversation named by `conversationId`, or in a
+ * new one; follow-ups are condensed into standalone queries before retrieval.
+ * A turn is stored only once it is answered, so a failed or cancelled turn
+ * leaves no unanswered question or empty conversation behind.
  */
 export async function POST(request: NextRequest) {
+  const timer = new StageTimer();
+  // Tokens of every model call and embedding, logged with the query
+  const usage = new UsageMeter();
   try {
     const body = await request.json();
     
@@ -20,47 +38,147 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const { question, userId, searchMode, maxResults, similarityThreshold } = validation.data!;
-    
-    console.log(`Chat request: "${question}" (mode: ${searchMode}, threshold: ${similarityThreshold})`);
+    const { question, searchMode, maxResults, similarityThreshold, stream, conversationId: requestedConversationId, fusion, rerank, filters, collectionIds } = validation.data!;
+
+    const user = await authenticateRequest(request, validation.data!.userId);
+    const userId = resolveUserId(user, validation.data!.userId);
+
+    // Collections outside the caller's workspaces are reported as missing
+    const unreadable = collectionIds ? await WorkspaceService.findUnreadableCollections(userId, collectionIds) : [];
+    if (unreadable.length > 0) {
+      return NextResponse.json(
+        { error: `Collections not found: ${unreadable.join(', ')}` },
+        { status: 404 }
+      );
+    }
+
+    // Continue the caller's conversation or start a new one
+    const askedAt = new Date();
+    let history: ChatHistoryMessage[] = [];
+    let conversationId: string;
+    let newConversation: { userId: string; title: string } | null = null;
+    if (requestedConversationId) {
+      const conversation = await ConversationService.getConversation(requestedConversationId, userId);
+      if (!conversation) {
+        return NextResponse.json(
+          { error: 'Conversation not found' },
+          { status: 404 }
+        );
+      }
+      conversationId = conversation.id;
+      history = boundHistory(
+        await ConversationService.getRecentMessages(conversationId, chatConfig.historyMessages),
+        chatConfig.historyMessages,
+        chatConfig.historyMaxChars
+      );
+    } else {
+      // Created together with the first answered turn
+      conversationId = randomUUID();
+      newConversation = { userId, title: question };
+    }
+
+    const standaloneQuery = chatConfig.condenseQueries
+      ? await timer.time('condense', () => condenseQuestion(question, history, usage))
+      : question;
+
+    console.log(`Chat request: "${question}" (mode: ${searchMode}, threshold: ${similarityThreshold}, history: ${history.length})`);
+    if (standaloneQuery !== question) {
+      console.log(`Condensed follow-up to: "${standaloneQuery}"`);
+    }
     
     // Step 1: Perform RAG search to get relevant context
-    const searchResults = await performRAGSearch({
-      query: question,
+    const searchResults = await timer.time('retrieval', () => performRAGSearch({
+      query: standaloneQuery,
       userId,
       searchMode: searchMode!,
       maxResults: maxResults!,
-      similarityThreshold: similarityThreshold!
-    });
+      similarityThreshold: similarityThreshold!,
+      fusion: fusion!,
+      rerank: rerank || null,
+      filters: filters || null,
+      collectionIds: collectionIds || null,
+      usage
+    }));
     
+    const turn: ChatTurn = { conversationId, newConversation, question, standaloneQuery, history, askedAt };
+
+    // The logged query is the one that was searched, i.e. the condensed follow-up
+    const logQuery = (modelUsed: string, answerUsage?: ChatUsage) => {
+      if (answerUsage) {
+        usage.addChat(answerUsage);
+      }
+      return QueryLogService.record({
+        userId,
+        source: 'chat',
+        query: standaloneQuery,
+        searchMode: searchMode!,
+        filters,
+        results: searchResults,
+        stageLatencyMs: timer.stages,
+        totalMs: timer.elapsed(),
+        modelUsed,
+        usage: usage.usage,
+        conversationId
+      });
+    };
+
+    if (stream) {
+      return streamChat(request, turn, searchResults, userId, { timer, usage, logQuery });
+    }
+
     if (searchResults.length === 0) {
+      const queryId = await logQuery('none');
+      await saveTurn(turn, NO_CONTEXT_ANSWER, [], { modelUsed: 'none', tokensUsed: 0, queryId });
       return NextResponse.json({
-        answer: "I don't have enough relevant information in the knowledge base to answer your question. Please try rephrasing your question or upload more relevant documents.",
+        answer: NO_CONTEXT_ANSWER,
         sources: [],
         search_results_count: 0,
         tokens_used: 0,
-        model_used: 'none'
+        model_used: 'none',
+        conversation_id: conversationId,
+        standalone_query: standaloneQuery,
+        query_id: queryId
       });
     }
     
     console.log(`Found ${searchResults.length} relevant chunks for chat`);
     
-    // Step 2: Generate AI response using OpenAI with RAG context
-    const chatResponse = await generateChatResponse({
+    // Step 2: Generate AI response with RAG context
+    const chatResponse = await timer.time('generation', () => generateChatResponse({
       question,
       searchResults,
-      userId
-    });
+      userId,
+      history,
+      usage
+    }));
     
     console.log(`Generated response using ${chatResponse.model_used}, tokens: ${chatResponse.tokens_used}`);
+
+    // The query id is kept with the answer so feedback can be given on reload
+    const queryId = await logQuery(chatResponse.model_used, chatResponse.usage);
+    await saveTurn(turn, chatResponse.answer, chatResponse.sources, {
+      modelUsed: chatResponse.model_used,
+      tokensUsed: chatResponse.tokens_used,
+      citations: chatResponse.citations,
+      queryId
+    });
     
-    return NextResponse.json(chatResponse);
+    return NextResponse.json({
+      ...chatResponse,
+      conversation_id: conversationId,
+      standalone_query: standaloneQuery,
+      query_id: queryId
+    });
     
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
     console.error('Chat API error:', error);
     
-    // Handle specific OpenAI errors
-    if (error.message?.includes('OpenAI API')) {
+    // Handle chat model errors
+    if (error instanceof ChatProviderError) {
       return NextResponse.json(
         { error: 'AI service temporarily unavailable. Please try again.' },
         { status: 503 }
@@ -82,6 +200,107 @@ export async function POST(request: NextRequest) {
   }
 }
 
+interface ChatTurn {
+  conversationId: string;
+  newConversation: { userId: string; title: string } | null;
+  question: string;
+  standaloneQuery: string;
+  history: ChatHistoryMessage[];
+  askedAt: Date;
+}
+
+/**
+ * Store an answered turn: the question and its answer together
+ */
+async function saveTurn(turn: ChatTurn, answer: string, sources: any[], metadata: Record<string, any>) {
+  await ConversationService.addTurn({
+    conversationId: turn.conversationId,
+    newConversation: turn.newConversation,
+    question: turn.question,
+    standaloneQuery: turn.standaloneQuery !== turn.question ? turn.standaloneQuery : null,
+    askedAt: turn.askedAt,
+    answer,
+    sources,
+    metadata
+  });
+}
+
+/**
+ * Send the answer as SSE: sources, token deltas, then usage and model.
+ * Closing the connection aborts the upstream completion; a cancelled or
+ * failed turn is neither stored nor logged. The done event repeats the
+ * conversation id once the turn is stored.
+ */
+function streamChat(
+  request: NextRequest,
+  turn: ChatTurn,
+  searchResults: any[],
+  userId: string,
+  log: { timer: StageTimer; usage: UsageMeter; logQuery: (modelUsed: string, answerUsage?: ChatUsage) => Promise<string | null> }
+): Response {
+  const { conversationId, question, standaloneQuery, history } = turn;
+  const events: AsyncGenerator<ChatStreamEvent> | ChatStreamEvent[] = searchResults.length > 0
+    ? streamChatResponse({ question, searchResults, userId, history, usage: log.usage }, request.signal)
+    : [
+        { type: 'sources', sources: [], search_results_count: 0 },
+        { type: 'delta', content: NO_CONTEXT_ANSWER },
+        { type: 'done', tokens_used: 0, model_used: 'none', usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 } }
+      ];
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let answer = '';
+      let sources: any[] = [];
+      const generationStarted = Date.now();
+
+      try {
+        for await (const event of events) {
+          if (event.type === 'sources') {
+            sources = event.sources;
+            controller.enqueue(encodeSSE({ ...event, conversation_id: conversationId, standalone_query: standaloneQuery }));
+            continue;
+          }
+
+          if (event.type === 'done') {
+            // Logged before the done event goes out so it can carry the query id
+            console.log(`Streamed response using ${event.model_used}, tokens: ${event.tokens_used}`);
+            log.timer.add('generation', Date.now() - generationStarted);
+            const queryId = await log.logQuery(event.model_used, event.usage);
+            await saveTurn(turn, answer, sources, {
+              modelUsed: event.model_used,
+              tokensUsed: event.tokens_used,
+              citations: event.citations,
+              queryId
+            });
+            controller.enqueue(encodeSSE({ ...event, query_id: queryId, conversation_id: conversationId }));
+            continue;
+          }
+
+          controller.enqueue(encodeSSE(event));
+          if (event.type === 'delta') {
+            answer += event.content;
+          }
+        }
+      } catch (error: any) {
+        if (request.signal.aborted) {
+          console.log('Chat stream cancelled by client');
+          return;
+        }
+        console.error('Chat stream error:', error);
+        controller.enqueue(encodeSSE({
+          type: 'error',
+          error: error instanceof ChatProviderError
+            ? 'AI service temporarily unavailable. Please try again.'
+            : 'Internal server error'
+        }));
+      }
+      controller.close();
+    }
+  });
+
+  return new Response(body, { headers: SSE_HEADERS });
+}
+
 /**
  * Perform RAG search based on specified mode
  */
@@ -91,166 +310,68 @@ async function performRAGSearch(params: {
   searchMode: string;
   maxResults: number;
   similarityThreshold: number;
+  fusion: FusionOptions;
+  rerank: RerankOptions | null;
+  filters: SearchFilters | null;
+  collectionIds: string[] | null;
+  usage: UsageMeter;
 }) {
-  const { query, userId, searchMode, maxResults, similarityThreshold } = params;
+  const { query, userId, searchMode, maxResults, similarityThreshold, fusion, rerank, filters, collectionIds, usage } = params;
   
   console.log(`Performing ${searchMode} search for: "${query}"`);
   
-  if (searchMode === 'semantic') {
-    return await performSemanticSearch(query, userId, maxResults, similarityThreshold);
-  } else if (searchMode === 'keyword') {
-    return await performKeywordSearch(query, userId, maxResults);
-  } else if (searchMode === 'hybrid') {
-    return await performHybridSearch(query, userId, maxResults, similarityThreshold);
-  } else if (searchMode === 'medical_tables') {
+  // With reranking, retrieve topN candidates and keep the best maxResults
+  const candidateCount = rerank ? Math.max(maxResults, rerank.topN) : maxResults;
+  
+  if (searchMode === 'medical_tables') {
     return await performMedicalTableSearch(query, userId, maxResults);
   }
+  if (!RETRIEVAL_MODES.includes(searchMode as RetrievalMode)) {
+    throw new Error(`Unsupported search mode: ${searchMode}`);
+  }
   
-  throw new Error(`Unsupported search mode: ${searchMode}`);
-}
-
-/**
- * Perform semantic search using vector embeddings
- */
-async function performSemanticSearch(query: string, userId: string, maxResults: number, threshold: number) {
-  const embeddingResult = await generateEmbedding(query);
-  const queryVector = `[${embeddingResult.embedding.join(',')}]`;
-  
-  console.log(`Generated embedding with ${embeddingResult.embedding.length} dimensions`);
-  
-  const searchQuery = `
-    SELECT 
-      c.id as chunk_id,
-      c.text,
-      c.chunk_index,
-      d.filename as document_name,
-      (c.embedding <=> $1::vector) as distance,
-      (1 - (c.embedding <=> $1::vector)) as similarity_score
-    FROM chunks c
-    JOIN documents d ON c.document_id = d.id
-    WHERE d.user_id = $2 
-      AND d.status = 'completed'
-      AND (1 - (c.embedding <=> $1::vector)) >= $3
-    ORDER BY c.embedding <=> $1::vector
-    LIMIT $4
-  `;
-  
-  const result = await db.query(searchQuery, [queryVector, userId, threshold, maxResults]);
-  
-  console.log(`Semantic search found ${result.rows.length} results`);
-  
-  return result.rows.map((row: any) => ({
-    chunk_id: row.chunk_id,
-    text: row.text,
-    chunk_index: row.chunk_index,
-    document_name: row.document_name,
-    similarity_score: parseFloat(row.similarity_score),
-    page: calculatePageNumber(row.chunk_index) // Estimate page from chunk index
-  }));
-}
-
-/**
- * Perform keyword search using PostgreSQL full-text search
- */
-async function performKeywordSearch(query: string, userId: string, maxResults: number) {
-  const keywords = extractKeywords(query);
-  console.log(`Extracted keywords: ${keywords.join(', ')}`);
-  
-  const conditions = keywords.map(() => 'LOWER(c.text) LIKE LOWER(?)').join(' OR ');
-  const keywordParams = keywords.map(kw => `%${kw}%`);
-  
-  const searchQuery = `
-    SELECT 
-      c.id as chunk_id,
-      c.text,
-      c.chunk_index,
-      d.filename as document_name,
-      0.8 as similarity_score
-    FROM chunks c
-    JOIN documents d ON c.document_id = d.id
-    WHERE d.user_id = $1 
-      AND d.status = 'completed'
-      AND (${keywords.map((_, i) => `LOWER(c.text) ILIKE $${i + 3}`).join(' OR ')})
-    ORDER BY 
-      c.chunk_index ASC
-    LIMIT $2
-  `;
+  const retrieval = await retrieve(searchMode as RetrievalMode, query, {
+    userId,
+    maxResults: candidateCount,
+    similarityThreshold,
+    fusion,
+    filters,
+    collectionIds,
+    usage
+  });
+  const results = retrieval.results.map(toChatResult);
   
-  const params = [userId, maxResults, ...keywordParams];
-  const result = await db.query(searchQuery, params);
+  if (!rerank) {
+    return results;
+  }
   
-  console.log(`Keyword search found ${result.rows.length} results`);
+  const reranked = await applyReranker(query, results, rerank, result => ({
+    chunk_id: String(result.chunk_id),
+    chunk_text: result.text,
+    chunk_index: result.chunk_index,
+    score: result.similarity_score ?? 0,
+    filename: result.document_name
+  }), undefined, usage);
+  console.log(`Reranked ${reranked.details.reranked} candidates with ${rerank.reranker}${reranked.details.error ? ` (failed: ${reranked.details.error})` : ''}`);
   
-  return result.rows.map((row: any) => ({
-    chunk_id: row.chunk_id,
-    text: row.text,
-    chunk_index: row.chunk_index,
-    document_name: row.document_name,
-    similarity_score: parseFloat(row.similarity_score),
-    page: calculatePageNumber(row.chunk_index)
-  }));
+  return reranked.results.slice(0, maxResults);
 }
 
 /**
- * Perform hybrid search (combination of semantic and keyword)
+ * Source fields the chat prompt and citations use
  */
-async function performHybridSearch(query: string, userId: string, maxResults: number, threshold: number) {
-  console.log(`Performing hybrid search for: "${query}"`);
-  
-  // Get both semantic and keyword results
-  const [semanticResults, keywordResults] = await Promise.all([
-    performSemanticSearch(query, userId, maxResults, threshold),
-    performKeywordSearch(query, userId, maxResults)
-  ]);
-  
-  console.log(`Hybrid: ${semanticResults.length} semantic + ${keywordResults.length} keyword results`);
-  
-  // Determine weights based on semantic quality
-  const avgSemanticScore = semanticResults.reduce((sum: number, r: any) => sum + (r.similarity_score || 0), 0) / semanticResults.length;
-  const semanticWeight = avgSemanticScore > 0.5 ? 0.8 : 0.4;
-  const keywordWeight = 1 - semanticWeight;
-  
-  console.log(`Hybrid weights - semantic: ${semanticWeight}, keyword: ${keywordWeight}`);
-  
-  // Combine and deduplicate results
-  const combinedResults = new Map<string, any>();
-  
-  // Add semantic results with their weights
-  semanticResults.forEach((result: any) => {
-    const key = String(result.chunk_id); // Ensure string key
-    combinedResults.set(key, {
-      ...result,
-      final_score: (result.similarity_score || 0) * semanticWeight,
-      source_type: 'semantic'
-    });
-  });
-  
-  // Add keyword results, updating score if already exists
-  keywordResults.forEach((result: any) => {
-    const key = String(result.chunk_id); // Ensure string key
-    if (combinedResults.has(key)) {
-      const existing = combinedResults.get(key);
-      existing.final_score += (result.similarity_score || 0) * keywordWeight;
-      existing.source_type = 'hybrid'; // Mark as coming from both sources
-      console.log(`Merged duplicate chunk_id: ${key}`);
-    } else {
-      combinedResults.set(key, {
-        ...result,
-        final_score: (result.similarity_score || 0) * keywordWeight,
-        source_type: 'keyword'
-      });
-    }
-  });
-  
-  // Sort by final score and limit results
-  const finalResults = Array.from(combinedResults.values())
-    .sort((a: any, b: any) => b.final_score - a.final_score)
-    .slice(0, maxResults);
-  
-  console.log(`Hybrid final: ${finalResults.length} results after filtering`);
-  console.log(`Deduplication stats - Original: ${semanticResults.length + keywordResults.length}, Final: ${finalResults.length}, Duplicates removed: ${(semanticResults.length + keywordResults.length) - finalResults.length}`);
-  
-  return finalResults;
+function toChatResult(chunk: RetrievedChunk) {
+  return {
+    chunk_id: chunk.chunk_id,
+    text: chunk.chunk_text,
+    chunk_index: chunk.chunk_index,
+    document_name: chunk.filename,
+    similarity_score: chunk.similarity_score,
+    fused_score: chunk.fused_score,
+    source_type: chunk.source_type,
+    page: chunkPage(chunk),
+    section: chunk.metadata.section
+  };
 }
 
 /**
@@ -262,15 +383,11 @@ async function performMedicalTableSearch(query: string, userId: string, maxResul
 }
 
 /**
- * Extract keywords from query
+ * Page a chunk was extracted from, as recorded at ingestion. Chunks of
+ * documents without page information fall back to an estimate.
  */
-function extractKeywords(query: string): string[] {
-  return query
-    .toLowerCase()
-    .replace(/[^\w\s]/g, '')
-    .split(/\s+/)
-    .filter(word => word.length > 2)
-    .slice(0, 10); // Limit keywords
+function chunkPage(row: { chunk_index: number; page: number | null; metadata?: Record<string, any> }): number {
+  return row.page ?? row.metadata?.primaryPage ?? calculatePageNumber(row.chunk_index);
 }
 
 /**
@@ -292,14 +409,17 @@ export async function GET() {
     endpoint: '/api/chat',
     parameters: {
       question: 'string (required) - Your question',
-      userId: 'string (optional) - User identifier, defaults to "demo-user"',
+      userId: 'string (optional) - Must match the authenticated user',
       searchMode: 'string (optional) - "semantic", "keyword", "hybrid", "medical_tables", defaults to "hybrid"',
       maxResults: 'number (optional) - Maximum search results to use as context, max 20, defaults to 10',
-      similarityThreshold: 'number (optional) - Minimum similarity for semantic search, 0.0-1.0, defaults to 0.3'
+      similarityThreshold: 'number (optional) - Minimum similarity for semantic search, 0.0-1.0, defaults to 0.3',
+      fusion: 'string | object (optional) - Hybrid fusion: "rrf", "weighted" or "convex", or { strategy, k, semanticWeight, keywordWeight, alpha, minScore (0-1) }',
+      rerank: 'boolean | string | object (optional) - Rerank the top candidates: true, "heuristic", "llm", "cross_encoder" or { reranker, topN }',
+      filters: 'object (optional) - Restrict retrieval: { documentIds, filename (glob), contentTypes, pageFrom, pageTo, uploadedAfter, uploadedBefore, metadata, documentMetadata }',
+      collectionIds: 'string[] (optional) - Answer from these workspace collections instead of your own documents'
     },
     example: {
       question: 'What is diabetes?',
-      userId: 'demo-user',
       searchMode: 'hybrid',
       maxResults: 10
     }
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceService, WorkspaceAccessError } from '../../../../../lib/workspaces';
+import { authenticateRequest, AuthError, authErrorResponse } from '../../../../../lib/auth';
+
+/**
+ * Add one of the caller's documents to a collection (editor or owner). The
+ * whole document family is added, so later versions stay in the collection.
+ * POST /api/collections/[id]/documents
+ * Body: { documentId }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await authenticateRequest(request);
+    const body = await request.json();
+
+    if (typeof body.documentId !== 'string' || !body.documentId) {
+      return NextResponse.json(
+        { error: 'documentId is required', success: false },
+        { status: 400 }
+      );
+    }
+
+    // Missing collections and other users' documents are reported as missing
+    const document = await WorkspaceService.addDocument(params.id, user.userId, body.documentId);
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Collection or document not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      collectionId: params.id,
+      document
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { error: error.message, success: false },
+        { status: 403 }
+      );
+    }
+
+    console.error('Collection document API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to add document', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove a document family from a collection (editor or owner)
+ * DELETE /api/collections/[id]/documents?familyId=...
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await authenticateRequest(request);
+    const familyId = new URL(request.url).searchParams.get('familyId');
+
+    if (!familyId) {
+      return NextResponse.json(
+        { error: 'familyId is required', success: false },
+        { status: 400 }
+      );
+    }
+
+    const removed = await WorkspaceService.removeDocument(params.id, user.userId, familyId);
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Collection or document not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      collectionId: params.id,
+      familyId,
+      removed: true
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { error: error.message, success: false },
+        { status: 403 }
+      );
+    }
+
+    console.error('Collection document delete API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to remove document', success: false },
+      { status: 500 }
+    );
+  }
+}
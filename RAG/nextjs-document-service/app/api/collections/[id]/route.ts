@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceService, WorkspaceAccessError } from '../../../../lib/workspaces';
+import { authenticateRequest, AuthError, authErrorResponse } from '../../../../lib/auth';
+
+/**
+ * A collection with its documents, each at its latest version
+ * GET /api/collections/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await authenticateRequest(request);
+
+    // Collections outside the caller's workspaces are reported as missing
+    const collection = await WorkspaceService.getCollection(params.id, user.userId);
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    const documents = await WorkspaceService.getCollectionDocuments(collection.id);
+
+    return NextResponse.json({
+      success: true,
+      collection,
+      documents,
+      count: documents.length
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Collection API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch collection', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a collection (owner only). The documents themselves are not touched.
+ * DELETE /api/collections/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await authenticateRequest(request);
+
+    const deleted = await WorkspaceService.deleteCollection(params.id, user.userId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Collection not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      collectionId: params.id,
+      deleted: true
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { error: error.message, success: false },
+        { status: 403 }
+      );
+    }
+
+    console.error('Collection delete API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete collection', success: false },
+      { status: 500 }
+    );
+  }
+}
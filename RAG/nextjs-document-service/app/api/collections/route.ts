@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceService } from '../../../lib/workspaces';
+import { authenticateRequest, resolveUserId, AuthError, authErrorResponse } from '../../../lib/auth';
+
+/**
+ * List the collections the caller can search, across their workspaces
+ * GET /api/collections?workspaceId=...
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const requestedUserId = searchParams.get('userId');
+    const user = await authenticateRequest(request, requestedUserId);
+    const userId = resolveUserId(user, requestedUserId);
+
+    const collections = await WorkspaceService.listCollections(userId, searchParams.get('workspaceId') || undefined);
+
+    return NextResponse.json({
+      success: true,
+      collections,
+      count: collections.length
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Collections API error:', error);
+
+    return NextResponse.json(
+      {
+        error: error.message || 'Failed to fetch collections',
+        success: false,
+        collections: [],
+        count: 0
+      },
+      { status: 500 }
+    );
+  }
+}
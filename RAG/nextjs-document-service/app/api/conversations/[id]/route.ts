@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConversationService } from '../../../../lib/conversations';
+import { authenticateRequest, AuthError, authErrorResponse } from '../../../../lib/auth';
+
+/**
+ * A conversation with all of its messages
+ * GET /api/conversations/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await authenticateRequest(request);
+
+    // Other users' conversations are reported as missing
+    const conversation = await ConversationService.getConversation(params.id, user.userId);
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    const messages = await ConversationService.getMessages(conversation.id);
+
+    return NextResponse.json({
+      success: true,
+      conversation,
+      messages,
+      count: messages.length
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Conversation API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch conversation', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a conversation and its messages
+ * DELETE /api/conversations/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await authenticateRequest(request);
+
+    const deleted = await ConversationService.deleteConversation(params.id, user.userId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Conversation not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      conversationId: params.id,
+      deleted: true
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Conversation delete API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete conversation', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConversationService } from '../../../lib/conversations';
+import { authenticateRequest, resolveUserId, AuthError, authErrorResponse } from '../../../lib/auth';
+
+/**
+ * List the caller's conversations, most recently active first
+ * GET /api/conversations?limit=50
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const requestedUserId = searchParams.get('userId');
+    const user = await authenticateRequest(request, requestedUserId);
+    const userId = resolveUserId(user, requestedUserId);
+
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200);
+    const conversations = await ConversationService.listConversations(userId, limit);
+
+    return NextResponse.json({
+      success: true,
+      conversations,
+      count: conversations.length
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Conversations API error:', error);
+
+    return NextResponse.json(
+      {
+        error: error.message || 'Failed to fetch conversations',
+        success: false,
+        conversations: [],
+        count: 0
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDocumentChunks } from '../../../../../lib/database';
+import { getDocumentChunks, DocumentService } from '../../../../../lib/database';
+import { authenticateRequest, AuthError, authErrorResponse } from '../../../../../lib/auth';
 
 export async function GET(
   request: NextRequest,
@@ -15,6 +16,16 @@ export async function GET(
       );
     }
 
+    const user = await authenticateRequest(request);
+
+    const document = await DocumentService.getDocument(documentId);
+    if (!document || document.user_id !== user.userId) {
+      return NextResponse.json(
+        { error: 'Document not found', success: false },
+        { status: 404 }
+      );
+    }
+
     const chunks = await getDocumentChunks(documentId);
 
     return NextResponse.json({
@@ -25,6 +36,10 @@ export async function GET(
     });
 
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
     console.error('Chunks API error:', error);
     
     return NextResponse.json(
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentService } from '../../../../../lib/database-adapter';
+import { createDocumentProcessor } from '../../../../../lib/realtime';
+import { JobService, ensureWorkerRunning } from '../../../../../lib/job-queue';
+import { authenticateRequest, AuthError, authErrorResponse } from '../../../../../lib/auth';
+
+/**
+ * Re-chunk and re-embed a document from its original upload using the
+ * current chunking configuration
+ * POST /api/documents/[id]/reindex
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const documentId = params.id;
+    const user = await authenticateRequest(request);
+
+    const documentService = await getDocumentService();
+    const document = await documentService.getDocument(documentId);
+    if (!document || document.user_id !== user.userId) {
+      return NextResponse.json(
+        { error: 'Document not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    const activeJob = await JobService.getActiveDocumentJob(documentId);
+    if (activeJob) {
+      return NextResponse.json(
+        { error: 'Document is already being re-processed', success: false, jobId: activeJob.id },
+        { status: 409 }
+      );
+    }
+
+    // Documents uploaded before the ingestion queue have no stored original
+    const source = await JobService.getDocumentSourceFile(documentId);
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Original file is not available for this document; upload a new version instead', success: false },
+        { status: 409 }
+      );
+    }
+
+    const job = await JobService.enqueueJob({
+      user_id: user.userId,
+      filename: source.filename,
+      file_type: source.file_type,
+      file_size: source.file_size,
+      file_data: source.file_data,
+      target_document_id: documentId
+    });
+
+    createDocumentProcessor(documentId, user.userId, source.filename, job.id).queued();
+    ensureWorkerRunning();
+
+    return NextResponse.json({
+      success: true,
+      documentId,
+      jobId: job.id,
+      status: job.status,
+      statusUrl: `/api/jobs/${job.id}`
+    }, { status: 202 });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Document reindex API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to reindex document', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentService } from '../../../../lib/database-adapter';
+import { createDocumentProcessor } from '../../../../lib/realtime';
+import { validateUploadFile, validateImageUpload } from '../../../../lib/ingestion';
+import { JobService, ensureWorkerRunning } from '../../../../lib/job-queue';
+import { authenticateRequest, AuthError, authErrorResponse } from '../../../../lib/auth';
+
+/**
+ * Delete a document together with its chunks and medical tables
+ * DELETE /api/documents/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const documentId = params.id;
+    const user = await authenticateRequest(request);
+
+    const documentService = await getDocumentService();
+    const document = await documentService.getDocument(documentId);
+    // Other users' documents are reported as missing
+    if (!document || document.user_id !== user.userId) {
+      return NextResponse.json(
+        { error: 'Document not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    const deleted = await documentService.deleteDocument(documentId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Document not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      documentId,
+      deleted: true
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Document delete API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete document', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Upload a new version of a document. It is stored as the next version in the
+ * same family and becomes the latest once processed; unchanged chunks keep
+ * their embeddings.
+ * PUT /api/documents/[id]
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const documentId = params.id;
+    const user = await authenticateRequest(request);
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'File is required', success: false },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateUploadFile(file);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError, success: false },
+        { status: 400 }
+      );
+    }
+
+    // Images are read by OCR, which may be off or not installed
+    const imageError = await validateImageUpload(file);
+    if (imageError) {
+      return NextResponse.json(
+        { error: imageError, success: false },
+        { status: 415 }
+      );
+    }
+
+    const documentService = await getDocumentService();
+    const document = await documentService.getDocument(documentId);
+    if (!document || document.user_id !== user.userId) {
+      return NextResponse.json(
+        { error: 'Document not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    const activeJob = await JobService.getActiveDocumentJob(documentId);
+    if (activeJob) {
+      return NextResponse.json(
+        { error: 'Document is already being re-processed', success: false, jobId: activeJob.id },
+        { status: 409 }
+      );
+    }
+
+    const job = await JobService.enqueueJob({
+      user_id: user.userId,
+      filename: file.name,
+      file_type: file.type,
+      file_size: file.size,
+      file_data: Buffer.from(await file.arrayBuffer()),
+      parent_document_id: documentId
+    });
+
+    createDocumentProcessor(`job_${job.id}`, user.userId, file.name, job.id).queued();
+    ensureWorkerRunning();
+
+    return NextResponse.json({
+      success: true,
+      parentDocumentId: documentId,
+      jobId: job.id,
+      status: job.status,
+      filename: file.name,
+      size: file.size,
+      statusUrl: `/api/jobs/${job.id}`
+    }, { status: 202 });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Document replace API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to replace document', success: false },
+      { status: 500 }
+    );
+  }
+}
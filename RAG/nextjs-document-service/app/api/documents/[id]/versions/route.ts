@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DocumentVersionService } from '../../../../../lib/document-versions';
+import { authenticateRequest, AuthError, authErrorResponse } from '../../../../../lib/auth';
+
+/**
+ * List every version in a document's family, newest first
+ * GET /api/documents/[id]/versions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const documentId = params.id;
+    const user = await authenticateRequest(request);
+
+    // Only returns rows when the document belongs to the caller
+    const versions = await DocumentVersionService.getVersions(documentId, user.userId);
+    if (versions.length === 0) {
+      return NextResponse.json(
+        { error: 'Document not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      documentId,
+      familyId: versions[0].family_id,
+      latestVersionId: versions.find(version => version.is_latest)?.id || null,
+      versions,
+      count: versions.length
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Document versions API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch document versions', success: false },
+      { status: 500 }
+    );
+  }
+}
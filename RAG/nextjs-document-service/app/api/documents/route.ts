@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserDocuments } from '../../../lib/database';
+import { authenticateRequest, resolveUserId, AuthError, authErrorResponse } from '../../../lib/auth';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId') || 'demo-user';
+    const requestedUserId = searchParams.get('userId');
+    const user = await authenticateRequest(request, requestedUserId);
+    const userId = resolveUserId(user, requestedUserId);
 
     const documents = await getUserDocuments(userId);
 
@@ -15,6 +18,10 @@ export async function GET(request: NextRequest) {
     });
 
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
     console.error('Documents API error:', error);
     
     return NextResponse.json(
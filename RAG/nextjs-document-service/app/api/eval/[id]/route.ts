@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EvalRunService } from '../../../../lib/eval-runs';
+import { authenticateRequest, AuthError, authErrorResponse } from '../../../../lib/auth';
+
+/**
+ * A stored evaluation run with its per-question results
+ * GET /api/eval/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await authenticateRequest(request);
+
+    // Other users' runs are reported as missing
+    const run = await EvalRunService.getRun(params.id, user.userId);
+    if (!run) {
+      return NextResponse.json(
+        { error: 'Evaluation run not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      run
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Eval run API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch evaluation run', success: false },
+      { status: 500 }
+    );
+  }
+}
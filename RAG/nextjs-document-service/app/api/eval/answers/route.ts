@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, resolveUserId, AuthError, authErrorResponse } from '../../../../lib/auth';
+import {
+  parseGoldenSet,
+  createSearchRetriever,
+  describeRetrievalConfig,
+  parseSearchRetrieverOptions,
+  EvalSetError,
+  EVAL_SEARCH_MODES
+} from '../../../../lib/retrieval-eval';
+import { runAnswerEval, createChatGenerator, describeAnswerConfig, AnswerEvalOptions } from '../../../../lib/answer-eval';
+import { EvalRunService } from '../../../../lib/eval-runs';
+
+// Every question costs a completion, so answer runs are kept smaller than retrieval runs
+const MAX_QUESTIONS = 200;
+
+/**
+ * Answer a golden question set with the chat model chain and store the run
+ * POST /api/eval/answers
+ * Body: { goldenSet (JSONL text), name?, searchMode?, maxResults?, similarityThreshold?,
+ *         keywordRanking?, fusion?, rerank?, filters?, save? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const user = await authenticateRequest(request, body.userId);
+    const userId = resolveUserId(user, body.userId);
+
+    if (typeof body.goldenSet !== 'string') {
+      return NextResponse.json(
+        { error: 'goldenSet is required and must be JSONL text', success: false },
+        { status: 400 }
+      );
+    }
+
+    const questions = parseGoldenSet(body.goldenSet);
+    if (questions.length > MAX_QUESTIONS) {
+      return NextResponse.json(
+        { error: `Golden set is too large (max ${MAX_QUESTIONS} questions)`, success: false },
+        { status: 400 }
+      );
+    }
+
+    const searchMode = body.searchMode ?? 'hybrid';
+    if (!EVAL_SEARCH_MODES.includes(searchMode)) {
+      return NextResponse.json(
+        { error: `searchMode must be one of: ${EVAL_SEARCH_MODES.join(', ')}`, success: false },
+        { status: 400 }
+      );
+    }
+
+    const maxResults = body.maxResults ?? 10;
+    if (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > 20) {
+      return NextResponse.json(
+        { error: 'maxResults must be an integer between 1 and 20', success: false },
+        { status: 400 }
+      );
+    }
+
+    const { options: retrieverOptions, error: optionError } = parseSearchRetrieverOptions(body);
+    if (optionError) {
+      return NextResponse.json(
+        { error: optionError, success: false },
+        { status: 400 }
+      );
+    }
+
+    const evalOptions: AnswerEvalOptions = { searchMode, maxResults };
+    const config = { ...describeRetrievalConfig(retrieverOptions), ...describeAnswerConfig(evalOptions) };
+
+    console.log(`Answer eval request: ${questions.length} questions, ${searchMode} search, ${maxResults} chunks`);
+
+    const report = await runAnswerEval(
+      questions,
+      createSearchRetriever(userId, retrieverOptions),
+      createChatGenerator(userId),
+      evalOptions
+    );
+    const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim().slice(0, 200) : `Answer eval ${new Date().toISOString()}`;
+
+    const run = body.save === false
+      ? null
+      : await EvalRunService.saveRun({
+          userId,
+          kind: 'answer',
+          name,
+          questionCount: questions.length,
+          config,
+          summary: report.summary,
+          results: report.results
+        });
+
+    return NextResponse.json({
+      success: true,
+      runId: run?.id || null,
+      name,
+      questionCount: questions.length,
+      config,
+      summary: report.summary,
+      results: report.results
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    if (error instanceof EvalSetError) {
+      return NextResponse.json(
+        { error: `Invalid golden set: ${error.message}`, success: false },
+        { status: 400 }
+      );
+    }
+
+    console.error('Answer eval API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Answer evaluation failed', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, resolveUserId, AuthError, authErrorResponse } from '../../../../lib/auth';
+import { EvalRunService, compareEvalRuns } from '../../../../lib/eval-runs';
+
+const MAX_RUNS = 10;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Compare stored runs of the same kind metric by metric; the first id is the baseline
+ * GET /api/eval/compare?ids=<baseline>,<candidate>[,...]
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const requestedUserId = searchParams.get('userId');
+    const user = await authenticateRequest(request, requestedUserId);
+    const userId = resolveUserId(user, requestedUserId);
+
+    const ids = Array.from(new Set((searchParams.get('ids') || '').split(',').map(id => id.trim()).filter(Boolean)));
+    if (ids.length < 2 || ids.length > MAX_RUNS) {
+      return NextResponse.json(
+        { error: `ids must list between 2 and ${MAX_RUNS} run ids`, success: false },
+        { status: 400 }
+      );
+    }
+
+    // Malformed ids and other users' runs are reported as missing
+    const runs = await EvalRunService.getRuns(ids.filter(id => UUID_PATTERN.test(id)), userId);
+    const missing = ids.filter(id => !runs.some(run => run.id === id));
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Evaluation run not found: ${missing.join(', ')}`, success: false },
+        { status: 404 }
+      );
+    }
+    if (new Set(runs.map(run => run.kind)).size > 1) {
+      return NextResponse.json(
+        { error: 'Only runs of the same kind can be compared', success: false },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...compareEvalRuns(runs)
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Eval compare API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to compare evaluation runs', success: false },
+      { status: 500 }
+    );
+  }
+}
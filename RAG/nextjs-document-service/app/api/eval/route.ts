@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, resolveUserId, AuthError, authErrorResponse } from '../../../lib/auth';
+import {
+  parseGoldenSet,
+  runRetrievalEval,
+  createSearchRetriever,
+  describeRetrievalConfig,
+  EvalSetError,
+  EVAL_SEARCH_MODES,
+  EvalSearchMode,
+  parseSearchRetrieverOptions
+} from '../../../lib/retrieval-eval';
+import { EvalRunService, EvalRunKind } from '../../../lib/eval-runs';
+
+const MAX_QUESTIONS = 500;
+
+/**
+ * Run a golden question set against the caller's documents and store the run
+ * POST /api/eval
+ * Body: { goldenSet (JSONL text), name?, modes?, k?, similarityThreshold?,
+ *         keywordRanking?, fusion?, rerank?, filters?, save? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const user = await authenticateRequest(request, body.userId);
+    const userId = resolveUserId(user, body.userId);
+
+    if (typeof body.goldenSet !== 'string') {
+      return NextResponse.json(
+        { error: 'goldenSet is required and must be JSONL text', success: false },
+        { status: 400 }
+      );
+    }
+
+    const questions = parseGoldenSet(body.goldenSet);
+    if (questions.length > MAX_QUESTIONS) {
+      return NextResponse.json(
+        { error: `Golden set is too large (max ${MAX_QUESTIONS} questions)`, success: false },
+        { status: 400 }
+      );
+    }
+
+    const modes: EvalSearchMode[] = body.modes ?? EVAL_SEARCH_MODES;
+    if (!Array.isArray(modes) || modes.length === 0 || !modes.every(mode => EVAL_SEARCH_MODES.includes(mode))) {
+      return NextResponse.json(
+        { error: `modes must contain only: ${EVAL_SEARCH_MODES.join(', ')}`, success: false },
+        { status: 400 }
+      );
+    }
+
+    const k = body.k ?? 5;
+    if (!Number.isInteger(k) || k < 1 || k > 50) {
+      return NextResponse.json(
+        { error: 'k must be an integer between 1 and 50', success: false },
+        { status: 400 }
+      );
+    }
+
+    const { options: retrieverOptions, error: optionError } = parseSearchRetrieverOptions(body);
+    if (optionError) {
+      return NextResponse.json(
+        { error: optionError, success: false },
+        { status: 400 }
+      );
+    }
+
+    const config = { ...describeRetrievalConfig(retrieverOptions), k, modes };
+
+    console.log(`Eval request: ${questions.length} questions, modes ${modes.join(', ')}, k=${k}`);
+
+    const report = await runRetrievalEval(questions, createSearchRetriever(userId, retrieverOptions), { modes, k });
+    const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim().slice(0, 200) : `Retrieval eval ${new Date().toISOString()}`;
+
+    const run = body.save === false
+      ? null
+      : await EvalRunService.saveRun({
+          userId,
+          kind: 'retrieval',
+          name,
+          questionCount: questions.length,
+          config,
+          summary: report.summary,
+          results: report.results
+        });
+
+    return NextResponse.json({
+      success: true,
+      runId: run?.id || null,
+      name,
+      questionCount: questions.length,
+      config,
+      summary: report.summary,
+      results: report.results
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    if (error instanceof EvalSetError) {
+      return NextResponse.json(
+        { error: `Invalid golden set: ${error.message}`, success: false },
+        { status: 400 }
+      );
+    }
+
+    console.error('Eval API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Evaluation failed', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * List stored evaluation runs, newest first (summaries only)
+ * GET /api/eval?limit=50&kind=retrieval
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const requestedUserId = searchParams.get('userId');
+    const user = await authenticateRequest(request, requestedUserId);
+    const userId = resolveUserId(user, requestedUserId);
+
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200);
+    const runs = await EvalRunService.listRuns(userId, { kind: (searchParams.get('kind') || undefined) as EvalRunKind | undefined, limit });
+
+    return NextResponse.json({
+      success: true,
+      runs,
+      count: runs.length
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Eval API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch evaluation runs', success: false, runs: [], count: 0 },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FeedbackService } from '../../../../lib/feedback';
+import { formatGoldenSet } from '../../../../lib/retrieval-eval';
+import { authenticateRequest, resolveUserId, requireAdmin, AuthError, authErrorResponse } from '../../../../lib/auth';
+
+/**
+ * Feedback job: rebuild the reranker's chunk boosts from all source marks and
+ * turn the user's recent feedback into golden set questions
+ * POST /api/feedback/process
+ * Body: { days? } (default 90)
+ * The boosts are shared by all users, so only administrators (AUTH_ADMIN_USERS)
+ * may run it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const user = await authenticateRequest(request, body.userId);
+    const userId = resolveUserId(user, body.userId);
+    requireAdmin(user);
+
+    const days = body.days ?? 90;
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      return NextResponse.json(
+        { error: 'days must be an integer between 1 and 365', success: false },
+        { status: 400 }
+      );
+    }
+
+    const boosts = await FeedbackService.refreshChunkBoosts();
+    const questions = await FeedbackService.getEvalCases(userId, days);
+
+    console.log(`Feedback processed: ${boosts.chunks} chunks rated, ${questions.length} eval questions`);
+
+    return NextResponse.json({
+      success: true,
+      boosts,
+      questionCount: questions.length,
+      goldenSet: formatGoldenSet(questions, `Generated from user feedback of the last ${days} days`),
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Feedback processing API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to process feedback', success: false },
+      { status: 500 }
+    );
+  }
+}
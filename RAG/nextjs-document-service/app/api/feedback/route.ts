@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FeedbackService, FeedbackValidationError, parseFeedback } from '../../../lib/feedback';
+import { authenticateRequest, resolveUserId, AuthError, authErrorResponse } from '../../../lib/auth';
+
+/**
+ * Rate a chat answer and/or mark its sources or search results
+ * POST /api/feedback
+ * Body: { queryId, answer?: { rating: 'up' | 'down', comment? }, sources?: [{ chunkId, relevant }] }
+ * queryId is the query_id of a chat answer or the queryId of a search response.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const user = await authenticateRequest(request, body.userId);
+    const userId = resolveUserId(user, body.userId);
+
+    if (typeof body.queryId !== 'string' || !/^\d{1,18}$/.test(body.queryId)) {
+      return NextResponse.json(
+        { error: 'queryId is required and must be a query id string', success: false },
+        { status: 400 }
+      );
+    }
+
+    const { feedback, error: feedbackError } = parseFeedback(body);
+    if (feedbackError) {
+      return NextResponse.json(
+        { error: feedbackError, success: false },
+        { status: 400 }
+      );
+    }
+
+    // Other users' queries are reported as missing
+    const stored = await FeedbackService.submit(body.queryId, userId, feedback!);
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Query not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      queryId: body.queryId,
+      stored
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    if (error instanceof FeedbackValidationError) {
+      return NextResponse.json(
+        { error: error.message, success: false },
+        { status: 400 }
+      );
+    }
+
+    console.error('Feedback API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to store feedback', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDocumentProcessor } from '../../../../../lib/realtime';
+import { JobService, ensureWorkerRunning } from '../../../../../lib/job-queue';
+import { authenticateRequest, AuthError, authErrorResponse } from '../../../../../lib/auth';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const jobId = params.id;
+    const user = await authenticateRequest(request);
+
+    const existing = await JobService.getJob(jobId);
+    // Other users' jobs are reported as missing
+    if (!existing || existing.user_id !== user.userId) {
+      return NextResponse.json(
+        { error: 'Job not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    if (existing.status !== 'failed') {
+      return NextResponse.json(
+        { error: `Only failed jobs can be retried (current status: ${existing.status})`, success: false },
+        { status: 409 }
+      );
+    }
+
+    const job = await JobService.retryJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job is no longer in a failed state', success: false },
+        { status: 409 }
+      );
+    }
+
+    createDocumentProcessor(`job_${job.id}`, job.user_id, job.filename, job.id).queued();
+    ensureWorkerRunning();
+
+    return NextResponse.json({
+      success: true,
+      job
+    }, { status: 202 });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Job retry API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to retry job', success: false },
+      { status: 500 }
+    );
+  }
+}
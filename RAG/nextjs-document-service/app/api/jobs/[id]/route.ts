@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobService, ensureWorkerRunning } from '../../../../lib/job-queue';
+import { authenticateRequest, AuthError, authErrorResponse } from '../../../../lib/auth';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const jobId = params.id;
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'Job ID is required', success: false },
+        { status: 400 }
+      );
+    }
+
+    const user = await authenticateRequest(request);
+
+    // Resume any queued work after a server restart
+    ensureWorkerRunning();
+
+    const job = await JobService.getJob(jobId);
+
+    // Other users' jobs are reported as missing
+    if (!job || job.user_id !== user.userId) {
+      return NextResponse.json(
+        { error: 'Job not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    const events = await JobService.getJobEvents(jobId);
+
+    return NextResponse.json({
+      success: true,
+      job,
+      events
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Job status API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch job', success: false },
+      { status: 500 }
+    );
+  }
+}
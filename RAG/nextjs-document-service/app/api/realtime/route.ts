@@ -4,14 +4,19 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { realtimeManager } from '@/lib/realtime';
+import { authenticateRequest, resolveUserId, AuthError, authErrorResponse } from '@/lib/auth';
 
 // For development/testing - in production, use proper WebSocket server
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
-  const userId = searchParams.get('userId');
+  const requestedUserId = searchParams.get('userId');
 
-  if (!userId) {
-    return NextResponse.json({ error: 'userId is required' }, { status: 400 });
+  let userId: string;
+  try {
+    userId = resolveUserId(await authenticateRequest(request, requestedUserId), requestedUserId);
+  } catch (error) {
+    if (error instanceof AuthError) return authErrorResponse(error);
+    throw error;
   }
 
   // For now, return connection info
@@ -20,16 +25,20 @@ export async function GET(request: NextRequest) {
     message: 'WebSocket endpoint ready',
     userId,
     activeConnections: realtimeManager.getUserConnectionCount(userId),
-    endpoint: `/api/realtime?userId=${userId}`
+    endpoint: '/api/realtime'
   });
 }
 
 // Server-Sent Events alternative for real-time updates
 export async function POST(request: NextRequest) {
-  const { userId } = await request.json();
+  const { userId: requestedUserId } = await request.json().catch(() => ({}));
 
-  if (!userId) {
-    return NextResponse.json({ error: 'userId is required' }, { status: 400 });
+  let userId: string;
+  try {
+    userId = resolveUserId(await authenticateRequest(request, requestedUserId), requestedUserId);
+  } catch (error) {
+    if (error instanceof AuthError) return authErrorResponse(error);
+    throw error;
   }
 
   // Return Server-Sent Events response
@@ -88,7 +97,7 @@ export async function POST(request: NextRequest) {
       'Connection': 'keep-alive',
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
\ No newline at end of file
@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { searchMedicalTables } from '../../../../lib/medical-table-processor';
+import { authenticateRequest, resolveUserId, AuthError, authErrorResponse } from '../../../../lib/auth';
+import { parseCollectionIds } from '../../../../lib/collection-scope';
+import { WorkspaceService } from '../../../../lib/workspaces';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { query, userId = 'demo-user', tableType, limit = 10, similarityThreshold = 0.3 } = body;
+    const { query, userId: requestedUserId, tableType, limit = 10, similarityThreshold = 0.3 } = body;
+
+    const user = await authenticateRequest(request, requestedUserId);
+    const userId = resolveUserId(user, requestedUserId);
 
     if (!query) {
       return NextResponse.json(
@@ -13,11 +19,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const { collectionIds, error: collectionsError } = parseCollectionIds(body.collectionIds);
+    if (collectionsError) {
+      return NextResponse.json(
+        { error: collectionsError },
+        { status: 400 }
+      );
+    }
+    const unreadable = collectionIds ? await WorkspaceService.findUnreadableCollections(userId, collectionIds) : [];
+    if (unreadable.length > 0) {
+      return NextResponse.json(
+        { error: `Collections not found: ${unreadable.join(', ')}` },
+        { status: 404 }
+      );
+    }
+
     // Search medical tables
     const results = await searchMedicalTables(query, userId, {
       tableType,
       limit,
-      similarityThreshold
+      similarityThreshold,
+      collectionIds
     });
 
     return NextResponse.json({
@@ -40,6 +62,10 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
     console.error('Medical table search error:', error);
     return NextResponse.json(
       { error: 'Failed to search medical tables', details: error.message },
@@ -56,10 +82,11 @@ export async function GET() {
     description: 'Search through extracted medical tables using semantic and keyword matching',
     parameters: {
       query: 'string (required) - search query',
-      userId: 'string (optional) - user ID filter',
+      userId: 'string (optional) - must match the authenticated user',
       tableType: 'string (optional) - filter by table type (lab_results, vital_signs, medication, general)',
       limit: 'number (optional) - max results (default: 10)',
-      similarityThreshold: 'number (optional) - minimum similarity score (default: 0.3)'
+      similarityThreshold: 'number (optional) - minimum similarity score (default: 0.3)',
+      collectionIds: 'string[] (optional) - search these workspace collections instead of your own documents'
     }
   });
 }
\ No newline at end of file
@@ -1,17 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateEmbedding } from '../../../lib/embeddings';
-import { searchSimilarChunks, getChunkService, searchMedicalTables, getRawDatabase } from '../../../lib/database-adapter';
+import { searchMedicalTables, getRawDatabase } from '../../../lib/database-adapter';
+import { authenticateRequest, resolveUserId, AuthError, authErrorResponse } from '../../../lib/auth';
+import { DocumentVersionService, parseVersionScope } from '../../../lib/document-versions';
+import { KEYWORD_RANKINGS } from '../../../lib/keyword-search';
+import { ragConfig } from '../../../lib/config';
+import { parseFusionOptions, retrieve, RetrievedChunk } from '../../../lib/hybrid-search';
+import { applyReranker, parseRerankOptions } from '../../../lib/reranker';
+import { parseSearchFilters } from '../../../lib/search-filters';
+import { QueryLogService, StageTimer, UsageMeter } from '../../../lib/query-log';
+import { parseCollectionIds } from '../../../lib/collection-scope';
+import { WorkspaceService } from '../../../lib/workspaces';
+import { applyOcrWeighting, parseOcrWeighting } from '../../../lib/ocr';
 
 export async function POST(request: NextRequest) {
+  const timer = new StageTimer();
+  // Query embedding and LLM reranking tokens, logged with the query
+  const usage = new UsageMeter();
   try {
     const { 
       query, 
-      userId = 'demo-user', 
+      userId: requestedUserId,
       maxResults = 5, 
       similarityThreshold = 0.3,
-      searchMode = 'hybrid' // Options: 'semantic', 'keyword', 'hybrid', 'medical_tables'
+      searchMode = 'hybrid', // Options: 'semantic', 'keyword', 'hybrid', 'medical_tables'
+      version: requestedVersion,
+      familyId: requestedFamilyId,
+      keywordRanking = ragConfig.keywordRanking, // 'ts_rank_cd' or 'bm25'
+      fusion: requestedFusion, // Hybrid only: strategy name or { strategy, k, semanticWeight, keywordWeight, alpha, minScore (0-1) }
+      rerank: requestedRerank, // true, a reranker name or { reranker, topN }
+      filters: requestedFilters, // { documentIds, filename, contentTypes, pageFrom, pageTo, uploadedAfter, uploadedBefore, metadata, documentMetadata }
+      collectionIds: requestedCollectionIds, // Search these shared collections instead of the caller's own documents
+      ocrWeighting: requestedOcrWeighting // true or { threshold, penalty }: down-weight poorly OCR'd chunks
     } = await request.json();
 
+    const user = await authenticateRequest(request, requestedUserId);
+    const userId = resolveUserId(user, requestedUserId);
+
     if (!query) {
       return NextResponse.json(
         { error: 'Query parameter is required', success: false },
@@ -19,26 +43,107 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`Search request: "${query}" (mode: ${searchMode}, threshold: ${similarityThreshold})`);
+    const { version, familyId, error: versionError } = parseVersionScope(requestedVersion, requestedFamilyId);
+    if (version === null) {
+      return NextResponse.json(
+        { error: versionError, success: false },
+        { status: 400 }
+      );
+    }
+
+    if (!KEYWORD_RANKINGS.includes(keywordRanking)) {
+      return NextResponse.json(
+        { error: `keywordRanking must be one of: ${KEYWORD_RANKINGS.join(', ')}`, success: false },
+        { status: 400 }
+      );
+    }
+
+    const { options: fusion, error: fusionError } = parseFusionOptions(requestedFusion);
+    if (!fusion) {
+      return NextResponse.json(
+        { error: fusionError, success: false },
+        { status: 400 }
+      );
+    }
+
+    const { options: rerank, error: rerankError } = parseRerankOptions(requestedRerank);
+    if (rerankError) {
+      return NextResponse.json(
+        { error: rerankError, success: false },
+        { status: 400 }
+      );
+    }
+
+    const { filters, error: filtersError } = parseSearchFilters(requestedFilters);
+    if (filtersError) {
+      return NextResponse.json(
+        { error: filtersError, success: false },
+        { status: 400 }
+      );
+    }
+    if (filters && searchMode === 'medical_tables') {
+      return NextResponse.json(
+        { error: 'filters are not supported for medical_tables search', success: false },
+        { status: 400 }
+      );
+    }
+
+    const { options: ocrWeighting, error: ocrWeightingError } = parseOcrWeighting(requestedOcrWeighting);
+    if (ocrWeightingError) {
+      return NextResponse.json(
+        { error: ocrWeightingError, success: false },
+        { status: 400 }
+      );
+    }
 
-    let results = [];
-    let searchDetails = {};
+    const { collectionIds, error: collectionsError } = parseCollectionIds(requestedCollectionIds);
+    if (collectionsError) {
+      return NextResponse.json(
+        { error: collectionsError, success: false },
+        { status: 400 }
+      );
+    }
+    // Collections outside the caller's workspaces are reported as missing
+    const unreadable = collectionIds ? await WorkspaceService.findUnreadableCollections(userId, collectionIds) : [];
+    if (unreadable.length > 0) {
+      return NextResponse.json(
+        { error: `Collections not found: ${unreadable.join(', ')}`, success: false },
+        { status: 404 }
+      );
+    }
+
+    const scope = await DocumentVersionService.resolveScope(userId, version, familyId, collectionIds);
+
+    console.log(`Search request: "${query}" (mode: ${searchMode}, threshold: ${similarityThreshold}, version: ${version})`);
+
+    let results: any[] = [];
+    let searchDetails: Record<string, any> = {};
+
+    // Reranking looks at topN candidates, then the best maxResults are returned
+    const candidateCount = rerank && searchMode !== 'medical_tables' ? Math.max(maxResults, rerank.topN) : maxResults;
 
     switch (searchMode) {
       case 'semantic':
-        ({ results, searchDetails } = await performSemanticSearch(query, userId, maxResults, similarityThreshold));
-        break;
-      
       case 'keyword':
-        ({ results, searchDetails } = await performKeywordSearch(query, userId, maxResults));
-        break;
-      
-      case 'hybrid':
-        ({ results, searchDetails } = await performHybridSearch(query, userId, maxResults, similarityThreshold));
+      case 'hybrid': {
+        const retrieval = await timer.time('search', () => retrieve(searchMode, query, {
+          userId,
+          maxResults: candidateCount,
+          similarityThreshold,
+          scope,
+          keywordRanking,
+          fusion,
+          filters,
+          collectionIds,
+          usage
+        }));
+        results = retrieval.results.map(toSearchResult);
+        searchDetails = retrieval.searchDetails;
         break;
+      }
       
       case 'medical_tables':
-        ({ results, searchDetails } = await performMedicalTableSearch(query, userId, maxResults, similarityThreshold));
+        ({ results, searchDetails } = await timer.time('search', () => performMedicalTableSearch(query, userId, maxResults, similarityThreshold, collectionIds)));
         break;
       
       default:
@@ -48,6 +153,36 @@ export async function POST(request: NextRequest) {
         );
     }
 
+    if (ocrWeighting && searchMode !== 'medical_tables') {
+      results = applyOcrWeighting(results, ocrWeighting);
+    }
+
+    if (rerank && searchMode !== 'medical_tables') {
+      const reranked = await timer.time('rerank', () => applyReranker(query, results, rerank, (result: any) => ({
+        chunk_id: String(result.chunk_id),
+        chunk_text: result.chunk_text,
+        chunk_index: result.chunk_index,
+        score: result.similarity_score,
+        filename: result.filename
+      }), request.signal, usage));
+      results = reranked.results.slice(0, maxResults);
+      searchDetails = { ...searchDetails, rerank: reranked.details };
+    }
+
+    // Feedback on the results refers to the logged query
+    const queryId = await QueryLogService.record({
+      userId,
+      source: 'search',
+      query,
+      searchMode,
+      filters,
+      results,
+      stageLatencyMs: timer.stages,
+      totalMs: timer.elapsed(),
+      modelUsed: usage.model,
+      usage: usage.usage
+    });
+
     return NextResponse.json({
       success: true,
       query,
@@ -55,15 +190,28 @@ export async function POST(request: NextRequest) {
       results,
       resultsCount: results.length,
       searchDetails,
+      queryId,
       searchParams: {
         maxResults,
         similarityThreshold,
-        userId
+        userId,
+        version,
+        familyId: familyId || null,
+        keywordRanking,
+        fusion: searchMode === 'hybrid' ? fusion : undefined,
+        rerank: rerank || undefined,
+        filters: filters || undefined,
+        collectionIds: collectionIds || undefined,
+        ocrWeighting: ocrWeighting || undefined
       },
       timestamp: new Date().toISOString()
     });
 
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
     console.error('Search API error:', error);
     
     return NextResponse.json(
@@ -79,210 +227,28 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Semantic search using embeddings only
-async function performSemanticSearch(query: string, userId: string, maxResults: number, threshold: number) {
-  console.log(`Performing semantic search for: "${query}"`);
-  
-  const embeddingResult = await generateEmbedding(query);
-  console.log(`Generated embedding with ${embeddingResult.embedding.length} dimensions`);
-  
-  const results = await searchSimilarChunks(
-    embeddingResult.embedding,
-    userId,
-    threshold,
-    maxResults
-  );
-
-  console.log(`Semantic search found ${results.length} results`);
-  
-  return {
-    results: results.map(r => ({
-      chunk_id: r.chunk_id,
-      document_id: r.document_id,
-      filename: r.filename,
-      chunk_text: r.chunk_text,
-      chunk_index: r.chunk_index,
-      similarity_score: r.similarity_score,
-      search_type: 'semantic',
-      // Add page reference information from metadata
-      pages: r.metadata?.pages || [],
-      primary_page: r.metadata?.primaryPage || null,
-      spans_multiple_pages: r.metadata?.spansMultiplePages || false
-    })),
-    searchDetails: {
-      embeddingDimensions: embeddingResult.embedding.length,
-      tokensUsed: embeddingResult.usage.total_tokens,
-      threshold,
-      searchType: 'semantic'
-    }
-  };
-}
-
-// Keyword search using SQL LIKE/ILIKE only
-async function performKeywordSearch(query: string, userId: string, maxResults: number) {
-  console.log(`Performing keyword search for: "${query}"`);
-  
-  // Extract keywords (basic implementation)
-  const keywords = query.toLowerCase()
-    .replace(/[^\w\s]/g, '')
-    .split(/\s+/)
-    .filter(word => word.length > 2);
-  
-  console.log(`Extracted keywords: ${keywords.join(', ')}`);
-  
-  if (keywords.length === 0) {
-    return { results: [], searchDetails: { keywords: [], searchType: 'keyword' } };
-  }
-
-  // Search for any of the keywords
-  const keywordConditions = keywords.map((_, index) => `c.text ILIKE $${index + 3}`).join(' OR ');
-  const keywordQuery = `
-    SELECT c.id as chunk_id, c.document_id, d.filename, c.text as chunk_text, 
-           c.chunk_index, 0.8 as keyword_score
-    FROM chunks c
-    JOIN documents d ON c.document_id = d.id
-    WHERE d.user_id = $1 
-      AND d.status = 'completed'
-      AND (${keywordConditions})
-    ORDER BY c.chunk_index
-    LIMIT $2
-  `;
-  
-  const keywordParams = [
-    userId,                                    // $1
-    maxResults,                               // $2
-    ...keywords.map(keyword => `%${keyword}%`) // $3, $4, $5...
-  ];
-  
-  const chunkService = await getChunkService();
-  const keywordResults = await chunkService.searchKeywordChunks(query, userId, { maxResults });
-  console.log(`Keyword search found ${keywordResults.length} results`);
-
-  return {
-    results: keywordResults.map((r: any) => ({
-      chunk_id: r.chunk_id,
-      document_id: r.document_id,
-      filename: r.filename,
-      chunk_text: r.chunk_text,
-      chunk_index: r.chunk_index,
-      similarity_score: r.keyword_score,
-      search_type: 'keyword',
-      // Add page reference information from metadata
-      pages: r.metadata?.pages || [],
-      primary_page: r.metadata?.primaryPage || null,
-      spans_multiple_pages: r.metadata?.spansMultiplePages || false
-    })),
-    searchDetails: {
-      keywords,
-      keywordConditions,
-      searchType: 'keyword'
-    }
-  };
-}
-
-// Hybrid search combining semantic and keyword
-async function performHybridSearch(query: string, userId: string, maxResults: number, threshold: number) {
-  console.log(`Performing hybrid search for: "${query}"`);
-  
-  // Get semantic results
-  const { results: semanticResults, searchDetails: semanticDetails } = 
-    await performSemanticSearch(query, userId, maxResults * 2, threshold);
-  
-  // Get keyword results
-  const { results: keywordResults, searchDetails: keywordDetails } = 
-    await performKeywordSearch(query, userId, maxResults * 2);
-
-  console.log(`Hybrid: ${semanticResults.length} semantic + ${keywordResults.length} keyword results`);
-
-  // Determine weighting based on semantic quality
-  const hasGoodSemanticResults = semanticResults.some((r: any) => r.similarity_score > 0.4);
-  const semanticWeight = hasGoodSemanticResults ? 0.8 : 0.4;
-  const keywordWeight = hasGoodSemanticResults ? 0.2 : 0.6;
-  const hybridThreshold = hasGoodSemanticResults ? 0.25 : 0.2;
-
-  console.log(`Hybrid weights - semantic: ${semanticWeight}, keyword: ${keywordWeight}, threshold: ${hybridThreshold}`);
-
-  // Combine results with proper deduplication
-  const combinedResults = new Map();
-  
-  // Add semantic results
-  semanticResults.forEach((result: any) => {
-    const key = String(result.chunk_id); // Ensure string key
-    const hybridScore = result.similarity_score * semanticWeight;
-    combinedResults.set(key, {
-      ...result,
-      semantic_score: result.similarity_score,
-      keyword_score: 0,
-      combined_score: hybridScore,
-      search_type: 'hybrid'
-    });
-  });
-
-  // Add/boost keyword results
-  keywordResults.forEach((result: any) => {
-    const key = String(result.chunk_id); // Ensure string key
-    const existing = combinedResults.get(key);
-    const keywordScore = result.similarity_score * keywordWeight;
-    
-    if (existing) {
-      existing.keyword_score = result.similarity_score;
-      existing.combined_score += keywordScore;
-      console.log(`Merged duplicate chunk_id: ${key} (semantic + keyword)`);
-    } else {
-      combinedResults.set(key, {
-        ...result,
-        semantic_score: 0,
-        keyword_score: result.similarity_score,
-        combined_score: keywordScore,
-        search_type: 'hybrid'
-      });
-    }
-  });
-
-  // Filter and sort
-  const finalResults = Array.from(combinedResults.values())
-    .filter((result: any) => result.combined_score >= hybridThreshold)
-    .sort((a: any, b: any) => b.combined_score - a.combined_score)
-    .slice(0, maxResults);
-
-  console.log(`Hybrid final: ${finalResults.length} results after filtering`);
-  console.log(`Deduplication stats - Original: ${semanticResults.length + keywordResults.length}, Final: ${finalResults.length}, Duplicates removed: ${(semanticResults.length + keywordResults.length) - finalResults.length}`);
-
+// Response fields of a retrieved chunk, with page references from its metadata
+function toSearchResult({ page, metadata, ...result }: RetrievedChunk) {
   return {
-    results: finalResults.map((r: any) => ({
-      chunk_id: r.chunk_id,
-      document_id: r.document_id,
-      filename: r.filename,
-      chunk_text: r.chunk_text,
-      chunk_index: r.chunk_index,
-      similarity_score: r.combined_score,
-      semantic_score: r.semantic_score,
-      keyword_score: r.keyword_score,
-      search_type: 'hybrid'
-    })),
-    searchDetails: {
-      semanticResults: semanticResults.length,
-      keywordResults: keywordResults.length,
-      semanticWeight,
-      keywordWeight,
-      hybridThreshold,
-      hasGoodSemanticResults,
-      semanticDetails,
-      keywordDetails,
-      searchType: 'hybrid'
-    }
+    ...result,
+    pages: metadata.pages || [],
+    primary_page: metadata.primaryPage || null,
+    spans_multiple_pages: metadata.spansMultiplePages || false,
+    section: metadata.section ?? null,
+    ocr_confidence: metadata.ocrConfidence ?? null
   };
 }
 
 // Medical table search using the medical table processor
-async function performMedicalTableSearch(query: string, userId: string, maxResults: number, threshold: number) {
+async function performMedicalTableSearch(query: string, userId: string, maxResults: number, threshold: number, collectionIds: string[] | null) {
   console.log(`Performing medical table search for: "${query}"`);
   
   try {
     // Search medical tables using database adapter
     const results = await searchMedicalTables(query, userId, {
       limit: maxResults,
-      similarityThreshold: threshold
+      similarityThreshold: threshold,
+      collectionIds
     });
     
     console.log(`Medical table search found ${results.length} results`);
@@ -332,11 +298,11 @@ export async function GET() {
       },
       {
         mode: 'keyword', 
-        description: 'Uses SQL LIKE queries for exact keyword matching'
+        description: 'PostgreSQL full-text search ranked with ts_rank_cd or BM25; "quoted phrases" must match exactly'
       },
       {
         mode: 'hybrid',
-        description: 'Combines semantic and keyword search with intelligent weighting'
+        description: 'Fuses semantic and keyword rankings with rrf, weighted (min-max) or convex fusion'
       },
       {
         mode: 'medical_tables',
@@ -345,10 +311,18 @@ export async function GET() {
     ],
     parameters: {
       query: 'string (required) - search query',
-      userId: 'string (optional) - user ID filter',
+      userId: 'string (optional) - must match the authenticated user',
       maxResults: 'number (optional) - max results (default: 5)',
       similarityThreshold: 'number (optional) - similarity threshold (default: 0.3)',
-      searchMode: 'string (optional) - search mode (default: hybrid)'
+      searchMode: 'string (optional) - search mode (default: hybrid)',
+      version: 'string | number (optional) - "latest" (default), "all" or a version number (needs familyId)',
+      familyId: 'string (optional) - restrict the search to one document family (UUID)',
+      keywordRanking: `string (optional) - "ts_rank_cd" or "bm25" (default: ${ragConfig.keywordRanking})`,
+      fusion: `string | object (optional, hybrid) - "rrf", "weighted" or "convex" (default: ${ragConfig.hybridFusion}), or { strategy, k, semanticWeight, keywordWeight, alpha, minScore (0-1) }`,
+      rerank: `boolean | string | object (optional) - rerank the top candidates: true (${ragConfig.reranker}), "heuristic", "llm", "cross_encoder" or { reranker, topN }`,
+      filters: 'object (optional, not medical_tables) - { documentIds, filename (glob), contentTypes, pageFrom, pageTo, uploadedAfter, uploadedBefore, metadata (object or [{ path, op, value }]), documentMetadata }',
+      collectionIds: 'string[] (optional) - search these workspace collections instead of your own documents',
+      ocrWeighting: `boolean | object (optional, not medical_tables) - scale down chunks with OCR confidence below the threshold: true (threshold ${ragConfig.ocrLowConfidence}, penalty ${ragConfig.ocrConfidencePenalty}) or { threshold, penalty }`
     }
   });
 }
\ No newline at end of file
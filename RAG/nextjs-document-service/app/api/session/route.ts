@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authConfig } from '../../../lib/config';
+import {
+  authenticateRequest,
+  authenticateToken,
+  createSessionToken,
+  SESSION_COOKIE,
+  AuthError,
+  authErrorResponse
+} from '../../../lib/auth';
+
+/**
+ * Who the caller is, for the bundled UI to decide whether to ask for a sign-in
+ * GET /api/session
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await authenticateRequest(request);
+    return NextResponse.json({
+      success: true,
+      authEnabled: authConfig.enabled,
+      authenticated: true,
+      userId: user.userId
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ success: true, authEnabled: authConfig.enabled, authenticated: false, error: error.message });
+    }
+
+    console.error('Session API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to read session', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Sign in with an API key or JWT; the session is kept in an HttpOnly cookie
+ * so the UI's requests (including EventSource) carry it without a header
+ * POST /api/session
+ * Body: { token }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!authConfig.sessionSecret) {
+      return NextResponse.json(
+        { error: 'Sessions are not configured (set AUTH_SESSION_SECRET)', success: false },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.token !== 'string' || !body.token.trim()) {
+      return NextResponse.json(
+        { error: 'token is required', success: false },
+        { status: 400 }
+      );
+    }
+
+    const user = await authenticateToken(body.token.trim());
+    const response = NextResponse.json({ success: true, userId: user.userId });
+    response.cookies.set(SESSION_COOKIE, createSessionToken(user.userId, authConfig.sessionSecret, authConfig.sessionTtlSeconds), {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: authConfig.sessionTtlSeconds
+    });
+    return response;
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Sign-in API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to sign in', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Sign out
+ * DELETE /api/session
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, sameSite: 'strict', path: '/', maxAge: 0 });
+  return response;
+}
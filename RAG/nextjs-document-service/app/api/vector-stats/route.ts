@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '../../../lib/database';
+import { getEmbeddingModelInfo } from '../../../lib/embeddings';
+import { embeddingCache } from '../../../lib/embedding-cache';
+import { openaiConfig } from '../../../lib/config';
+import { authenticateRequest, AuthError, authErrorResponse } from '../../../lib/auth';
 
 export async function GET(request: NextRequest) {
   try {
+    // Row-level security limits every count below to documents the caller can read
+    await authenticateRequest(request);
+
     // Get overall system stats
     const systemStatsQuery = `
       SELECT 
@@ -33,16 +40,22 @@ export async function GET(request: NextRequest) {
 
     const typeDistribution = await db.query(typeDistributionQuery);
 
-    // Get embedding dimension info (sample from first chunk)
+    // Get embedding info, broken down by the model that produced each vector
+    const embeddingModelInfo = getEmbeddingModelInfo();
     const embeddingInfoQuery = `
       SELECT 
-        1536 as dimensions,
+        COALESCE(metadata->>'embeddingModel', $1) as model,
         COUNT(*) as chunks_with_embeddings
       FROM chunks 
       WHERE embedding IS NOT NULL
+      GROUP BY COALESCE(metadata->>'embeddingModel', $1)
+      ORDER BY chunks_with_embeddings DESC
     `;
 
-    const embeddingInfo = await db.query(embeddingInfoQuery);
+    const embeddingInfo = await db.query(embeddingInfoQuery, [embeddingModelInfo.model]);
+    const chunksWithEmbeddings = embeddingInfo.rows.reduce(
+      (sum: number, row: any) => sum + parseInt(row.chunks_with_embeddings), 0
+    );
 
     // Get recent upload activity (last 30 days)
     const uploadActivityQuery = `
@@ -84,16 +97,30 @@ export async function GET(request: NextRequest) {
 
     const chunkSizeDistribution = await db.query(chunkSizeQuery);
 
+    // Embedding cache hit/miss counters
+    const embeddingCacheStats = await embeddingCache.getStats(openaiConfig.embeddingCacheEnabled);
+
     return NextResponse.json({
       systemStats: systemStats.rows[0],
       typeDistribution: typeDistribution.rows,
-      embeddingInfo: embeddingInfo.rows[0] || { dimensions: 1536, chunks_with_embeddings: 0 },
+      embeddingInfo: {
+        provider: embeddingModelInfo.provider,
+        model: embeddingModelInfo.model,
+        dimensions: embeddingModelInfo.dimensions,
+        chunks_with_embeddings: chunksWithEmbeddings,
+        models: embeddingInfo.rows
+      },
       uploadActivity: uploadActivity.rows,
       chunkSizeDistribution: chunkSizeDistribution.rows,
+      embeddingCache: embeddingCacheStats,
       timestamp: new Date().toISOString()
     });
 
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
     console.error('Vector stats API error:', error);
     return NextResponse.json(
       { error: 'Failed to fetch vector database statistics' },
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceService, WorkspaceAccessError, parseName } from '../../../../../lib/workspaces';
+import { authenticateRequest, AuthError, authErrorResponse } from '../../../../../lib/auth';
+
+/**
+ * Create a collection in a workspace (editor or owner)
+ * POST /api/workspaces/[id]/collections
+ * Body: { name, description? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await authenticateRequest(request);
+    const body = await request.json();
+
+    const { name, error: nameError } = parseName(body.name);
+    if (nameError) {
+      return NextResponse.json(
+        { error: nameError, success: false },
+        { status: 400 }
+      );
+    }
+    if (body.description !== undefined && body.description !== null && typeof body.description !== 'string') {
+      return NextResponse.json(
+        { error: 'description must be a string', success: false },
+        { status: 400 }
+      );
+    }
+
+    const collection = await WorkspaceService.createCollection(params.id, user.userId, {
+      name: name!,
+      description: body.description?.trim() || null
+    });
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Workspace not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      collection
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { error: error.message, success: false },
+        { status: 403 }
+      );
+    }
+    // Collection names are unique within a workspace
+    if (error.code === '23505') {
+      return NextResponse.json(
+        { error: 'A collection with this name already exists in the workspace', success: false },
+        { status: 409 }
+      );
+    }
+
+    console.error('Collection create API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to create collection', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceService, WorkspaceAccessError, isWorkspaceRole, WORKSPACE_ROLES } from '../../../../../lib/workspaces';
+import { authenticateRequest, AuthError, authErrorResponse } from '../../../../../lib/auth';
+
+/**
+ * Add a member to a workspace or change their role (owner only)
+ * PUT /api/workspaces/[id]/members
+ * Body: { memberId, role: 'owner' | 'editor' | 'viewer' }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await authenticateRequest(request);
+    const body = await request.json();
+
+    if (typeof body.memberId !== 'string' || !body.memberId.trim()) {
+      return NextResponse.json(
+        { error: 'memberId is required', success: false },
+        { status: 400 }
+      );
+    }
+    if (!isWorkspaceRole(body.role)) {
+      return NextResponse.json(
+        { error: `role must be one of: ${WORKSPACE_ROLES.join(', ')}`, success: false },
+        { status: 400 }
+      );
+    }
+
+    const memberId = body.memberId.trim();
+    const updated = await WorkspaceService.setMember(params.id, user.userId, memberId, body.role);
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Workspace not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      workspaceId: params.id,
+      member: { user_id: memberId, role: body.role }
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { error: error.message, success: false },
+        { status: 403 }
+      );
+    }
+
+    console.error('Workspace member API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to update member', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove a member (owner only). Members may remove themselves to leave.
+ * DELETE /api/workspaces/[id]/members?memberId=...
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await authenticateRequest(request);
+    const memberId = new URL(request.url).searchParams.get('memberId');
+
+    if (!memberId) {
+      return NextResponse.json(
+        { error: 'memberId is required', success: false },
+        { status: 400 }
+      );
+    }
+
+    const removed = await WorkspaceService.removeMember(params.id, user.userId, memberId);
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Member not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      workspaceId: params.id,
+      memberId,
+      removed: true
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { error: error.message, success: false },
+        { status: 403 }
+      );
+    }
+
+    console.error('Workspace member delete API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to remove member', success: false },
+      { status: 500 }
+    );
+  }
+}
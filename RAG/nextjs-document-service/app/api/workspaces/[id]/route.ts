@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceService, WorkspaceAccessError } from '../../../../lib/workspaces';
+import { authenticateRequest, AuthError, authErrorResponse } from '../../../../lib/auth';
+
+/**
+ * A workspace with its members and collections
+ * GET /api/workspaces/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await authenticateRequest(request);
+
+    // Workspaces the caller is not a member of are reported as missing
+    const details = await WorkspaceService.getWorkspace(params.id, user.userId);
+    if (!details) {
+      return NextResponse.json(
+        { error: 'Workspace not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...details
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Workspace API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch workspace', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a workspace with its collections (owner only). The documents
+ * themselves are not touched.
+ * DELETE /api/workspaces/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await authenticateRequest(request);
+
+    const deleted = await WorkspaceService.deleteWorkspace(params.id, user.userId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Workspace not found', success: false },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      workspaceId: params.id,
+      deleted: true
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { error: error.message, success: false },
+        { status: 403 }
+      );
+    }
+
+    console.error('Workspace delete API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete workspace', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceService, parseName } from '../../../lib/workspaces';
+import { authenticateRequest, resolveUserId, AuthError, authErrorResponse } from '../../../lib/auth';
+
+/**
+ * List the workspaces the caller is a member of, with their role
+ * GET /api/workspaces
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const requestedUserId = searchParams.get('userId');
+    const user = await authenticateRequest(request, requestedUserId);
+    const userId = resolveUserId(user, requestedUserId);
+
+    const workspaces = await WorkspaceService.listWorkspaces(userId);
+
+    return NextResponse.json({
+      success: true,
+      workspaces,
+      count: workspaces.length
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Workspaces API error:', error);
+
+    return NextResponse.json(
+      {
+        error: error.message || 'Failed to fetch workspaces',
+        success: false,
+        workspaces: [],
+        count: 0
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a workspace; the caller becomes its owner
+ * POST /api/workspaces
+ * Body: { name }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const user = await authenticateRequest(request, body.userId);
+    const userId = resolveUserId(user, body.userId);
+
+    const { name, error: nameError } = parseName(body.name);
+    if (nameError) {
+      return NextResponse.json(
+        { error: nameError, success: false },
+        { status: 400 }
+      );
+    }
+
+    const workspace = await WorkspaceService.createWorkspace(userId, name!);
+
+    return NextResponse.json({
+      success: true,
+      workspace
+    });
+
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+
+    console.error('Workspace create API error:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to create workspace', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import DocumentUpload from '../components/DocumentUpload';
 import SimpleSearch from '../components/SimpleSearch';
 import ChatInterface from '../components/ChatInterface';
+import SignIn from '../components/SignIn';
 
 export default function Home() {
   const [activeTab, setActiveTab] = useState<'upload' | 'search' | 'chat'>('upload');
@@ -21,51 +22,53 @@ export default function Home() {
           </p>
         </div>
 
-        {/* Tab Navigation */}
-        <div className="mb-8">
-          <div className="flex justify-center">
-            <div className="inline-flex rounded-lg bg-gray-100 p-1">
-              <button
-                onClick={() => setActiveTab('upload')}
-                className={`px-6 py-2 rounded-md font-medium text-sm transition-colors ${
-                  activeTab === 'upload'
-                    ? 'bg-white text-blue-600 shadow-sm'
-                    : 'text-gray-600 hover:text-gray-900'
-                }`}
-              >
-                📄 Upload Documents
-              </button>
-              <button
-                onClick={() => setActiveTab('search')}
-                className={`px-6 py-2 rounded-md font-medium text-sm transition-colors ${
-                  activeTab === 'search'
-                    ? 'bg-white text-blue-600 shadow-sm'
-                    : 'text-gray-600 hover:text-gray-900'
-                }`}
-              >
-                🔍 Vector Search
-              </button>
-              <button
-                onClick={() => setActiveTab('chat')}
-                className={`px-6 py-2 rounded-md font-medium text-sm transition-colors ${
-                  activeTab === 'chat'
-                    ? 'bg-white text-blue-600 shadow-sm'
-                    : 'text-gray-600 hover:text-gray-900'
-                }`}
-              >
-                🤖 AI Chat
-              </button>
+        <SignIn>
+          {/* Tab Navigation */}
+          <div className="mb-8">
+            <div className="flex justify-center">
+              <div className="inline-flex rounded-lg bg-gray-100 p-1">
+                <button
+                  onClick={() => setActiveTab('upload')}
+                  className={`px-6 py-2 rounded-md font-medium text-sm transition-colors ${
+                    activeTab === 'upload'
+                      ? 'bg-white text-blue-600 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  📄 Upload Documents
+                </button>
+                <button
+                  onClick={() => setActiveTab('search')}
+                  className={`px-6 py-2 rounded-md font-medium text-sm transition-colors ${
+                    activeTab === 'search'
+                      ? 'bg-white text-blue-600 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  🔍 Vector Search
+                </button>
+                <button
+                  onClick={() => setActiveTab('chat')}
+                  className={`px-6 py-2 rounded-md font-medium text-sm transition-colors ${
+                    activeTab === 'chat'
+                      ? 'bg-white text-blue-600 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  🤖 AI Chat
+                </button>
+              </div>
             </div>
           </div>
-        </div>
 
-        {/* Content */}
-        <div className="bg-white rounded-lg shadow-sm border">
-          {activeTab === 'upload' && <DocumentUpload />}
-          {activeTab === 'search' && <SimpleSearch />}
-          {activeTab === 'chat' && <ChatInterface />}
-        </div>
+          {/* Content */}
+          <div className="bg-white rounded-lg shadow-sm border">
+            {activeTab === 'upload' && <DocumentUpload />}
+            {activeTab === 'search' && <SimpleSearch />}
+            {activeTab === 'chat' && <ChatInterface />}
+          </div>
+        </SignIn>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
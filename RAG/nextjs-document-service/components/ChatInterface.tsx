@@ -1,6 +1,7 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { readSSEData } from '@/lib/sse';
 
 interface ChatMessage {
   id: string;
@@ -11,12 +12,38 @@ interface ChatMessage {
   searchResultsCount?: number;
   tokensUsed?: number;
   modelUsed?: string;
+  isStreaming?: boolean;
+  cancelled?: boolean;
+  citations?: CitationReport;
+  queryId?: string; // Logged query the answer came from; feedback refers to it
+  rating?: 'up' | 'down';
+  sourceMarks?: Record<string, boolean>;
+}
+
+interface CitationReport {
+  sentences: {
+    sentence: string;
+    start: number;
+    end: number;
+    invalidCitations: number[];
+    verdict: 'supported' | 'unsupported';
+  }[];
+  supportedCount: number;
+  unsupportedCount: number;
+}
+
+interface ConversationSummary {
+  id: string;
+  title: string;
+  updated_at: string;
+  message_count: number;
 }
 
 interface ChatSource {
   chunk_id: string;
   document: string;
   page: number;
+  section?: string;
   relevance_score: number;
   text_preview: string;
 }
@@ -29,6 +56,136 @@ export default function ChatInterface() {
   const [searchMode, setSearchMode] = useState<'semantic' | 'keyword' | 'hybrid' | 'medical_tables'>('hybrid');
   const [maxResults, setMaxResults] = useState(10);
   const [similarityThreshold, setSimilarityThreshold] = useState(0.3);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [collections, setCollections] = useState<Array<{ id: string; name: string; workspace_name: string }>>([]);
+  const [collectionId, setCollectionId] = useState(''); // Empty answers from the user's own documents
+
+  useEffect(() => {
+    loadConversations();
+    fetch('/api/collections')
+      .then(response => response.json())
+      .then(data => setCollections(data.collections || []))
+      .catch(() => setCollections([]));
+  }, []);
+
+  const loadConversations = async () => {
+    try {
+      const response = await fetch('/api/conversations');
+      const data = await response.json();
+      if (data.success) {
+        setConversations(data.conversations);
+      }
+    } catch (err) {
+      console.error('Failed to load conversations:', err);
+    }
+  };
+
+  const openConversation = async (id: string) => {
+    if (isLoading) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/conversations/${id}`);
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error);
+      }
+
+      setConversationId(id);
+      setMessages(data.messages.map((message: any) => ({
+        id: message.id,
+        type: message.role,
+        content: message.content,
+        timestamp: new Date(message.created_at),
+        sources: message.sources || undefined,
+        searchResultsCount: message.sources?.length || 0,
+        tokensUsed: message.metadata?.tokensUsed || 0,
+        modelUsed: message.metadata?.modelUsed || 'unknown',
+        citations: message.metadata?.citations,
+        queryId: message.metadata?.queryId || undefined
+      })));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load conversation');
+    }
+  };
+
+  const startNewConversation = () => {
+    if (isLoading) return;
+    setConversationId(null);
+    setMessages([]);
+    setError(null);
+  };
+
+  const deleteConversation = async (id: string) => {
+    if (!window.confirm('Delete this conversation?')) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error);
+      }
+
+      if (conversationId === id) {
+        startNewConversation();
+      }
+      loadConversations();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete conversation');
+    }
+  };
+
+  const updateMessage = (id: string, update: Partial<ChatMessage> | ((message: ChatMessage) => Partial<ChatMessage>)) => {
+    setMessages(prev => prev.map(message =>
+      message.id === id
+        ? { ...message, ...(typeof update === 'function' ? update(message) : update) }
+        : message
+    ));
+  };
+
+  const sendFeedback = async (queryId: string, feedback: Record<string, any>) => {
+    const response = await fetch('/api/feedback', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ queryId, ...feedback }),
+    });
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error);
+    }
+  };
+
+  const rateAnswer = async (message: ChatMessage, rating: 'up' | 'down') => {
+    if (!message.queryId) return;
+    // Cancelling the prompt still records the rating, without a comment
+    const comment = window.prompt(rating === 'up' ? 'What was helpful? (optional)' : 'What was wrong with this answer? (optional)');
+
+    try {
+      await sendFeedback(message.queryId, { answer: { rating, comment: comment || null } });
+      updateMessage(message.id, { rating });
+    } catch (err: any) {
+      setError(err.message || 'Failed to save feedback');
+    }
+  };
+
+  const markSource = async (message: ChatMessage, chunkId: string, relevant: boolean) => {
+    if (!message.queryId) return;
+
+    try {
+      await sendFeedback(message.queryId, { sources: [{ chunkId, relevant }] });
+      updateMessage(message.id, current => ({ sourceMarks: { ...current.sourceMarks, [chunkId]: relevant } }));
+    } catch (err: any) {
+      setError(err.message || 'Failed to save feedback');
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -49,6 +206,10 @@ export default function ChatInterface() {
     const currentQuestion = question.trim();
     setQuestion('');
 
+    const assistantId = (Date.now() + 1).toString();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
@@ -57,36 +218,102 @@ export default function ChatInterface() {
         },
         body: JSON.stringify({
           question: currentQuestion,
-          userId: 'demo-user',
           searchMode,
           maxResults,
           similarityThreshold,
+          stream: true,
+          ...(conversationId && { conversationId }),
+          ...(collectionId && { collectionIds: [collectionId] }),
         }),
+        signal: abortController.signal,
       });
 
-      const data = await response.json();
-
-      if (response.ok) {
-        const assistantMessage: ChatMessage = {
-          id: (Date.now() + 1).toString(),
-          type: 'assistant',
-          content: data.answer,
-          timestamp: new Date(),
-          sources: data.sources || [],
-          searchResultsCount: data.search_results_count || 0,
-          tokensUsed: data.tokens_used || 0,
-          modelUsed: data.model_used || 'unknown'
-        };
-
-        setMessages(prev => [...prev, assistantMessage]);
-      } else {
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
         setError(data.error || 'Failed to get response from AI');
+        return;
+      }
+
+      // The answer fills in as events arrive: sources, token deltas, then usage
+      setMessages(prev => [...prev, {
+        id: assistantId,
+        type: 'assistant',
+        content: '',
+        timestamp: new Date(),
+        isStreaming: true
+      }]);
+
+      for await (const data of readSSEData(response.body)) {
+        const event = JSON.parse(data);
+
+        if (event.type === 'sources') {
+          updateMessage(assistantId, {
+            sources: event.sources || [],
+            searchResultsCount: event.search_results_count || 0
+          });
+        } else if (event.type === 'delta') {
+          updateMessage(assistantId, message => ({ content: message.content + event.content }));
+        } else if (event.type === 'done') {
+          // The conversation is stored only once the answer is
+          if (event.conversation_id) {
+            setConversationId(event.conversation_id);
+          }
+          updateMessage(assistantId, {
+            tokensUsed: event.tokens_used || 0,
+            modelUsed: event.model_used || 'unknown',
+            citations: event.citations,
+            queryId: event.query_id || undefined
+          });
+        } else if (event.type === 'error') {
+          setError(event.error || 'Failed to get response from AI');
+        }
       }
     } catch (err) {
-      setError('Failed to connect to AI service. Please try again.');
+      if (abortController.signal.aborted) {
+        updateMessage(assistantId, { cancelled: true });
+      } else {
+        setError('Failed to connect to AI service. Please try again.');
+      }
     } finally {
+      updateMessage(assistantId, { isStreaming: false });
+      abortControllerRef.current = null;
       setIsLoading(false);
+      loadConversations();
+    }
+  };
+
+  // Show the spinner only until the first tokens arrive
+  const lastMessage = messages[messages.length - 1];
+  const isWaitingForAnswer = isLoading && !(lastMessage?.type === 'assistant' && lastMessage.content);
+
+  // Highlight sentences whose citations do not hold up
+  const renderContent = (message: ChatMessage) => {
+    const unsupported = (message.citations?.sentences || [])
+      .filter(sentence => sentence.verdict === 'unsupported')
+      .sort((a, b) => a.start - b.start);
+    if (message.isStreaming || unsupported.length === 0) {
+      return message.content;
     }
+
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    unsupported.forEach((sentence, index) => {
+      parts.push(message.content.slice(position, sentence.start));
+      parts.push(
+        <mark
+          key={index}
+          className="bg-red-100 text-red-900 underline decoration-red-400 decoration-dotted"
+          title={sentence.invalidCitations.length > 0
+            ? `Cites sources that do not exist: ${sentence.invalidCitations.map(n => `[${n}]`).join(', ')}`
+            : 'Not supported by the cited source'}
+        >
+          {message.content.slice(sentence.start, sentence.end)}
+        </mark>
+      );
+      position = sentence.end;
+    });
+    parts.push(message.content.slice(position));
+    return parts;
   };
 
   const formatTimestamp = (timestamp: Date) => {
@@ -101,185 +328,310 @@ export default function ChatInterface() {
   };
 
   return (
-    <div className="flex flex-col h-[700px]">
-      {/* Header */}
-      <div className="p-6 border-b border-gray-200">
-        <h3 className="text-lg font-semibold text-gray-900 mb-2">AI Chat with RAG</h3>
-        <p className="text-sm text-gray-600">
-          Ask questions about your uploaded documents and get AI-powered answers with source citations
-        </p>
-        
-        {/* Settings */}
-        <div className="mt-4 flex flex-wrap gap-4 text-sm">
-          <div className="flex items-center gap-2">
-            <label className="text-gray-700">Mode:</label>
-            <select
-              value={searchMode}
-              onChange={(e) => setSearchMode(e.target.value as any)}
-              className="border border-gray-300 rounded px-2 py-1 text-sm"
-            >
-              <option value="semantic">Semantic</option>
-              <option value="keyword">Keyword</option>
-              <option value="hybrid">Hybrid</option>
-              <option value="medical_tables">Medical Tables</option>
-            </select>
-          </div>
-          
-          <div className="flex items-center gap-2">
-            <label className="text-gray-700">Max Results:</label>
-            <input
-              type="number"
-              min="1"
-              max="20"
-              value={maxResults}
-              onChange={(e) => setMaxResults(parseInt(e.target.value))}
-              className="border border-gray-300 rounded px-2 py-1 w-16 text-sm"
-            />
-          </div>
-          
-          <div className="flex items-center gap-2">
-            <label className="text-gray-700">Threshold:</label>
-            <input
-              type="number"
-              min="0.1"
-              max="1.0"
-              step="0.1"
-              value={similarityThreshold}
-              onChange={(e) => setSimilarityThreshold(parseFloat(e.target.value))}
-              className="border border-gray-300 rounded px-2 py-1 w-16 text-sm"
-              disabled={searchMode === 'keyword'}
-            />
-          </div>
+    <div className="flex h-[700px]">
+      {/* Conversations */}
+      <div className="w-56 border-r border-gray-200 flex flex-col">
+        <div className="p-3 border-b border-gray-200">
+          <button
+            onClick={startNewConversation}
+            disabled={isLoading}
+            className="w-full px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300"
+          >
+            + New chat
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {conversations.length === 0 ? (
+            <p className="text-xs text-gray-500 p-2">No conversations yet</p>
+          ) : (
+            conversations.map((conversation) => (
+              <div
+                key={conversation.id}
+                onClick={() => openConversation(conversation.id)}
+                className={`group flex items-start justify-between gap-1 p-2 rounded cursor-pointer text-sm ${
+                  conversationId === conversation.id ? 'bg-blue-50 text-blue-900' : 'hover:bg-gray-50 text-gray-700'
+                }`}
+              >
+                <div className="min-w-0">
+                  <p className="truncate">{conversation.title}</p>
+                  <p className="text-xs text-gray-400">{conversation.message_count} messages</p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    deleteConversation(conversation.id);
+                  }}
+                  className="text-xs text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                  title="Delete conversation"
+                >
+                  ✕
+                </button>
+              </div>
+            ))
+          )}
         </div>
       </div>
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-6 space-y-4">
-        {messages.length === 0 ? (
-          <div className="text-center py-12">
-            <div className="text-4xl mb-4">🤖</div>
-            <h4 className="text-lg font-medium text-gray-900 mb-2">Ask AI About Your Documents</h4>
-            <p className="text-gray-600 mb-4">
-              Get intelligent answers based on your uploaded documents with source citations
-            </p>
-            <div className="text-sm text-gray-500 space-y-1">
-              <p>• "What is diabetes and what are its symptoms?"</p>
-              <p>• "Which provinces allow drugs according to the data?"</p>
-              <p>• "Summarize the main findings from the medical reports"</p>
+      <div className="flex flex-col flex-1 min-w-0">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">AI Chat with RAG</h3>
+          <p className="text-sm text-gray-600">
+            Ask questions about your uploaded documents and get AI-powered answers with source citations
+          </p>
+          
+          {/* Settings */}
+          <div className="mt-4 flex flex-wrap gap-4 text-sm">
+            <div className="flex items-center gap-2">
+              <label className="text-gray-700">Mode:</label>
+              <select
+                value={searchMode}
+                onChange={(e) => setSearchMode(e.target.value as any)}
+                className="border border-gray-300 rounded px-2 py-1 text-sm"
+              >
+                <option value="semantic">Semantic</option>
+                <option value="keyword">Keyword</option>
+                <option value="hybrid">Hybrid</option>
+                <option value="medical_tables">Medical Tables</option>
+              </select>
+            </div>
+            
+            <div className="flex items-center gap-2">
+              <label className="text-gray-700">Max Results:</label>
+              <input
+                type="number"
+                min="1"
+                max="20"
+                value={maxResults}
+                onChange={(e) => setMaxResults(parseInt(e.target.value))}
+                className="border border-gray-300 rounded px-2 py-1 w-16 text-sm"
+              />
             </div>
+            
+            <div className="flex items-center gap-2">
+              <label className="text-gray-700">Threshold:</label>
+              <input
+                type="number"
+                min="0.1"
+                max="1.0"
+                step="0.1"
+                value={similarityThreshold}
+                onChange={(e) => setSimilarityThreshold(parseFloat(e.target.value))}
+                className="border border-gray-300 rounded px-2 py-1 w-16 text-sm"
+                disabled={searchMode === 'keyword'}
+              />
+            </div>
+
+            {collections.length > 0 && (
+              <div className="flex items-center gap-2">
+                <label className="text-gray-700">Documents:</label>
+                <select
+                  value={collectionId}
+                  onChange={(e) => setCollectionId(e.target.value)}
+                  className="border border-gray-300 rounded px-2 py-1 text-sm"
+                >
+                  <option value="">My documents</option>
+                  {collections.map((collection) => (
+                    <option key={collection.id} value={collection.id}>
+                      {collection.workspace_name} / {collection.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
-        ) : (
-          messages.map((message) => (
-            <div
-              key={message.id}
-              className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
-            >
+        </div>
+
+        {/* Messages */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {messages.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-4xl mb-4">🤖</div>
+              <h4 className="text-lg font-medium text-gray-900 mb-2">Ask AI About Your Documents</h4>
+              <p className="text-gray-600 mb-4">
+                Get intelligent answers based on your uploaded documents with source citations
+              </p>
+              <div className="text-sm text-gray-500 space-y-1">
+                <p>• "What is diabetes and what are its symptoms?"</p>
+                <p>• "Which provinces allow drugs according to the data?"</p>
+                <p>• "Summarize the main findings from the medical reports"</p>
+              </div>
+            </div>
+          ) : (
+            messages.map((message) => (
               <div
-                className={`max-w-[80%] rounded-lg px-4 py-3 ${
-                  message.type === 'user'
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-gray-100 text-gray-900'
-                }`}
+                key={message.id}
+                className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
               >
-                <div className="whitespace-pre-wrap">{message.content}</div>
-                
-                {/* Assistant message metadata */}
-                {message.type === 'assistant' && (
-                  <div className="mt-3 text-xs text-gray-500 space-y-2">
-                    <div className="flex items-center gap-2">
-                      <span>🔍 {message.searchResultsCount} sources</span>
-                      <span>•</span>
-                      <span>🧠 {message.modelUsed}</span>
-                      <span>•</span>
-                      <span>⚡ {message.tokensUsed} tokens</span>
-                      <span>•</span>
-                      <span>🕒 {formatTimestamp(message.timestamp)}</span>
+                <div
+                  className={`max-w-[80%] rounded-lg px-4 py-3 ${
+                    message.type === 'user'
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-900'
+                  }`}
+                >
+                  <div className="whitespace-pre-wrap">
+                    {renderContent(message)}
+                    {message.isStreaming && message.content && <span className="animate-pulse">▍</span>}
+                  </div>
+                  {message.cancelled && (
+                    <div className="mt-1 text-xs text-gray-500 italic">Cancelled</div>
+                  )}
+                  {!message.isStreaming && message.citations && message.citations.unsupportedCount > 0 && (
+                    <div className="mt-2 text-xs text-red-700">
+                      ⚠️ {message.citations.unsupportedCount} of {message.citations.sentences.length} cited sentences
+                      are not supported by their sources
                     </div>
-                    
-                    {/* Sources */}
-                    {message.sources && message.sources.length > 0 && (
-                      <div className="mt-2">
-                        <div className="text-xs font-medium text-gray-600 mb-1">Sources:</div>
-                        <div className="space-y-1">
-                          {message.sources.slice(0, 3).map((source, index) => (
-                            <div
-                              key={source.chunk_id}
-                              className="flex items-center gap-2 text-xs"
+                  )}
+                  
+                  {/* Assistant message metadata */}
+                  {message.type === 'assistant' && !message.isStreaming && (
+                    <div className="mt-3 text-xs text-gray-500 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span>🔍 {message.searchResultsCount} sources</span>
+                        <span>•</span>
+                        <span>🧠 {message.modelUsed}</span>
+                        <span>•</span>
+                        <span>⚡ {message.tokensUsed} tokens</span>
+                        <span>•</span>
+                        <span>🕒 {formatTimestamp(message.timestamp)}</span>
+                        {message.queryId && (
+                          <>
+                            <span>•</span>
+                            <button
+                              onClick={() => rateAnswer(message, 'up')}
+                              className={message.rating === 'up' ? 'text-green-600' : 'grayscale opacity-60 hover:opacity-100'}
+                              title="Helpful answer"
                             >
-                              <span className="text-gray-400">#{index + 1}</span>
-                              <span className="font-medium">{source.document}</span>
-                              <span className="text-gray-400">page {source.page}</span>
-                              <span className={`px-1 py-0.5 rounded text-xs ${getScoreColor(source.relevance_score)}`}>
-                                {(source.relevance_score * 100).toFixed(0)}%
-                              </span>
-                            </div>
-                          ))}
-                          {message.sources.length > 3 && (
-                            <div className="text-xs text-gray-400">
-                              ... and {message.sources.length - 3} more sources
-                            </div>
-                          )}
-                        </div>
+                              👍
+                            </button>
+                            <button
+                              onClick={() => rateAnswer(message, 'down')}
+                              className={message.rating === 'down' ? 'text-red-600' : 'grayscale opacity-60 hover:opacity-100'}
+                              title="Unhelpful answer"
+                            >
+                              👎
+                            </button>
+                          </>
+                        )}
                       </div>
-                    )}
-                  </div>
-                )}
-                
-                {/* User message timestamp */}
-                {message.type === 'user' && (
-                  <div className="mt-2 text-xs text-blue-200">
-                    {formatTimestamp(message.timestamp)}
-                  </div>
-                )}
+                      
+                      {/* Sources */}
+                      {message.sources && message.sources.length > 0 && (
+                        <div className="mt-2">
+                          <div className="text-xs font-medium text-gray-600 mb-1">Sources:</div>
+                          <div className="space-y-1">
+                            {message.sources.slice(0, 3).map((source, index) => (
+                              <div
+                                key={source.chunk_id}
+                                className="flex items-center gap-2 text-xs"
+                              >
+                                <span className="text-gray-400">#{index + 1}</span>
+                                <span className="font-medium">{source.document}</span>
+                                <span className="text-gray-400">page {source.page}</span>
+                                {source.section && (
+                                  <span className="text-gray-400 truncate" title={source.section}>{source.section}</span>
+                                )}
+                                <span className={`px-1 py-0.5 rounded text-xs ${getScoreColor(source.relevance_score)}`}>
+                                  {(source.relevance_score * 100).toFixed(0)}%
+                                </span>
+                                {message.queryId && (
+                                  <>
+                                    <button
+                                      onClick={() => markSource(message, source.chunk_id, true)}
+                                      className={message.sourceMarks?.[source.chunk_id] === true ? 'text-green-600' : 'text-gray-400 hover:text-green-600'}
+                                      title="Relevant source"
+                                    >
+                                      ✓
+                                    </button>
+                                    <button
+                                      onClick={() => markSource(message, source.chunk_id, false)}
+                                      className={message.sourceMarks?.[source.chunk_id] === false ? 'text-red-600' : 'text-gray-400 hover:text-red-600'}
+                                      title="Irrelevant source"
+                                    >
+                                      ✗
+                                    </button>
+                                  </>
+                                )}
+                              </div>
+                            ))}
+                            {message.sources.length > 3 && (
+                              <div className="text-xs text-gray-400">
+                                ... and {message.sources.length - 3} more sources
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  
+                  {/* User message timestamp */}
+                  {message.type === 'user' && (
+                    <div className="mt-2 text-xs text-blue-200">
+                      {formatTimestamp(message.timestamp)}
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
-          ))
-        )}
-        
-        {/* Loading indicator */}
-        {isLoading && (
-          <div className="flex justify-start">
-            <div className="bg-gray-100 rounded-lg px-4 py-3 max-w-[80%]">
-              <div className="flex items-center gap-2 text-gray-600">
-                <div className="animate-spin text-lg">🔄</div>
-                <span>AI is thinking...</span>
+            ))
+          )}
+          
+          {/* Loading indicator */}
+          {isWaitingForAnswer && (
+            <div className="flex justify-start">
+              <div className="bg-gray-100 rounded-lg px-4 py-3 max-w-[80%]">
+                <div className="flex items-center gap-2 text-gray-600">
+                  <div className="animate-spin text-lg">🔄</div>
+                  <span>AI is thinking...</span>
+                </div>
               </div>
             </div>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
 
-      {/* Input */}
-      <div className="p-6 border-t border-gray-200">
-        {error && (
-          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
-            <p className="text-red-700 text-sm">{error}</p>
+        {/* Input */}
+        <div className="p-6 border-t border-gray-200">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+          
+          <form onSubmit={handleSubmit} className="flex gap-3">
+            <input
+              type="text"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              placeholder="Ask a question about your documents..."
+              className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={isLoading}
+              maxLength={1000}
+            />
+            {isLoading ? (
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="px-6 py-3 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                ⏹ Stop
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!question.trim()}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+              >
+                🚀
+              </button>
+            )}
+          </form>
+          
+          <div className="mt-2 text-xs text-gray-500">
+            Press Enter to send • Max 1000 characters • Powered by OpenAI GPT-4o
           </div>
-        )}
-        
-        <form onSubmit={handleSubmit} className="flex gap-3">
-          <input
-            type="text"
-            value={question}
-            onChange={(e) => setQuestion(e.target.value)}
-            placeholder="Ask a question about your documents..."
-            className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            disabled={isLoading}
-            maxLength={1000}
-          />
-          <button
-            type="submit"
-            disabled={isLoading || !question.trim()}
-            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
-          >
-            {isLoading ? '⏳' : '🚀'}
-          </button>
-        </form>
-        
-        <div className="mt-2 text-xs text-gray-500">
-          Press Enter to send • Max 1000 characters • Powered by OpenAI GPT-4o
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
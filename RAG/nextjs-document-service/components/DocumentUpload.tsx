@@ -9,6 +9,8 @@ interface Document {
   chunks_count: number;
   status: string;
   uploaded_at: string;
+  version: number;
+  is_latest: boolean;
 }
 
 interface Chunk {
@@ -24,7 +26,11 @@ export default function DocumentUpload() {
   const [selectedDocumentId, setSelectedDocumentId] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadMessage, setUploadMessage] = useState('');
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [replaceTargetId, setReplaceTargetId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
 
   const loadDocuments = async () => {
     try {
@@ -56,16 +62,50 @@ export default function DocumentUpload() {
     }
   };
 
+  // Poll the ingestion job until it completes or fails
+  const pollJob = (jobId: string) => {
+    const pollInterval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}`);
+        const data = await response.json();
+        if (!data.success) {
+          throw new Error(data.error);
+        }
+
+        const { job } = data;
+        setUploadProgress(job.progress);
+        const latestEvent = data.events[data.events.length - 1];
+        if (latestEvent) {
+          setUploadMessage(latestEvent.message);
+        }
+
+        if (job.status === 'completed' || job.status === 'failed') {
+          clearInterval(pollInterval);
+          setIsUploading(false);
+          if (job.status === 'failed') {
+            setUploadError(job.last_error || 'Processing failed');
+          }
+          loadDocuments(); // Refresh document list
+        }
+      } catch (error) {
+        console.error('Failed to poll job:', error);
+        clearInterval(pollInterval);
+        setIsUploading(false);
+      }
+    }, 1000);
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     setIsUploading(true);
     setUploadProgress(0);
+    setUploadMessage('Uploading...');
+    setUploadError(null);
 
     const formData = new FormData();
     formData.append('file', file);
-    formData.append('userId', 'demo-user');
 
     try {
       const response = await fetch('/api/upload', {
@@ -75,23 +115,13 @@ export default function DocumentUpload() {
 
       const data = await response.json();
       if (data.success) {
-        // Simulate progress for demo
-        const progressInterval = setInterval(() => {
-          setUploadProgress(prev => {
-            if (prev >= 100) {
-              clearInterval(progressInterval);
-              setIsUploading(false);
-              loadDocuments(); // Refresh document list
-              return 100;
-            }
-            return prev + 10;
-          });
-        }, 200);
+        pollJob(data.jobId);
       } else {
         throw new Error(data.error);
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Upload failed:', error);
+      setUploadError(error.message || 'Upload failed');
       setIsUploading(false);
       setUploadProgress(0);
     }
@@ -102,6 +132,79 @@ export default function DocumentUpload() {
     }
   };
 
+  // Start a replace/reindex request and follow the job it queues
+  const runDocumentJob = async (request: Promise<Response>, message: string) => {
+    setIsUploading(true);
+    setUploadProgress(0);
+    setUploadMessage(message);
+    setUploadError(null);
+
+    try {
+      const response = await request;
+      const data = await response.json();
+      if (data.success) {
+        pollJob(data.jobId);
+        loadDocuments(); // Show the document as processing
+      } else {
+        throw new Error(data.error);
+      }
+    } catch (error: any) {
+      console.error('Document job failed:', error);
+      setUploadError(error.message || 'Request failed');
+      setIsUploading(false);
+      setUploadProgress(0);
+    }
+  };
+
+  const handleDelete = async (doc: Document) => {
+    if (!window.confirm(`Delete "${doc.filename}" and all of its chunks?`)) return;
+
+    setUploadError(null);
+    try {
+      const response = await fetch(`/api/documents/${doc.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error);
+      }
+
+      if (selectedDocumentId === doc.id) {
+        setSelectedDocumentId(null);
+        setChunks([]);
+      }
+      loadDocuments();
+    } catch (error: any) {
+      console.error('Delete failed:', error);
+      setUploadError(error.message || 'Delete failed');
+    }
+  };
+
+  const handleReindex = (doc: Document) => {
+    if (selectedDocumentId === doc.id) {
+      setSelectedDocumentId(null);
+      setChunks([]);
+    }
+    runDocumentJob(
+      fetch(`/api/documents/${doc.id}/reindex`, { method: 'POST' }),
+      `Re-indexing ${doc.filename}...`
+    );
+  };
+
+  const handleReplaceFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const documentId = replaceTargetId;
+    if (replaceInputRef.current) {
+      replaceInputRef.current.value = '';
+    }
+    if (!file || !documentId) return;
+
+    const formData = new FormData();
+    formData.append('file', file);
+    runDocumentJob(
+      fetch(`/api/documents/${documentId}`, { method: 'PUT', body: formData }),
+      `Uploading new version of ${file.name}...`
+    );
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -131,7 +234,7 @@ export default function DocumentUpload() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".txt,.md,.markdown,.pdf,.json"
+              accept=".txt,.md,.markdown,.pdf,.json,.docx,.pptx,.xlsx,.csv,.html,.htm,.png,.jpg,.jpeg,.tif,.tiff"
               onChange={handleFileUpload}
               className="hidden"
               disabled={isUploading}
@@ -144,7 +247,7 @@ export default function DocumentUpload() {
                   Click to upload or drag and drop
                 </p>
                 <p className="text-sm text-gray-500 mb-2">
-                  Supports: .txt, .md, .markdown, .pdf, .json files (max 25MB)
+                  Supports: .txt, .md, .pdf, .json, .docx, .pptx, .xlsx, .csv, .html files and scanned images (.png, .jpg, .tif) (max 25MB)
                 </p>
                 <p className="text-xs text-gray-400 mb-4">
                   📕 PDF files include medical table extraction<br/>
@@ -168,11 +271,27 @@ export default function DocumentUpload() {
                   ></div>
                 </div>
                 <p className="text-sm text-gray-500">{uploadProgress}% complete</p>
+                {uploadMessage && (
+                  <p className="text-xs text-gray-400 mt-1">{uploadMessage}</p>
+                )}
               </div>
             )}
           </div>
 
+          {uploadError && (
+            <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">{uploadError}</p>
+            </div>
+          )}
+
           {/* Documents List */}
+          <input
+            ref={replaceInputRef}
+            type="file"
+            accept=".txt,.md,.markdown,.pdf,.json,.docx,.pptx,.xlsx,.csv,.html,.htm,.png,.jpg,.jpeg,.tif,.tiff"
+            onChange={handleReplaceFile}
+            className="hidden"
+          />
           <div className="mt-6">
             <h4 className="font-medium text-gray-900 mb-3">Uploaded Documents</h4>
             {documents.length === 0 ? (
@@ -193,7 +312,7 @@ export default function DocumentUpload() {
                       <div className="flex-1">
                         <p className="font-medium text-gray-900 truncate">{doc.filename}</p>
                         <p className="text-sm text-gray-500">
-                          {formatFileSize(doc.file_size)} • {doc.chunks_count} chunks
+                          v{doc.version} • {formatFileSize(doc.file_size)} • {doc.chunks_count} chunks
                         </p>
                       </div>
                       <div className="text-right">
@@ -204,11 +323,42 @@ export default function DocumentUpload() {
                         }`}>
                           {doc.status}
                         </span>
+                        {!doc.is_latest && doc.status === 'completed' && (
+                          <span className="ml-1 inline-flex px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-600">
+                            superseded
+                          </span>
+                        )}
                         <p className="text-xs text-gray-500 mt-1">
                           {formatDate(doc.uploaded_at)}
                         </p>
                       </div>
                     </div>
+                    <div className="flex gap-3 mt-2 text-xs" onClick={(e) => e.stopPropagation()}>
+                      <button
+                        onClick={() => {
+                          setReplaceTargetId(doc.id);
+                          replaceInputRef.current?.click();
+                        }}
+                        disabled={isUploading}
+                        className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      >
+                        New version
+                      </button>
+                      <button
+                        onClick={() => handleReindex(doc)}
+                        disabled={isUploading}
+                        className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      >
+                        Re-index
+                      </button>
+                      <button
+                        onClick={() => handleDelete(doc)}
+                        disabled={isUploading}
+                        className="text-red-600 hover:text-red-800 disabled:text-gray-400"
+                      >
+                        Delete
+                      </button>
+                    </div>
                   </div>
                 ))}
               </div>
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect, ReactNode } from 'react';
+
+interface SessionState {
+  authEnabled: boolean;
+  authenticated: boolean;
+  userId?: string;
+}
+
+/**
+ * Shows its children once the browser has a session (or auth is off);
+ * otherwise asks for an API key or JWT and trades it for a session cookie
+ */
+export default function SignIn({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<SessionState | null>(null);
+  const [token, setToken] = useState('');
+  const [error, setError] = useState('');
+  const [signingIn, setSigningIn] = useState(false);
+
+  const loadSession = async () => {
+    try {
+      const response = await fetch('/api/session');
+      setSession(await response.json());
+    } catch {
+      setError('Could not reach the server');
+    }
+  };
+
+  useEffect(() => {
+    loadSession();
+  }, []);
+
+  const signIn = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSigningIn(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Sign-in failed');
+        return;
+      }
+      setToken('');
+      await loadSession();
+    } catch {
+      setError('Sign-in failed');
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  const signOut = async () => {
+    await fetch('/api/session', { method: 'DELETE' });
+    await loadSession();
+  };
+
+  if (!session) {
+    return error ? <p className="text-center text-red-700">{error}</p> : null;
+  }
+
+  if (!session.authEnabled || session.authenticated) {
+    return (
+      <>
+        {session.authenticated && (
+          <p className="text-right text-sm text-gray-500 mb-4">
+            Signed in as {session.userId}{' '}
+            <button onClick={signOut} className="text-blue-600 hover:underline">Sign out</button>
+          </p>
+        )}
+        {children}
+      </>
+    );
+  }
+
+  return (
+    <form onSubmit={signIn} className="max-w-md mx-auto bg-white rounded-lg shadow-sm border p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-2">Sign in</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Paste an API key (npm run create:api-key -- &lt;user-id&gt;) or a JWT.
+      </p>
+      <input
+        type="password"
+        value={token}
+        onChange={(event) => setToken(event.target.value)}
+        placeholder="rag_..."
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+      <button
+        type="submit"
+        disabled={signingIn || !token.trim()}
+        className="mt-4 w-full px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+      >
+        {signingIn ? 'Signing in...' : 'Sign in'}
+      </button>
+    </form>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 
 interface SearchResult {
   chunk_id: string;
@@ -24,6 +24,49 @@ interface MedicalTableResult {
   confidence: number;
 }
 
+interface FilterInputs {
+  filename: string;
+  contentTypes: string[];
+  pageFrom: string;
+  pageTo: string;
+  uploadedAfter: string;
+  uploadedBefore: string;
+  metadata: string; // JSON object or array of { path, op, value }
+}
+
+const EMPTY_FILTERS: FilterInputs = {
+  filename: '',
+  contentTypes: [],
+  pageFrom: '',
+  pageTo: '',
+  uploadedAfter: '',
+  uploadedBefore: '',
+  metadata: ''
+};
+
+const CONTENT_TYPES = ['medical', 'regulatory', 'educational', 'general'];
+
+interface CollectionOption {
+  id: string;
+  name: string;
+  workspace_name: string;
+  document_count: number;
+}
+
+// Turn the filter form into the API's `filters` object; empty fields are left out
+function buildFilters(inputs: FilterInputs): Record<string, any> | undefined {
+  const filters: Record<string, any> = {};
+  if (inputs.filename.trim()) filters.filename = inputs.filename.trim();
+  if (inputs.contentTypes.length > 0) filters.contentTypes = inputs.contentTypes;
+  if (inputs.pageFrom) filters.pageFrom = parseInt(inputs.pageFrom);
+  if (inputs.pageTo) filters.pageTo = parseInt(inputs.pageTo);
+  if (inputs.uploadedAfter) filters.uploadedAfter = inputs.uploadedAfter;
+  // Inclusive of the chosen day
+  if (inputs.uploadedBefore) filters.uploadedBefore = `${inputs.uploadedBefore}T23:59:59.999Z`;
+  if (inputs.metadata.trim()) filters.metadata = JSON.parse(inputs.metadata);
+  return Object.keys(filters).length > 0 ? filters : undefined;
+}
+
 export default function SimpleSearch() {
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<SearchResult[]>([]);
@@ -35,12 +78,53 @@ export default function SimpleSearch() {
   const [similarityThreshold, setSimilarityThreshold] = useState(0.4);
   const [searchMode, setSearchMode] = useState<'semantic' | 'keyword' | 'hybrid' | 'medical_tables'>('hybrid');
   const [searchDetails, setSearchDetails] = useState<any>(null);
+  const [queryId, setQueryId] = useState<string | null>(null);
+  const [relevanceMarks, setRelevanceMarks] = useState<Record<string, boolean>>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [filterInputs, setFilterInputs] = useState<FilterInputs>(EMPTY_FILTERS);
+  const [collections, setCollections] = useState<CollectionOption[]>([]);
+  const [collectionIds, setCollectionIds] = useState<string[]>([]);
+
+  // Shared collections from the user's workspaces; none selected searches their own documents
+  useEffect(() => {
+    fetch('/api/collections')
+      .then(response => response.json())
+      .then(data => setCollections(data.collections || []))
+      .catch(() => setCollections([]));
+  }, []);
+
+  const toggleCollection = (id: string) => {
+    setCollectionIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  };
+
+  const updateFilter = (field: keyof FilterInputs, value: any) => {
+    setFilterInputs(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleContentType = (type: string) => {
+    updateFilter('contentTypes', filterInputs.contentTypes.includes(type)
+      ? filterInputs.contentTypes.filter(t => t !== type)
+      : [...filterInputs.contentTypes, type]);
+  };
+
+  const activeFilterCount = Object.keys(EMPTY_FILTERS).filter(field => {
+    const value = filterInputs[field as keyof FilterInputs];
+    return Array.isArray(value) ? value.length > 0 : value.trim() !== '';
+  }).length;
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!query.trim()) return;
 
+    let filters: Record<string, any> | undefined;
+    try {
+      filters = searchMode === 'medical_tables' ? undefined : buildFilters(filterInputs);
+    } catch {
+      setError('Metadata filter must be valid JSON');
+      return;
+    }
+
     setIsSearching(true);
     setError(null);
 
@@ -52,10 +136,11 @@ export default function SimpleSearch() {
         },
         body: JSON.stringify({
           query: query.trim(),
-          userId: 'demo-user',
           maxResults,
           similarityThreshold,
           searchMode,
+          filters,
+          collectionIds: collectionIds.length > 0 ? collectionIds : undefined,
         }),
       });
 
@@ -66,6 +151,8 @@ export default function SimpleSearch() {
         setMedicalTables(data.medicalTables || []);
         setIsMedicalQuery(data.isMedicalQuery || false);
         setSearchDetails(data.searchDetails);
+        setQueryId(data.queryId || null);
+        setRelevanceMarks({});
       } else {
         setError(data.error || 'Search failed');
       }
@@ -76,6 +163,33 @@ export default function SimpleSearch() {
     }
   };
 
+  // Relevance marks feed the reranker's feedback boosts and eval sets
+  const markResult = async (chunkId: string, relevant: boolean) => {
+    if (!queryId) return;
+    setRelevanceMarks(prev => ({ ...prev, [chunkId]: relevant }));
+
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ queryId, sources: [{ chunkId, relevant }] }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error);
+      }
+    } catch (err: any) {
+      setRelevanceMarks(prev => {
+        const marks = { ...prev };
+        delete marks[chunkId];
+        return marks;
+      });
+      setError(err.message || 'Failed to save feedback');
+    }
+  };
+
   const formatSimilarity = (score: number) => {
     return (score * 100).toFixed(1) + '%';
   };
@@ -207,6 +321,163 @@ export default function SimpleSearch() {
               </div>
             </div>
           </div>
+
+          {/* Collections */}
+          {collections.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Search in {collectionIds.length === 0 && <span className="text-gray-400 font-normal">(my documents)</span>}
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {collections.map((collection) => (
+                  <label
+                    key={collection.id}
+                    className={`px-3 py-1 border rounded-full text-xs cursor-pointer transition-colors ${
+                      collectionIds.includes(collection.id)
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={collectionIds.includes(collection.id)}
+                      onChange={() => toggleCollection(collection.id)}
+                      className="sr-only"
+                    />
+                    {collection.workspace_name} / {collection.name} ({collection.document_count})
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Filters */}
+          <div className="border border-gray-200 rounded-lg">
+            <button
+              type="button"
+              onClick={() => setShowFilters(!showFilters)}
+              className="w-full flex justify-between items-center px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              <span>
+                Filters
+                {activeFilterCount > 0 && (
+                  <span className="ml-2 text-xs px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full">
+                    {activeFilterCount} active
+                  </span>
+                )}
+              </span>
+              <span className="text-gray-400">{showFilters ? '▲' : '▼'}</span>
+            </button>
+
+            {showFilters && (
+              <div className="p-4 border-t border-gray-200 space-y-4">
+                {searchMode === 'medical_tables' && (
+                  <p className="text-xs text-gray-500">Filters are not applied to medical table search</p>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Filename</label>
+                    <input
+                      type="text"
+                      value={filterInputs.filename}
+                      onChange={(e) => updateFilter('filename', e.target.value)}
+                      placeholder="e.g. guidelines-*.pdf"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Pages</label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min="1"
+                        value={filterInputs.pageFrom}
+                        onChange={(e) => updateFilter('pageFrom', e.target.value)}
+                        placeholder="From"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <span className="text-gray-400">–</span>
+                      <input
+                        type="number"
+                        min="1"
+                        value={filterInputs.pageTo}
+                        onChange={(e) => updateFilter('pageTo', e.target.value)}
+                        placeholder="To"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Uploaded After</label>
+                    <input
+                      type="date"
+                      value={filterInputs.uploadedAfter}
+                      onChange={(e) => updateFilter('uploadedAfter', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Uploaded Before</label>
+                    <input
+                      type="date"
+                      value={filterInputs.uploadedBefore}
+                      onChange={(e) => updateFilter('uploadedBefore', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Content Type</label>
+                  <div className="flex flex-wrap gap-2">
+                    {CONTENT_TYPES.map((type) => (
+                      <label
+                        key={type}
+                        className={`px-3 py-1 border rounded-full text-xs cursor-pointer transition-colors ${
+                          filterInputs.contentTypes.includes(type)
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={filterInputs.contentTypes.includes(type)}
+                          onChange={() => toggleContentType(type)}
+                          className="sr-only"
+                        />
+                        {type}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Metadata (JSON)</label>
+                  <textarea
+                    value={filterInputs.metadata}
+                    onChange={(e) => updateFilter('metadata', e.target.value)}
+                    placeholder='{"hasTable": true} or [{"path": "pageCount", "op": "gte", "value": 10}]'
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                {activeFilterCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setFilterInputs(EMPTY_FILTERS)}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    Clear filters
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
         </form>
 
         {/* Error Display */}
@@ -344,9 +615,33 @@ export default function SimpleSearch() {
                           </div>
                         </div>
                         
-                        <span className={`text-xs px-2 py-1 rounded-full font-medium ${getScoreColor(result.similarity_score)}`}>
-                          {formatSimilarity(result.similarity_score)} similar
-                        </span>
+                        <div className="flex items-center gap-2">
+                          {queryId && (
+                            <>
+                              <button
+                                onClick={() => markResult(result.chunk_id, true)}
+                                className={`text-xs px-1.5 py-0.5 rounded ${
+                                  relevanceMarks[result.chunk_id] === true ? 'bg-green-100 text-green-700' : 'text-gray-400 hover:text-green-600'
+                                }`}
+                                title="Relevant"
+                              >
+                                ✓
+                              </button>
+                              <button
+                                onClick={() => markResult(result.chunk_id, false)}
+                                className={`text-xs px-1.5 py-0.5 rounded ${
+                                  relevanceMarks[result.chunk_id] === false ? 'bg-red-100 text-red-700' : 'text-gray-400 hover:text-red-600'
+                                }`}
+                                title="Not relevant"
+                              >
+                                ✗
+                              </button>
+                            </>
+                          )}
+                          <span className={`text-xs px-2 py-1 rounded-full font-medium ${getScoreColor(result.similarity_score)}`}>
+                            {formatSimilarity(result.similarity_score)} similar
+                          </span>
+                        </div>
                       </div>
 
                       {/* Result Content */}
@@ -18,6 +18,8 @@ interface VectorStats {
     total_size: number;
   }>;
   embeddingInfo: {
+    provider: string;
+    model: string;
     dimensions: number;
     chunks_with_embeddings: number;
   };
@@ -31,11 +33,39 @@ interface VectorStats {
     count: number;
     avg_words: number;
   }>;
+  embeddingCache: {
+    enabled: boolean;
+    sessionHits: number;
+    sessionMisses: number;
+    sessionHitRate: number;
+    totalEntries: number;
+    lifetimeHits: number;
+  };
   timestamp: string;
 }
 
+interface QueryAnalytics {
+  days: number;
+  slowQueryMs: number;
+  totals: {
+    queries: number;
+    searchQueries: number;
+    chatQueries: number;
+    zeroResultRate: number;
+    avgLatencyMs: number;
+    p95LatencyMs: number;
+    totalTokens: number;
+    costUsd: number;
+  };
+  topQueries: Array<{ query: string; count: number; avg_results: number }>;
+  zeroResultQueries: Array<{ query: string; count: number }>;
+  slowQueries: Array<{ id: string; source: string; query_text: string; search_mode: string; total_ms: number }>;
+  tokenSpend: Array<{ day: string; model_used: string; total_tokens: number }>;
+}
+
 export default function VectorDashboard() {
   const [stats, setStats] = useState<VectorStats | null>(null);
+  const [analytics, setAnalytics] = useState<QueryAnalytics | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -46,12 +76,17 @@ export default function VectorDashboard() {
   const fetchStats = async () => {
     try {
       setLoading(true);
-      const response = await fetch('/api/vector-stats');
+      const [response, analyticsResponse] = await Promise.all([
+        fetch('/api/vector-stats'),
+        fetch('/api/analytics')
+      ]);
       if (!response.ok) {
         throw new Error('Failed to fetch vector stats');
       }
       const data = await response.json();
       setStats(data);
+      // Without the query_log table the dashboard just omits the analytics panel
+      setAnalytics(analyticsResponse.ok ? await analyticsResponse.json() : null);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -71,6 +106,17 @@ export default function VectorDashboard() {
     return new Intl.NumberFormat().format(Math.round(num));
   };
 
+  // Token spend summed over models, one bar per day
+  const tokensByDay = (spend: QueryAnalytics['tokenSpend']) => {
+    const totals = new Map<string, number>();
+    spend.forEach(row => totals.set(row.day, (totals.get(row.day) || 0) + row.total_tokens));
+    return Array.from(totals.entries()).map(([day, tokens]) => ({
+      label: day.slice(5), // MM-DD
+      value: tokens,
+      color: '#8B5CF6'
+    }));
+  };
+
   if (loading) {
     return (
       <div className="bg-white rounded-lg shadow-sm border p-6">
@@ -200,10 +246,10 @@ export default function VectorDashboard() {
               <div className="text-xs text-gray-600">Total Vector Values</div>
             </div>
             <div className="text-center">
-              <div className="text-lg font-semibold text-amber-600">
-                OpenAI
+              <div className="text-lg font-semibold text-amber-600 capitalize">
+                {stats.embeddingInfo.provider}
               </div>
-              <div className="text-xs text-gray-600">text-embedding-3-small</div>
+              <div className="text-xs text-gray-600">{stats.embeddingInfo.model}</div>
             </div>
           </div>
           
@@ -229,6 +275,128 @@ export default function VectorDashboard() {
         </div>
       )}
 
+      {/* Embedding Cache */}
+      {stats.embeddingCache.enabled && (
+        <div className="mb-6 p-4 bg-gray-50 rounded-lg border">
+          <h3 className="font-medium mb-3">Embedding Cache</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="text-center">
+              <div className="text-lg font-semibold text-green-600">
+                {formatNumber(stats.embeddingCache.sessionHits)}
+              </div>
+              <div className="text-xs text-gray-600">Hits (this session)</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-semibold text-red-600">
+                {formatNumber(stats.embeddingCache.sessionMisses)}
+              </div>
+              <div className="text-xs text-gray-600">Misses (this session)</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-semibold text-blue-600">
+                {(stats.embeddingCache.sessionHitRate * 100).toFixed(1)}%
+              </div>
+              <div className="text-xs text-gray-600">Hit Rate</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-semibold text-purple-600">
+                {formatNumber(stats.embeddingCache.totalEntries)}
+              </div>
+              <div className="text-xs text-gray-600">
+                Cached Vectors ({formatNumber(stats.embeddingCache.lifetimeHits)} lifetime hits)
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Query Analytics */}
+      {analytics && (
+        <div className="mb-6 p-4 bg-gray-50 rounded-lg border">
+          <h3 className="font-medium mb-3">Query Analytics (last {analytics.days} days)</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div className="text-center">
+              <div className="text-lg font-semibold text-blue-600">
+                {formatNumber(analytics.totals.queries)}
+              </div>
+              <div className="text-xs text-gray-600">
+                Queries ({formatNumber(analytics.totals.searchQueries)} search, {formatNumber(analytics.totals.chatQueries)} chat)
+              </div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-semibold text-red-600">
+                {(analytics.totals.zeroResultRate * 100).toFixed(1)}%
+              </div>
+              <div className="text-xs text-gray-600">Zero-Result Queries</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-semibold text-amber-600">
+                {formatNumber(analytics.totals.p95LatencyMs)} ms
+              </div>
+              <div className="text-xs text-gray-600">p95 Latency (avg {formatNumber(analytics.totals.avgLatencyMs)} ms)</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-semibold text-purple-600">
+                {formatNumber(analytics.totals.totalTokens)}
+              </div>
+              <div className="text-xs text-gray-600">Chat Tokens (${analytics.totals.costUsd.toFixed(2)})</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+            <SimpleChart
+              title="Top Queries"
+              type="bar"
+              data={analytics.topQueries.map(query => ({
+                label: query.query,
+                value: query.count,
+                color: '#3B82F6'
+              }))}
+            />
+            <SimpleChart
+              title="Token Spend per Day"
+              type="bar"
+              data={tokensByDay(analytics.tokenSpend)}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+            <div>
+              <div className="font-medium mb-2">Zero-Result Queries</div>
+              {analytics.zeroResultQueries.length === 0 ? (
+                <div className="text-gray-500">None</div>
+              ) : (
+                <ul className="space-y-1">
+                  {analytics.zeroResultQueries.map(query => (
+                    <li key={query.query} className="flex justify-between">
+                      <span className="truncate text-gray-700">{query.query}</span>
+                      <span className="ml-2 text-gray-500">{query.count}×</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div>
+              <div className="font-medium mb-2">Slow Queries (≥ {formatNumber(analytics.slowQueryMs)} ms)</div>
+              {analytics.slowQueries.length === 0 ? (
+                <div className="text-gray-500">None</div>
+              ) : (
+                <ul className="space-y-1">
+                  {analytics.slowQueries.map(query => (
+                    <li key={query.id} className="flex justify-between">
+                      <span className="truncate text-gray-700">{query.query_text}</span>
+                      <span className="ml-2 text-gray-500 whitespace-nowrap">
+                        {query.source}/{query.search_mode} · {formatNumber(query.total_ms)} ms
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Storage Info */}
       <div className="mt-6 pt-4 border-t">
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
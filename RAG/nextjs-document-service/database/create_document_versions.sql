@@ -0,0 +1,183 @@
+-- Document families and numbered versions
+-- Each upload of a revised document is a new row in the same family; search
+-- defaults to the latest version (see lib/document-versions.ts)
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS family_id UUID;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS is_latest BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Existing documents become version 1 of their own family
+UPDATE documents SET family_id = gen_random_uuid() WHERE family_id IS NULL;
+ALTER TABLE documents ALTER COLUMN family_id SET DEFAULT gen_random_uuid();
+ALTER TABLE documents ALTER COLUMN family_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_family_version ON documents(family_id, version);
+CREATE INDEX IF NOT EXISTS idx_documents_user_latest ON documents(user_id) WHERE is_latest;
+
+-- Search functions gain a version scope: latest_only hides superseded versions,
+-- document_ids pins the search to specific versions. Drop every older overload
+-- first so calls with the original argument list stay unambiguous.
+DO $$
+DECLARE
+    fn regprocedure;
+BEGIN
+    FOR fn IN
+        SELECT oid::regprocedure FROM pg_proc
+        WHERE proname IN ('search_similar_chunks', 'search_hybrid_chunks', 'search_keyword_chunks')
+    LOOP
+        EXECUTE 'DROP FUNCTION ' || fn;
+    END LOOP;
+END $$;
+
+CREATE OR REPLACE FUNCTION search_similar_chunks(
+  query_embedding vector(1536),
+  user_id_param VARCHAR(255),
+  similarity_threshold DECIMAL DEFAULT 0.7,
+  limit_param INTEGER DEFAULT 5,
+  latest_only BOOLEAN DEFAULT TRUE,
+  document_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  document_id UUID,
+  filename VARCHAR(500),
+  chunk_text TEXT,
+  chunk_index INTEGER,
+  page INTEGER,
+  metadata JSONB,
+  similarity_score DECIMAL
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id as chunk_id,
+    c.document_id,
+    d.filename,
+    c.text as chunk_text,
+    c.chunk_index,
+    c.page,
+    c.metadata,
+    (1 - (c.embedding <=> query_embedding))::DECIMAL(5,4) as similarity_score
+  FROM chunks c
+  JOIN documents d ON c.document_id = d.id
+  WHERE
+    d.user_id = user_id_param
+    AND d.status = 'completed'
+    AND (NOT latest_only OR d.is_latest)
+    AND (document_ids IS NULL OR d.id = ANY(document_ids))
+    AND c.embedding IS NOT NULL
+    AND (1 - (c.embedding <=> query_embedding)) >= similarity_threshold
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT limit_param;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION search_hybrid_chunks(
+  query_embedding vector(1536),
+  query_text TEXT,
+  user_id_param VARCHAR(255),
+  semantic_weight DECIMAL DEFAULT 0.7,
+  keyword_weight DECIMAL DEFAULT 0.3,
+  similarity_threshold DECIMAL DEFAULT 0.6,
+  limit_param INTEGER DEFAULT 5,
+  latest_only BOOLEAN DEFAULT TRUE,
+  document_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  document_id UUID,
+  filename VARCHAR(500),
+  chunk_text TEXT,
+  chunk_index INTEGER,
+  page INTEGER,
+  metadata JSONB,
+  semantic_score DECIMAL,
+  keyword_score DECIMAL,
+  combined_score DECIMAL
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH scoped_chunks AS (
+    SELECT c.*, d.filename
+    FROM chunks c
+    JOIN documents d ON c.document_id = d.id
+    WHERE
+      d.user_id = user_id_param
+      AND d.status = 'completed'
+      AND (NOT latest_only OR d.is_latest)
+      AND (document_ids IS NULL OR d.id = ANY(document_ids))
+  ),
+  semantic_results AS (
+    SELECT
+      c.id as chunk_id,
+      (1 - (c.embedding <=> query_embedding))::DECIMAL(5,4) as semantic_score
+    FROM scoped_chunks c
+    WHERE c.embedding IS NOT NULL
+  ),
+  keyword_results AS (
+    SELECT
+      c.id as chunk_id,
+      ts_rank(to_tsvector('english', c.text), plainto_tsquery('english', query_text))::DECIMAL(5,4) as keyword_score
+    FROM scoped_chunks c
+    WHERE to_tsvector('english', c.text) @@ plainto_tsquery('english', query_text)
+  )
+  SELECT
+    c.id as chunk_id,
+    c.document_id,
+    c.filename,
+    c.text as chunk_text,
+    c.chunk_index,
+    c.page,
+    c.metadata,
+    COALESCE(s.semantic_score, 0::DECIMAL(5,4)) as semantic_score,
+    COALESCE(k.keyword_score, 0::DECIMAL(5,4)) as keyword_score,
+    (COALESCE(s.semantic_score, 0) * semantic_weight + COALESCE(k.keyword_score, 0) * keyword_weight)::DECIMAL(5,4) as combined_score
+  FROM semantic_results s
+  FULL OUTER JOIN keyword_results k ON s.chunk_id = k.chunk_id
+  JOIN scoped_chunks c ON c.id = COALESCE(s.chunk_id, k.chunk_id)
+  WHERE (COALESCE(s.semantic_score, 0) * semantic_weight + COALESCE(k.keyword_score, 0) * keyword_weight) >= similarity_threshold
+  ORDER BY combined_score DESC
+  LIMIT limit_param;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION search_keyword_chunks(
+  query_text TEXT,
+  user_id_param VARCHAR(255),
+  limit_param INTEGER DEFAULT 5,
+  latest_only BOOLEAN DEFAULT TRUE,
+  document_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  document_id UUID,
+  filename VARCHAR(500),
+  chunk_text TEXT,
+  chunk_index INTEGER,
+  page INTEGER,
+  metadata JSONB,
+  keyword_score DECIMAL
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id as chunk_id,
+    c.document_id,
+    d.filename,
+    c.text as chunk_text,
+    c.chunk_index,
+    c.page,
+    c.metadata,
+    ts_rank(to_tsvector('english', c.text), plainto_tsquery('english', query_text))::DECIMAL(5,4) as keyword_score
+  FROM chunks c
+  JOIN documents d ON c.document_id = d.id
+  WHERE
+    d.user_id = user_id_param
+    AND d.status = 'completed'
+    AND (NOT latest_only OR d.is_latest)
+    AND (document_ids IS NULL OR d.id = ANY(document_ids))
+    AND to_tsvector('english', c.text) @@ plainto_tsquery('english', query_text)
+  ORDER BY keyword_score DESC
+  LIMIT limit_param;
+END;
+$$ LANGUAGE plpgsql;
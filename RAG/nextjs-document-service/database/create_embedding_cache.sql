@@ -0,0 +1,17 @@
+-- Persistent embedding cache
+-- Keyed by the SHA-256 of the embedded text plus the model and dimensions that produced it
+
+CREATE TABLE IF NOT EXISTS embedding_cache (
+    content_hash CHAR(64) NOT NULL,
+    model VARCHAR(200) NOT NULL,
+    dimensions INTEGER NOT NULL,
+    embedding vector NOT NULL, -- Untyped so different providers can share the table
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (content_hash, model, dimensions)
+);
+
+-- Supports pruning entries that have not been used recently
+CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used ON embedding_cache(last_used_at);
@@ -0,0 +1,17 @@
+-- Stored evaluation runs
+-- One row per run of a golden question set, with the configuration it ran
+-- under, so runs before and after a change can be compared (see lib/eval-runs.ts)
+
+CREATE TABLE IF NOT EXISTS eval_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id VARCHAR(255) NOT NULL,
+    kind VARCHAR(20) NOT NULL DEFAULT 'retrieval', -- 'retrieval' or 'answer'
+    name VARCHAR(200) NOT NULL,
+    question_count INTEGER NOT NULL,
+    config JSONB NOT NULL DEFAULT '{}'::jsonb, -- Chunking, embedding model and search settings
+    summary JSONB NOT NULL DEFAULT '{}'::jsonb, -- Aggregate metrics (per search mode for retrieval runs)
+    results JSONB NOT NULL DEFAULT '{}'::jsonb, -- Per-question metrics, retrieved chunks or answers
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_eval_runs_user_id ON eval_runs(user_id, created_at DESC);
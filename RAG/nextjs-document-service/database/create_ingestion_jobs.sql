@@ -0,0 +1,57 @@
+-- Background ingestion job queue
+-- Uploads are stored here and processed by the worker in lib/job-queue.ts
+
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id VARCHAR(255) NOT NULL,
+    filename VARCHAR(500) NOT NULL,
+    file_type VARCHAR(100),
+    file_size INTEGER NOT NULL,
+    file_data BYTEA NOT NULL, -- Original upload, kept so a job can resume after a crash
+
+    -- Queue state: 'queued' | 'running' | 'completed' | 'failed'
+    status VARCHAR(20) NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_after TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP, -- Backoff: not claimable before this time
+    locked_by VARCHAR(100),
+    locked_at TIMESTAMP,
+    last_error TEXT,
+
+    -- Latest ProcessingStatus reported by DocumentProcessor
+    processing_status VARCHAR(50) NOT NULL DEFAULT 'queued',
+    progress INTEGER NOT NULL DEFAULT 0,
+    document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+    target_document_id UUID REFERENCES documents(id) ON DELETE CASCADE, -- Set for reindex jobs: rewrite this document in place
+    parent_document_id UUID REFERENCES documents(id) ON DELETE SET NULL, -- Set for replace jobs: store the upload as this document's next version
+    result JSONB,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP
+);
+
+-- Upgrade path for queues created before replace/reindex support
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS target_document_id UUID REFERENCES documents(id) ON DELETE CASCADE;
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS parent_document_id UUID REFERENCES documents(id) ON DELETE SET NULL;
+
+-- Claim query scans by status and run_after
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_claim ON ingestion_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_user_id ON ingestion_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_document_id ON ingestion_jobs(document_id);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_target_document_id ON ingestion_jobs(target_document_id);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_parent_document_id ON ingestion_jobs(parent_document_id);
+
+-- Every ProcessingStatus transition emitted for a job
+CREATE TABLE IF NOT EXISTS ingestion_job_events (
+    id SERIAL PRIMARY KEY,
+    job_id UUID NOT NULL REFERENCES ingestion_jobs(id) ON DELETE CASCADE,
+    attempt INTEGER NOT NULL DEFAULT 0,
+    status VARCHAR(50) NOT NULL,
+    progress INTEGER NOT NULL DEFAULT 0,
+    message TEXT,
+    metadata JSONB,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_job_events_job_id ON ingestion_job_events(job_id, created_at);
@@ -0,0 +1,34 @@
+-- Feedback on answers and search results
+-- Users rate chat answers (thumbs up/down with an optional comment) and mark
+-- individual sources as relevant or not, against the query_log row of the
+-- query. The feedback job (POST /api/feedback/process, see lib/feedback.ts)
+-- turns source marks into per-chunk boosts for the reranker.
+-- Requires create_query_log.sql.
+
+CREATE TABLE IF NOT EXISTS query_feedback (
+    id BIGSERIAL PRIMARY KEY,
+    query_log_id BIGINT NOT NULL REFERENCES query_log(id) ON DELETE CASCADE,
+    user_id VARCHAR(255) NOT NULL,
+    target VARCHAR(10) NOT NULL CHECK (target IN ('answer', 'source')),
+    chunk_id UUID REFERENCES chunks(id) ON DELETE CASCADE, -- Source marks only
+    rating SMALLINT NOT NULL CHECK (rating IN (-1, 1)), -- 1: helpful/relevant, -1: wrong/irrelevant
+    comment TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CHECK ((target = 'source') = (chunk_id IS NOT NULL))
+);
+
+-- One rating per answer and per source of a query; rating again replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_query_feedback_answer ON query_feedback(query_log_id) WHERE target = 'answer';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_query_feedback_source ON query_feedback(query_log_id, chunk_id) WHERE target = 'source';
+CREATE INDEX IF NOT EXISTS idx_query_feedback_user ON query_feedback(user_id, created_at DESC);
+
+-- Learned per-chunk adjustment, rebuilt by the feedback job
+CREATE TABLE IF NOT EXISTS chunk_feedback (
+    chunk_id UUID PRIMARY KEY REFERENCES chunks(id) ON DELETE CASCADE,
+    helpful_count INTEGER NOT NULL DEFAULT 0,
+    irrelevant_count INTEGER NOT NULL DEFAULT 0,
+    boost REAL NOT NULL DEFAULT 0, -- Added to the reranked score; negative for chunks rated irrelevant
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
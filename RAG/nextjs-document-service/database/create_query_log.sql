@@ -0,0 +1,28 @@
+-- Query log
+-- One row per search or chat query: what was asked, what came back and how
+-- long each stage took, for the analytics endpoint (see lib/query-log.ts)
+
+CREATE TABLE IF NOT EXISTS query_log (
+    id BIGSERIAL PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    source VARCHAR(10) NOT NULL, -- 'search' or 'chat'
+    query_text TEXT NOT NULL,
+    search_mode VARCHAR(20) NOT NULL,
+    filters JSONB,
+    results JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{chunk_id, score}] in ranked order
+    result_count INTEGER NOT NULL DEFAULT 0,
+    stage_latency_ms JSONB NOT NULL DEFAULT '{}'::jsonb, -- e.g. {"condense": 310, "retrieval": 85, "generation": 2140}
+    total_ms INTEGER NOT NULL,
+    model_used VARCHAR(200), -- Chat only
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    embedding_tokens INTEGER NOT NULL DEFAULT 0, -- Query and citation embeddings
+    total_tokens INTEGER NOT NULL DEFAULT 0, -- Chat model and embedding tokens
+    conversation_id UUID, -- No foreign key: the log outlives deleted conversations
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Logs created before embedding tokens were counted
+ALTER TABLE query_log ADD COLUMN IF NOT EXISTS embedding_tokens INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_query_log_user_created ON query_log(user_id, created_at DESC);
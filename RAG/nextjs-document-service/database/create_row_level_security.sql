@@ -0,0 +1,86 @@
+-- Row-level security for tenant isolation
+-- Documents, chunks and medical tables are visible only to the user named by
+-- the app.user_id session setting, which the application sets on every
+-- connection from the authenticated identity (lib/tenant-context.ts). Documents
+-- shared through a workspace collection are readable by its members, but only
+-- their uploader can change them. Without the setting nothing is visible.
+--
+-- The tables are FORCEd, so the policies also apply to the table owner.
+-- Superusers and BYPASSRLS roles skip them, so connect the application as an
+-- ordinary role. No session setting switches the policies off: maintenance
+-- scripts that need every user's rows SET ROLE rag_maintenance, which only
+-- members of that role can do. Run as a superuser, after create_workspaces.sql.
+
+CREATE OR REPLACE FUNCTION app_user_id() RETURNS TEXT AS $$
+  SELECT NULLIF(current_setting('app.user_id', true), '')
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE documents FORCE ROW LEVEL SECURITY;
+ALTER TABLE chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chunks FORCE ROW LEVEL SECURITY;
+ALTER TABLE medical_tables ENABLE ROW LEVEL SECURITY;
+ALTER TABLE medical_tables FORCE ROW LEVEL SECURITY;
+
+-- Policies of one table are OR'ed: reads see own and shared rows, writes only own rows
+DROP POLICY IF EXISTS documents_owner ON documents;
+CREATE POLICY documents_owner ON documents
+  USING (user_id = app_user_id())
+  WITH CHECK (user_id = app_user_id());
+
+DROP POLICY IF EXISTS documents_shared_read ON documents;
+CREATE POLICY documents_shared_read ON documents FOR SELECT
+  USING (EXISTS (
+    SELECT 1
+    FROM collection_documents cd
+    JOIN collections col ON col.id = cd.collection_id
+    JOIN workspace_members wm ON wm.workspace_id = col.workspace_id
+    WHERE cd.family_id = documents.family_id
+      AND wm.user_id = app_user_id()
+  ));
+
+-- Chunks and medical tables follow their document. The subqueries read
+-- documents under its own policies, so shared documents are included.
+DROP POLICY IF EXISTS chunks_owner ON chunks;
+CREATE POLICY chunks_owner ON chunks
+  USING (EXISTS (
+    SELECT 1 FROM documents d WHERE d.id = chunks.document_id AND d.user_id = app_user_id()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM documents d WHERE d.id = chunks.document_id AND d.user_id = app_user_id()
+  ));
+
+DROP POLICY IF EXISTS chunks_shared_read ON chunks;
+CREATE POLICY chunks_shared_read ON chunks FOR SELECT
+  USING (EXISTS (SELECT 1 FROM documents d WHERE d.id = chunks.document_id));
+
+DROP POLICY IF EXISTS medical_tables_owner ON medical_tables;
+CREATE POLICY medical_tables_owner ON medical_tables
+  USING (EXISTS (
+    SELECT 1 FROM documents d WHERE d.id = medical_tables.document_id AND d.user_id = app_user_id()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM documents d WHERE d.id = medical_tables.document_id AND d.user_id = app_user_id()
+  ));
+
+DROP POLICY IF EXISTS medical_tables_shared_read ON medical_tables;
+CREATE POLICY medical_tables_shared_read ON medical_tables FOR SELECT
+  USING (EXISTS (SELECT 1 FROM documents d WHERE d.id = medical_tables.document_id));
+
+-- Earlier versions let any session opt out through the app.bypass_rls setting
+DROP FUNCTION IF EXISTS app_bypass_rls();
+
+-- Maintenance role for scripts that see every user's rows
+-- (scripts/cleanup-database.js, scripts/validate-embeddings.js). BYPASSRLS is
+-- a role attribute that only a superuser can grant. Make the scripts' login a
+-- member, never the application's:
+--   GRANT rag_maintenance TO your_admin_login;
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'rag_maintenance') THEN
+    CREATE ROLE rag_maintenance NOLOGIN BYPASSRLS;
+  END IF;
+END
+$$;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO rag_maintenance;
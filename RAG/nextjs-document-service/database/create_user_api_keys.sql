@@ -0,0 +1,16 @@
+-- API key authentication
+-- Keys are stored as SHA-256 hashes; see lib/auth.ts and scripts/create-api-key.js
+
+CREATE TABLE IF NOT EXISTS users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    firebase_uid VARCHAR(255) UNIQUE NOT NULL,
+    email VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS api_key_hash CHAR(64);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS api_key_created_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS api_key_last_used_at TIMESTAMP;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_api_key_hash ON users(api_key_hash);
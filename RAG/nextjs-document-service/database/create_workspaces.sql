@@ -0,0 +1,313 @@
+-- Workspaces, members and shared document collections
+-- A workspace has members with a role (owner, editor or viewer) and holds
+-- collections of documents. Search and chat scoped to collections read the
+-- documents in them instead of only the caller's own (see lib/workspaces.ts
+-- and lib/collection-scope.ts).
+
+CREATE TABLE IF NOT EXISTS workspaces (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(200) NOT NULL,
+    created_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id VARCHAR(255) NOT NULL,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS collections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    created_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (workspace_id, name)
+);
+
+-- Documents are added by family, so new versions stay in the collection
+CREATE TABLE IF NOT EXISTS collection_documents (
+    collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+    family_id UUID NOT NULL,
+    added_by VARCHAR(255) NOT NULL,
+    added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (collection_id, family_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_collections_workspace_id ON collections(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_collection_documents_family_id ON collection_documents(family_id);
+
+-- Document families in the given collections, limited to collections of
+-- workspaces the user is a member of
+CREATE OR REPLACE FUNCTION collection_family_ids(user_id_param TEXT, collection_ids UUID[])
+RETURNS TABLE (family_id UUID) AS $$
+  SELECT DISTINCT cd.family_id
+  FROM collection_documents cd
+  JOIN collections col ON col.id = cd.collection_id
+  JOIN workspace_members wm ON wm.workspace_id = col.workspace_id
+  WHERE cd.collection_id = ANY(collection_ids)
+    AND wm.user_id = user_id_param
+$$ LANGUAGE sql STABLE;
+
+-- Search functions gain a collection scope: with collection_ids they search
+-- the documents of those collections instead of the user's own. Drop every
+-- older overload first so calls with the original argument list stay unambiguous.
+DO $$
+DECLARE
+    fn regprocedure;
+BEGIN
+    FOR fn IN
+        SELECT oid::regprocedure FROM pg_proc
+        WHERE proname IN ('search_similar_chunks', 'search_hybrid_chunks', 'search_keyword_chunks', 'search_medical_tables')
+    LOOP
+        EXECUTE 'DROP FUNCTION ' || fn;
+    END LOOP;
+END $$;
+
+CREATE OR REPLACE FUNCTION search_similar_chunks(
+  query_embedding vector(1536),
+  user_id_param VARCHAR(255),
+  similarity_threshold DECIMAL DEFAULT 0.7,
+  limit_param INTEGER DEFAULT 5,
+  latest_only BOOLEAN DEFAULT TRUE,
+  document_ids UUID[] DEFAULT NULL,
+  collection_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  document_id UUID,
+  filename VARCHAR(500),
+  chunk_text TEXT,
+  chunk_index INTEGER,
+  page INTEGER,
+  metadata JSONB,
+  similarity_score DECIMAL
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id as chunk_id,
+    c.document_id,
+    d.filename,
+    c.text as chunk_text,
+    c.chunk_index,
+    c.page,
+    c.metadata,
+    (1 - (c.embedding <=> query_embedding))::DECIMAL(5,4) as similarity_score
+  FROM chunks c
+  JOIN documents d ON c.document_id = d.id
+  WHERE
+    (CASE WHEN collection_ids IS NULL THEN d.user_id = user_id_param
+          ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
+    AND d.status = 'completed'
+    AND (NOT latest_only OR d.is_latest)
+    AND (document_ids IS NULL OR d.id = ANY(document_ids))
+    AND c.embedding IS NOT NULL
+    AND (1 - (c.embedding <=> query_embedding)) >= similarity_threshold
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT limit_param;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION search_hybrid_chunks(
+  query_embedding vector(1536),
+  query_text TEXT,
+  user_id_param VARCHAR(255),
+  semantic_weight DECIMAL DEFAULT 0.7,
+  keyword_weight DECIMAL DEFAULT 0.3,
+  similarity_threshold DECIMAL DEFAULT 0.6,
+  limit_param INTEGER DEFAULT 5,
+  latest_only BOOLEAN DEFAULT TRUE,
+  document_ids UUID[] DEFAULT NULL,
+  collection_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  document_id UUID,
+  filename VARCHAR(500),
+  chunk_text TEXT,
+  chunk_index INTEGER,
+  page INTEGER,
+  metadata JSONB,
+  semantic_score DECIMAL,
+  keyword_score DECIMAL,
+  combined_score DECIMAL
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH scoped_chunks AS (
+    SELECT c.*, d.filename
+    FROM chunks c
+    JOIN documents d ON c.document_id = d.id
+    WHERE
+      (CASE WHEN collection_ids IS NULL THEN d.user_id = user_id_param
+            ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
+      AND d.status = 'completed'
+      AND (NOT latest_only OR d.is_latest)
+      AND (document_ids IS NULL OR d.id = ANY(document_ids))
+  ),
+  semantic_results AS (
+    SELECT
+      c.id as chunk_id,
+      (1 - (c.embedding <=> query_embedding))::DECIMAL(5,4) as semantic_score
+    FROM scoped_chunks c
+    WHERE c.embedding IS NOT NULL
+  ),
+  keyword_results AS (
+    SELECT
+      c.id as chunk_id,
+      ts_rank(to_tsvector('english', c.text), plainto_tsquery('english', query_text))::DECIMAL(5,4) as keyword_score
+    FROM scoped_chunks c
+    WHERE to_tsvector('english', c.text) @@ plainto_tsquery('english', query_text)
+  )
+  SELECT
+    c.id as chunk_id,
+    c.document_id,
+    c.filename,
+    c.text as chunk_text,
+    c.chunk_index,
+    c.page,
+    c.metadata,
+    COALESCE(s.semantic_score, 0::DECIMAL(5,4)) as semantic_score,
+    COALESCE(k.keyword_score, 0::DECIMAL(5,4)) as keyword_score,
+    (COALESCE(s.semantic_score, 0) * semantic_weight + COALESCE(k.keyword_score, 0) * keyword_weight)::DECIMAL(5,4) as combined_score
+  FROM semantic_results s
+  FULL OUTER JOIN keyword_results k ON s.chunk_id = k.chunk_id
+  JOIN scoped_chunks c ON c.id = COALESCE(s.chunk_id, k.chunk_id)
+  WHERE (COALESCE(s.semantic_score, 0) * semantic_weight + COALESCE(k.keyword_score, 0) * keyword_weight) >= similarity_threshold
+  ORDER BY combined_score DESC
+  LIMIT limit_param;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION search_keyword_chunks(
+  query_text TEXT,
+  user_id_param VARCHAR(255),
+  limit_param INTEGER DEFAULT 5,
+  latest_only BOOLEAN DEFAULT TRUE,
+  document_ids UUID[] DEFAULT NULL,
+  collection_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  document_id UUID,
+  filename VARCHAR(500),
+  chunk_text TEXT,
+  chunk_index INTEGER,
+  page INTEGER,
+  metadata JSONB,
+  keyword_score DECIMAL
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id as chunk_id,
+    c.document_id,
+    d.filename,
+    c.text as chunk_text,
+    c.chunk_index,
+    c.page,
+    c.metadata,
+    ts_rank(to_tsvector('english', c.text), plainto_tsquery('english', query_text))::DECIMAL(5,4) as keyword_score
+  FROM chunks c
+  JOIN documents d ON c.document_id = d.id
+  WHERE
+    (CASE WHEN collection_ids IS NULL THEN d.user_id = user_id_param
+          ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
+    AND d.status = 'completed'
+    AND (NOT latest_only OR d.is_latest)
+    AND (document_ids IS NULL OR d.id = ANY(document_ids))
+    AND to_tsvector('english', c.text) @@ plainto_tsquery('english', query_text)
+  ORDER BY keyword_score DESC
+  LIMIT limit_param;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION search_medical_tables(
+    query_text TEXT,
+    query_embedding vector(1536) DEFAULT NULL,
+    user_id_param TEXT DEFAULT NULL,
+    table_type_filter VARCHAR(50) DEFAULT NULL,
+    limit_param INTEGER DEFAULT 10,
+    similarity_threshold DECIMAL DEFAULT 0.3,
+    collection_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+    table_id INTEGER,
+    document_id INTEGER,
+    filename TEXT,
+    table_index INTEGER,
+    table_type VARCHAR(50),
+    headers TEXT[],
+    similarity_score DECIMAL,
+    searchable_text TEXT,
+    raw_data JSONB,
+    confidence_score DECIMAL
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH semantic_results AS (
+        SELECT 
+            mt.id as table_id,
+            mt.document_id,
+            d.filename,
+            mt.table_index,
+            mt.table_type,
+            mt.headers,
+            CASE 
+                WHEN query_embedding IS NOT NULL THEN (1 - (mt.embedding <=> query_embedding))::DECIMAL(5,4)
+                ELSE 0::DECIMAL(5,4)
+            END as similarity_score,
+            mt.searchable_text,
+            mt.raw_data,
+            mt.confidence_score
+        FROM medical_tables mt
+        JOIN documents d ON mt.document_id = d.id
+        WHERE 
+            (CASE WHEN collection_ids IS NULL THEN (user_id_param IS NULL OR d.user_id = user_id_param)
+                  ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
+            AND (table_type_filter IS NULL OR mt.table_type = table_type_filter)
+            AND (query_embedding IS NULL OR (1 - (mt.embedding <=> query_embedding)) >= similarity_threshold)
+    ),
+    keyword_results AS (
+        SELECT 
+            mt.id as table_id,
+            mt.document_id,
+            d.filename,
+            mt.table_index,
+            mt.table_type,
+            mt.headers,
+            ts_rank(to_tsvector('english', mt.searchable_text), plainto_tsquery('english', query_text))::DECIMAL(5,4) as similarity_score,
+            mt.searchable_text,
+            mt.raw_data,
+            mt.confidence_score
+        FROM medical_tables mt
+        JOIN documents d ON mt.document_id = d.id
+        WHERE 
+            (CASE WHEN collection_ids IS NULL THEN (user_id_param IS NULL OR d.user_id = user_id_param)
+                  ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
+            AND (table_type_filter IS NULL OR mt.table_type = table_type_filter)
+            AND to_tsvector('english', mt.searchable_text) @@ plainto_tsquery('english', query_text)
+    )
+    SELECT DISTINCT
+        COALESCE(s.table_id, k.table_id) as table_id,
+        COALESCE(s.document_id, k.document_id) as document_id,
+        COALESCE(s.filename, k.filename) as filename,
+        COALESCE(s.table_index, k.table_index) as table_index,
+        COALESCE(s.table_type, k.table_type) as table_type,
+        COALESCE(s.headers, k.headers) as headers,
+        GREATEST(COALESCE(s.similarity_score, 0), COALESCE(k.similarity_score, 0)) as similarity_score,
+        COALESCE(s.searchable_text, k.searchable_text) as searchable_text,
+        COALESCE(s.raw_data, k.raw_data) as raw_data,
+        COALESCE(s.confidence_score, k.confidence_score) as confidence_score
+    FROM semantic_results s
+    FULL OUTER JOIN keyword_results k ON s.table_id = k.table_id
+    ORDER BY similarity_score DESC
+    LIMIT limit_param;
+END;
+$$ LANGUAGE plpgsql;
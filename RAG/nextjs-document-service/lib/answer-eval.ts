@@ -0,0 +1,338 @@
+/**
+ * Answer evaluation
+ * Runs a golden question set through retrieval and answer generation, the
+ * same path as /api/chat, and scores each answer:
+ *   - citation precision: cited sources that match a relevance label
+ *   - citation recall: labels covered by at least one cited source
+ *   - faithfulness: answer sentences grounded in some retrieved chunk
+ *   - refusal correctness: unanswerable questions ("answerable": false) should
+ *     get the "not enough information" reply, answerable ones should not
+ *   - token F1 against referenceAnswer, tokens, cost and latency
+ * Grounding reuses the citation verifier's scoring (lib/citations.ts), so a
+ * claim counts as grounded when the best retrieved chunk reaches the
+ * citation support threshold.
+ */
+
+import { chatConfig } from './config';
+import { verifyCitations, splitSentences, parseCitations } from './citations';
+import { estimateCost, ChatUsage } from './chat-providers';
+import { generateChatResponse, NO_CONTEXT_ANSWER, ChatResponse, SearchResult } from './openai-chat';
+import {
+  GoldenQuestion,
+  RetrievedChunk,
+  Retriever,
+  EvalSearchMode,
+  matchesLabel,
+  mean,
+  round,
+  latencyStats
+} from './retrieval-eval';
+
+// Produces the answer for one question from the retrieved chunks
+export type AnswerGenerator = (
+  question: string,
+  searchResults: SearchResult[]
+) => Promise<Pick<ChatResponse, 'answer' | 'model_used' | 'usage'>>;
+
+export interface AnswerEvalOptions {
+  searchMode?: EvalSearchMode;
+  maxResults?: number; // Chunks handed to the model, as in /api/chat
+  supportThreshold?: number;
+  lexicalWeight?: number;
+  embed?: (texts: string[]) => Promise<number[][]>;
+}
+
+export interface AnswerQuestionResult {
+  id: string;
+  question: string;
+  answerable: boolean;
+  answer: string;
+  model_used: string;
+  retrievedCount: number;
+  refused: boolean;
+  refusalCorrect: boolean;
+  citedSources: number[];
+  citationPrecision: number | null; // null when nothing was cited, and for unanswerable questions
+  citationRecall: number | null; // null for unanswerable questions
+  faithfulness: number | null; // null when the answer makes no claims
+  unsupportedClaims: string[];
+  answerF1: number | null; // null without a referenceAnswer
+  usage: ChatUsage;
+  costUsd: number | null; // null when the model has no price (CHAT_MODEL_PRICES)
+  latencyMs: number;
+  error?: string;
+}
+
+export interface AnswerEvalSummary {
+  questions: number;
+  answerable: number;
+  unanswerable: number;
+  errors: number;
+  citationPrecision: number | null;
+  citationRecall: number | null;
+  faithfulness: number | null;
+  answerF1: number | null;
+  refusalAccuracy: number;
+  falseRefusals: number; // Answerable questions that were refused
+  missedRefusals: number; // Unanswerable questions that were answered
+  tokens: { prompt: number; completion: number; total: number; meanPerQuestion: number };
+  costUsd: number;
+  unpricedAnswers: number;
+  latencyMs: { mean: number; p50: number; p95: number };
+}
+
+export interface AnswerEvalReport {
+  summary: AnswerEvalSummary;
+  results: AnswerQuestionResult[];
+}
+
+const REFUSAL_PATTERNS = [
+  /\b(?:don't|do not|doesn't|does not) (?:have|contain|provide) (?:enough|sufficient|any) (?:relevant )?information\b/i,
+  /\bno (?:relevant )?information (?:about|on|regarding|in)\b/i,
+  /\b(?:cannot|can't|can not) be answered\b/i,
+  /\b(?:unable|not able) to (?:answer|find)\b/i,
+  /\b(?:cannot|can't) (?:answer|find|determine)\b/i,
+  /\bnot (?:mentioned|covered|addressed) in the (?:provided )?(?:sources|context|documents)\b/i
+];
+
+const CITATION_MARKERS = /\[\d+(?:\s*,\s*\d+)*\]/g;
+
+const ZERO_USAGE: ChatUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+/**
+ * Whether an answer declines to answer, like the "not enough relevant
+ * information" reply of /api/chat or a model saying the sources lack it
+ */
+export function isRefusal(answer: string): boolean {
+  return answer.trim() === NO_CONTEXT_ANSWER || REFUSAL_PATTERNS.some(pattern => pattern.test(answer));
+}
+
+function answerTokens(text: string): string[] {
+  return text.toLowerCase().replace(CITATION_MARKERS, ' ').split(/[^a-z0-9%]+/).filter(Boolean);
+}
+
+/**
+ * Bag-of-words F1 between an answer and a reference answer
+ */
+export function tokenF1(answer: string, reference: string): number {
+  const predicted = answerTokens(answer);
+  const expected = answerTokens(reference);
+  if (predicted.length === 0 || expected.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  expected.forEach(token => remaining.set(token, (remaining.get(token) || 0) + 1));
+  let overlap = 0;
+  for (const token of predicted) {
+    const count = remaining.get(token) || 0;
+    if (count > 0) {
+      overlap++;
+      remaining.set(token, count - 1);
+    }
+  }
+  if (overlap === 0) return 0;
+
+  const precision = overlap / predicted.length;
+  const recall = overlap / expected.length;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+/**
+ * Citation precision and recall of an answer against the question's labels.
+ * A citation of a missing source counts against precision. Unanswerable
+ * questions have no labels; their citations are judged by refusal correctness.
+ */
+export function scoreCitations(
+  answer: string,
+  retrieved: RetrievedChunk[],
+  question: GoldenQuestion
+): { citedSources: number[]; citationPrecision: number | null; citationRecall: number | null } {
+  const citedSources = parseCitations(answer);
+  const cited = citedSources
+    .filter(citation => citation >= 1 && citation <= retrieved.length)
+    .map(citation => retrieved[citation - 1]);
+
+  const relevantCited = cited.filter(chunk => question.relevant.some(label => matchesLabel(chunk, label)));
+  const citationPrecision = question.answerable && citedSources.length > 0 ? relevantCited.length / citedSources.length : null;
+
+  const citationRecall = question.answerable
+    ? question.relevant.filter(label => cited.some(chunk => matchesLabel(chunk, label))).length / question.relevant.length
+    : null;
+
+  return { citedSources, citationPrecision, citationRecall };
+}
+
+/**
+ * Share of the answer's claims grounded in any retrieved chunk, whether or
+ * not the sentence cites it. Lead-in lines ("Symptoms include:") and refusal
+ * sentences are not claims.
+ */
+export async function scoreFaithfulness(
+  answer: string,
+  retrieved: RetrievedChunk[],
+  options: Pick<AnswerEvalOptions, 'supportThreshold' | 'lexicalWeight' | 'embed'> = {}
+): Promise<{ faithfulness: number | null; unsupportedClaims: string[] }> {
+  const claims = splitSentences(answer)
+    .map(sentence => sentence.text.replace(CITATION_MARKERS, '').replace(/\s+/g, ' ').trim())
+    .filter(claim => /[a-z]/i.test(claim) && !claim.endsWith(':') && !isRefusal(claim));
+
+  if (claims.length === 0) {
+    return { faithfulness: null, unsupportedClaims: [] };
+  }
+  if (retrieved.length === 0) {
+    return { faithfulness: 0, unsupportedClaims: claims };
+  }
+
+  // Every claim "cites" every chunk; the verifier keeps the best score
+  const allSources = `[${retrieved.map((_, index) => index + 1).join(', ')}]`;
+  const report = await verifyCitations(
+    claims.map(claim => `${claim} ${allSources}`).join('\n'),
+    retrieved.map(chunk => ({ text: chunk.chunk_text })),
+    {
+      supportThreshold: options.supportThreshold ?? chatConfig.citationSupportThreshold,
+      lexicalWeight: options.lexicalWeight ?? chatConfig.citationLexicalWeight,
+      ...(options.embed && { embed: options.embed })
+    }
+  );
+
+  return {
+    faithfulness: report.supportedCount / report.sentences.length,
+    unsupportedClaims: report.sentences
+      .filter(sentence => sentence.verdict === 'unsupported')
+      .map(sentence => sentence.sentence.replace(CITATION_MARKERS, '').trim())
+  };
+}
+
+function toSearchResult(chunk: RetrievedChunk & { score?: number }): SearchResult {
+  return {
+    chunk_id: String(chunk.chunk_id),
+    document_name: chunk.filename,
+    text: chunk.chunk_text,
+    similarity_score: chunk.score,
+    page: chunk.pages[0],
+    chunk_index: chunk.chunk_index
+  };
+}
+
+const nullableMean = (values: Array<number | null>) => {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? round(mean(present)) : null;
+};
+
+export function summarizeAnswerResults(results: AnswerQuestionResult[]): AnswerEvalSummary {
+  // Failed questions are counted but left out of the quality metrics
+  const scored = results.filter(r => !r.error);
+  const prompt = results.reduce((sum, r) => sum + r.usage.prompt_tokens, 0);
+  const completion = results.reduce((sum, r) => sum + r.usage.completion_tokens, 0);
+
+  return {
+    questions: results.length,
+    answerable: results.filter(r => r.answerable).length,
+    unanswerable: results.filter(r => !r.answerable).length,
+    errors: results.length - scored.length,
+    citationPrecision: nullableMean(scored.map(r => r.citationPrecision)),
+    citationRecall: nullableMean(scored.map(r => r.citationRecall)),
+    faithfulness: nullableMean(scored.map(r => r.faithfulness)),
+    answerF1: nullableMean(scored.map(r => r.answerF1)),
+    refusalAccuracy: round(mean(scored.map(r => (r.refusalCorrect ? 1 : 0)))),
+    falseRefusals: scored.filter(r => r.answerable && r.refused).length,
+    missedRefusals: scored.filter(r => !r.answerable && !r.refused).length,
+    tokens: {
+      prompt,
+      completion,
+      total: prompt + completion,
+      meanPerQuestion: Math.round(mean(results.map(r => r.usage.total_tokens)))
+    },
+    costUsd: round(results.reduce((sum, r) => sum + (r.costUsd ?? 0), 0)),
+    unpricedAnswers: results.filter(r => r.costUsd === null).length,
+    latencyMs: latencyStats(results.map(r => r.latencyMs))
+  };
+}
+
+/**
+ * Answer every question, one at a time. As in /api/chat, an empty retrieval
+ * gets the fixed "not enough information" reply without calling the model.
+ */
+export async function runAnswerEval(
+  questions: GoldenQuestion[],
+  retriever: Retriever,
+  generator: AnswerGenerator,
+  options: AnswerEvalOptions = {}
+): Promise<AnswerEvalReport> {
+  const { searchMode = 'hybrid', maxResults = 10 } = options;
+  const results: AnswerQuestionResult[] = [];
+
+  for (const question of questions) {
+    const started = Date.now();
+    let retrieved: RetrievedChunk[] = [];
+    let answer = '';
+    let modelUsed = 'none';
+    let usage = ZERO_USAGE;
+    let error: string | undefined;
+
+    try {
+      retrieved = (await retriever(question.question, searchMode, maxResults)).slice(0, maxResults);
+      if (retrieved.length === 0) {
+        answer = NO_CONTEXT_ANSWER;
+      } else {
+        const response = await generator(question.question, retrieved.map(toSearchResult));
+        answer = response.answer;
+        modelUsed = response.model_used;
+        usage = response.usage;
+      }
+    } catch (e: any) {
+      error = e.message || String(e);
+    }
+    const latencyMs = Date.now() - started;
+
+    const refused = !error && isRefusal(answer);
+    const citations = scoreCitations(answer, retrieved, question);
+    const grounding = refused || error
+      ? { faithfulness: null, unsupportedClaims: [] }
+      : await scoreFaithfulness(answer, retrieved, options);
+
+    results.push({
+      id: question.id,
+      question: question.question,
+      answerable: question.answerable,
+      answer,
+      model_used: modelUsed,
+      retrievedCount: retrieved.length,
+      refused,
+      refusalCorrect: refused === !question.answerable,
+      ...citations,
+      // A refusal of an answerable question covers none of its labels
+      citationRecall: refused && question.answerable ? 0 : citations.citationRecall,
+      ...grounding,
+      answerF1: question.referenceAnswer && question.answerable ? round(tokenF1(answer, question.referenceAnswer)) : null,
+      usage,
+      costUsd: estimateCost(modelUsed, usage),
+      latencyMs,
+      ...(error && { error })
+    });
+  }
+
+  return { summary: summarizeAnswerResults(results), results };
+}
+
+/**
+ * Generator that answers through the chat model chain, as /api/chat does
+ */
+export function createChatGenerator(userId: string): AnswerGenerator {
+  return async (question, searchResults) => {
+    const { answer, model_used, usage } = await generateChatResponse({ question, searchResults, userId });
+    return { answer, model_used, usage };
+  };
+}
+
+/**
+ * Settings that affect answer quality, stored with every run
+ */
+export function describeAnswerConfig(options: AnswerEvalOptions = {}): Record<string, any> {
+  return {
+    searchMode: options.searchMode ?? 'hybrid',
+    maxResults: options.maxResults ?? 10,
+    modelChain: chatConfig.modelChain,
+    supportThreshold: options.supportThreshold ?? chatConfig.citationSupportThreshold,
+    lexicalWeight: options.lexicalWeight ?? chatConfig.citationLexicalWeight
+  };
+}
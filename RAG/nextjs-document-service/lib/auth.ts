@@ -0,0 +1,299 @@
+/**
+ * Request authentication
+ * Resolves the caller from a signed JWT (issuer + JWKS file), an API key
+ * stored hashed in the users table, or the session cookie the bundled UI
+ * gets by signing in with one of those (POST /api/session). Route handlers
+ * call authenticateRequest() and then resolveUserId() so a caller can never
+ * act as another user.
+ */
+
+import { constants, createHash, createHmac, createPublicKey, timingSafeEqual, verify, JsonWebKey, KeyObject } from 'crypto';
+import { readFileSync } from 'fs';
+import { NextRequest, NextResponse } from 'next/server';
+import { authConfig } from './config';
+import { db } from './database';
+import { enterTenantContext } from './tenant-context';
+
+export const API_KEY_PREFIX = 'rag_';
+
+// HttpOnly cookie holding a signed session token
+export const SESSION_COOKIE = 'rag_session';
+
+// Tolerated clock difference for exp/nbf checks
+const CLOCK_SKEW_SECONDS = 60;
+
+// JWS algorithm -> node digest and key type
+const SUPPORTED_ALGORITHMS: Record<string, { digest: string; keyType: 'rsa' | 'rsa-pss' | 'ec' }> = {
+  RS256: { digest: 'sha256', keyType: 'rsa' },
+  RS384: { digest: 'sha384', keyType: 'rsa' },
+  RS512: { digest: 'sha512', keyType: 'rsa' },
+  PS256: { digest: 'sha256', keyType: 'rsa-pss' },
+  PS384: { digest: 'sha384', keyType: 'rsa-pss' },
+  PS512: { digest: 'sha512', keyType: 'rsa-pss' },
+  ES256: { digest: 'sha256', keyType: 'ec' },
+  ES384: { digest: 'sha384', keyType: 'ec' },
+  ES512: { digest: 'sha512', keyType: 'ec' },
+};
+
+export interface AuthenticatedUser {
+  userId: string;
+  method: 'jwt' | 'api_key' | 'session' | 'anonymous';
+  email?: string;
+}
+
+export interface JwtVerificationOptions {
+  issuer: string;
+  audience?: string;
+  keys: JsonWebKey[];
+  now?: number; // Seconds since epoch, for tests
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public readonly status: 401 | 403 = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+function decodeSegment(segment: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new AuthError('Malformed token');
+  }
+}
+
+/**
+ * Verify a compact JWS and return its claims
+ */
+export function verifyJwt(token: string, options: JwtVerificationOptions): Record<string, any> {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new AuthError('Malformed token');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment(encodedHeader);
+  const claims = decodeSegment(encodedPayload);
+
+  const algorithm = SUPPORTED_ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw new AuthError(`Unsupported token algorithm: ${header.alg}`);
+  }
+
+  // Pick the key by kid; a single-key JWKS may omit it
+  const candidates = options.keys.filter(key => !header.kid || (key as any).kid === header.kid);
+  if (candidates.length === 0) {
+    throw new AuthError('No signing key matches token');
+  }
+
+  const signedData = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  const signature = Buffer.from(encodedSignature, 'base64url');
+
+  const verified = candidates.some(jwk => {
+    let key: KeyObject;
+    try {
+      key = createPublicKey({ key: jwk, format: 'jwk' });
+    } catch {
+      return false;
+    }
+    if (key.asymmetricKeyType !== (algorithm.keyType === 'rsa-pss' ? 'rsa' : algorithm.keyType)) {
+      return false;
+    }
+
+    return verify(algorithm.digest, signedData, {
+      key,
+      ...(algorithm.keyType === 'ec' && { dsaEncoding: 'ieee-p1363' as const }),
+      // PSS salt length equals the digest length (RFC 7518)
+      ...(algorithm.keyType === 'rsa-pss' && { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: parseInt(header.alg.slice(2)) / 8 })
+    }, signature);
+  });
+
+  if (!verified) {
+    throw new AuthError('Invalid token signature');
+  }
+
+  // A token without an expiry would be valid forever
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number') {
+    throw new AuthError('Token has no expiry');
+  }
+  if (claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new AuthError('Token has expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new AuthError('Token is not yet valid');
+  }
+  if (claims.iss !== options.issuer) {
+    throw new AuthError('Token issuer is not trusted');
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new AuthError('Token audience is not accepted');
+    }
+  }
+  if (!claims.sub || typeof claims.sub !== 'string') {
+    throw new AuthError('Token has no subject');
+  }
+
+  return claims;
+}
+
+// JWKS file is read once per process
+let cachedJwks: JsonWebKey[] | null = null;
+
+function loadJwks(): JsonWebKey[] {
+  if (!cachedJwks) {
+    if (!authConfig.jwksFile) {
+      throw new AuthError('JWT authentication is not configured');
+    }
+    const jwks = JSON.parse(readFileSync(authConfig.jwksFile, 'utf8'));
+    cachedJwks = Array.isArray(jwks.keys) ? jwks.keys : [];
+  }
+  return cachedJwks!;
+}
+
+function sessionSignature(payload: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(payload).digest();
+}
+
+/**
+ * Issue a session token for a user: base64url claims (sub, exp) and their
+ * HMAC-SHA256 under AUTH_SESSION_SECRET
+ */
+export function createSessionToken(userId: string, secret: string, ttlSeconds: number, now: number = Math.floor(Date.now() / 1000)): string {
+  const payload = Buffer.from(JSON.stringify({ sub: userId, exp: now + ttlSeconds })).toString('base64url');
+  return `${payload}.${sessionSignature(payload, secret).toString('base64url')}`;
+}
+
+/**
+ * Check a session token's signature and expiry and return its user ID
+ */
+export function verifySessionToken(token: string, secret: string, now: number = Math.floor(Date.now() / 1000)): string {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    throw new AuthError('Malformed session');
+  }
+
+  const expected = sessionSignature(payload, secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new AuthError('Invalid session');
+  }
+
+  const claims = decodeSegment(payload);
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new AuthError('Invalid session');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp < now) {
+    throw new AuthError('Session has expired');
+  }
+  return claims.sub;
+}
+
+async function authenticateApiKey(apiKey: string): Promise<AuthenticatedUser> {
+  const result = await db.query(`
+    UPDATE users
+    SET api_key_last_used_at = NOW()
+    WHERE api_key_hash = $1
+    RETURNING firebase_uid, email
+  `, [hashApiKey(apiKey)]);
+
+  if (result.rows.length === 0) {
+    throw new AuthError('Invalid API key');
+  }
+
+  return {
+    userId: result.rows[0].firebase_uid,
+    method: 'api_key',
+    email: result.rows[0].email || undefined
+  };
+}
+
+/**
+ * Resolve the user behind a bearer token: an API key or a JWT
+ */
+export async function authenticateToken(token: string): Promise<AuthenticatedUser> {
+  if (token.startsWith(API_KEY_PREFIX)) {
+    return authenticateApiKey(token);
+  }
+
+  const claims = verifyJwt(token, {
+    issuer: authConfig.jwtIssuer,
+    audience: authConfig.jwtAudience || undefined,
+    keys: loadJwks()
+  });
+
+  return { userId: claims.sub, method: 'jwt', email: claims.email };
+}
+
+/**
+ * Derive the caller from the Authorization header, or else the session
+ * cookie, and make them the tenant for the request's later queries
+ * (row-level security).
+ * With AUTH_ENABLED=false every request is the claimed user (or demo-user).
+ */
+export async function authenticateRequest(request: NextRequest, claimedUserId?: string | null): Promise<AuthenticatedUser> {
+  // Entered before the first await so the calling route shares the context
+  const tenant = enterTenantContext();
+  const user = await identifyCaller(request, claimedUserId);
+  tenant.userId = user.userId;
+  return user;
+}
+
+async function identifyCaller(request: NextRequest, claimedUserId?: string | null): Promise<AuthenticatedUser> {
+  if (!authConfig.enabled) {
+    return { userId: claimedUserId || 'demo-user', method: 'anonymous' };
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (match) {
+    return authenticateToken(match[1].trim());
+  }
+
+  const session = request.cookies.get(SESSION_COOKIE)?.value;
+  if (session) {
+    if (!authConfig.sessionSecret) {
+      throw new AuthError('Sessions are not configured');
+    }
+    return { userId: verifySessionToken(session, authConfig.sessionSecret), method: 'session' };
+  }
+
+  throw new AuthError('Missing bearer token');
+}
+
+/**
+ * Reject a userId from the body or query string that disagrees with the caller
+ */
+export function resolveUserId(user: AuthenticatedUser, requestedUserId?: string | null): string {
+  if (requestedUserId && requestedUserId !== user.userId) {
+    throw new AuthError('userId does not match the authenticated user', 403);
+  }
+  return user.userId;
+}
+
+/**
+ * Restrict a route to the users listed in AUTH_ADMIN_USERS. Anonymous
+ * callers (AUTH_ENABLED=false) claim any userId, so they are never admins.
+ */
+export function requireAdmin(user: AuthenticatedUser, adminUsers: string[] = authConfig.adminUsers): void {
+  if (user.method === 'anonymous' || !adminUsers.includes(user.userId)) {
+    throw new AuthError('Administrator access required', 403);
+  }
+}
+
+export function authErrorResponse(error: AuthError): NextResponse {
+  return NextResponse.json(
+    { error: error.message, success: false },
+    {
+      status: error.status,
+      headers: error.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : undefined
+    }
+  );
+}
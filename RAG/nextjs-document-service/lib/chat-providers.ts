@@ -0,0 +1,256 @@
+/**
+ * Chat completion providers
+ * Answers, query condensation and evaluation all go through a
+ * ChatModelProvider. The fallback chain is configured in chatConfig.modelChain
+ * as "provider:model" entries tried in order.
+ */
+
+import { chatConfig } from './config';
+import { readSSEData } from './sse';
+
+export interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ChatCompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  signal?: AbortSignal;
+}
+
+export interface ChatCompletion {
+  content: string;
+  usage: ChatUsage;
+}
+
+export type ChatStreamChunk =
+  | { type: 'delta'; content: string }
+  | { type: 'usage'; usage: ChatUsage };
+
+export interface ChatModelProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(messages: ChatCompletionMessage[], options?: ChatCompletionOptions): Promise<ChatCompletion>;
+  // Rejects before the first chunk when the provider refuses the request
+  stream(messages: ChatCompletionMessage[], options?: ChatCompletionOptions): AsyncGenerator<ChatStreamChunk>;
+}
+
+/**
+ * Provider or model failure; the route reports these as the AI service being unavailable
+ */
+export class ChatProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatProviderError';
+  }
+}
+
+const EMPTY_USAGE: ChatUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+/**
+ * Any server speaking the OpenAI /chat/completions wire format
+ * (Ollama, vLLM, llama.cpp server, LM Studio)
+ */
+export class OpenAICompatibleChatProvider implements ChatModelProvider {
+  readonly name: string;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(options: { baseUrl: string; model: string; apiKey?: string; name?: string }) {
+    this.name = options.name || 'compatible';
+    this.model = options.model;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey || '';
+  }
+
+  async complete(messages: ChatCompletionMessage[], options: ChatCompletionOptions = {}): Promise<ChatCompletion> {
+    const response = await this.request(messages, options, false);
+    const data = await response.json();
+
+    if (!data.choices || data.choices.length === 0) {
+      throw new ChatProviderError(`No response from ${this.name} model ${this.model}`);
+    }
+
+    return {
+      content: (data.choices[0].message?.content || '').trim(),
+      usage: { ...EMPTY_USAGE, ...data.usage }
+    };
+  }
+
+  async *stream(messages: ChatCompletionMessage[], options: ChatCompletionOptions = {}): AsyncGenerator<ChatStreamChunk> {
+    const response = await this.request(messages, options, true);
+
+    for await (const data of readSSEData(response.body!)) {
+      if (data === '[DONE]') break;
+
+      const chunk = JSON.parse(data);
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) {
+        yield { type: 'delta', content };
+      }
+      // Sent on the last chunk because of stream_options.include_usage
+      if (chunk.usage) {
+        yield { type: 'usage', usage: { ...EMPTY_USAGE, ...chunk.usage } };
+      }
+    }
+  }
+
+  protected async request(messages: ChatCompletionMessage[], options: ChatCompletionOptions, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        max_tokens: options.maxTokens ?? 2000,
+        temperature: options.temperature ?? 0.1, // Low temperature for factual responses
+        top_p: options.topP ?? 0.95,
+        ...(stream && { stream: true, stream_options: { include_usage: true } }),
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok || (stream && !response.body)) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new ChatProviderError(
+        `${this.name} API error (${response.status}): ${errorData.error?.message || response.statusText}`
+      );
+    }
+
+    return response;
+  }
+}
+
+/**
+ * OpenAI's hosted chat completions
+ */
+export class OpenAIChatProvider extends OpenAICompatibleChatProvider {
+  private hasApiKey: boolean;
+
+  constructor(options: { apiKey: string; model: string }) {
+    super({ baseUrl: 'https://api.openai.com/v1', apiKey: options.apiKey, model: options.model, name: 'openai' });
+    this.hasApiKey = !!options.apiKey;
+  }
+
+  protected async request(messages: ChatCompletionMessage[], options: ChatCompletionOptions, stream: boolean): Promise<Response> {
+    if (!this.hasApiKey) {
+      throw new ChatProviderError('OpenAI API key not configured');
+    }
+    return super.request(messages, options, stream);
+  }
+}
+
+/**
+ * Replays canned answers in order (the last one repeats) and records every
+ * request. Streams word by word. For tests and offline demos.
+ */
+export class ScriptedChatProvider implements ChatModelProvider {
+  readonly name = 'scripted';
+  readonly model: string;
+  readonly calls: ChatCompletionMessage[][] = [];
+  private responses: Array<string | Error>;
+
+  constructor(options: { responses: Array<string | Error>; model?: string }) {
+    this.responses = options.responses;
+    this.model = options.model || 'scripted-v1';
+  }
+
+  async complete(messages: ChatCompletionMessage[]): Promise<ChatCompletion> {
+    const content = this.next(messages);
+    return { content, usage: this.usage(messages, content) };
+  }
+
+  async *stream(messages: ChatCompletionMessage[]): AsyncGenerator<ChatStreamChunk> {
+    const content = this.next(messages);
+    for (const piece of content.match(/\S+\s*/g) || []) {
+      yield { type: 'delta', content: piece };
+    }
+    yield { type: 'usage', usage: this.usage(messages, content) };
+  }
+
+  private next(messages: ChatCompletionMessage[]): string {
+    this.calls.push(messages);
+    const response = this.responses[Math.min(this.calls.length - 1, this.responses.length - 1)];
+    if (response instanceof Error) {
+      throw response;
+    }
+    return response;
+  }
+
+  // Whitespace token counts, so cost reporting has something to show
+  private usage(messages: ChatCompletionMessage[], content: string): ChatUsage {
+    const count = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    const prompt = messages.reduce((sum, message) => sum + count(message.content), 0);
+    const completion = count(content);
+    return { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion };
+  }
+}
+
+/**
+ * Build the fallback chain from chatConfig.modelChain ("openai:gpt-4o,compatible:llama3.1:8b").
+ * The OpenAI key is read from the environment directly: openaiConfig substitutes
+ * a placeholder outside production, which would only earn a 401 here.
+ */
+export function createChatProviders(config = chatConfig, apiKey = process.env.OPENAI_API_KEY || ''): ChatModelProvider[] {
+  const providers = config.modelChain.map(entry => {
+    const separator = entry.indexOf(':');
+    const name = separator === -1 ? 'openai' : entry.slice(0, separator).trim();
+    const model = (separator === -1 ? entry : entry.slice(separator + 1)).trim();
+
+    switch (name) {
+      case 'openai':
+        return new OpenAIChatProvider({ apiKey, model });
+
+      case 'compatible':
+        return new OpenAICompatibleChatProvider({
+          baseUrl: config.compatibleBaseUrl,
+          apiKey: config.compatibleApiKey,
+          model,
+        });
+
+      default:
+        throw new Error(`Unknown chat provider: ${name}`);
+    }
+  });
+
+  if (providers.length === 0) {
+    throw new Error('CHAT_MODEL_CHAIN must name at least one model');
+  }
+  return providers;
+}
+
+let activeProviders: ChatModelProvider[] | null = null;
+
+export function getChatProviders(): ChatModelProvider[] {
+  if (!activeProviders) {
+    activeProviders = createChatProviders();
+  }
+  return activeProviders;
+}
+
+// Override the configured chain (used by tests and evaluation tooling)
+export function setChatProviders(providers: ChatModelProvider[] | null): void {
+  activeProviders = providers;
+}
+
+/**
+ * USD cost of one completion; null when the model has no configured price (chatConfig.modelPrices)
+ */
+export function estimateCost(model: string, usage: ChatUsage): number | null {
+  if (usage.total_tokens === 0) return 0;
+  const price = chatConfig.modelPrices[model];
+  if (!price) return null;
+  return (usage.prompt_tokens * price.inputPerMTok + usage.completion_tokens * price.outputPerMTok) / 1_000_000;
+}
@@ -0,0 +1,202 @@
+/**
+ * Citation verification
+ * Checks every [n] marker in a generated answer: the index must name one of
+ * the retrieved sources, and the cited source must support the sentence.
+ * Support is scored with lexical overlap plus embedding similarity.
+ */
+
+import { calculateCosineSimilarity, generateLargeBatchEmbeddings } from './embeddings';
+import type { UsageMeter } from './query-log';
+
+export type CitationVerdict = 'supported' | 'unsupported';
+
+export interface CitationScore {
+  citation: number;
+  lexical: number;
+  semantic: number | null; // null when embeddings were unavailable
+  combined: number;
+}
+
+export interface SentenceVerification {
+  sentence: string;
+  start: number; // Offsets into the answer, for highlighting
+  end: number;
+  citations: number[];
+  invalidCitations: number[]; // Markers that name no retrieved source
+  scores: CitationScore[];
+  verdict: CitationVerdict;
+}
+
+export interface CitationReport {
+  sentences: SentenceVerification[];
+  invalidCitations: number[];
+  supportedCount: number;
+  unsupportedCount: number;
+  allSupported: boolean;
+}
+
+export interface CitationVerificationOptions {
+  supportThreshold?: number;
+  lexicalWeight?: number; // Semantic weight is the remainder
+  embed?: (texts: string[]) => Promise<number[][]>;
+  usage?: UsageMeter; // Receives the embedding tokens of the default embed
+}
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Sentence end, including markers placed after the punctuation ("... therapy. [1]")
+const SENTENCE_BOUNDARY = /[.!?]+(?:\s*\[\d+(?:\s*,\s*\d+)*\])*(?=\s|$)|\n+/g;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'has', 'have',
+  'her', 'his', 'its', 'may', 'our', 'out', 'was', 'were', 'who', 'how', 'why', 'what', 'when',
+  'which', 'with', 'this', 'that', 'these', 'those', 'from', 'into', 'than', 'then', 'them',
+  'they', 'their', 'there', 'been', 'being', 'also', 'such', 'should', 'would', 'could', 'will',
+  'does', 'did', 'about', 'according', 'source', 'sources', 'based', 'provided', 'context'
+]);
+
+/**
+ * Split text into sentences with their offsets. Newlines also end a sentence
+ * so list items are judged separately.
+ */
+export function splitSentences(text: string): Array<{ text: string; start: number; end: number }> {
+  const sentences: Array<{ text: string; start: number; end: number }> = [];
+  let segmentStart = 0;
+
+  const pushSegment = (end: number) => {
+    const raw = text.slice(segmentStart, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed) {
+      const start = segmentStart + leading;
+      sentences.push({ text: trimmed, start, end: start + trimmed.length });
+    }
+  };
+
+  for (const match of Array.from(text.matchAll(SENTENCE_BOUNDARY))) {
+    const isNewline = match[0].startsWith('\n');
+    pushSegment(isNewline ? match.index! : match.index! + match[0].length);
+    segmentStart = match.index! + match[0].length;
+  }
+  pushSegment(text.length);
+
+  return sentences;
+}
+
+/**
+ * Citation numbers in a sentence, in order of appearance, without duplicates
+ */
+export function parseCitations(sentence: string): number[] {
+  const citations: number[] = [];
+  for (const match of Array.from(sentence.matchAll(CITATION_PATTERN))) {
+    for (const value of match[1].split(',')) {
+      const citation = parseInt(value.trim());
+      if (!citations.includes(citation)) citations.push(citation);
+    }
+  }
+  return citations;
+}
+
+function contentTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(CITATION_PATTERN, ' ')
+    .split(/[^a-z0-9.%-]+/)
+    .map(token => token.replace(/^[.-]+|[.-]+$/g, ''))
+    .filter(token => token.length > 2 && !STOP_WORDS.has(token))
+    // Crude plural folding so "tablets" matches "tablet"
+    .map(token => (token.length > 4 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+/**
+ * Share of the sentence's content words that also occur in the source
+ */
+export function lexicalOverlap(sentence: string, source: string): number {
+  const sentenceTokens = Array.from(new Set(contentTokens(sentence)));
+  if (sentenceTokens.length === 0) return 0;
+
+  const sourceTokens = new Set(contentTokens(source));
+  return sentenceTokens.filter(token => sourceTokens.has(token)).length / sentenceTokens.length;
+}
+
+async function defaultEmbed(texts: string[], usage?: UsageMeter): Promise<number[][]> {
+  const result = await generateLargeBatchEmbeddings(texts);
+  usage?.addEmbedding(result.usage.total_tokens);
+  return result.embeddings;
+}
+
+/**
+ * Verify every cited sentence of an answer against the sources it cites.
+ * A sentence is supported when at least one valid citation scores at or
+ * above the threshold; a sentence citing only missing sources is unsupported.
+ */
+export async function verifyCitations(
+  answer: string,
+  sources: Array<{ text: string }>,
+  options: CitationVerificationOptions = {}
+): Promise<CitationReport> {
+  const { supportThreshold = 0.45, lexicalWeight = 0.5, usage, embed = (texts: string[]) => defaultEmbed(texts, usage) } = options;
+
+  const cited = splitSentences(answer)
+    .map(sentence => ({
+      ...sentence,
+      claim: sentence.text.replace(CITATION_PATTERN, '').replace(/\s+/g, ' ').trim(),
+      citations: parseCitations(sentence.text)
+    }))
+    .filter(sentence => sentence.citations.length > 0 && sentence.claim.length > 0);
+
+  const isValid = (citation: number) => citation >= 1 && citation <= sources.length;
+
+  // Embed each claim and each cited source once; verification still runs
+  // lexically if embeddings fail
+  const citedSources = Array.from(new Set(cited.flatMap(sentence => sentence.citations.filter(isValid))));
+  const embeddings = new Map<string, number[]>();
+  if (cited.length > 0 && citedSources.length > 0) {
+    const texts = Array.from(new Set([
+      ...cited.map(sentence => sentence.claim),
+      ...citedSources.map(citation => sources[citation - 1].text)
+    ])).filter(text => text.trim().length > 0);
+
+    try {
+      const vectors = await embed(texts);
+      texts.forEach((text, index) => embeddings.set(text, vectors[index]));
+    } catch (error) {
+      console.warn('Citation verification falling back to lexical overlap only:', error);
+    }
+  }
+
+  const sentences: SentenceVerification[] = cited.map(sentence => {
+    const invalidCitations = sentence.citations.filter(citation => !isValid(citation));
+
+    const scores = sentence.citations.filter(isValid).map(citation => {
+      const sourceText = sources[citation - 1].text;
+      const lexical = lexicalOverlap(sentence.claim, sourceText);
+      const claimVector = embeddings.get(sentence.claim);
+      const sourceVector = embeddings.get(sourceText);
+      const semantic = claimVector && sourceVector ? calculateCosineSimilarity(claimVector, sourceVector) : null;
+      const combined = semantic === null ? lexical : lexicalWeight * lexical + (1 - lexicalWeight) * semantic;
+
+      return { citation, lexical, semantic, combined };
+    });
+
+    return {
+      sentence: sentence.text,
+      start: sentence.start,
+      end: sentence.end,
+      citations: sentence.citations,
+      invalidCitations,
+      scores,
+      verdict: scores.some(score => score.combined >= supportThreshold) ? 'supported' : 'unsupported'
+    };
+  });
+
+  const supportedCount = sentences.filter(sentence => sentence.verdict === 'supported').length;
+
+  return {
+    sentences,
+    invalidCitations: Array.from(new Set(sentences.flatMap(sentence => sentence.invalidCitations))).sort((a, b) => a - b),
+    supportedCount,
+    unsupportedCount: sentences.length - supportedCount,
+    allSupported: supportedCount === sentences.length
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Collection scope for search and chat
+ * Without collectionIds a search reads the caller's own documents. With them
+ * it reads the documents in those collections instead, as long as the caller
+ * is a member of each collection's workspace. The statement builders and the
+ * SQL search functions share the collection_family_ids() lookup
+ * (database/create_workspaces.sql).
+ */
+
+export const MAX_COLLECTIONS = 20;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Ids of uuid columns (documents, jobs, workspaces, ...); Postgres rejects anything else
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+/**
+ * Validate the `collectionIds` request option. Absent or empty means the
+ * caller's own documents (null).
+ */
+export function parseCollectionIds(input: any): { collectionIds: string[] | null; error?: string } {
+  if (input === undefined || input === null) {
+    return { collectionIds: null };
+  }
+  if (!Array.isArray(input) || !input.every(isUuid)) {
+    return { collectionIds: null, error: 'collectionIds must be an array of collection ids (UUIDs)' };
+  }
+
+  const collectionIds = Array.from(new Set(input.map((id: string) => id.toLowerCase())));
+  if (collectionIds.length > MAX_COLLECTIONS) {
+    return { collectionIds: null, error: `collectionIds accepts at most ${MAX_COLLECTIONS} collections` };
+  }
+  return { collectionIds: collectionIds.length > 0 ? collectionIds : null };
+}
+
+/**
+ * The predicate over documents (d) that a search may read. userParam is the
+ * placeholder already bound to the user id; collection ids, when given, are
+ * appended to values.
+ */
+export function buildAccessClause(userParam: string, collectionIds: string[] | null | undefined, values: any[]): string {
+  if (!collectionIds || collectionIds.length === 0) {
+    return `d.user_id = ${userParam}`;
+  }
+
+  values.push(collectionIds);
+  return `d.family_id IN (SELECT f.family_id FROM collection_family_ids(${userParam}, $${values.length}::uuid[]) f)`;
+}
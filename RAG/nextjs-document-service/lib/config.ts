@@ -13,6 +13,11 @@ interface OpenAIConfig {
   chatModel: string;
   embeddingDimensions: number;
   maxBatchSize: number;
+  // Embedding provider selection
+  embeddingProvider: 'openai' | 'hashing' | 'local';
+  localEmbeddingUrl: string;
+  localEmbeddingModel: string;
+  embeddingCacheEnabled: boolean;
 }
 
 interface RAGConfig {
@@ -27,12 +32,81 @@ interface RAGConfig {
   maxChunkSizeForTables: number;
   preservePageBoundaries: boolean;
   tableDetectionEnabled: boolean;
+  // Chunk markdown by its heading structure (see lib/markdown-chunker.ts)
+  markdownChunking: boolean;
+  // Keyword search ranking (see lib/keyword-search.ts)
+  textSearchLanguage: string;
+  keywordRanking: 'ts_rank_cd' | 'bm25';
+  bm25K1: number;
+  bm25B: number;
+  // Hybrid search fusion (see lib/hybrid-search.ts)
+  hybridFusion: 'rrf' | 'weighted' | 'convex';
+  rrfK: number;
+  hybridSemanticWeight: number;
+  // Reranking stage (see lib/reranker.ts)
+  reranker: 'heuristic' | 'llm' | 'cross_encoder';
+  rerankTopN: number;
+  rerankerUrl: string;
+  rerankerModel: string;
+  // Learned per-chunk adjustment from user feedback (see lib/feedback.ts)
+  rerankFeedback: boolean;
+  feedbackBoostWeight: number;
+  feedbackMinVotes: number;
+  // Query analytics (see lib/query-log.ts)
+  queryLogEnabled: boolean;
+  slowQueryMs: number;
+  // Down-weighting of OCR'd chunks for requests with ocrWeighting (see lib/ocr.ts)
+  ocrLowConfidence: number;
+  ocrConfidencePenalty: number;
+}
+
+interface IngestionConfig {
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  pollIntervalMs: number;
+  leaseTimeoutMs: number;
+}
+
+interface OcrConfig {
+  enabled: boolean;
+  tesseractPath: string;
+  language: string;
+  timeoutMs: number;
+}
+
+interface ChatConfig {
+  historyMessages: number;
+  historyMaxChars: number;
+  condenseQueries: boolean;
+  citationVerification: boolean;
+  citationSupportThreshold: number;
+  citationLexicalWeight: number;
+  // Chat model fallback chain, "provider:model" entries tried in order
+  modelChain: string[];
+  compatibleBaseUrl: string;
+  compatibleApiKey: string;
+  // USD per million tokens by model, for eval cost reporting
+  modelPrices: Record<string, { inputPerMTok: number; outputPerMTok: number }>;
+}
+
+interface AuthConfig {
+  enabled: boolean;
+  jwtIssuer: string;
+  jwtAudience: string;
+  jwksFile: string;
+  adminUsers: string[];
+  sessionSecret: string;
+  sessionTtlSeconds: number;
 }
 
 interface AppConfig {
   database: DatabaseConfig;
   openai: OpenAIConfig;
   rag: RAGConfig;
+  ingestion: IngestionConfig;
+  ocr: OcrConfig;
+  chat: ChatConfig;
+  auth: AuthConfig;
 }
 
 function validateEnvVar(name: string, defaultValue?: string): string {
@@ -47,6 +121,21 @@ function validateOptionalEnvVar(name: string, defaultValue: string = ''): string
   return process.env[name] || defaultValue;
 }
 
+// Model names may contain ':' (llama3.1:8b), so the prices are the last two fields
+function parseModelPrices(value: string): ChatConfig['modelPrices'] {
+  const prices: ChatConfig['modelPrices'] = {};
+  for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const fields = entry.split(':');
+    const outputPerMTok = parseFloat(fields.pop() || '');
+    const inputPerMTok = parseFloat(fields.pop() || '');
+    if (fields.length === 0 || isNaN(inputPerMTok) || isNaN(outputPerMTok)) {
+      throw new Error(`Invalid CHAT_MODEL_PRICES entry: ${entry}`);
+    }
+    prices[fields.join(':')] = { inputPerMTok, outputPerMTok };
+  }
+  return prices;
+}
+
 // Database configuration
 export const databaseConfig: DatabaseConfig = {
   host: validateEnvVar('DB_HOST', process.env.PGHOST || 'localhost'),
@@ -80,6 +169,11 @@ export const openaiConfig: OpenAIConfig = {
   chatModel: validateEnvVar('OPENAI_CHAT_MODEL', 'gpt-4'),
   embeddingDimensions: parseInt(validateEnvVar('OPENAI_EMBEDDING_DIMENSIONS', '1536')),
   maxBatchSize: parseInt(validateEnvVar('OPENAI_MAX_BATCH_SIZE', '100')),
+  // Embedding provider: 'openai' (default), 'hashing' (offline, deterministic) or 'local' (HTTP embedding server)
+  embeddingProvider: validateEnvVar('EMBEDDING_PROVIDER', 'openai') as OpenAIConfig['embeddingProvider'],
+  localEmbeddingUrl: validateEnvVar('LOCAL_EMBEDDING_URL', 'http://localhost:8080/v1/embeddings'),
+  localEmbeddingModel: validateEnvVar('LOCAL_EMBEDDING_MODEL', 'nomic-embed-text'),
+  embeddingCacheEnabled: validateEnvVar('EMBEDDING_CACHE_ENABLED', 'true') === 'true',
 };
 
 // RAG system configuration
@@ -95,6 +189,79 @@ export const ragConfig: RAGConfig = {
   maxChunkSizeForTables: parseInt(validateEnvVar('RAG_MAX_CHUNK_SIZE_FOR_TABLES', '3000')),
   preservePageBoundaries: validateEnvVar('RAG_PRESERVE_PAGE_BOUNDARIES', 'true') === 'true',
   tableDetectionEnabled: validateEnvVar('RAG_TABLE_DETECTION_ENABLED', 'true') === 'true',
+  // Markdown text (.md uploads, Office, HTML and CSV extraction) is chunked by section with a heading path
+  markdownChunking: validateEnvVar('RAG_MARKDOWN_CHUNKING', 'true') === 'true',
+  // Keyword search: PostgreSQL text search configuration and ranking function
+  textSearchLanguage: validateEnvVar('RAG_TEXT_SEARCH_LANGUAGE', 'english'),
+  keywordRanking: validateEnvVar('RAG_KEYWORD_RANKING', 'ts_rank_cd') as RAGConfig['keywordRanking'],
+  bm25K1: parseFloat(validateEnvVar('RAG_BM25_K1', '1.2')), // Term frequency saturation
+  bm25B: parseFloat(validateEnvVar('RAG_BM25_B', '0.75')), // Document length normalization
+  // Hybrid search: how semantic and keyword rankings are merged; per-request `fusion` overrides
+  hybridFusion: validateEnvVar('RAG_HYBRID_FUSION', 'rrf') as RAGConfig['hybridFusion'],
+  rrfK: parseInt(validateEnvVar('RAG_RRF_K', '60')),
+  hybridSemanticWeight: parseFloat(validateEnvVar('RAG_HYBRID_SEMANTIC_WEIGHT', '0.5')), // Keyword gets the rest
+  // Reranker used when a request asks for `rerank: true`
+  reranker: validateEnvVar('RAG_RERANKER', 'heuristic') as RAGConfig['reranker'],
+  rerankTopN: parseInt(validateEnvVar('RAG_RERANK_TOP_N', '20')),
+  rerankerUrl: validateEnvVar('RERANKER_URL', 'http://localhost:8081/v1/rerank'), // cross_encoder only
+  rerankerModel: validateEnvVar('RERANKER_MODEL', 'bge-reranker-v2-m3'),
+  // Reranking adds each chunk's feedback boost (chunk_feedback) to its score
+  rerankFeedback: validateEnvVar('RAG_RERANK_FEEDBACK', 'true') === 'true',
+  feedbackBoostWeight: parseFloat(validateEnvVar('RAG_FEEDBACK_BOOST_WEIGHT', '0.2')), // Largest possible boost or penalty
+  feedbackMinVotes: parseInt(validateEnvVar('RAG_FEEDBACK_MIN_VOTES', '3')), // Fewer source marks leave a chunk unadjusted
+  // Record every search and chat query in query_log for /api/analytics
+  queryLogEnabled: validateEnvVar('RAG_QUERY_LOG_ENABLED', 'true') === 'true',
+  slowQueryMs: parseInt(validateEnvVar('RAG_SLOW_QUERY_MS', '2000')), // Total latency reported as slow
+  // OCR'd chunks with a mean word confidence below this are down-weighted, to at most this fraction of their score
+  ocrLowConfidence: parseFloat(validateEnvVar('RAG_OCR_LOW_CONFIDENCE', '0.7')),
+  ocrConfidencePenalty: parseFloat(validateEnvVar('RAG_OCR_CONFIDENCE_PENALTY', '0.5')),
+};
+
+// Background ingestion job queue configuration
+export const ingestionConfig: IngestionConfig = {
+  maxAttempts: parseInt(validateEnvVar('INGESTION_MAX_ATTEMPTS', '3')),
+  retryBaseDelayMs: parseInt(validateEnvVar('INGESTION_RETRY_BASE_DELAY_MS', '5000')), // Doubles per attempt
+  pollIntervalMs: parseInt(validateEnvVar('INGESTION_POLL_INTERVAL_MS', '2000')),
+  leaseTimeoutMs: parseInt(validateEnvVar('INGESTION_LEASE_TIMEOUT_MS', '600000')), // Reclaim jobs from crashed workers after 10 min
+};
+
+// OCR of scanned PDF pages and image uploads with the Tesseract CLI
+export const ocrConfig: OcrConfig = {
+  enabled: validateEnvVar('OCR_ENABLED', 'false') === 'true',
+  tesseractPath: validateEnvVar('TESSERACT_PATH', 'tesseract'),
+  language: validateEnvVar('OCR_LANGUAGE', 'eng'), // Tesseract language codes, e.g. eng+fra
+  timeoutMs: parseInt(validateEnvVar('OCR_TIMEOUT_MS', '120000')), // Per image
+};
+
+// Conversational chat: how much earlier conversation is sent with each question
+export const chatConfig: ChatConfig = {
+  historyMessages: parseInt(validateEnvVar('CHAT_HISTORY_MESSAGES', '6')),
+  historyMaxChars: parseInt(validateEnvVar('CHAT_HISTORY_MAX_CHARS', '4000')),
+  condenseQueries: validateEnvVar('CHAT_CONDENSE_QUERIES', 'true') === 'true', // Rewrite follow-ups into standalone search queries
+  // Check each cited sentence against its source (see lib/citations.ts)
+  citationVerification: validateEnvVar('CITATION_VERIFICATION_ENABLED', 'true') === 'true',
+  citationSupportThreshold: parseFloat(validateEnvVar('CITATION_SUPPORT_THRESHOLD', '0.45')),
+  citationLexicalWeight: parseFloat(validateEnvVar('CITATION_LEXICAL_WEIGHT', '0.5')), // Embedding similarity gets the rest
+  // Providers: 'openai' or 'compatible' (any OpenAI-style server: Ollama, vLLM, llama.cpp) - see lib/chat-providers.ts
+  modelChain: validateEnvVar('CHAT_MODEL_CHAIN', 'openai:gpt-4o,openai:gpt-4-turbo,openai:gpt-4,openai:gpt-3.5-turbo')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean),
+  compatibleBaseUrl: validateEnvVar('CHAT_COMPATIBLE_BASE_URL', 'http://localhost:11434/v1'),
+  compatibleApiKey: validateOptionalEnvVar('CHAT_COMPATIBLE_API_KEY'),
+  // "model:inputPerMTok:outputPerMTok" entries; models without a price report no cost
+  modelPrices: parseModelPrices(validateEnvVar('CHAT_MODEL_PRICES', 'gpt-4o:2.5:10,gpt-4o-mini:0.15:0.6,gpt-4-turbo:10:30,gpt-4:30:60,gpt-3.5-turbo:0.5:1.5')),
+};
+
+// API authentication: bearer JWTs signed by a key in the JWKS file, or API keys from the users table
+export const authConfig: AuthConfig = {
+  enabled: validateEnvVar('AUTH_ENABLED', 'true') === 'true', // Off trusts the request userId (local demo only)
+  jwtIssuer: validateOptionalEnvVar('AUTH_JWT_ISSUER'),
+  jwtAudience: validateOptionalEnvVar('AUTH_JWT_AUDIENCE'),
+  jwksFile: validateOptionalEnvVar('AUTH_JWKS_FILE'),
+  adminUsers: validateOptionalEnvVar('AUTH_ADMIN_USERS').split(',').map(user => user.trim()).filter(Boolean),
+  sessionSecret: validateOptionalEnvVar('AUTH_SESSION_SECRET'), // Signs the UI's session cookie
+  sessionTtlSeconds: parseInt(validateEnvVar('AUTH_SESSION_TTL_SECONDS', '43200')), // 12 hours
 };
 
 // Full app configuration
@@ -102,4 +269,8 @@ export const config: AppConfig = {
   database: databaseConfig,
   openai: openaiConfig,
   rag: ragConfig,
+  ingestion: ingestionConfig,
+  ocr: ocrConfig,
+  chat: chatConfig,
+  auth: authConfig,
 };
\ No newline at end of file
@@ -0,0 +1,184 @@
+/**
+ * Persisted chat conversations
+ * Each answered /api/chat call appends a user and an assistant message
+ * together, so a failed or cancelled turn leaves nothing behind. The most
+ * recent messages are replayed as bounded history for follow-up questions.
+ */
+
+import { db } from './database';
+import { isUuid } from './collection-scope';
+
+export type ConversationRole = 'user' | 'assistant';
+
+export interface ConversationRecord {
+  id: string;
+  user_id: string;
+  title: string;
+  created_at: Date;
+  updated_at: Date;
+  message_count?: number;
+}
+
+export interface ConversationMessageRecord {
+  id: string;
+  conversation_id: string;
+  role: ConversationRole;
+  content: string;
+  standalone_query: string | null;
+  sources: any[] | null;
+  metadata: Record<string, any> | null;
+  created_at: Date;
+}
+
+export interface ChatHistoryMessage {
+  role: ConversationRole;
+  content: string;
+}
+
+export interface ConversationTurn {
+  conversationId: string;
+  // Set when the turn starts a conversation, which is created with it
+  newConversation?: { userId: string; title: string } | null;
+  question: string;
+  standaloneQuery?: string | null;
+  askedAt: Date;
+  answer: string;
+  sources?: any[] | null;
+  metadata?: Record<string, any>;
+}
+
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Keep the newest messages that fit both limits, oldest first. The newest
+ * message is always kept, truncated if it alone exceeds maxChars.
+ */
+export function boundHistory(
+  messages: ChatHistoryMessage[],
+  maxMessages: number,
+  maxChars: number
+): ChatHistoryMessage[] {
+  const bounded: ChatHistoryMessage[] = [];
+  let totalChars = 0;
+
+  for (let i = messages.length - 1; i >= 0 && bounded.length < maxMessages; i--) {
+    const message = messages[i];
+    if (totalChars + message.content.length > maxChars) {
+      if (bounded.length === 0) {
+        bounded.unshift({ role: message.role, content: message.content.slice(0, maxChars) });
+      }
+      break;
+    }
+    bounded.unshift({ role: message.role, content: message.content });
+    totalChars += message.content.length;
+  }
+
+  return bounded;
+}
+
+export function conversationTitle(question: string): string {
+  const title = question.replace(/\s+/g, ' ').trim();
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 3)}...` : title;
+}
+
+export class ConversationService {
+  // Conversations of other users are reported as missing
+  static async getConversation(id: string, userId: string): Promise<ConversationRecord | null> {
+    if (!isUuid(id)) {
+      return null;
+    }
+    const result = await db.query(`
+      SELECT id, user_id, title, created_at, updated_at
+      FROM conversations
+      WHERE id = $1 AND user_id = $2
+    `, [id, userId]);
+    return result.rows[0] || null;
+  }
+
+  // Most recently active first
+  static async listConversations(userId: string, limit: number = 50): Promise<ConversationRecord[]> {
+    const result = await db.query(`
+      SELECT c.id, c.user_id, c.title, c.created_at, c.updated_at,
+             (SELECT COUNT(*) FROM conversation_messages m WHERE m.conversation_id = c.id)::int as message_count
+      FROM conversations c
+      WHERE c.user_id = $1
+      ORDER BY c.updated_at DESC
+      LIMIT $2
+    `, [userId, limit]);
+    return result.rows;
+  }
+
+  static async deleteConversation(id: string, userId: string): Promise<boolean> {
+    if (!isUuid(id)) {
+      return false;
+    }
+    const result = await db.query('DELETE FROM conversations WHERE id = $1 AND user_id = $2', [id, userId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  static async getMessages(conversationId: string): Promise<ConversationMessageRecord[]> {
+    const result = await db.query(`
+      SELECT id, conversation_id, role, content, standalone_query, sources, metadata, created_at
+      FROM conversation_messages
+      WHERE conversation_id = $1
+      ORDER BY created_at, id
+    `, [conversationId]);
+    return result.rows;
+  }
+
+  // Newest messages, returned oldest first
+  static async getRecentMessages(conversationId: string, limit: number): Promise<ChatHistoryMessage[]> {
+    const result = await db.query(`
+      SELECT role, content FROM (
+        SELECT role, content, created_at
+        FROM conversation_messages
+        WHERE conversation_id = $1
+        ORDER BY created_at DESC
+        LIMIT $2
+      ) recent
+      ORDER BY created_at
+    `, [conversationId, limit]);
+    return result.rows;
+  }
+
+  /**
+   * Store a question and its answer in one transaction. The question keeps the
+   * time it was asked, so it sorts before the answer.
+   */
+  static async addTurn(turn: ConversationTurn): Promise<void> {
+    const client = await db.getClient();
+    try {
+      await client.query('BEGIN');
+
+      if (turn.newConversation) {
+        await client.query(`
+          INSERT INTO conversations (id, user_id, title)
+          VALUES ($1, $2, $3)
+        `, [turn.conversationId, turn.newConversation.userId, conversationTitle(turn.newConversation.title)]);
+      } else {
+        await client.query('UPDATE conversations SET updated_at = NOW() WHERE id = $1', [turn.conversationId]);
+      }
+
+      await client.query(`
+        INSERT INTO conversation_messages (conversation_id, role, content, standalone_query, sources, metadata, created_at)
+        VALUES ($1, 'user', $2, $3, NULL, '{}'::jsonb, $4),
+               ($1, 'assistant', $5, NULL, $6, $7, NOW())
+      `, [
+        turn.conversationId,
+        turn.question,
+        turn.standaloneQuery || null,
+        turn.askedAt,
+        turn.answer,
+        turn.sources ? JSON.stringify(turn.sources) : null,
+        JSON.stringify(turn.metadata || {})
+      ]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * CSV extraction: the file is one table, stored for medical table search and
+ * written into the text as a markdown table. Comma, semicolon and tab
+ * delimited files are accepted.
+ */
+
+import type { ExtractedContent } from './ingestion';
+import { buildStructuredTable, tableToMarkdown } from './structured-tables';
+
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields may hold delimiters, line breaks
+ * and doubled quotes). The delimiter is the one most used on the first line
+ * unless given.
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/)).replace(/"[^"]*"/g, '');
+  const counts = DELIMITERS.map(delimiter => firstLine.split(delimiter).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? DELIMITERS[best] : ',';
+}
+
+/**
+ * Extract a CSV file; `title` (the file name) names its table
+ */
+export function processCsv(buffer: Buffer, title?: string): ExtractedContent {
+  // Spreadsheet exports often start with a byte order mark
+  const rows = parseCsv(buffer.toString('utf-8').replace(/^\uFEFF/, ''));
+  const table = buildStructuredTable(rows.map(row => row.map(text => ({ text }))), 1, title);
+
+  if (!table) {
+    return { text: rows.map(row => row.map(cell => cell.trim()).filter(Boolean).join(' ')).join('\n'), tables: [] };
+  }
+  return { text: tableToMarkdown(table), tables: [table], markdown: true };
+}
@@ -5,6 +5,8 @@
  */
 
 import { useNeonDriver } from './config';
+import type { VersionScope } from './database';
+import type { SearchFilters } from './search-filters';
 
 // Dynamic imports based on environment
 let dbService: any = null;
@@ -45,44 +47,9 @@ async function initializeDatabase() {
       throw new Error('Failed to connect to PostgreSQL database');
     }
     
-    // Create a wrapper that uses the old search methods for local development
     dbService = {
       DocumentService: pgDb.DocumentService,
-      ChunkService: {
-        ...pgDb.ChunkService,
-        // Override search methods to use traditional queries for local development
-        searchKeywordChunks: async (queryText: string, userId: string, options: any = {}) => {
-          const { maxResults = 5 } = options;
-          
-          // Use simple ILIKE search for local development
-          const keywords = queryText.toLowerCase().split(/\s+/).filter(w => w.length > 2);
-          if (keywords.length === 0) return [];
-          
-          const keywordConditions = keywords.map((_, index) => `c.text ILIKE $${3 + index}`).join(' OR ');
-          
-          const query = `
-            SELECT 
-              c.id as chunk_id,
-              c.document_id,
-              d.filename,
-              c.text as chunk_text,
-              c.chunk_index,
-              c.page,
-              0.5 as keyword_score
-            FROM chunks c
-            JOIN documents d ON c.document_id = d.id
-            WHERE d.user_id = $1 
-              AND d.status = 'completed'
-              AND (${keywordConditions})
-            ORDER BY c.chunk_index
-            LIMIT $2
-          `;
-          
-          const params = [userId, maxResults, ...keywords.map(keyword => `%${keyword}%`)];
-          const result = await pgDb.db.query(query, params);
-          return result.rows;
-        }
-      },
+      ChunkService: pgDb.ChunkService,
       StatsService: pgDb.StatsService,
       searchSimilarChunks: pgDb.searchSimilarChunks,
       getUserDocuments: pgDb.getUserDocuments,
@@ -124,10 +91,13 @@ export async function searchSimilarChunks(
   queryEmbedding: number[],
   userId: string,
   similarityThreshold: number = 0.7,
-  maxResults: number = 5
+  maxResults: number = 5,
+  scope?: VersionScope,
+  filters?: SearchFilters | null,
+  collectionIds?: string[] | null
 ): Promise<any[]> {
   await initializeDatabase();
-  return dbService.searchSimilarChunks(queryEmbedding, userId, similarityThreshold, maxResults);
+  return dbService.searchSimilarChunks(queryEmbedding, userId, similarityThreshold, maxResults, scope, filters, collectionIds);
 }
 
 export async function getUserDocuments(userId: string): Promise<any[]> {
@@ -149,6 +119,7 @@ export async function searchMedicalTables(
     tableType?: string;
     limit?: number;
     similarityThreshold?: number;
+    collectionIds?: string[] | null;
   } = {}
 ): Promise<any[]> {
   await initializeDatabase();
@@ -1,5 +1,10 @@
 import { Pool, PoolClient } from 'pg';
 import { databaseConfig } from './config';
+import { buildKeywordSearch, KeywordSearchOptions } from './keyword-search';
+import { buildSemanticSearch } from './semantic-search';
+import type { SearchFilters } from './search-filters';
+import { applyTenantSetting } from './tenant-context';
+import { isUuid } from './collection-scope';
 
 // Database configuration from centralized config
 const poolConfig = {
@@ -52,14 +57,21 @@ class Database {
     return Database.instance;
   }
 
-  // Get a client from the pool
+  // Get a client from the pool, scoped to the current tenant (row-level security)
   public async getClient(): Promise<PoolClient> {
-    return this.pool.connect();
+    const client = await this.pool.connect();
+    try {
+      await applyTenantSetting(client);
+    } catch (error) {
+      client.release();
+      throw error;
+    }
+    return client;
   }
 
   // Execute a query with automatic client management
   public async query(text: string, params?: any[]): Promise<any> {
-    const client = await this.pool.connect();
+    const client = await this.getClient();
     try {
       const result = await client.query(text, params);
       return result;
@@ -102,6 +114,9 @@ export interface DocumentRecord {
   uploaded_at: Date;
   processed_at?: Date;
   metadata: Record<string, any>;
+  family_id: string;
+  version: number;
+  is_latest: boolean;
 }
 
 export interface ChunkRecord {
@@ -116,12 +131,22 @@ export interface ChunkRecord {
   created_at: Date;
 }
 
+// Which document versions a search may return
+export interface VersionScope {
+  latestOnly: boolean;
+  documentIds: string[] | null; // Restrict to these documents (specific versions)
+}
+
+export const LATEST_VERSIONS: VersionScope = { latestOnly: true, documentIds: null };
+
 export interface SearchResult {
   chunk_id: string;
   document_id: string;
   filename: string;
   chunk_text: string;
   chunk_index: number;
+  page: number | null;
+  metadata: Record<string, any>;
   similarity_score: number;
 }
 
@@ -142,13 +167,16 @@ export interface KeywordSearchResult {
   filename: string;
   chunk_text: string;
   chunk_index: number;
-  keyword_score: number;
+  page: number | null;
+  metadata: Record<string, any>;
+  raw_score: number; // ts_rank_cd or BM25 score
+  keyword_score: number; // raw_score scaled to 0-1
 }
 
 // Database service functions
 export class DocumentService {
   // Create a new document record
-  static async createDocument(document: Omit<DocumentRecord, 'id' | 'uploaded_at'>): Promise<string> {
+  static async createDocument(document: Omit<DocumentRecord, 'id' | 'uploaded_at' | 'family_id' | 'version' | 'is_latest'>): Promise<string> {
     const query = `
       INSERT INTO documents (user_id, filename, file_size, file_type, text_length, chunks_count, status, metadata)
       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
@@ -195,15 +223,48 @@ export class DocumentService {
 
   // Get document by ID
   static async getDocument(id: string): Promise<DocumentRecord | null> {
+    // Not an id at all; the uuid column would reject it
+    if (!isUuid(id)) {
+      return null;
+    }
     const query = 'SELECT * FROM documents WHERE id = $1';
     const result = await db.query(query, [id]);
     return result.rows[0] || null;
   }
 
-  // Delete document and its chunks
-  static async deleteDocument(id: string): Promise<void> {
-    const query = 'DELETE FROM documents WHERE id = $1';
-    await db.query(query, [id]);
+  // Delete document with its chunks and medical tables; returns false if it did not exist
+  static async deleteDocument(id: string): Promise<boolean> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM medical_tables WHERE document_id = $1', [id]);
+      await client.query('DELETE FROM chunks WHERE document_id = $1', [id]);
+      // Deleting the latest version hands that role to the newest completed one left
+      const result = await client.query(`
+        WITH deleted AS (
+          DELETE FROM documents WHERE id = $1 RETURNING id, family_id, is_latest
+        ),
+        promoted AS (
+          UPDATE documents SET is_latest = TRUE
+          WHERE id = (
+            SELECT d.id FROM documents d
+            JOIN deleted ON d.family_id = deleted.family_id AND deleted.is_latest
+            WHERE d.id <> deleted.id AND d.status = 'completed'
+            ORDER BY d.version DESC
+            LIMIT 1
+          )
+        )
+        SELECT id FROM deleted
+      `, [id]);
+      await client.query('COMMIT');
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
   }
 }
 
@@ -243,29 +304,21 @@ export class ChunkService {
     }
   }
 
-  // Search similar chunks using vector similarity
+  // Search similar chunks using vector similarity (see lib/semantic-search.ts)
   static async searchSimilarChunks(
     queryEmbedding: number[],
     userId: string,
     options: {
       similarityThreshold?: number;
       maxResults?: number;
+      scope?: VersionScope;
+      filters?: SearchFilters | null;
+      collectionIds?: string[] | null;
     } = {}
   ): Promise<SearchResult[]> {
-    const { similarityThreshold = 0.7, maxResults = 5 } = options;
-    
-    const query = `
-      SELECT * FROM search_similar_chunks($1::vector, $2, $3, $4)
-    `;
-    
-    const values = [
-      `[${queryEmbedding.join(',')}]`,
-      userId,
-      similarityThreshold,
-      maxResults
-    ];
+    const search = buildSemanticSearch(queryEmbedding, userId, options);
     
-    const result = await db.query(query, values);
+    const result = await db.query(search.text, search.values);
     return result.rows;
   }
 
@@ -279,17 +332,21 @@ export class ChunkService {
       keywordWeight?: number;
       similarityThreshold?: number;
       maxResults?: number;
+      scope?: VersionScope;
+      collectionIds?: string[] | null;
     } = {}
   ): Promise<HybridSearchResult[]> {
     const { 
       semanticWeight = 0.7, 
       keywordWeight = 0.3, 
       similarityThreshold = 0.6, 
-      maxResults = 5 
+      maxResults = 5,
+      scope = LATEST_VERSIONS,
+      collectionIds = null
     } = options;
     
     const query = `
-      SELECT * FROM search_hybrid_chunks($1::vector, $2, $3, $4, $5, $6, $7)
+      SELECT * FROM search_hybrid_chunks($1::vector, $2, $3, $4, $5, $6, $7, $8, $9::uuid[], $10::uuid[])
     `;
     
     const values = [
@@ -299,30 +356,28 @@ export class ChunkService {
       semanticWeight,
       keywordWeight,
       similarityThreshold,
-      maxResults
+      maxResults,
+      scope.latestOnly,
+      scope.documentIds,
+      collectionIds
     ];
     
     const result = await db.query(query, values);
     return result.rows;
   }
 
-  // Keyword-only search
+  // Keyword-only search, ranked with ts_rank_cd or BM25 (see lib/keyword-search.ts)
   static async searchKeywordChunks(
     queryText: string,
     userId: string,
-    options: {
-      maxResults?: number;
-    } = {}
+    options: KeywordSearchOptions = {}
   ): Promise<KeywordSearchResult[]> {
-    const { maxResults = 5 } = options;
-    
-    const query = `
-      SELECT * FROM search_keyword_chunks($1, $2, $3)
-    `;
-    
-    const values = [queryText, userId, maxResults];
+    const search = buildKeywordSearch(queryText, userId, options);
+    if (!search) {
+      return [];
+    }
     
-    const result = await db.query(query, values);
+    const result = await db.query(search.text, search.values);
     return result.rows;
   }
 
@@ -363,11 +418,17 @@ export async function searchSimilarChunks(
   queryEmbedding: number[],
   userId: string,
   similarityThreshold: number = 0.7,
-  maxResults: number = 5
+  maxResults: number = 5,
+  scope: VersionScope = LATEST_VERSIONS,
+  filters: SearchFilters | null = null,
+  collectionIds: string[] | null = null
 ): Promise<SearchResult[]> {
   return ChunkService.searchSimilarChunks(queryEmbedding, userId, {
     similarityThreshold,
-    maxResults
+    maxResults,
+    scope,
+    filters,
+    collectionIds
   });
 }
 
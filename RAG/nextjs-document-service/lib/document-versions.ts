@@ -0,0 +1,199 @@
+/**
+ * Document families and numbered versions
+ * A revised upload becomes the next version of an existing family instead of
+ * an unrelated document. Search sees only the latest version unless a
+ * VersionScope says otherwise.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { db, VersionScope, LATEST_VERSIONS } from './database';
+import { buildAccessClause, isUuid } from './collection-scope';
+
+export interface DocumentVersion {
+  id: string;
+  family_id: string;
+  version: number;
+  is_latest: boolean;
+  filename: string;
+  file_size: number;
+  status: string;
+  chunks_count: number;
+  uploaded_at: Date;
+  processed_at: Date | null;
+  metadata: Record<string, any> | null;
+}
+
+// Where a new upload lands: a fresh family or the next version of an existing one
+export interface VersionPlacement {
+  familyId: string;
+  version: number;
+  previousDocumentId: string | null;
+}
+
+// Version selector accepted by the search and chat APIs
+export type VersionSelector = 'latest' | 'all' | number;
+
+// Identity of a chunk's text across versions
+export function hashChunkText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+export class DocumentVersionService {
+  /**
+   * Decide the family and version number for a new upload. An explicit parent
+   * document wins; otherwise the latest document with the same filename is
+   * treated as the previous version.
+   */
+  static async planVersion(userId: string, filename: string, parentDocumentId?: string): Promise<VersionPlacement> {
+    const query = parentDocumentId
+      ? `
+        SELECT d.family_id, latest.id as latest_id,
+               (SELECT MAX(version) FROM documents WHERE family_id = d.family_id) as max_version
+        FROM documents d
+        LEFT JOIN documents latest ON latest.family_id = d.family_id AND latest.is_latest
+        WHERE d.id = $2 AND d.user_id = $1
+        LIMIT 1
+      `
+      : `
+        SELECT d.family_id, d.id as latest_id,
+               (SELECT MAX(version) FROM documents WHERE family_id = d.family_id) as max_version
+        FROM documents d
+        WHERE d.user_id = $1 AND d.filename = $2 AND d.is_latest AND d.status = 'completed'
+        ORDER BY d.uploaded_at DESC
+        LIMIT 1
+      `;
+
+    const result = await db.query(query, [userId, parentDocumentId || filename]);
+    const family = result.rows[0];
+
+    if (!family) {
+      return { familyId: randomUUID(), version: 1, previousDocumentId: null };
+    }
+
+    return {
+      familyId: family.family_id,
+      version: parseInt(family.max_version) + 1,
+      previousDocumentId: family.latest_id || null
+    };
+  }
+
+  /**
+   * Make a finished version the one search sees by default
+   */
+  static async promoteVersion(documentId: string): Promise<void> {
+    await db.query(`
+      UPDATE documents
+      SET is_latest = (id = $1)
+      WHERE family_id = (SELECT family_id FROM documents WHERE id = $1)
+    `, [documentId]);
+  }
+
+  /**
+   * All versions in the family of a document, newest first
+   */
+  static async getVersions(documentId: string, userId: string): Promise<DocumentVersion[]> {
+    if (!isUuid(documentId)) {
+      return [];
+    }
+    const query = `
+      SELECT id, family_id, version, is_latest, filename, file_size, status,
+             chunks_count, uploaded_at, processed_at, metadata
+      FROM documents
+      WHERE family_id = (SELECT family_id FROM documents WHERE id = $1 AND user_id = $2)
+      ORDER BY version DESC
+    `;
+
+    const result = await db.query(query, [documentId, userId]);
+    return result.rows;
+  }
+
+  /**
+   * Chunks of a document whose embeddings can be reused, keyed by text hash.
+   * Only vectors produced by the current embedding model and dimensions qualify.
+   */
+  static async getReusableChunks(documentId: string, model: string, dimensions: number): Promise<Map<string, string[]>> {
+    const result = await db.query(`
+      SELECT id, text
+      FROM chunks
+      WHERE document_id = $1
+        AND embedding IS NOT NULL
+        AND metadata->>'embeddingModel' = $2
+        AND vector_dims(embedding) = $3
+      ORDER BY chunk_index
+    `, [documentId, model, dimensions]);
+
+    const reusable = new Map<string, string[]>();
+    for (const row of result.rows) {
+      const hash = hashChunkText(row.text);
+      reusable.set(hash, [...(reusable.get(hash) || []), row.id]);
+    }
+    return reusable;
+  }
+
+  /**
+   * Translate a version selector from a request into a search scope. Version
+   * numbers count within a family, so a numeric version needs a familyId
+   * (checked by parseVersionScope). The family is looked up among the
+   * documents the search reads: the caller's own, or the given collections'.
+   */
+  static async resolveScope(
+    userId: string,
+    version: VersionSelector = 'latest',
+    familyId?: string,
+    collectionIds?: string[] | null
+  ): Promise<VersionScope> {
+    if (version === 'latest' && !familyId) {
+      return LATEST_VERSIONS;
+    }
+
+    if (version === 'all' && !familyId) {
+      return { latestOnly: false, documentIds: null };
+    }
+
+    const values: any[] = [userId, familyId || null, typeof version === 'number' ? version : null, version === 'all'];
+    const access = buildAccessClause('$1', collectionIds, values);
+    const result = await db.query(`
+      SELECT d.id FROM documents d
+      WHERE ${access}
+        AND ($2::uuid IS NULL OR d.family_id = $2)
+        AND (CASE WHEN $3::int IS NULL THEN $4::boolean OR d.is_latest ELSE d.version = $3 END)
+    `, values);
+
+    return { latestOnly: false, documentIds: result.rows.map((row: any) => row.id) };
+  }
+}
+
+/**
+ * Validate the version and familyId options of a search request together
+ */
+export function parseVersionScope(version: unknown, familyId: unknown): {
+  version: VersionSelector | null;
+  familyId?: string;
+  error?: string;
+} {
+  const selector = parseVersionSelector(version);
+  if (selector === null) {
+    return { version: null, error: 'version must be "latest", "all" or a positive integer' };
+  }
+  if (familyId !== undefined && familyId !== null && familyId !== '' && !isUuid(familyId)) {
+    return { version: null, error: 'familyId must be a document family id (UUID)' };
+  }
+  if (typeof selector === 'number' && !familyId) {
+    return { version: null, error: 'A numeric version needs a familyId: version numbers count within one document family' };
+  }
+  return { version: selector, familyId: isUuid(familyId) ? familyId : undefined };
+}
+
+/**
+ * Validate the version selector from a request body
+ */
+export function parseVersionSelector(value: unknown): VersionSelector | null {
+  if (value === undefined || value === null || value === 'latest') return 'latest';
+  if (value === 'all') return 'all';
+
+  const version = typeof value === 'string' ? Number(value) : value;
+  if (typeof version === 'number' && Number.isInteger(version) && version > 0) {
+    return version;
+  }
+  return null;
+}
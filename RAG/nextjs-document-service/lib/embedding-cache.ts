@@ -0,0 +1,111 @@
+/**
+ * Persistent embedding cache
+ * Avoids re-embedding text that was already embedded with the same model and dimensions
+ */
+
+import { createHash } from 'crypto';
+import { db } from './database';
+
+export interface EmbeddingCacheStats {
+  enabled: boolean;
+  sessionHits: number;
+  sessionMisses: number;
+  sessionHitRate: number;
+  totalEntries: number;
+  lifetimeHits: number;
+}
+
+export function hashEmbeddingText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+export class EmbeddingCache {
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * Look up cached embeddings. Returns a map from text to embedding for the hits.
+   * Cache errors are logged and treated as misses so embedding never fails because of the cache.
+   */
+  async lookup(texts: string[], model: string, dimensions: number): Promise<Map<string, number[]>> {
+    const found = new Map<string, number[]>();
+    const uniqueTexts = Array.from(new Set(texts));
+    const textsByHash = new Map(uniqueTexts.map(text => [hashEmbeddingText(text), text]));
+
+    try {
+      // Fetch and bump hit counters in one round trip
+      const result = await db.query(`
+        UPDATE embedding_cache
+        SET hit_count = hit_count + 1, last_used_at = NOW()
+        WHERE model = $1 AND dimensions = $2 AND content_hash = ANY($3)
+        RETURNING content_hash, embedding::text as embedding
+      `, [model, dimensions, Array.from(textsByHash.keys())]);
+
+      for (const row of result.rows) {
+        const text = textsByHash.get(row.content_hash.trim());
+        if (text !== undefined) {
+          found.set(text, JSON.parse(row.embedding));
+        }
+      }
+    } catch (error) {
+      console.warn('Embedding cache lookup failed, embedding without cache:', error);
+    }
+
+    this.hits += found.size;
+    this.misses += uniqueTexts.length - found.size;
+    return found;
+  }
+
+  /**
+   * Store freshly generated embeddings
+   */
+  async store(texts: string[], embeddings: number[][], model: string, dimensions: number): Promise<void> {
+    if (texts.length === 0) return;
+
+    try {
+      await db.query(`
+        INSERT INTO embedding_cache (content_hash, model, dimensions, embedding)
+        SELECT content_hash, $3, $4, embedding::vector
+        FROM unnest($1::text[], $2::text[]) AS t(content_hash, embedding)
+        ON CONFLICT (content_hash, model, dimensions) DO NOTHING
+      `, [
+        texts.map(hashEmbeddingText),
+        embeddings.map(embedding => `[${embedding.join(',')}]`),
+        model,
+        dimensions
+      ]);
+    } catch (error) {
+      console.warn('Embedding cache write failed:', error);
+    }
+  }
+
+  /**
+   * Hit/miss counters for this process plus lifetime totals from the table
+   */
+  async getStats(enabled: boolean): Promise<EmbeddingCacheStats> {
+    const lookups = this.hits + this.misses;
+    const stats: EmbeddingCacheStats = {
+      enabled,
+      sessionHits: this.hits,
+      sessionMisses: this.misses,
+      sessionHitRate: lookups > 0 ? this.hits / lookups : 0,
+      totalEntries: 0,
+      lifetimeHits: 0
+    };
+
+    try {
+      const result = await db.query(`
+        SELECT COUNT(*) as total_entries, COALESCE(SUM(hit_count), 0) as lifetime_hits
+        FROM embedding_cache
+      `);
+      stats.totalEntries = parseInt(result.rows[0].total_entries);
+      stats.lifetimeHits = parseInt(result.rows[0].lifetime_hits);
+    } catch (error) {
+      console.warn('Failed to read embedding cache stats:', error);
+    }
+
+    return stats;
+  }
+}
+
+export const embeddingCache = new EmbeddingCache();
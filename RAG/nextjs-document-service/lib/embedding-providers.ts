@@ -0,0 +1,234 @@
+/**
+ * Embedding providers
+ * Every provider records its model name and dimensions so that vectors
+ * written to chunks.embedding stay comparable with query vectors
+ */
+
+import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { openaiConfig } from './config';
+
+export interface EmbeddingUsage {
+  prompt_tokens: number;
+  total_tokens: number;
+}
+
+export interface ProviderEmbeddingResult {
+  embeddings: number[][];
+  usage: EmbeddingUsage;
+}
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<ProviderEmbeddingResult>;
+}
+
+/**
+ * OpenAI embeddings API provider
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  readonly dimensions: number;
+  private client: OpenAI;
+  private apiKey: string;
+
+  constructor(options: { apiKey: string; model: string; dimensions: number }) {
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+    this.dimensions = options.dimensions;
+    this.client = new OpenAI({ apiKey: options.apiKey });
+  }
+
+  async embed(texts: string[]): Promise<ProviderEmbeddingResult> {
+    if (!this.apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    try {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts,
+        dimensions: this.dimensions,
+      });
+
+      if (!response.data || response.data.length !== texts.length) {
+        throw new Error('Mismatch between input texts and returned embeddings');
+      }
+
+      return {
+        embeddings: response.data.map(item => item.embedding),
+        usage: {
+          prompt_tokens: response.usage?.prompt_tokens || 0,
+          total_tokens: response.usage?.total_tokens || 0,
+        }
+      };
+    } catch (error: any) {
+      // Handle specific OpenAI errors
+      if (error.status === 401) {
+        throw new Error('Invalid OpenAI API key');
+      } else if (error.status === 429) {
+        throw new Error('OpenAI API rate limit exceeded');
+      } else if (error.status === 400) {
+        throw new Error('Invalid input text for embedding');
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Deterministic bag-of-words provider using feature hashing.
+ * Needs no network access, so it is suitable for tests and air-gapped installs.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+  readonly model: string;
+  readonly dimensions: number;
+
+  constructor(options: { dimensions: number; model?: string }) {
+    this.dimensions = options.dimensions;
+    this.model = options.model || 'hashing-bow-v1';
+  }
+
+  async embed(texts: string[]): Promise<ProviderEmbeddingResult> {
+    let totalTokens = 0;
+
+    const embeddings = texts.map(text => {
+      const tokens = this.tokenize(text);
+      totalTokens += tokens.length;
+      return this.embedTokens(tokens);
+    });
+
+    return {
+      embeddings,
+      usage: { prompt_tokens: totalTokens, total_tokens: totalTokens }
+    };
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 1);
+  }
+
+  private embedTokens(tokens: string[]): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+
+    // Unigrams plus bigrams so that word order carries some signal
+    const features = [...tokens];
+    for (let i = 0; i < tokens.length - 1; i++) {
+      features.push(`${tokens[i]}_${tokens[i + 1]}`);
+    }
+
+    for (const feature of features) {
+      const digest = createHash('sha256').update(feature).digest();
+      const index = digest.readUInt32BE(0) % this.dimensions;
+      const sign = (digest[4] & 1) === 0 ? 1 : -1;
+      vector[index] += sign;
+    }
+
+    // L2-normalize so cosine distance behaves like the hosted models
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
+
+/**
+ * Provider for a self-hosted embedding server speaking the OpenAI
+ * /v1/embeddings wire format (text-embeddings-inference, Ollama, llama.cpp, vLLM)
+ */
+export class LocalHttpEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model: string;
+  readonly dimensions: number;
+  private url: string;
+
+  constructor(options: { url: string; model: string; dimensions: number }) {
+    this.url = options.url;
+    this.model = options.model;
+    this.dimensions = options.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<ProviderEmbeddingResult> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Local embedding server error (${response.status}): ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    // Accept both the OpenAI shape and a bare { embeddings: number[][] } body
+    const embeddings: number[][] = Array.isArray(data.data)
+      ? data.data.map((item: any) => item.embedding)
+      : data.embeddings;
+
+    if (!Array.isArray(embeddings) || embeddings.length !== texts.length) {
+      throw new Error('Mismatch between input texts and returned embeddings');
+    }
+
+    const wrongSize = embeddings.find(embedding => embedding.length !== this.dimensions);
+    if (wrongSize) {
+      throw new Error(
+        `Local embedding model ${this.model} returned ${wrongSize.length} dimensions, expected ${this.dimensions}`
+      );
+    }
+
+    return {
+      embeddings,
+      usage: {
+        prompt_tokens: data.usage?.prompt_tokens || 0,
+        total_tokens: data.usage?.total_tokens || 0,
+      }
+    };
+  }
+}
+
+/**
+ * Build the provider selected in openaiConfig
+ */
+export function createEmbeddingProvider(config = openaiConfig): EmbeddingProvider {
+  switch (config.embeddingProvider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider({
+        apiKey: config.apiKey,
+        model: config.embeddingModel,
+        dimensions: config.embeddingDimensions,
+      });
+
+    case 'hashing':
+      return new HashingEmbeddingProvider({ dimensions: config.embeddingDimensions });
+
+    case 'local':
+      return new LocalHttpEmbeddingProvider({
+        url: config.localEmbeddingUrl,
+        model: config.localEmbeddingModel,
+        dimensions: config.embeddingDimensions,
+      });
+
+    default:
+      throw new Error(`Unknown embedding provider: ${config.embeddingProvider}`);
+  }
+}
+
+let activeProvider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!activeProvider) {
+    activeProvider = createEmbeddingProvider();
+  }
+  return activeProvider;
+}
+
+// Override the configured provider (used by tests and evaluation tooling)
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  activeProvider = provider;
+}
@@ -1,13 +1,8 @@
-import OpenAI from 'openai';
 import { openaiConfig } from './config';
+import { getEmbeddingProvider } from './embedding-providers';
+import { embeddingCache } from './embedding-cache';
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: openaiConfig.apiKey,
-});
-
-// OpenAI Embeddings Configuration from centralized config
-const EMBEDDING_MODEL = openaiConfig.embeddingModel;
+// Embedding configuration from centralized config
 const EMBEDDING_DIMENSIONS = openaiConfig.embeddingDimensions;
 const MAX_BATCH_SIZE = openaiConfig.maxBatchSize;
 
@@ -27,15 +22,51 @@ export interface BatchEmbeddingResult {
   };
 }
 
+/**
+ * Describe the active embedding provider (stored alongside every vector)
+ */
+export function getEmbeddingModelInfo(): { provider: string; model: string; dimensions: number } {
+  const provider = getEmbeddingProvider();
+  return {
+    provider: provider.name,
+    model: provider.model,
+    dimensions: provider.dimensions
+  };
+}
+
+/**
+ * Embed cleaned texts, serving repeats from the embedding cache.
+ * Usage only counts tokens actually sent to the provider.
+ */
+async function embedWithCache(texts: string[]): Promise<BatchEmbeddingResult> {
+  const provider = getEmbeddingProvider();
+
+  if (!openaiConfig.embeddingCacheEnabled) {
+    return provider.embed(texts);
+  }
+
+  const cached = await embeddingCache.lookup(texts, provider.model, provider.dimensions);
+  const missing = Array.from(new Set(texts.filter(text => !cached.has(text))));
+  let usage = { prompt_tokens: 0, total_tokens: 0 };
+
+  if (missing.length > 0) {
+    const response = await provider.embed(missing);
+    usage = response.usage;
+    missing.forEach((text, index) => cached.set(text, response.embeddings[index]));
+    await embeddingCache.store(missing, response.embeddings, provider.model, provider.dimensions);
+  }
+
+  return {
+    embeddings: texts.map(text => cached.get(text)!),
+    usage
+  };
+}
+
 /**
  * Generate embedding for a single text chunk
  */
 export async function generateEmbedding(text: string): Promise<EmbeddingResult> {
   try {
-    if (!openaiConfig.apiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
-
     if (!text.trim()) {
       throw new Error('Text cannot be empty');
     }
@@ -44,35 +75,18 @@ export async function generateEmbedding(text: string): Promise<EmbeddingResult>
     const cleanText = text.replace(/\n/g, ' ').trim();
     
     // Generate embedding
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: cleanText,
-      dimensions: EMBEDDING_DIMENSIONS,
-    });
-
-    if (!response.data || response.data.length === 0) {
-      throw new Error('No embedding returned from OpenAI');
+    const response = await embedWithCache([cleanText]);
+
+    if (response.embeddings.length === 0) {
+      throw new Error('No embedding returned from provider');
     }
 
     return {
-      embedding: response.data[0].embedding,
-      usage: {
-        prompt_tokens: response.usage?.prompt_tokens || 0,
-        total_tokens: response.usage?.total_tokens || 0,
-      }
+      embedding: response.embeddings[0],
+      usage: response.usage
     };
   } catch (error: any) {
     console.error('Error generating embedding:', error);
-    
-    // Handle specific OpenAI errors
-    if (error.status === 401) {
-      throw new Error('Invalid OpenAI API key');
-    } else if (error.status === 429) {
-      throw new Error('OpenAI API rate limit exceeded');
-    } else if (error.status === 400) {
-      throw new Error('Invalid input text for embedding');
-    }
-    
     throw new Error(`Failed to generate embedding: ${error.message}`);
   }
 }
@@ -82,10 +96,6 @@ export async function generateEmbedding(text: string): Promise<EmbeddingResult>
  */
 export async function generateBatchEmbeddings(texts: string[]): Promise<BatchEmbeddingResult> {
   try {
-    if (!openaiConfig.apiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
-
     if (texts.length === 0) {
       throw new Error('No texts provided');
     }
@@ -102,35 +112,15 @@ export async function generateBatchEmbeddings(texts: string[]): Promise<BatchEmb
     }
 
     // Generate embeddings
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: cleanTexts,
-      dimensions: EMBEDDING_DIMENSIONS,
-    });
+    const response = await embedWithCache(cleanTexts);
 
-    if (!response.data || response.data.length !== cleanTexts.length) {
+    if (response.embeddings.length !== cleanTexts.length) {
       throw new Error('Mismatch between input texts and returned embeddings');
     }
 
-    return {
-      embeddings: response.data.map(item => item.embedding),
-      usage: {
-        prompt_tokens: response.usage?.prompt_tokens || 0,
-        total_tokens: response.usage?.total_tokens || 0,
-      }
-    };
+    return response;
   } catch (error: any) {
     console.error('Error generating batch embeddings:', error);
-    
-    // Handle specific OpenAI errors
-    if (error.status === 401) {
-      throw new Error('Invalid OpenAI API key');
-    } else if (error.status === 429) {
-      throw new Error('OpenAI API rate limit exceeded');
-    } else if (error.status === 400) {
-      throw new Error('Invalid input texts for embedding');
-    }
-    
     throw new Error(`Failed to generate batch embeddings: ${error.message}`);
   }
 }
@@ -160,8 +150,8 @@ export async function generateLargeBatchEmbeddings(
         onProgress(i + batch.length, texts.length);
       }
       
-      // Add delay between batches to respect rate limits
-      if (i + MAX_BATCH_SIZE < texts.length) {
+      // Add delay between batches to respect rate limits (not needed when fully cached)
+      if (i + MAX_BATCH_SIZE < texts.length && result.usage.total_tokens > 0) {
         await new Promise(resolve => setTimeout(resolve, 1000)); // 1 second delay
       }
     } catch (error) {
@@ -213,7 +203,8 @@ export function estimateEmbeddingCost(textCount: number, averageTokensPerText: n
   estimatedCostUSD: number;
 } {
   const estimatedTokens = textCount * averageTokensPerText;
-  const costPerToken = 0.00000002; // $0.02 per 1M tokens for text-embedding-3-small
+  // $0.02 per 1M tokens for text-embedding-3-small; local providers are free
+  const costPerToken = getEmbeddingProvider().name === 'openai' ? 0.00000002 : 0;
   const estimatedCostUSD = estimatedTokens * costPerToken;
   
   return {
@@ -223,16 +214,16 @@ export function estimateEmbeddingCost(textCount: number, averageTokensPerText: n
 }
 
 /**
- * Test OpenAI API connection
+ * Test the configured embedding provider
  */
 export async function testOpenAIConnection(): Promise<boolean> {
   try {
     const testResult = await generateEmbedding('test');
     return testResult.embedding.length === EMBEDDING_DIMENSIONS;
   } catch (error) {
-    console.error('OpenAI connection test failed:', error);
+    console.error('Embedding provider connection test failed:', error);
     return false;
   }
 }
 
-export { EMBEDDING_MODEL, EMBEDDING_DIMENSIONS, MAX_BATCH_SIZE };
\ No newline at end of file
+export { EMBEDDING_DIMENSIONS, MAX_BATCH_SIZE };
\ No newline at end of file
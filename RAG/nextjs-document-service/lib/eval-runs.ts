@@ -0,0 +1,133 @@
+/**
+ * Stored evaluation runs
+ * Retrieval (lib/retrieval-eval.ts) and answer (lib/answer-eval.ts) runs are
+ * saved with their summary metrics and the configuration they ran under.
+ * compareEvalRuns() lines runs up metric by metric, so a change of model,
+ * prompt or search setting can be checked before it is deployed.
+ */
+
+import { db } from './database';
+
+export type EvalRunKind = 'retrieval' | 'answer';
+
+export interface EvalRunRecord {
+  id: string;
+  user_id: string;
+  kind: EvalRunKind;
+  name: string;
+  question_count: number;
+  config: Record<string, any>;
+  summary: Record<string, any>;
+  results?: Record<string, any>;
+  created_at: Date;
+}
+
+export class EvalRunService {
+  static async saveRun(run: {
+    userId: string;
+    kind: EvalRunKind;
+    name: string;
+    questionCount: number;
+    config: Record<string, any>;
+    summary: Record<string, any>;
+    results: Record<string, any>;
+  }): Promise<EvalRunRecord> {
+    const result = await db.query(`
+      INSERT INTO eval_runs (user_id, kind, name, question_count, config, summary, results)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id, user_id, kind, name, question_count, config, summary, created_at
+    `, [
+      run.userId,
+      run.kind,
+      run.name,
+      run.questionCount,
+      JSON.stringify(run.config),
+      JSON.stringify(run.summary),
+      JSON.stringify(run.results)
+    ]);
+    return result.rows[0];
+  }
+
+  // Newest first, without per-question results
+  static async listRuns(userId: string, options: { kind?: EvalRunKind; limit?: number } = {}): Promise<EvalRunRecord[]> {
+    const { kind = null, limit = 50 } = options;
+    const result = await db.query(`
+      SELECT id, user_id, kind, name, question_count, config, summary, created_at
+      FROM eval_runs
+      WHERE user_id = $1 AND ($2::text IS NULL OR kind = $2)
+      ORDER BY created_at DESC
+      LIMIT $3
+    `, [userId, kind, limit]);
+    return result.rows;
+  }
+
+  // Runs of other users are reported as missing
+  static async getRun(id: string, userId: string): Promise<EvalRunRecord | null> {
+    const result = await db.query(`
+      SELECT id, user_id, kind, name, question_count, config, summary, results, created_at
+      FROM eval_runs
+      WHERE id = $1 AND user_id = $2
+    `, [id, userId]);
+    return result.rows[0] || null;
+  }
+
+  // Requested order is kept; ids of other users' runs are skipped
+  static async getRuns(ids: string[], userId: string): Promise<EvalRunRecord[]> {
+    const result = await db.query(`
+      SELECT id, user_id, kind, name, question_count, config, summary, created_at
+      FROM eval_runs
+      WHERE id = ANY($1::uuid[]) AND user_id = $2
+    `, [ids, userId]);
+    return ids
+      .map(id => result.rows.find((row: EvalRunRecord) => row.id === id))
+      .filter((run): run is EvalRunRecord => Boolean(run));
+  }
+}
+
+export interface EvalComparison {
+  runs: Array<{ id: string; name: string; kind: EvalRunKind; created_at: Date }>;
+  // One row per summary metric; delta is last run minus first run
+  metrics: Array<{ metric: string; values: Array<number | null>; delta: number | null }>;
+  // Settings that differ between the runs
+  configChanges: Array<{ setting: string; values: any[] }>;
+}
+
+// Numeric leaves of a nested object, keyed by dotted path
+export function flattenMetrics(value: any, prefix = '', into: Record<string, number> = {}): Record<string, number> {
+  if (typeof value === 'number') {
+    into[prefix] = value;
+  } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+    Object.keys(value).forEach(key => flattenMetrics(value[key], prefix ? `${prefix}.${key}` : key, into));
+  }
+  return into;
+}
+
+/**
+ * Line up runs of the same kind, first run as the baseline
+ */
+export function compareEvalRuns(runs: EvalRunRecord[]): EvalComparison {
+  const flattened = runs.map(run => flattenMetrics(run.summary));
+  const metricNames = Array.from(new Set(flattened.flatMap(metrics => Object.keys(metrics))));
+
+  const metrics = metricNames.map(metric => {
+    const values = flattened.map(metrics => (metric in metrics ? metrics[metric] : null));
+    const first = values[0];
+    const last = values[values.length - 1];
+    return {
+      metric,
+      values,
+      delta: values.length > 1 && first !== null && last !== null ? Math.round((last - first) * 10000) / 10000 : null
+    };
+  });
+
+  const settings = Array.from(new Set(runs.flatMap(run => Object.keys(run.config || {}))));
+  const configChanges = settings
+    .map(setting => ({ setting, values: runs.map(run => run.config?.[setting] ?? null) }))
+    .filter(({ values }) => new Set(values.map(value => JSON.stringify(value))).size > 1);
+
+  return {
+    runs: runs.map(run => ({ id: run.id, name: run.name, kind: run.kind, created_at: run.created_at })),
+    metrics,
+    configChanges
+  };
+}
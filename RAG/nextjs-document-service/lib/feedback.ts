@@ -0,0 +1,265 @@
+/**
+ * User feedback on answers and search results
+ * Feedback is stored against the query_log row of the query it rates:
+ * thumbs up/down with an optional comment for chat answers, and relevant /
+ * not relevant marks for individual sources. The feedback job turns it into
+ *   - per-chunk boosts (chunk_feedback) that the reranker adds to its scores,
+ *     so chunks that keep being rated irrelevant sink
+ *   - golden set questions for lib/retrieval-eval.ts and lib/answer-eval.ts
+ */
+
+import { db } from './database';
+import { ragConfig } from './config';
+import type { GoldenQuestion } from './retrieval-eval';
+
+export interface SourceMark {
+  chunkId: string;
+  relevant: boolean;
+}
+
+export interface FeedbackInput {
+  answer: { rating: 'up' | 'down'; comment: string | null } | null;
+  sources: SourceMark[];
+}
+
+// One rated query, as read by the eval case builder
+export interface FeedbackCaseRow {
+  query_id: string;
+  query_text: string;
+  result_count: number;
+  answer_rating: number | null;
+  relevant_chunk_ids: string[];
+}
+
+/**
+ * Feedback that does not fit the query it rates
+ */
+export class FeedbackValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedbackValidationError';
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Read a feedback body: { answer?: { rating: 'up' | 'down', comment? },
+ * sources?: [{ chunkId, relevant }] }. At least one of the two is required.
+ */
+export function parseFeedback(input: any): { feedback: FeedbackInput | null; error?: string } {
+  if (typeof input !== 'object' || input === null) {
+    return { feedback: null, error: 'Feedback body must be an object' };
+  }
+
+  let answer: FeedbackInput['answer'] = null;
+  if (input.answer !== undefined && input.answer !== null) {
+    if (input.answer.rating !== 'up' && input.answer.rating !== 'down') {
+      return { feedback: null, error: 'answer.rating must be "up" or "down"' };
+    }
+    const comment = input.answer.comment ?? null;
+    if (comment !== null && (typeof comment !== 'string' || comment.length > MAX_COMMENT_LENGTH)) {
+      return { feedback: null, error: `answer.comment must be a string of at most ${MAX_COMMENT_LENGTH} characters` };
+    }
+    answer = { rating: input.answer.rating, comment: comment?.trim() || null };
+  }
+
+  // A chunk marked twice keeps its last mark
+  const marks = new Map<string, boolean>();
+  if (input.sources !== undefined) {
+    if (!Array.isArray(input.sources)) {
+      return { feedback: null, error: 'sources must be an array of { chunkId, relevant }' };
+    }
+    for (const mark of input.sources) {
+      if (typeof mark?.chunkId !== 'string' || !UUID_PATTERN.test(mark.chunkId) || typeof mark.relevant !== 'boolean') {
+        return { feedback: null, error: 'each source mark needs a chunkId (UUID) and relevant (boolean)' };
+      }
+      marks.set(mark.chunkId.toLowerCase(), mark.relevant);
+    }
+  }
+  const sources = Array.from(marks.entries()).map(([chunkId, relevant]) => ({ chunkId, relevant }));
+
+  if (!answer && sources.length === 0) {
+    return { feedback: null, error: 'Provide answer feedback, source marks or both' };
+  }
+  return { feedback: { answer, sources } };
+}
+
+/**
+ * Boost for a chunk from its source marks: the net share of helpful marks,
+ * smoothed so a few votes move it little, scaled to at most `weight` either way.
+ * Chunks with fewer than minVotes marks are left alone.
+ */
+export function computeChunkBoost(
+  helpful: number,
+  irrelevant: number,
+  options: { weight?: number; minVotes?: number } = {}
+): number {
+  const { weight = ragConfig.feedbackBoostWeight, minVotes = ragConfig.feedbackMinVotes } = options;
+  const votes = helpful + irrelevant;
+  if (votes === 0 || votes < minVotes) return 0;
+  return Math.round(((weight * (helpful - irrelevant)) / (votes + minVotes)) * 10000) / 10000;
+}
+
+/**
+ * Golden questions from rated queries. Sources marked relevant become chunkId
+ * labels; a query that found nothing and whose "not enough information" answer
+ * was rated helpful becomes an unanswerable question. Repeats of a question
+ * are merged; queries with neither signal are skipped.
+ */
+export function buildFeedbackEvalCases(rows: FeedbackCaseRow[]): GoldenQuestion[] {
+  const cases = new Map<string, GoldenQuestion>();
+
+  for (const row of rows) {
+    const key = row.query_text.trim().toLowerCase();
+    const existing = cases.get(key);
+    const chunkIds = Array.from(new Set(row.relevant_chunk_ids));
+
+    if (chunkIds.length > 0) {
+      const labels = existing?.answerable ? existing.relevant : [];
+      chunkIds
+        .filter(chunkId => !labels.some(label => label.chunkId === chunkId))
+        .forEach(chunkId => labels.push({ chunkId }));
+      cases.set(key, { id: existing?.id ?? `fb-${row.query_id}`, question: existing?.question ?? row.query_text.trim(), relevant: labels, answerable: true });
+    } else if (row.result_count === 0 && row.answer_rating === 1 && !existing) {
+      cases.set(key, { id: `fb-${row.query_id}`, question: row.query_text.trim(), relevant: [], answerable: false });
+    }
+  }
+
+  return Array.from(cases.values());
+}
+
+export class FeedbackService {
+  /**
+   * Store feedback for one of the user's logged queries. Rating the same
+   * answer or source again replaces the earlier rating. Returns null when the
+   * query is not the user's; throws on marks for chunks the query did not return.
+   */
+  static async submit(queryId: string, userId: string, feedback: FeedbackInput): Promise<{ answer: boolean; sources: number } | null> {
+    const logged = await db.query(`
+      SELECT source, results FROM query_log WHERE id = $1 AND user_id = $2
+    `, [queryId, userId]);
+    if (logged.rows.length === 0) {
+      return null;
+    }
+
+    const { source, results } = logged.rows[0];
+    if (feedback.answer && source !== 'chat') {
+      throw new FeedbackValidationError('Only chat queries have an answer to rate');
+    }
+    const returned = new Set((results as Array<{ chunk_id: string }>).map(result => String(result.chunk_id).toLowerCase()));
+    const unknown = feedback.sources.filter(mark => !returned.has(mark.chunkId));
+    if (unknown.length > 0) {
+      throw new FeedbackValidationError(`Chunks not returned by this query: ${unknown.map(mark => mark.chunkId).join(', ')}`);
+    }
+
+    if (feedback.answer) {
+      await db.query(`
+        INSERT INTO query_feedback (query_log_id, user_id, target, rating, comment)
+        VALUES ($1, $2, 'answer', $3, $4)
+        ON CONFLICT (query_log_id) WHERE target = 'answer'
+        DO UPDATE SET rating = EXCLUDED.rating, comment = EXCLUDED.comment, updated_at = NOW()
+      `, [queryId, userId, feedback.answer.rating === 'up' ? 1 : -1, feedback.answer.comment]);
+    }
+
+    if (feedback.sources.length > 0) {
+      await db.query(`
+        INSERT INTO query_feedback (query_log_id, user_id, target, chunk_id, rating)
+        SELECT $1::bigint, $2, 'source', mark.chunk_id, mark.rating
+        FROM UNNEST($3::uuid[], $4::smallint[]) AS mark(chunk_id, rating)
+        ON CONFLICT (query_log_id, chunk_id) WHERE target = 'source'
+        DO UPDATE SET rating = EXCLUDED.rating, updated_at = NOW()
+      `, [
+        queryId,
+        userId,
+        feedback.sources.map(mark => mark.chunkId),
+        feedback.sources.map(mark => (mark.relevant ? 1 : -1))
+      ]);
+    }
+
+    return { answer: feedback.answer !== null, sources: feedback.sources.length };
+  }
+
+  /**
+   * Rebuild chunk_feedback from every source mark
+   */
+  static async refreshChunkBoosts(): Promise<{ chunks: number; boosted: number; penalized: number }> {
+    const votes = await db.query(`
+      SELECT
+        chunk_id::text as chunk_id,
+        COUNT(*) FILTER (WHERE rating = 1)::int as helpful,
+        COUNT(*) FILTER (WHERE rating = -1)::int as irrelevant
+      FROM query_feedback
+      WHERE target = 'source'
+      GROUP BY chunk_id
+    `);
+
+    const rows = votes.rows.map((row: any) => ({ ...row, boost: computeChunkBoost(row.helpful, row.irrelevant) }));
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM chunk_feedback');
+      if (rows.length > 0) {
+        await client.query(`
+          INSERT INTO chunk_feedback (chunk_id, helpful_count, irrelevant_count, boost)
+          SELECT * FROM UNNEST($1::uuid[], $2::int[], $3::int[], $4::real[])
+        `, [
+          rows.map((row: any) => row.chunk_id),
+          rows.map((row: any) => row.helpful),
+          rows.map((row: any) => row.irrelevant),
+          rows.map((row: any) => row.boost)
+        ]);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return {
+      chunks: rows.length,
+      boosted: rows.filter((row: any) => row.boost > 0).length,
+      penalized: rows.filter((row: any) => row.boost < 0).length
+    };
+  }
+
+  /**
+   * Boosts for the given chunks; chunks without one are absent
+   */
+  static async getChunkBoosts(chunkIds: string[]): Promise<Map<string, number>> {
+    const ids = chunkIds.filter(id => UUID_PATTERN.test(id));
+    if (ids.length === 0) {
+      return new Map();
+    }
+    const result = await db.query(`
+      SELECT chunk_id::text as chunk_id, boost FROM chunk_feedback
+      WHERE chunk_id = ANY($1::uuid[]) AND boost <> 0
+    `, [ids]);
+    return new Map(result.rows.map((row: any) => [row.chunk_id, Number(row.boost)]));
+  }
+
+  /**
+   * Golden questions from the user's feedback of the last `days` days
+   */
+  static async getEvalCases(userId: string, days = 90): Promise<GoldenQuestion[]> {
+    const result = await db.query(`
+      SELECT
+        q.id::text as query_id,
+        q.query_text,
+        q.result_count,
+        MAX(f.rating) FILTER (WHERE f.target = 'answer') as answer_rating,
+        COALESCE(ARRAY_AGG(f.chunk_id::text) FILTER (WHERE f.target = 'source' AND f.rating = 1), '{}') as relevant_chunk_ids
+      FROM query_log q
+      JOIN query_feedback f ON f.query_log_id = q.id
+      WHERE q.user_id = $1 AND f.updated_at >= NOW() - ($2::int * INTERVAL '1 day')
+      GROUP BY q.id
+      ORDER BY q.id
+    `, [userId, days]);
+    return buildFeedbackEvalCases(result.rows);
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * HTML extraction for exported web pages
+ * Headings become markdown headings, lists become "-" and "1." items and
+ * data tables become ExtractedTables, written into the text as markdown
+ * tables. The head, scripts, styles and navigation are left out.
+ */
+
+import type { ExtractedContent } from './ingestion';
+import { childElements, MarkupElement, parseMarkup } from './markup';
+import type { ExtractedTable } from './pdf-processor';
+import { buildStructuredTable, TableCell, tableToMarkdown } from './structured-tables';
+
+// Not part of the page's content
+const SKIPPED_ELEMENTS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'nav', 'iframe', 'object', 'select', 'button']);
+
+// Elements that start a new block of text
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'center', 'dd', 'details', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'header', 'hr', 'html', 'li', 'main', 'p', 'section', 'summary'
+]);
+
+interface RenderContext {
+  blocks: string[];
+  tables: ExtractedTable[];
+  // Inline text of the block being read
+  inline: string;
+}
+
+export function processHtml(html: string): ExtractedContent {
+  try {
+    const context: RenderContext = { blocks: [], tables: [], inline: '' };
+    renderChildren(parseMarkup(html, { html: true }), context);
+    flush(context);
+
+    return { text: context.blocks.join('\n\n'), tables: context.tables, markdown: true };
+  } catch (error) {
+    throw new Error(`Failed to process HTML: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function renderChildren(element: MarkupElement, context: RenderContext, listDepth: number = 0): void {
+  for (const child of element.children) {
+    if (typeof child === 'string') {
+      context.inline += child.replace(/\s+/g, ' ');
+      continue;
+    }
+
+    const name = child.name;
+    if (SKIPPED_ELEMENTS.has(name) || child.attributes.hidden !== undefined || child.attributes['aria-hidden'] === 'true') {
+      continue;
+    }
+
+    const heading = /^h([1-6])$/.exec(name);
+    if (name === 'br') {
+      context.inline += '\n';
+    } else if (heading) {
+      flush(context);
+      const text = renderedBlocks(child, context).join(' ');
+      if (text) context.blocks.push(`${'#'.repeat(parseInt(heading[1]))} ${text}`);
+    } else if (name === 'ul' || name === 'ol') {
+      flush(context);
+      renderList(child, context, listDepth);
+    } else if (name === 'table') {
+      flush(context);
+      renderTable(child, context);
+    } else if (name === 'pre') {
+      flush(context);
+      const text = preformattedText(child).replace(/^\n+|\s+$/g, '');
+      if (text) context.blocks.push(text);
+    } else if (BLOCK_ELEMENTS.has(name)) {
+      flush(context);
+      renderChildren(child, context, listDepth);
+      flush(context);
+    } else {
+      renderChildren(child, context, listDepth);
+    }
+  }
+}
+
+// End the current block: whitespace collapsed, line breaks from <br> kept
+function flush(context: RenderContext): void {
+  const text = context.inline
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+  if (text) context.blocks.push(text);
+  context.inline = '';
+}
+
+// An element's content as blocks of its own; tables found inside are still collected
+function renderedBlocks(element: MarkupElement, context: RenderContext, listDepth: number = 0): string[] {
+  const inner: RenderContext = { blocks: [], tables: context.tables, inline: '' };
+  renderChildren(element, inner, listDepth);
+  flush(inner);
+  return inner.blocks;
+}
+
+function renderList(list: MarkupElement, context: RenderContext, depth: number): void {
+  const indent = '  '.repeat(depth);
+  const lines: string[] = [];
+  childElements(list, 'li').forEach((item, index) => {
+    const marker = list.name === 'ol' ? `${index + 1}.` : '-';
+    renderedBlocks(item, context, depth + 1).forEach((block, blockIndex) => {
+      // Nested lists come back already indented
+      const nested = /^\s*(-|\d+\.) /.test(block) && blockIndex > 0;
+      block.split('\n').forEach((line, lineIndex) => {
+        if (nested) {
+          lines.push(line);
+        } else if (blockIndex === 0 && lineIndex === 0) {
+          lines.push(`${indent}${marker} ${line}`);
+        } else {
+          lines.push(`${indent}  ${line}`);
+        }
+      });
+    });
+  });
+  if (lines.length > 0) context.blocks.push(lines.join('\n'));
+}
+
+function renderTable(table: MarkupElement, context: RenderContext): void {
+  const caption = childElements(table, 'caption').map(element => renderedBlocks(element, context).join(' ')).join(' ');
+  const rows: Array<{ element: MarkupElement; header: boolean }> = [];
+  for (const child of childElements(table)) {
+    if (child.name === 'tr') {
+      rows.push({ element: child, header: false });
+    } else if (['thead', 'tbody', 'tfoot'].includes(child.name)) {
+      childElements(child, 'tr').forEach(row => rows.push({ element: row, header: child.name === 'thead' }));
+    }
+  }
+
+  const cellBlocks: string[][] = [];
+  const cells: TableCell[][] = rows.map(({ element, header }) =>
+    childElements(element)
+      .filter(cell => cell.name === 'td' || cell.name === 'th')
+      .map(cell => {
+        const blocks = renderedBlocks(cell, context);
+        cellBlocks.push(blocks);
+        return {
+          text: blocks.join(' '),
+          colSpan: parseInt(cell.attributes.colspan) || 1,
+          rowSpan: parseInt(cell.attributes.rowspan) || 1,
+          header: header || cell.name === 'th'
+        };
+      }));
+
+  const extracted = buildStructuredTable(cells, 1, caption || undefined);
+  if (!extracted) {
+    // A layout table: keep its content as ordinary text
+    if (caption) context.blocks.push(caption);
+    cellBlocks.forEach(blocks => context.blocks.push(...blocks));
+    return;
+  }
+
+  context.tables.push(extracted);
+  context.blocks.push(caption ? `${caption}\n\n${tableToMarkdown(extracted)}` : tableToMarkdown(extracted));
+}
+
+function preformattedText(element: MarkupElement): string {
+  return element.children
+    .map(child => (typeof child === 'string' ? child : child.name === 'br' ? '\n' : preformattedText(child)))
+    .join('');
+}
@@ -0,0 +1,373 @@
+/**
+ * Semantic, keyword and hybrid retrieval, shared by search, chat and the
+ * retrieval eval so every caller ranks chunks the same way.
+ * Hybrid search merges the semantic and keyword result lists into one ranking. Strategies:
+ * - rrf: reciprocal rank fusion, sum of weight / (k + rank); ignores raw scores
+ * - weighted: min-max normalize each list, then a weighted sum
+ * - convex: alpha * semantic + (1 - alpha) * keyword on the raw 0-1 scores
+ * Every fused result carries the per-list rank, score and contribution that
+ * produced its fused score. Fused scores rank results but have no fixed scale
+ * (rrf sums are around 0.03), so each result also has normalizedScore: the
+ * fused score divided by the best one the options allow, 0-1. minScore
+ * applies to normalizedScore.
+ */
+
+import { ragConfig } from './config';
+import { generateEmbedding } from './embeddings';
+import { searchSimilarChunks, getChunkService } from './database-adapter';
+import type { VersionScope } from './database';
+import { parseKeywordQuery, KeywordRanking } from './keyword-search';
+import type { SearchFilters } from './search-filters';
+import type { UsageMeter } from './query-log';
+
+export type FusionStrategy = 'rrf' | 'weighted' | 'convex';
+
+export const FUSION_STRATEGIES: FusionStrategy[] = ['rrf', 'weighted', 'convex'];
+
+export interface FusionOptions {
+  strategy: FusionStrategy;
+  k: number; // rrf rank offset
+  semanticWeight: number; // rrf and weighted
+  keywordWeight: number;
+  alpha: number; // convex: share of the semantic score
+  minScore: number; // Drop fused results whose normalizedScore (0-1) is below this
+}
+
+export interface FusionInput {
+  chunk_id: string | number;
+  score: number;
+}
+
+export interface ListContribution {
+  rank: number; // 1-based
+  score: number; // Score from that list
+  normalized?: number; // weighted only
+  contribution: number; // Share of the final score
+}
+
+export interface ScoreDerivation {
+  chunk_id: string;
+  fused_score: number;
+  normalized_score: number;
+  semantic: ListContribution | null;
+  keyword: ListContribution | null;
+}
+
+export interface FusedResult<T> {
+  item: T;
+  score: number; // Fused score, used for ranking
+  normalizedScore: number; // 0-1, same order
+  derivation: ScoreDerivation;
+}
+
+export function defaultFusionOptions(): FusionOptions {
+  return {
+    strategy: ragConfig.hybridFusion,
+    k: ragConfig.rrfK,
+    semanticWeight: ragConfig.hybridSemanticWeight,
+    keywordWeight: 1 - ragConfig.hybridSemanticWeight,
+    alpha: ragConfig.hybridSemanticWeight,
+    minScore: 0
+  };
+}
+
+/**
+ * Merge request-supplied fusion settings over the defaults
+ */
+export function parseFusionOptions(input: any): { options?: FusionOptions; error?: string } {
+  const options = defaultFusionOptions();
+  if (input === undefined || input === null) {
+    return { options };
+  }
+  if (typeof input === 'string') {
+    input = { strategy: input };
+  }
+  if (typeof input !== 'object') {
+    return { error: 'fusion must be a strategy name or an object' };
+  }
+
+  if (input.strategy !== undefined) {
+    if (!FUSION_STRATEGIES.includes(input.strategy)) {
+      return { error: `fusion.strategy must be one of: ${FUSION_STRATEGIES.join(', ')}` };
+    }
+    options.strategy = input.strategy;
+  }
+
+  for (const key of ['k', 'semanticWeight', 'keywordWeight', 'alpha', 'minScore'] as const) {
+    if (input[key] === undefined) continue;
+    const value = input[key];
+    if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+      return { error: `fusion.${key} must be a non-negative number` };
+    }
+    options[key] = value;
+  }
+
+  if (options.alpha > 1) {
+    return { error: 'fusion.alpha must be between 0 and 1' };
+  }
+  if (options.minScore > 1) {
+    return { error: 'fusion.minScore must be between 0 and 1' };
+  }
+  // A single weight implies the other
+  if (input.semanticWeight !== undefined && input.keywordWeight === undefined && options.semanticWeight <= 1) {
+    options.keywordWeight = 1 - options.semanticWeight;
+  } else if (input.keywordWeight !== undefined && input.semanticWeight === undefined && options.keywordWeight <= 1) {
+    options.semanticWeight = 1 - options.keywordWeight;
+  }
+
+  return { options };
+}
+
+/**
+ * The highest fused score the options allow: first in both lists (rrf), or
+ * the top score of both lists (weighted, convex; raw scores are 0-1)
+ */
+export function maxFusedScore(options: FusionOptions): number {
+  switch (options.strategy) {
+    case 'rrf':
+      return (options.semanticWeight + options.keywordWeight) / (options.k + 1);
+    case 'weighted':
+      return options.semanticWeight + options.keywordWeight;
+    case 'convex':
+      return 1;
+  }
+}
+
+// Map each score to [0, 1]; a list of equal scores maps to 1
+function minMax(scores: number[]): (score: number) => number {
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  return score => (max === min ? 1 : (score - min) / (max - min));
+}
+
+/**
+ * Fuse two ranked lists (best first). Results appearing in both lists are
+ * merged; the item from the semantic list is kept.
+ */
+export function fuseResults<T extends FusionInput>(
+  semantic: T[],
+  keyword: T[],
+  options: FusionOptions,
+  maxResults?: number
+): Array<FusedResult<T>> {
+  const semanticNorm = semantic.length > 0 ? minMax(semantic.map(r => r.score)) : () => 0;
+  const keywordNorm = keyword.length > 0 ? minMax(keyword.map(r => r.score)) : () => 0;
+
+  const contribution = (result: T, index: number, list: 'semantic' | 'keyword'): ListContribution => {
+    const rank = index + 1;
+    const isSemantic = list === 'semantic';
+    switch (options.strategy) {
+      case 'rrf': {
+        const weight = isSemantic ? options.semanticWeight : options.keywordWeight;
+        return { rank, score: result.score, contribution: weight / (options.k + rank) };
+      }
+      case 'weighted': {
+        const weight = isSemantic ? options.semanticWeight : options.keywordWeight;
+        const normalized = (isSemantic ? semanticNorm : keywordNorm)(result.score);
+        return { rank, score: result.score, normalized, contribution: weight * normalized };
+      }
+      case 'convex': {
+        const weight = isSemantic ? options.alpha : 1 - options.alpha;
+        return { rank, score: result.score, contribution: weight * result.score };
+      }
+    }
+  };
+
+  const fused = new Map<string, FusedResult<T>>();
+
+  semantic.forEach((result, index) => {
+    const key = String(result.chunk_id);
+    if (fused.has(key)) return; // Duplicates keep their best rank
+    const semanticPart = contribution(result, index, 'semantic');
+    fused.set(key, {
+      item: result,
+      score: semanticPart.contribution,
+      normalizedScore: 0,
+      derivation: { chunk_id: key, fused_score: 0, normalized_score: 0, semantic: semanticPart, keyword: null }
+    });
+  });
+
+  keyword.forEach((result, index) => {
+    const key = String(result.chunk_id);
+    const existing = fused.get(key);
+    if (existing?.derivation.keyword) return;
+    const keywordPart = contribution(result, index, 'keyword');
+    if (existing) {
+      existing.score += keywordPart.contribution;
+      existing.derivation.keyword = keywordPart;
+    } else {
+      fused.set(key, {
+        item: result,
+        score: keywordPart.contribution,
+        normalizedScore: 0,
+        derivation: { chunk_id: key, fused_score: 0, normalized_score: 0, semantic: null, keyword: keywordPart }
+      });
+    }
+  });
+
+  const best = maxFusedScore(options);
+  const ranked = Array.from(fused.values());
+  ranked.forEach(result => {
+    result.normalizedScore = best > 0 ? Math.min(1, result.score / best) : 0;
+    result.derivation.fused_score = result.score;
+    result.derivation.normalized_score = result.normalizedScore;
+  });
+  const kept = ranked
+    .filter(result => result.normalizedScore >= options.minScore)
+    .sort((a, b) => b.score - a.score);
+
+  return maxResults === undefined ? kept : kept.slice(0, maxResults);
+}
+
+export type RetrievalMode = 'semantic' | 'keyword' | 'hybrid';
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ['semantic', 'keyword', 'hybrid'];
+
+export interface RetrievalOptions {
+  userId: string;
+  maxResults: number;
+  similarityThreshold: number; // semantic and hybrid
+  scope?: VersionScope; // Defaults to the latest version of each document
+  keywordRanking?: KeywordRanking;
+  fusion?: FusionOptions; // hybrid
+  filters?: SearchFilters | null;
+  collectionIds?: string[] | null;
+  usage?: UsageMeter; // Receives the query embedding's tokens
+}
+
+/**
+ * A retrieved chunk. similarity_score is 0-1 in every mode; callers map
+ * page and metadata to their own response fields.
+ */
+export interface RetrievedChunk {
+  chunk_id: string;
+  document_id: string;
+  filename: string;
+  chunk_text: string;
+  chunk_index: number;
+  page: number | null;
+  metadata: Record<string, any>;
+  similarity_score: number;
+  search_type: RetrievalMode;
+  raw_score?: number; // keyword: rank before scaling to 0-1
+  fused_score?: number; // hybrid: score the results are ranked by
+  semantic_score?: number; // hybrid: score from each list, 0 when absent
+  keyword_score?: number;
+  source_type?: RetrievalMode; // hybrid: 'hybrid' when found by both lists
+}
+
+export interface Retrieval {
+  results: RetrievedChunk[];
+  searchDetails: Record<string, any>;
+}
+
+function toRetrievedChunk(row: any, score: number, searchType: RetrievalMode): RetrievedChunk {
+  return {
+    chunk_id: row.chunk_id,
+    document_id: row.document_id,
+    filename: row.filename,
+    chunk_text: row.chunk_text,
+    chunk_index: row.chunk_index,
+    page: row.page ?? null,
+    metadata: row.metadata || {},
+    similarity_score: score,
+    search_type: searchType
+  };
+}
+
+/**
+ * Chunks most similar to the query embedding
+ */
+export async function semanticSearch(query: string, options: RetrievalOptions): Promise<Retrieval> {
+  const { userId, maxResults, similarityThreshold, scope, filters = null, collectionIds = null, usage } = options;
+
+  const embeddingResult = await generateEmbedding(query);
+  usage?.addEmbedding(embeddingResult.usage.total_tokens);
+  const rows = await searchSimilarChunks(embeddingResult.embedding, userId, similarityThreshold, maxResults, scope, filters, collectionIds);
+  console.log(`Semantic search found ${rows.length} results`);
+
+  return {
+    results: rows.map(row => toRetrievedChunk(row, Number(row.similarity_score), 'semantic')),
+    searchDetails: {
+      embeddingDimensions: embeddingResult.embedding.length,
+      tokensUsed: embeddingResult.usage.total_tokens,
+      threshold: similarityThreshold,
+      searchType: 'semantic'
+    }
+  };
+}
+
+/**
+ * Full-text keyword search ranked with ts_rank_cd or BM25
+ */
+export async function keywordSearch(query: string, options: RetrievalOptions): Promise<Retrieval> {
+  const { userId, maxResults, scope, keywordRanking = ragConfig.keywordRanking, filters = null, collectionIds = null } = options;
+  const { terms, phrases } = parseKeywordQuery(query);
+
+  const chunkService = await getChunkService();
+  const rows = await chunkService.searchKeywordChunks(query, userId, { maxResults, scope, ranking: keywordRanking, filters, collectionIds });
+  console.log(`Keyword search found ${rows.length} results`);
+
+  return {
+    results: rows.map((row: any) => ({
+      ...toRetrievedChunk(row, Number(row.keyword_score), 'keyword'),
+      raw_score: Number(row.raw_score)
+    })),
+    searchDetails: {
+      terms,
+      phrases,
+      ranking: keywordRanking,
+      language: ragConfig.textSearchLanguage,
+      searchType: 'keyword'
+    }
+  };
+}
+
+/**
+ * Semantic and keyword rankings, each with twice maxResults candidates,
+ * fused by the requested strategy
+ */
+export async function hybridSearch(query: string, options: RetrievalOptions): Promise<Retrieval> {
+  const fusion = options.fusion || defaultFusionOptions();
+  const candidates = { ...options, maxResults: options.maxResults * 2 };
+
+  const [semantic, keyword] = await Promise.all([semanticSearch(query, candidates), keywordSearch(query, candidates)]);
+  const toInput = (result: RetrievedChunk) => ({ ...result, score: result.similarity_score });
+  const fused = fuseResults(semantic.results.map(toInput), keyword.results.map(toInput), fusion, options.maxResults);
+  console.log(`Hybrid: ${semantic.results.length} semantic + ${keyword.results.length} keyword results, ${fused.length} after ${fusion.strategy} fusion`);
+
+  return {
+    results: fused.map(({ item, score, normalizedScore, derivation }) => ({
+      // 0-1 like the other modes; the raw fused score is kept for ranking
+      ...toRetrievedChunk(item, normalizedScore, 'hybrid'),
+      fused_score: score,
+      semantic_score: derivation.semantic?.score ?? 0,
+      keyword_score: derivation.keyword?.score ?? 0,
+      source_type: derivation.semantic && derivation.keyword ? 'hybrid' : derivation.semantic ? 'semantic' : 'keyword'
+    })),
+    searchDetails: {
+      semanticResults: semantic.results.length,
+      keywordResults: keyword.results.length,
+      fusion,
+      // Per result: rank, score and contribution from each list
+      scoreDerivations: fused.map(result => result.derivation),
+      semanticDetails: semantic.searchDetails,
+      keywordDetails: keyword.searchDetails,
+      searchType: 'hybrid'
+    }
+  };
+}
+
+/**
+ * Retrieve with the given mode
+ */
+export function retrieve(mode: RetrievalMode, query: string, options: RetrievalOptions): Promise<Retrieval> {
+  switch (mode) {
+    case 'semantic':
+      return semanticSearch(query, options);
+    case 'keyword':
+      return keywordSearch(query, options);
+    case 'hybrid':
+      return hybridSearch(query, options);
+  }
+}
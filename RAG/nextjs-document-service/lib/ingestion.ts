@@ -0,0 +1,812 @@
+/**
+ * Document ingestion pipeline
+ * Extraction, chunking, embedding and storage for a single uploaded file.
+ * Runs inside the background job worker (see job-queue.ts).
+ */
+
+import { createHash } from 'crypto';
+import { db } from './database';
+import { ragConfig } from './config';
+import { createDocumentProcessor } from './realtime';
+import { generateEmbedding, getEmbeddingModelInfo } from './embeddings';
+import { processPDF, processImage, ExtractedTable } from './pdf-processor';
+import { OCR_IMAGE_EXTENSIONS, OCR_IMAGE_MIME_TYPES, OcrWord, ocrChunkMetadata, ocrUnavailableReason } from './ocr';
+import { processJson } from './json-processor';
+import { processHtml } from './html-processor';
+import { processDocx, processPptx, processXlsx } from './office-processor';
+import { processCsv } from './csv-processor';
+import { storeMedicalTables } from './medical-table-processor';
+import { pageAwareChunker } from './page-aware-chunker';
+import { markdownChunker } from './markdown-chunker';
+import { DocumentVersionService, VersionPlacement, hashChunkText } from './document-versions';
+
+export type PageMap = Map<number, { start: number; end: number; page: number }>;
+
+/**
+ * Text and tables read from an uploaded file
+ */
+export interface ExtractedContent {
+  text: string;
+  tables?: ExtractedTable[];
+  pageMap?: PageMap;
+  // OCR'd words with their offsets in `text`
+  ocrWords?: OcrWord[];
+  // The text is markdown, chunked by its headings (lib/markdown-chunker.ts)
+  markdown?: boolean;
+}
+
+export interface IngestionInput {
+  userId: string;
+  filename: string;
+  fileType: string;
+  fileSize: number;
+  buffer: Buffer;
+  jobId?: string;
+  // Rewrite this document in place (reindex) instead of creating a new one
+  targetDocumentId?: string;
+  // Store the upload as the next version of this document's family
+  parentDocumentId?: string;
+}
+
+export interface IngestionResult {
+  isDuplicate: boolean;
+  document: {
+    id: string;
+    filename: string;
+    size: number;
+    textLength: number;
+    chunksCount: number;
+    medicalTablesCount?: number;
+    processedAt: string;
+    status?: string;
+    uploadedAt?: string;
+    familyId?: string;
+    version?: number;
+    previousVersionId?: string | null;
+    reusedChunks?: number;
+    embeddedChunks?: number;
+  };
+  chunks: Array<{ id: string; index: number; text: string; wordCount: number }>;
+  preview: string;
+}
+
+/**
+ * Ingestion failure. Retryable failures (database, embedding API) are
+ * re-queued with backoff; the rest fail the job immediately.
+ */
+export class IngestionError extends Error {
+  retryable: boolean;
+
+  constructor(message: string, retryable: boolean = false) {
+    super(message);
+    this.name = 'IngestionError';
+    this.retryable = retryable;
+  }
+}
+
+export const SUPPORTED_EXTENSIONS = ['txt', 'md', 'markdown', 'pdf', 'json', 'docx', 'pptx', 'xlsx', 'csv', 'html', 'htm', ...OCR_IMAGE_EXTENSIONS];
+
+export const SUPPORTED_MIME_TYPES = [
+  'text/plain',
+  'text/markdown',
+  'text/x-markdown',
+  'application/pdf',
+  'application/json',
+  'text/json',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/csv',
+  'text/html',
+  ...OCR_IMAGE_MIME_TYPES,
+  'application/octet-stream'
+];
+
+// Extract text from supported file types with page tracking
+/**
+ * Validate an uploaded file's type and size; returns an error message or null
+ */
+export function validateUploadFile(file: { name: string; type: string; size: number }): string | null {
+  const fileExtension = file.name.toLowerCase().split('.').pop();
+  const isValidType = SUPPORTED_MIME_TYPES.includes(file.type) || SUPPORTED_EXTENSIONS.includes(fileExtension || '');
+
+  if (!isValidType) {
+    return `Only ${SUPPORTED_EXTENSIONS.map(extension => `.${extension}`).join(', ')} files are supported. Received: ${file.type} for ${file.name}`;
+  }
+
+  if (file.size > ragConfig.maxFileSize) {
+    return `File size must be less than ${Math.round(ragConfig.maxFileSize / 1024 / 1024)}MB`;
+  }
+
+  return null;
+}
+
+/**
+ * Image uploads are only accepted when they can be OCR'd; returns an error
+ * message or null
+ */
+export async function validateImageUpload(file: { name: string; type: string }): Promise<string | null> {
+  const fileExtension = file.name.toLowerCase().split('.').pop() || '';
+  if (!OCR_IMAGE_EXTENSIONS.includes(fileExtension) && !OCR_IMAGE_MIME_TYPES.includes(file.type)) {
+    return null;
+  }
+
+  const reason = await ocrUnavailableReason();
+  return reason ? `Image uploads need OCR, which is unavailable: ${reason}` : null;
+}
+
+export async function extractTextFromFile(file: { name: string; buffer: Buffer }): Promise<ExtractedContent> {
+  const fileExtension = file.name.toLowerCase().split('.').pop();
+
+  if (fileExtension === 'pdf') {
+    // Process PDF with table extraction and per-page text; scanned pages are OCR'd
+    const pdfResult = await processPDF(file.buffer);
+    return {
+      text: pdfResult.text,
+      tables: pdfResult.tables,
+      pageMap: pdfResult.pageMap,
+      ocrWords: pdfResult.ocrWords
+    };
+  } else if (OCR_IMAGE_EXTENSIONS.includes(fileExtension || '')) {
+    const imageResult = await processImage(file.buffer, fileExtension!);
+    return {
+      text: imageResult.text,
+      pageMap: imageResult.pageMap,
+      ocrWords: imageResult.ocrWords
+    };
+  } else if (fileExtension === 'docx') {
+    return processDocx(file.buffer);
+  } else if (fileExtension === 'pptx') {
+    // Slides are pages
+    return processPptx(file.buffer);
+  } else if (fileExtension === 'xlsx') {
+    // Sheets are pages, each one table
+    return processXlsx(file.buffer);
+  } else if (fileExtension === 'csv') {
+    return processCsv(file.buffer, file.name.replace(/\.csv$/i, ''));
+  } else if (fileExtension === 'html' || fileExtension === 'htm') {
+    return processHtml(file.buffer.toString('utf-8'));
+  } else if (fileExtension === 'json') {
+    const jsonContent = file.buffer.toString('utf-8');
+    const parsedJson = JSON.parse(jsonContent);
+
+    // Check for page-structured JSON
+    if (parsedJson.pages && Array.isArray(parsedJson.pages)) {
+      return processPageBasedJson(parsedJson);
+    }
+
+    // Fallback to regular JSON processing
+    const jsonResult = processJson(jsonContent);
+    const tables: ExtractedTable[] = jsonResult.tables.map(jsonTable => ({
+      data: jsonTable.data,
+      headers: jsonTable.headers,
+      rowCount: jsonTable.rowCount,
+      colCount: jsonTable.colCount,
+      page: 1,
+      confidence: jsonTable.confidence
+    }));
+
+    return { text: jsonResult.text, tables };
+  } else {
+    // Handle text files - try to detect page markers
+    const text = file.buffer.toString('utf-8');
+    let pageMap: PageMap | undefined;
+
+    // Look for common page markers in text files
+    const pageMarkers = text.match(/(?:^|\n)(?:Page \d+|--- Page \d+ ---|# Page \d+|\f)/gm);
+
+    if (pageMarkers && pageMarkers.length > 0) {
+      pageMap = new Map();
+      let currentPage = 1;
+      let currentPosition = 0;
+
+      // Simple page detection for text files
+      const sections = text.split(/(?:^|\n)(?:Page \d+|--- Page \d+ ---|# Page \d+|\f)/m);
+      sections.forEach((section, index) => {
+        if (section.trim()) {
+          pageMap!.set(index, {
+            start: currentPosition,
+            end: currentPosition + section.length,
+            page: currentPage
+          });
+          currentPosition += section.length;
+          currentPage++;
+        }
+      });
+    }
+
+    return { text, pageMap, markdown: fileExtension === 'md' || fileExtension === 'markdown' };
+  }
+}
+
+// Generate content hash for duplicate detection
+export function generateContentHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// Process page-structured JSON (minimalist approach)
+function processPageBasedJson(parsedJson: any): { text: string; pageMap: PageMap } {
+  const pages = parsedJson.pages.filter((page: any) => page.page);
+  const pageContents: string[] = [];
+  const pageMap: PageMap = new Map();
+
+  let currentPos = 0;
+
+  pages.forEach((page: any) => {
+    // Extract clean content: md > text > tables
+    const content = page.md ||
+                   (page.text && cleanText(page.text)) ||
+                   extractTables(page.items) ||
+                   '';
+
+    if (content.trim()) {
+      const cleanContent = `# Page ${page.page}\n\n${content.trim()}`;
+      const startPos = currentPos;
+      const endPos = currentPos + cleanContent.length;
+
+      pageContents.push(cleanContent);
+      pageMap.set(pages.indexOf(page), {
+        start: startPos,
+        end: endPos,
+        page: page.page
+      });
+
+      currentPos = endPos + 2; // +2 for page separator
+    }
+  });
+
+  return {
+    text: pageContents.join('\n\n---\n\n'),
+    pageMap
+  };
+}
+
+// Clean OCR text
+function cleanText(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .trim();
+}
+
+// Extract tables from page items
+function extractTables(items?: any[]): string {
+  if (!items) return '';
+
+  return items
+    .filter(item => item.type === 'table' && (item.csv || item.md))
+    .map(item => item.csv || item.md)
+    .join('\n\n');
+}
+
+// Helper function to find which page a chunk belongs to
+function findChunkPage(chunkText: string, fullText: string, pageMap?: PageMap): number[] {
+  if (!pageMap || pageMap.size === 0) {
+    return []; // No page information available
+  }
+
+  const chunkStart = fullText.indexOf(chunkText);
+  const chunkEnd = chunkStart + chunkText.length;
+  const pages: number[] = [];
+
+  // Find all pages that this chunk spans
+  for (const pageInfo of Array.from(pageMap.values())) {
+    // Check if chunk overlaps with this page
+    if (chunkStart <= pageInfo.end && chunkEnd >= pageInfo.start) {
+      if (!pages.includes(pageInfo.page)) {
+        pages.push(pageInfo.page);
+      }
+    }
+  }
+
+  return pages.sort((a, b) => a - b); // Return sorted page numbers
+}
+
+// Simple content type detection
+export function detectContentType(text: string): string {
+  const lowerText = text.toLowerCase();
+
+  // Medical patterns
+  const medicalTerms = ['pharmacist', 'prescription', 'medication', 'therapy', 'clinical', 'patient', 'treatment'];
+  const medicalCount = medicalTerms.filter(term => lowerText.includes(term)).length;
+
+  // Educational patterns
+  const educationalTerms = ['module', 'lesson', 'learning objective', 'course', 'training'];
+  const educationalCount = educationalTerms.filter(term => lowerText.includes(term)).length;
+
+  // Regulatory patterns
+  const regulatoryTerms = ['scope of practice', 'regulation', 'authority', 'province', 'jurisdiction'];
+  const regulatoryCount = regulatoryTerms.filter(term => lowerText.includes(term)).length;
+
+  // Determine primary content type
+  if (regulatoryCount >= 2) return 'regulatory';
+  if (medicalCount >= 3) return 'medical';
+  if (educationalCount >= 2) return 'educational';
+  return 'general';
+}
+
+// Check for duplicate files. Content decides; filename and size only identify
+// legacy documents stored before content hashes were recorded, so a revised
+// file with the same name becomes a new version instead of a duplicate.
+async function checkForDuplicate(
+  userId: string,
+  filename: string,
+  fileSize: number,
+  contentHash: string
+): Promise<{ isDuplicate: boolean; existingDocument?: any }> {
+  const query = `
+    SELECT id, filename, file_size, chunks_count, status, uploaded_at, processed_at
+    FROM documents
+    WHERE user_id = $1
+      AND (
+        metadata->>'contentHash' = $4 OR
+        (metadata->>'contentHash' IS NULL AND filename = $2 AND file_size = $3)
+      )
+      AND status IN ('completed', 'processing')
+    ORDER BY uploaded_at DESC
+    LIMIT 1
+  `;
+
+  const result = await db.query(query, [userId, filename, fileSize, contentHash]);
+
+  if (result.rows.length > 0) {
+    return {
+      isDuplicate: true,
+      existingDocument: result.rows[0]
+    };
+  }
+
+  return { isDuplicate: false };
+}
+
+// Runs statements on the pool or on a transaction's client
+type QueryRunner = { query: (text: string, params?: any[]) => Promise<any> };
+
+// A chunk ready to store: its embedding, or the row whose embedding it reuses
+interface PreparedChunk {
+  text: string;
+  wordCount: number;
+  page: number | null;
+  metadata: Record<string, any>;
+  embedding: number[] | null;
+  reusableChunkId?: string;
+}
+
+/**
+ * Check that the document to reindex exists and is the user's. Nothing is
+ * changed yet: it stays searchable with its old chunks until
+ * replaceDocumentContent() commits the new ones.
+ */
+async function findDocumentToReplace(documentId: string, userId: string): Promise<string> {
+  const result = await db.query('SELECT id FROM documents WHERE id = $1 AND user_id = $2', [documentId, userId]);
+  if (result.rows.length === 0) {
+    throw new IngestionError('Document to replace no longer exists');
+  }
+  return documentId;
+}
+
+/**
+ * Store a chunk at position `index`. A reused chunk is moved in place when
+ * reindexing, or copied with its embedding into a new version.
+ */
+async function storeChunk(runner: QueryRunner, documentId: string, index: number, chunk: PreparedChunk, reindex: boolean): Promise<string> {
+  const metadata = JSON.stringify(chunk.metadata);
+  let stored;
+
+  if (!chunk.reusableChunkId) {
+    stored = await runner.query(`
+      INSERT INTO chunks (document_id, chunk_index, text, word_count, character_count, embedding, page, metadata)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING id
+    `, [documentId, index, chunk.text, chunk.wordCount, chunk.text.length, `[${chunk.embedding!.join(',')}]`, chunk.page, metadata]);
+  } else if (reindex) {
+    stored = await runner.query(
+      'UPDATE chunks SET chunk_index = $2, page = $3, metadata = $4 WHERE id = $1 RETURNING id',
+      [chunk.reusableChunkId, index, chunk.page, metadata]
+    );
+  } else {
+    stored = await runner.query(`
+      INSERT INTO chunks (document_id, chunk_index, text, word_count, character_count, embedding, page, metadata)
+      SELECT $1, $2, text, word_count, character_count, embedding, $3, $4
+      FROM chunks WHERE id = $5
+      RETURNING id
+    `, [documentId, index, chunk.page, metadata, chunk.reusableChunkId]);
+  }
+
+  return stored.rows[0].id;
+}
+
+/**
+ * Swap a reindexed document's content in one transaction: its row, its
+ * chunks (kept ones updated, new ones inserted, the rest deleted) and its
+ * medical tables. If anything fails the document is left as it was.
+ */
+async function replaceDocumentContent(
+  documentId: string,
+  document: { userId: string; filename: string; fileSize: number; fileType: string; textLength: number; metadata: string },
+  chunks: PreparedChunk[],
+  reusedChunks: number
+): Promise<void> {
+  const client = await db.getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(`
+      UPDATE documents
+      SET filename = $3, file_size = $4, file_type = $5, text_length = $6,
+          chunks_count = $8, status = 'completed', processed_at = NOW(),
+          metadata = COALESCE(metadata, '{}'::jsonb) || $7::jsonb
+            || jsonb_build_object('reusedChunks', $9::int, 'embeddedChunks', $10::int)
+      WHERE id = $1 AND user_id = $2
+      RETURNING id
+    `, [
+      documentId,
+      document.userId,
+      document.filename,
+      document.fileSize,
+      document.fileType,
+      document.textLength,
+      document.metadata,
+      chunks.length,
+      reusedChunks,
+      chunks.length - reusedChunks
+    ]);
+
+    if (result.rows.length === 0) {
+      throw new IngestionError('Document to replace no longer exists');
+    }
+
+    await client.query('DELETE FROM medical_tables WHERE document_id = $1', [documentId]);
+
+    const keptChunkIds: string[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      keptChunkIds.push(await storeChunk(client, documentId, i, chunks[i], true));
+    }
+
+    // Chunks of the old content that were not reused
+    await client.query('DELETE FROM chunks WHERE document_id = $1 AND id <> ALL($2::uuid[])', [documentId, keptChunkIds]);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Run the full ingestion pipeline for one file
+ */
+export async function ingestDocument(input: IngestionInput): Promise<IngestionResult> {
+  const { userId, filename, fileType, fileSize, buffer, jobId, targetDocumentId, parentDocumentId } = input;
+
+  // Real-time updates use a temporary ID until the document row exists
+  const tempDocumentId = targetDocumentId
+    || (jobId ? `job_${jobId}` : `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+  const processor = createDocumentProcessor(tempDocumentId, userId, filename, jobId);
+
+  // Extract text content, tables, and page mapping
+  processor.extractingText();
+  let extractionResult: Awaited<ReturnType<typeof extractTextFromFile>>;
+  try {
+    extractionResult = await extractTextFromFile({ name: filename, buffer });
+  } catch (error: any) {
+    processor.failed(error.message);
+    throw new IngestionError(error.message);
+  }
+  const extractedText = extractionResult.text;
+  const extractedTables = extractionResult.tables || [];
+  const pageMap = extractionResult.pageMap;
+  const ocrWords = extractionResult.ocrWords || [];
+
+  if (!extractedText.trim()) {
+    processor.failed('File appears to be empty');
+    throw new IngestionError('File appears to be empty');
+  }
+
+  // Generate content hash for duplicate detection
+  const contentHash = generateContentHash(extractedText);
+  processor.extractingText(extractedText.length);
+
+  // Check for duplicates (a replacement is expected to match the document it replaces)
+  const duplicateCheck: { isDuplicate: boolean; existingDocument?: any } = targetDocumentId
+    ? { isDuplicate: false }
+    : await checkForDuplicate(userId, filename, fileSize, contentHash);
+
+  if (duplicateCheck.isDuplicate && duplicateCheck.existingDocument) {
+    const existing = duplicateCheck.existingDocument;
+
+    // Fetch existing chunks for the duplicate document
+    const chunksQuery = `
+      SELECT chunk_index, text, word_count
+      FROM chunks
+      WHERE document_id = $1
+      ORDER BY chunk_index
+    `;
+    const chunksResult = await db.query(chunksQuery, [existing.id]);
+
+    processor.completed(existing.chunks_count, extractedText.length);
+
+    // Return the existing document info instead of processing again
+    return {
+      isDuplicate: true,
+      document: {
+        id: existing.id,
+        filename: existing.filename,
+        size: existing.file_size,
+        textLength: extractedText.length,
+        chunksCount: existing.chunks_count,
+        processedAt: existing.processed_at || existing.uploaded_at,
+        status: existing.status,
+        uploadedAt: existing.uploaded_at
+      },
+      chunks: chunksResult.rows.map((chunk: any) => ({
+        id: `${existing.id}-${chunk.chunk_index}`,
+        index: chunk.chunk_index,
+        text: chunk.text,
+        wordCount: chunk.word_count
+      })),
+      preview: extractedText.substring(0, 500) + (extractedText.length > 500 ? '...' : '')
+    };
+  }
+
+  // New uploads join a family: the explicit parent's, or the one of the
+  // latest document with the same filename
+  const placement: VersionPlacement | null = targetDocumentId
+    ? null
+    : await DocumentVersionService.planVersion(userId, filename, parentDocumentId);
+
+  const documentMetadata = JSON.stringify({
+    uploadedAt: new Date().toISOString(),
+    originalType: fileType,
+    contentHash: contentHash,
+    ...(ocrWords.length > 0 && { ocrWordCount: ocrWords.length }),
+    ...(jobId && { ingestionJobId: jobId }),
+    ...(placement?.previousDocumentId && { previousVersionId: placement.previousDocumentId })
+  });
+
+  // Step 1: Create document record in database (status: processing). A
+  // later version stays hidden behind the current latest one until it
+  // completes; a document being reindexed is only checked here.
+  const createDocumentQuery = `
+    INSERT INTO documents (user_id, filename, file_size, file_type, text_length, chunks_count, status, metadata, family_id, version, is_latest)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    RETURNING id
+  `;
+
+  const documentValues = [
+    userId,
+    filename,
+    fileSize,
+    fileType,
+    extractedText.length,
+    0,
+    'processing',
+    documentMetadata,
+    placement?.familyId,
+    placement?.version,
+    !placement?.previousDocumentId
+  ];
+
+  const documentId = targetDocumentId
+    ? await findDocumentToReplace(targetDocumentId, userId)
+    : (await db.query(createDocumentQuery, documentValues)).rows[0].id;
+
+  // Update processor with real document ID
+  const realProcessor = createDocumentProcessor(documentId, userId, filename, jobId);
+  realProcessor.chunking(extractedText.length);
+
+  // Step 2: Chunk the text: markdown by its sections, anything else with page-aware and table-aware logic
+  const markdownChunking = ragConfig.markdownChunking && Boolean(extractionResult.markdown);
+  const chunkingMethod = markdownChunking ? 'markdown' : ragConfig.pageAwareChunking ? 'page-aware' : 'standard';
+  console.log(`🔧 Using ${chunkingMethod} chunking for ${filename}`);
+
+  const chunkResults = await (markdownChunking ? markdownChunker : pageAwareChunker).chunkText(extractedText, pageMap);
+  const textChunks = chunkResults.map(result => result.content);
+
+  console.log(`📄 Chunked into ${textChunks.length} chunks (avg size: ${Math.round(extractedText.length / textChunks.length)} chars)`);
+
+  // Log page distribution for debugging
+  if (ragConfig.pageAwareChunking && pageMap) {
+    const pageStats = chunkResults.reduce((stats, result) => {
+      if (result.metadata.pageNumbers.length > 0) {
+        const pageKey = result.metadata.pageNumbers.join(',');
+        stats[pageKey] = (stats[pageKey] || 0) + 1;
+      }
+      return stats;
+    }, {} as Record<string, number>);
+    console.log('📊 Page distribution:', pageStats);
+  }
+
+  if (textChunks.length === 0) {
+    realProcessor.failed('No valid text chunks could be created');
+    // A document being reindexed keeps its current content
+    if (!targetDocumentId) {
+      await db.query('UPDATE documents SET status = $1 WHERE id = $2', ['failed', documentId]);
+    }
+    throw new IngestionError('No valid text chunks could be created');
+  }
+
+  realProcessor.chunkingProgress(textChunks.length, textChunks.length);
+
+  try {
+    // Step 3: Embed the chunks, then store them. Nothing is written until
+    // every chunk is embedded, so a failed embedding call leaves no partial content.
+    realProcessor.storingChunks(textChunks.length);
+    const embeddingModelInfo = getEmbeddingModelInfo();
+
+    // Chunks whose text did not change since the previous version (or since
+    // the last run, for a reindex) keep their embedding instead of being re-embedded
+    const reuseSourceId = targetDocumentId || placement?.previousDocumentId;
+    const reusableChunks = reuseSourceId
+      ? await DocumentVersionService.getReusableChunks(reuseSourceId, embeddingModelInfo.model, embeddingModelInfo.dimensions)
+      : new Map<string, string[]>();
+    const preparedChunks: PreparedChunk[] = [];
+    let reusedChunks = 0;
+    // Where the previous chunk started in the text; chunks come in order, so
+    // each one is looked up from there to place its OCR'd words
+    let chunkSearchFrom = 0;
+
+    for (let i = 0; i < textChunks.length; i++) {
+      const chunk = textChunks[i];
+      const chunkResult = chunkResults[i];
+      const wordCount = chunk.split(/\s+/).filter(w => w.length > 0).length;
+
+      let ocrMetadata = null;
+      if (ocrWords.length > 0) {
+        const chunkStart = extractedText.indexOf(chunk, chunkSearchFrom);
+        if (chunkStart >= 0) {
+          chunkSearchFrom = chunkStart;
+          ocrMetadata = ocrChunkMetadata(ocrWords, chunkStart, chunkStart + chunk.length);
+        }
+      }
+
+      // Use page-aware metadata if available, fallback to legacy method
+      const sectionPath = chunkResult.metadata.sectionPath || [];
+      const chunkPages = chunkResult.metadata.pageNumbers.length > 0
+        ? chunkResult.metadata.pageNumbers
+        : findChunkPage(chunk, extractedText, pageMap);
+
+      const textHash = hashChunkText(chunk);
+      const reusableChunkId = reusableChunks.get(textHash)?.shift();
+
+      // Generate embedding for this chunk unless an unchanged one can be reused
+      const embeddingResult = reusableChunkId ? null : await generateEmbedding(chunk);
+
+      // Enhanced metadata with page-aware information
+      const chunkMetadata = {
+        createdAt: new Date().toISOString(),
+        embeddingGenerated: true,
+        embeddingReused: Boolean(reusableChunkId),
+        ...(reusableChunkId && !targetDocumentId && { reusedFromChunkId: reusableChunkId }),
+        tokensUsed: embeddingResult ? embeddingResult.usage.total_tokens : 0,
+        textHash,
+        embeddingProvider: embeddingModelInfo.provider,
+        embeddingModel: embeddingModelInfo.model,
+        embeddingDimensions: embeddingModelInfo.dimensions,
+        // Content analysis
+        contentType: detectContentType(chunk),
+        hasTable: chunkResult.metadata.isTable || (chunk.includes('|') && chunk.includes('---')),
+        hasMedicalTerms: /\b(patient|medication|treatment|diagnosis|therapy|clinical|pharmacist|prescription)\b/i.test(chunk),
+        hasRegulatory: /\b(regulation|scope of practice|authority|province|jurisdiction|compliance)\b/i.test(chunk),
+        // Page-aware metadata
+        pages: chunkPages,
+        pageCount: chunkPages.length,
+        primaryPage: chunkPages.length > 0 ? chunkPages[0] : null,
+        spansMultiplePages: chunkPages.length > 1,
+        // New page-aware fields
+        isTableChunk: chunkResult.metadata.isTable || false,
+        pageAwareChunking: ragConfig.pageAwareChunking,
+        chunkingMethod,
+        originalChunkSize: chunkResult.metadata.chunkSize,
+        // Headings the chunk sits under, and the breadcrumb shown with it
+        ...(sectionPath.length > 0 && { sectionPath, section: sectionPath.join(' > ') }),
+        // Recognition confidence of OCR'd text
+        ...ocrMetadata
+      };
+
+      preparedChunks.push({
+        text: chunk,
+        wordCount,
+        page: chunkPages.length > 0 ? chunkPages[0] : null, // Legacy page column
+        metadata: chunkMetadata,
+        embedding: embeddingResult ? embeddingResult.embedding : null,
+        reusableChunkId
+      });
+      if (reusableChunkId) reusedChunks++;
+
+      // Update progress every 10 chunks or on last chunk
+      if (i % 10 === 0 || i === textChunks.length - 1) {
+        realProcessor.chunkingProgress(i + 1, textChunks.length);
+      }
+    }
+
+    const embeddedChunks = textChunks.length - reusedChunks;
+    console.log(`♻️ Reused ${reusedChunks} unchanged chunks, embedded ${embeddedChunks}`);
+
+    // Step 4: Store the chunks and mark the document completed. A reindex
+    // swaps the content in one transaction; a new version is made the latest.
+    if (targetDocumentId) {
+      await replaceDocumentContent(documentId, {
+        userId,
+        filename,
+        fileSize,
+        fileType,
+        textLength: extractedText.length,
+        metadata: documentMetadata
+      }, preparedChunks, reusedChunks);
+    } else {
+      for (let i = 0; i < preparedChunks.length; i++) {
+        await storeChunk(db, documentId, i, preparedChunks[i], false);
+      }
+
+      await db.query(`
+        UPDATE documents
+        SET status = $1, chunks_count = $2, processed_at = NOW(),
+            metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('reusedChunks', $4::int, 'embeddedChunks', $5::int)
+        WHERE id = $3
+      `, ['completed', textChunks.length, documentId, reusedChunks, embeddedChunks]);
+    }
+
+    if (placement) {
+      await DocumentVersionService.promoteVersion(documentId);
+    }
+
+    // Step 5: Process medical tables if any were extracted
+    let medicalTablesCount = 0;
+    if (extractedTables.length > 0) {
+      try {
+        realProcessor.storingChunks(textChunks.length);
+        const storedTables = await storeMedicalTables(documentId, extractedTables);
+        medicalTablesCount = storedTables.length;
+        console.log(`Stored ${medicalTablesCount} medical tables for document ${documentId}`);
+      } catch (error) {
+        console.error('Error processing medical tables:', error);
+        // Continue processing even if medical table storage fails
+      }
+    }
+
+    // Mark processing as completed
+    realProcessor.completed(textChunks.length, extractedText.length);
+
+    return {
+      isDuplicate: false,
+      document: {
+        id: documentId,
+        filename,
+        size: fileSize,
+        textLength: extractedText.length,
+        chunksCount: textChunks.length,
+        medicalTablesCount: medicalTablesCount,
+        processedAt: new Date().toISOString(),
+        ...(placement && {
+          familyId: placement.familyId,
+          version: placement.version,
+          previousVersionId: placement.previousDocumentId
+        }),
+        reusedChunks,
+        embeddedChunks
+      },
+      chunks: textChunks.map((text, index) => ({
+        id: `${documentId}-${index}`,
+        index,
+        text,
+        wordCount: text.split(/\s+/).filter(w => w.length > 0).length
+      })),
+      preview: extractedText.substring(0, 500) + (extractedText.length > 500 ? '...' : '')
+    };
+
+  } catch (dbError: any) {
+    console.error('Database insertion failed:', dbError);
+
+    // Mark processing as failed. A document being reindexed was rolled back
+    // and stays searchable with its previous content.
+    realProcessor.failed(`Database error: ${dbError.message}`);
+    if (!targetDocumentId) {
+      await db.query('UPDATE documents SET status = $1 WHERE id = $2', ['failed', documentId]);
+    }
+
+    throw new IngestionError(`Failed to store document: ${dbError.message}`, true);
+  }
+}
@@ -0,0 +1,419 @@
+/**
+ * Postgres-backed ingestion job queue
+ * Jobs are claimed with FOR UPDATE SKIP LOCKED, retried with exponential
+ * backoff, and every ProcessingStatus transition is persisted as an event.
+ * A running worker renews its lease; only the worker holding the lease may
+ * complete or fail the job.
+ */
+
+import { db } from './database';
+import { ingestionConfig } from './config';
+import { processingEmitter, createDocumentProcessor, ProcessingUpdate } from './realtime';
+import { ingestDocument, IngestionError } from './ingestion';
+import { runAsTenant, runWithoutTenant } from './tenant-context';
+import { isUuid } from './collection-scope';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface IngestionJobRecord {
+  id: string;
+  user_id: string;
+  filename: string;
+  file_type: string;
+  file_size: number;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: Date;
+  locked_by: string | null;
+  locked_at: Date | null;
+  last_error: string | null;
+  processing_status: string;
+  progress: number;
+  document_id: string | null;
+  target_document_id: string | null;
+  parent_document_id: string | null;
+  result: Record<string, any> | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+export interface IngestionJobEvent {
+  id: number;
+  job_id: string;
+  attempt: number;
+  status: string;
+  progress: number;
+  message: string;
+  metadata: Record<string, any> | null;
+  created_at: Date;
+}
+
+// Everything except the stored file bytes
+const JOB_COLUMNS = `
+  id, user_id, filename, file_type, file_size, status, attempts, max_attempts,
+  run_after, locked_by, locked_at, last_error, processing_status, progress,
+  document_id, target_document_id, parent_document_id, result, created_at, updated_at, completed_at
+`;
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Exponential backoff delay before the next attempt
+ */
+export function calculateRetryDelay(attempt: number, baseDelayMs: number = ingestionConfig.retryBaseDelayMs): number {
+  return Math.min(baseDelayMs * Math.pow(2, Math.max(0, attempt - 1)), MAX_RETRY_DELAY_MS);
+}
+
+export class JobService {
+  // Queue a new ingestion job
+  static async enqueueJob(job: {
+    user_id: string;
+    filename: string;
+    file_type: string;
+    file_size: number;
+    file_data: Buffer;
+    target_document_id?: string | null;
+    parent_document_id?: string | null;
+  }): Promise<IngestionJobRecord> {
+    const query = `
+      INSERT INTO ingestion_jobs (user_id, filename, file_type, file_size, file_data, max_attempts, target_document_id, parent_document_id)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING ${JOB_COLUMNS}
+    `;
+
+    const result = await db.query(query, [
+      job.user_id,
+      job.filename,
+      job.file_type,
+      job.file_size,
+      job.file_data,
+      ingestionConfig.maxAttempts,
+      job.target_document_id || null,
+      job.parent_document_id || null
+    ]);
+    return result.rows[0];
+  }
+
+  // Claim the next runnable job. Jobs whose lease expired (worker crashed) are reclaimed.
+  static async claimNextJob(workerId: string): Promise<(IngestionJobRecord & { file_data: Buffer }) | null> {
+    const query = `
+      UPDATE ingestion_jobs
+      SET status = 'running',
+          attempts = attempts + 1,
+          locked_by = $1,
+          locked_at = NOW(),
+          updated_at = NOW()
+      WHERE id = (
+        SELECT id FROM ingestion_jobs
+        WHERE (status = 'queued' AND run_after <= NOW())
+           OR (status = 'running' AND locked_at < NOW() - ($2::double precision / 1000) * INTERVAL '1 second')
+        ORDER BY run_after
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING ${JOB_COLUMNS}, file_data
+    `;
+
+    const result = await db.query(query, [workerId, ingestionConfig.leaseTimeoutMs]);
+    return result.rows[0] || null;
+  }
+
+  // Extend the lease of a running job; false once another worker has taken it over
+  static async renewLease(id: string, workerId: string): Promise<boolean> {
+    const result = await db.query(`
+      UPDATE ingestion_jobs
+      SET locked_at = NOW()
+      WHERE id = $1 AND locked_by = $2 AND status = 'running'
+    `, [id, workerId]);
+    return result.rowCount > 0;
+  }
+
+  // Mark a job as completed; false if the worker no longer holds its lease
+  static async completeJob(id: string, workerId: string, result: Record<string, any>): Promise<boolean> {
+    const query = `
+      UPDATE ingestion_jobs
+      SET status = 'completed',
+          result = $2,
+          document_id = COALESCE($3::uuid, document_id),
+          last_error = NULL,
+          locked_by = NULL,
+          locked_at = NULL,
+          updated_at = NOW(),
+          completed_at = NOW()
+      WHERE id = $1 AND locked_by = $4
+    `;
+
+    const updated = await db.query(query, [id, JSON.stringify(result), result.document?.id || null, workerId]);
+    return updated.rowCount > 0;
+  }
+
+  // Record a failure; re-queue with backoff while attempts remain. Null if
+  // the worker no longer holds the job's lease.
+  static async failJob(id: string, workerId: string, error: string, retryable: boolean, retryDelayMs: number): Promise<JobStatus | null> {
+    const query = `
+      UPDATE ingestion_jobs
+      SET status = CASE WHEN $3 AND attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+          run_after = CASE
+            WHEN $3 AND attempts < max_attempts THEN NOW() + ($4::double precision / 1000) * INTERVAL '1 second'
+            ELSE run_after
+          END,
+          last_error = $2,
+          locked_by = NULL,
+          locked_at = NULL,
+          updated_at = NOW()
+      WHERE id = $1 AND locked_by = $5
+      RETURNING status
+    `;
+
+    const result = await db.query(query, [id, error, retryable, retryDelayMs, workerId]);
+    return result.rows[0]?.status || null;
+  }
+
+  // Manually retry a failed job with a fresh attempt budget
+  static async retryJob(id: string): Promise<IngestionJobRecord | null> {
+    const query = `
+      UPDATE ingestion_jobs
+      SET status = 'queued',
+          attempts = 0,
+          run_after = NOW(),
+          processing_status = 'queued',
+          progress = 0,
+          updated_at = NOW()
+      WHERE id = $1 AND status = 'failed'
+      RETURNING ${JOB_COLUMNS}
+    `;
+
+    const result = await db.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
+  // Get job by ID
+  static async getJob(id: string): Promise<IngestionJobRecord | null> {
+    // Not an id at all; the uuid column would reject it
+    if (!isUuid(id)) {
+      return null;
+    }
+    const result = await db.query(`SELECT ${JOB_COLUMNS} FROM ingestion_jobs WHERE id = $1`, [id]);
+    return result.rows[0] || null;
+  }
+
+  // Original upload behind a document's current content, used for re-indexing
+  static async getDocumentSourceFile(documentId: string): Promise<{
+    filename: string;
+    file_type: string;
+    file_size: number;
+    file_data: Buffer;
+  } | null> {
+    const query = `
+      SELECT filename, file_type, file_size, file_data
+      FROM ingestion_jobs
+      WHERE (document_id = $1 OR target_document_id = $1) AND status = 'completed'
+      ORDER BY completed_at DESC
+      LIMIT 1
+    `;
+
+    const result = await db.query(query, [documentId]);
+    return result.rows[0] || null;
+  }
+
+  // Replace or re-index job still waiting or running for a document
+  static async getActiveDocumentJob(documentId: string): Promise<IngestionJobRecord | null> {
+    const query = `
+      SELECT ${JOB_COLUMNS} FROM ingestion_jobs
+      WHERE (target_document_id = $1 OR parent_document_id = $1) AND status IN ('queued', 'running')
+      ORDER BY created_at DESC
+      LIMIT 1
+    `;
+
+    const result = await db.query(query, [documentId]);
+    return result.rows[0] || null;
+  }
+
+  // Get the persisted status history of a job
+  static async getJobEvents(id: string): Promise<IngestionJobEvent[]> {
+    const query = `
+      SELECT * FROM ingestion_job_events
+      WHERE job_id = $1
+      ORDER BY created_at, id
+    `;
+
+    const result = await db.query(query, [id]);
+    return result.rows;
+  }
+
+  // Persist a ProcessingStatus transition and mirror it onto the job row
+  static async recordEvent(update: ProcessingUpdate): Promise<void> {
+    if (!update.jobId) return;
+
+    // Until the document row exists the processor reports a temporary ID
+    const documentId = /^[0-9a-f-]{36}$/i.test(update.documentId) ? update.documentId : null;
+
+    await db.query(`
+      INSERT INTO ingestion_job_events (job_id, attempt, status, progress, message, metadata, created_at)
+      SELECT id, attempts, $2, $3, $4, $5, $6 FROM ingestion_jobs WHERE id = $1
+    `, [
+      update.jobId,
+      update.status,
+      update.progress,
+      update.message,
+      update.metadata ? JSON.stringify(update.metadata) : null,
+      update.timestamp
+    ]);
+
+    await db.query(`
+      UPDATE ingestion_jobs
+      SET processing_status = $2,
+          progress = $3,
+          document_id = COALESCE($4::uuid, document_id),
+          updated_at = NOW()
+      WHERE id = $1
+    `, [update.jobId, update.status, update.progress, documentId]);
+  }
+}
+
+// Persist every status update that belongs to a queued job
+processingEmitter.on('status_update', (update: ProcessingUpdate) => {
+  if (!update.jobId) return;
+  JobService.recordEvent(update).catch(error => {
+    console.error(`Failed to persist status for job ${update.jobId}:`, error);
+  });
+});
+
+/**
+ * In-process worker loop that drains the queue
+ */
+export class IngestionWorker {
+  private workerId = `worker_${process.pid}_${Math.random().toString(36).substr(2, 6)}`;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private draining = false;
+
+  // Start polling (idempotent)
+  start() {
+    if (this.timer) return;
+
+    console.log(`🧵 Starting ingestion worker ${this.workerId}`);
+    // Started from a request; jobs run as their own user, not as that request's
+    this.timer = runWithoutTenant(() => setInterval(() => this.drain(), ingestionConfig.pollIntervalMs));
+    // Do not keep the process alive just for polling
+    if (typeof this.timer === 'object' && 'unref' in this.timer) {
+      this.timer.unref();
+    }
+    runWithoutTenant(() => this.drain());
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Process jobs until the queue has nothing runnable
+  async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      while (await this.processNext()) {
+        // keep claiming
+      }
+    } catch (error) {
+      console.error('Ingestion worker error:', error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  // Claim and run a single job; returns false when the queue is empty
+  async processNext(): Promise<boolean> {
+    const job = await JobService.claimNextJob(this.workerId);
+    if (!job) return false;
+
+    // Row-level security: the job reads and writes its uploader's documents
+    await runAsTenant(job.user_id, () => this.runJob(job));
+    return true;
+  }
+
+  private async runJob(job: IngestionJobRecord & { file_data: Buffer }): Promise<void> {
+
+    console.log(`📥 Processing job ${job.id} (${job.filename}), attempt ${job.attempts}/${job.max_attempts}`);
+
+    // A crashed worker may already have burned the last attempt
+    if (job.attempts > job.max_attempts) {
+      await JobService.failJob(job.id, this.workerId, job.last_error || 'Maximum attempts exceeded', false, 0);
+      return;
+    }
+
+    // Keep the lease while the job runs, so a long job is not reclaimed
+    // by another worker halfway through
+    const renewal = setInterval(() => {
+      JobService.renewLease(job.id, this.workerId)
+        .then(held => {
+          if (!held) console.warn(`⚠️ Lost the lease on job ${job.id}; its result will not be recorded`);
+        })
+        .catch(error => console.error(`Failed to renew the lease on job ${job.id}:`, error));
+    }, Math.max(1000, Math.floor(ingestionConfig.leaseTimeoutMs / 3)));
+    if (typeof renewal === 'object' && 'unref' in renewal) {
+      renewal.unref();
+    }
+
+    try {
+      await this.ingest(job);
+    } finally {
+      clearInterval(renewal);
+    }
+  }
+
+  private async ingest(job: IngestionJobRecord & { file_data: Buffer }): Promise<void> {
+    // Drop the partial document left behind by a previous failed attempt.
+    // Reindex jobs rewrite an existing document, which must survive.
+    if (job.document_id && !job.target_document_id) {
+      await db.query(`DELETE FROM documents WHERE id = $1 AND status <> 'completed'`, [job.document_id]);
+    }
+
+    try {
+      const result = await ingestDocument({
+        userId: job.user_id,
+        filename: job.filename,
+        fileType: job.file_type,
+        fileSize: job.file_size,
+        buffer: job.file_data,
+        jobId: job.id,
+        targetDocumentId: job.target_document_id || undefined,
+        parentDocumentId: job.parent_document_id || undefined
+      });
+
+      const completed = await JobService.completeJob(job.id, this.workerId, {
+        isDuplicate: result.isDuplicate,
+        document: result.document
+      });
+      if (!completed) {
+        console.warn(`⚠️ Job ${job.id} finished after another worker took it over; result not recorded`);
+        return;
+      }
+      console.log(`✅ Job ${job.id} completed (document ${result.document.id})`);
+    } catch (error: any) {
+      const retryable = error instanceof IngestionError ? error.retryable : true;
+      const delay = calculateRetryDelay(job.attempts);
+      const status = await JobService.failJob(job.id, this.workerId, error.message, retryable, delay);
+
+      if (status === null) {
+        console.warn(`⚠️ Job ${job.id} failed after another worker took it over (${error.message})`);
+      } else if (status === 'queued') {
+        console.warn(`⚠️ Job ${job.id} failed (${error.message}), retrying in ${delay}ms`);
+        createDocumentProcessor(job.target_document_id || `job_${job.id}`, job.user_id, job.filename, job.id).queued();
+      } else {
+        console.error(`❌ Job ${job.id} failed permanently: ${error.message}`);
+      }
+    }
+  }
+}
+
+export const ingestionWorker = new IngestionWorker();
+
+// Start the worker lazily from any route that touches the queue
+export function ensureWorkerRunning(): void {
+  ingestionWorker.start();
+}
@@ -0,0 +1,202 @@
+/**
+ * Lexical (full-text) chunk search
+ * Builds one SQL statement that both the pg and Neon drivers run verbatim, so
+ * both return identical scores. Quoted phrases must match word for word; the
+ * remaining words are alternatives, ranked by either ts_rank_cd or BM25.
+ */
+
+import { ragConfig } from './config';
+import type { VersionScope } from './database';
+import { buildFilterClause, SearchFilters } from './search-filters';
+import { buildAccessClause } from './collection-scope';
+
+export type KeywordRanking = 'ts_rank_cd' | 'bm25';
+
+export const KEYWORD_RANKINGS: KeywordRanking[] = ['ts_rank_cd', 'bm25'];
+
+export interface KeywordQuery {
+  terms: string[];
+  phrases: string[][];
+}
+
+export interface KeywordSearchOptions {
+  maxResults?: number;
+  scope?: VersionScope;
+  ranking?: KeywordRanking;
+  language?: string;
+  k1?: number;
+  b?: number;
+  filters?: SearchFilters | null;
+  collectionIds?: string[] | null; // Search these collections instead of the user's documents
+}
+
+// Anything else splits words; keeps Latin accented letters
+const NON_WORD = /[^a-z0-9À-ɏ]+/i;
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(NON_WORD).filter(Boolean);
+}
+
+/**
+ * Split a query into quoted phrases and loose terms
+ */
+export function parseKeywordQuery(text: string): KeywordQuery {
+  const phrases: string[][] = [];
+  const rest = text.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const phraseWords = words(phrase);
+    if (phraseWords.length > 0) phrases.push(phraseWords);
+    return ' ';
+  });
+
+  return { terms: Array.from(new Set(words(rest))), phrases };
+}
+
+/**
+ * Render a parsed query as to_tsquery input: every phrase is required, and at
+ * least one loose term must match when there are any. Words are already
+ * reduced to letters and digits, so quoting them is safe.
+ */
+export function toTsQuery(query: KeywordQuery): string {
+  const quote = (word: string) => `'${word}'`;
+  const parts = query.phrases.map(phrase =>
+    phrase.length === 1 ? quote(phrase[0]) : `(${phrase.map(quote).join(' <-> ')})`
+  );
+  if (query.terms.length > 0) {
+    parts.push(`(${query.terms.map(quote).join(' | ')})`);
+  }
+  return parts.join(' & ');
+}
+
+/**
+ * The text search configuration is inlined as a literal, not bound as a
+ * parameter: only then does to_tsvector('english', c.text) match the
+ * expression in idx_chunks_text_search. Other languages need their own index.
+ */
+function regconfig(language: string): string {
+  if (!/^[a-z_]+$/.test(language)) {
+    throw new Error(`Invalid text search language: ${language}`);
+  }
+  return `'${language}'::regconfig`;
+}
+
+/**
+ * Build the keyword search statement, or null when the query has no words.
+ * Rows: chunk_id, document_id, filename, chunk_text, chunk_index, page,
+ * metadata, raw_score and keyword_score (raw_score / (raw_score + 1), 0-1).
+ */
+export function buildKeywordSearch(
+  queryText: string,
+  userId: string,
+  options: KeywordSearchOptions = {}
+): { text: string; values: any[]; ranking: KeywordRanking; tsquery: string } | null {
+  const {
+    maxResults = 5,
+    scope = { latestOnly: true, documentIds: null },
+    ranking = ragConfig.keywordRanking,
+    language = ragConfig.textSearchLanguage,
+    k1 = ragConfig.bm25K1,
+    b = ragConfig.bm25B,
+    filters = null,
+    collectionIds = null
+  } = options;
+
+  const parsed = parseKeywordQuery(queryText);
+  const tsquery = toTsQuery(parsed);
+  if (!tsquery) {
+    return null;
+  }
+
+  const lang = regconfig(language);
+  const values: any[] = [userId, maxResults, scope.latestOnly, scope.documentIds, tsquery];
+  const accessClause = buildAccessClause('$1', collectionIds, values);
+  const filterClause = buildFilterClause(filters, values);
+
+  const scoped = `
+      SELECT c.id, c.document_id, d.filename, c.text, c.chunk_index, c.page, c.metadata, c.word_count
+      FROM chunks c
+      JOIN documents d ON c.document_id = d.id
+      WHERE ${accessClause}
+        AND d.status = 'completed'
+        AND (NOT $3 OR d.is_latest)
+        AND ($4::uuid[] IS NULL OR d.id = ANY($4::uuid[]))${filterClause}`;
+
+  const columns = `
+      m.id AS chunk_id,
+      m.document_id,
+      m.filename,
+      m.text AS chunk_text,
+      m.chunk_index,
+      m.page,
+      m.metadata`;
+
+  let text: string;
+
+  if (ranking === 'ts_rank_cd') {
+    // Cover density with 1 + log(length) normalization
+    text = `
+      WITH matches AS (
+        SELECT s.*, ts_rank_cd(to_tsvector(${lang}, s.text), q.query, 1)::float8 AS raw_score
+        FROM (${scoped}) s, to_tsquery(${lang}, $5) AS q(query)
+        WHERE to_tsvector(${lang}, s.text) @@ q.query
+      )
+      SELECT ${columns},
+        m.raw_score,
+        (m.raw_score / (m.raw_score + 1))::float8 AS keyword_score
+      FROM matches m
+      ORDER BY m.raw_score DESC, m.id
+      LIMIT $2
+    `;
+  } else if (ranking === 'bm25') {
+    // Okapi BM25 over the caller's scoped chunks; document length is the
+    // chunk's word_count, term frequency comes from tsvector positions.
+    // Filters narrow the corpus the statistics are taken over as well.
+    values.push(Array.from(new Set(parsed.phrases.flat().concat(parsed.terms))).join(' '), k1, b);
+    const [termsParam, k1Param, bParam] = [values.length - 2, values.length - 1, values.length].map(n => `$${n}`);
+    text = `
+      WITH scoped AS NOT MATERIALIZED (${scoped}
+      ),
+      corpus AS (
+        SELECT count(*)::float8 AS n, GREATEST(avg(word_count), 1)::float8 AS avgdl FROM scoped
+      ),
+      terms AS (
+        SELECT DISTINCT t.lexeme FROM unnest(to_tsvector(${lang}, ${termsParam})) AS t
+      ),
+      doc_freq AS (
+        SELECT t.lexeme, (
+          SELECT count(*) FROM scoped s WHERE to_tsvector(${lang}, s.text) @@ quote_literal(t.lexeme)::tsquery
+        )::float8 AS df
+        FROM terms t
+      ),
+      matches AS (
+        SELECT s.*, to_tsvector(${lang}, s.text) AS vec
+        FROM scoped s, to_tsquery(${lang}, $5) AS q(query)
+        WHERE to_tsvector(${lang}, s.text) @@ q.query
+      ),
+      scored AS (
+        SELECT m.id, SUM(
+          ln(1 + (corpus.n - f.df + 0.5) / (f.df + 0.5))
+          * (tf.freq * (${k1Param}::float8 + 1))
+          / (tf.freq + ${k1Param}::float8 * (1 - ${bParam}::float8 + ${bParam}::float8 * m.word_count / corpus.avgdl))
+        )::float8 AS raw_score
+        FROM matches m
+        CROSS JOIN corpus
+        CROSS JOIN LATERAL (
+          SELECT v.lexeme, COALESCE(array_length(v.positions, 1), 1)::float8 AS freq FROM unnest(m.vec) AS v
+        ) tf
+        JOIN doc_freq f ON f.lexeme = tf.lexeme
+        GROUP BY m.id
+      )
+      SELECT ${columns},
+        COALESCE(sc.raw_score, 0)::float8 AS raw_score,
+        (COALESCE(sc.raw_score, 0) / (COALESCE(sc.raw_score, 0) + 1))::float8 AS keyword_score
+      FROM matches m
+      LEFT JOIN scored sc ON sc.id = m.id
+      ORDER BY raw_score DESC, m.id
+      LIMIT $2
+    `;
+  } else {
+    throw new Error(`Unknown keyword ranking: ${ranking}`);
+  }
+
+  return { text, values, ranking, tsquery };
+}
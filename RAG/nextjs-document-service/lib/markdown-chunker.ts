@@ -0,0 +1,460 @@
+/**
+ * Structure-aware chunking for markdown: uploaded .md files and the markdown
+ * the DOCX, HTML, slide and spreadsheet extractors write. The text is read
+ * into blocks (headings, paragraphs, lists, code, tables, quotes) and chunks
+ * are packed from whole blocks within one section, so each chunk carries the
+ * heading path it sits under ("Diabetes > Insulin > Dosing"). Lists are only
+ * split between items and code blocks are kept whole, up to the table size
+ * limit past which they are cut between lines; a table too large for one
+ * chunk is split between rows with its header repeated.
+ */
+
+import { ragConfig } from './config';
+import type { PageMap } from './ingestion';
+import type { ChunkResult } from './page-aware-chunker';
+
+export interface MarkdownChunkerOptions {
+  chunkSize: number;
+  maxChunkSizeForTables: number;
+  preservePageBoundaries: boolean;
+}
+
+type BlockType = 'heading' | 'paragraph' | 'list' | 'code' | 'table' | 'quote' | 'break' | 'frontMatter';
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface Block extends Span {
+  type: BlockType;
+  // Headings
+  level?: number;
+  title?: string;
+  // List items, or the rows below a table's delimiter row
+  parts?: Span[];
+  // End of a table's header and delimiter rows
+  headerEnd?: number;
+}
+
+interface Line extends Span {
+  text: string;
+}
+
+// A piece of a block that is never split further
+interface Unit extends Span {
+  isTable?: boolean;
+  // Set when the chunk text is not the slice start..end (a table's header repeated)
+  content?: string;
+}
+
+interface PendingChunk extends Unit {
+  sectionPath: string[];
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const LIST_ITEM = /^[ \t]*(?:[-*+]|\d{1,9}[.)])(?:[ \t]+|$)/;
+const BLOCKQUOTE = /^ {0,3}>/;
+const HTML_TABLE = /^ {0,3}<table\b/i;
+const TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+// Where prose may be cut: after a sentence, otherwise at any whitespace
+const SENTENCE_END = /([.!?]["')\]]*)\s+/g;
+const WHITESPACE = /()\s+/g;
+
+export class MarkdownChunker {
+  private options: MarkdownChunkerOptions;
+
+  constructor(options: Partial<MarkdownChunkerOptions> = {}) {
+    this.options = {
+      chunkSize: ragConfig.chunkSize,
+      maxChunkSizeForTables: ragConfig.maxChunkSizeForTables,
+      preservePageBoundaries: ragConfig.preservePageBoundaries,
+      ...options
+    };
+  }
+
+  /**
+   * Chunk markdown text. Headings start a new chunk and are kept at the top
+   * of the first chunk of their section; blocks are then packed up to the
+   * chunk size. With a page map, chunks also break where a page starts.
+   */
+  async chunkText(text: string, pageMap?: PageMap): Promise<ChunkResult[]> {
+    const { chunkSize, preservePageBoundaries } = this.options;
+    const pages = pageMap ? Array.from(pageMap.values()) : [];
+    const pageAt = (offset: number) => pages.find(info => offset >= info.start && offset < info.end)?.page;
+
+    const chunks: PendingChunk[] = [];
+    const headings: Array<{ level: number; title: string }> = [];
+    // Start of headings that no chunk holds yet
+    let headingStart: number | null = null;
+    let current: PendingChunk | null = null;
+
+    const flush = () => {
+      if (current) chunks.push(current);
+      current = null;
+    };
+
+    for (const block of parseMarkdownBlocks(text)) {
+      if (block.type === 'frontMatter') continue;
+      if (block.type === 'break') {
+        flush();
+        continue;
+      }
+      if (block.type === 'heading') {
+        flush();
+        while (headings.length > 0 && headings[headings.length - 1].level >= block.level!) headings.pop();
+        if (block.title) headings.push({ level: block.level!, title: block.title });
+        if (headingStart === null) headingStart = block.start;
+        continue;
+      }
+
+      const sectionPath = headings.map(heading => heading.title);
+      for (const unit of this.blockUnits(text, block)) {
+        const start = headingStart ?? unit.start;
+        headingStart = null;
+
+        if (unit.isTable) {
+          flush();
+          chunks.push({ ...unit, start, sectionPath });
+          continue;
+        }
+
+        const samePage = !preservePageBoundaries || pageAt(current?.start ?? start) === pageAt(unit.start);
+        if (current && samePage && unit.end - current.start <= chunkSize) {
+          current.end = unit.end;
+        } else {
+          flush();
+          current = { start, end: unit.end, sectionPath };
+        }
+      }
+    }
+    flush();
+
+    // Headings at the end with nothing under them
+    if (headingStart !== null) {
+      chunks.push({ start: headingStart, end: text.trimEnd().length, sectionPath: headings.map(heading => heading.title) });
+    }
+
+    return chunks
+      .map(chunk => {
+        const content = chunk.content ?? text.slice(chunk.start, chunk.end);
+        const pageNumbers = pages
+          .filter(info => chunk.start < info.end && chunk.end > info.start)
+          .map(info => info.page)
+          .filter((page, index, all) => all.indexOf(page) === index)
+          .sort((a, b) => a - b);
+        return {
+          content,
+          metadata: {
+            pageNumbers,
+            ...(chunk.isTable && { isTable: true }),
+            chunkSize: content.length,
+            sectionPath: chunk.sectionPath
+          }
+        };
+      })
+      .filter(chunk => chunk.content.trim());
+  }
+
+  /**
+   * The pieces a block may be packed in: list items, table rows of a large
+   * table, sentences of a long paragraph, or the whole block. List items and
+   * code blocks over the table size limit are cut between lines.
+   */
+  private blockUnits(text: string, block: Block): Unit[] {
+    const { chunkSize, maxChunkSizeForTables } = this.options;
+
+    if (block.type === 'list' || block.type === 'code') {
+      const pieces: Span[] = block.parts || [{ start: block.start, end: block.end }];
+      return pieces.reduce<Unit[]>((units, piece) => units.concat(piece.end - piece.start <= maxChunkSizeForTables
+        ? [piece]
+        : splitBetweenLines(text, piece.start, piece.end, maxChunkSizeForTables)), []);
+    }
+
+    if (block.type === 'table') {
+      if (block.end - block.start <= maxChunkSizeForTables) {
+        return [{ start: block.start, end: block.end, isTable: true }];
+      }
+      if (!block.parts) {
+        return splitProse(text, block.start, block.end, maxChunkSizeForTables).map(span => ({ ...span, isTable: true }));
+      }
+      return splitTableRows(text, block, maxChunkSizeForTables);
+    }
+
+    if (block.end - block.start <= chunkSize) return [{ start: block.start, end: block.end }];
+    return splitProse(text, block.start, block.end, chunkSize);
+  }
+}
+
+/**
+ * Read markdown into top-level blocks with their offsets in the text
+ */
+function parseMarkdownBlocks(text: string): Block[] {
+  const lines = splitLines(text);
+  const blocks: Block[] = [];
+  let i = 0;
+
+  // YAML front matter
+  if (lines.length > 1 && lines[0].text === '---') {
+    let close = 1;
+    while (close < lines.length && lines[close].text !== '---' && lines[close].text !== '...') close++;
+    if (close < lines.length) {
+      blocks.push({ type: 'frontMatter', start: 0, end: lines[close].end });
+      i = close + 1;
+    }
+  }
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.text.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line.text);
+    if (fence) {
+      const closing = new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}[ \\t]*$`);
+      let last = i + 1;
+      while (last < lines.length - 1 && !closing.test(lines[last].text)) last++;
+      last = Math.min(last, lines.length - 1);
+      blocks.push({ type: 'code', start: line.start, end: lines[last].end });
+      i = last + 1;
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(line.text);
+    if (heading) {
+      blocks.push({ type: 'heading', start: line.start, end: line.end, level: heading[1].length, title: headingTitle(heading[2] || '') });
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line.text)) {
+      blocks.push({ type: 'break', start: line.start, end: line.end });
+      i++;
+      continue;
+    }
+
+    if (HTML_TABLE.test(line.text)) {
+      let last = i;
+      while (last < lines.length - 1 && !/<\/table>/i.test(lines[last].text)) last++;
+      blocks.push({ type: 'table', start: line.start, end: lines[last].end });
+      i = last + 1;
+      continue;
+    }
+
+    if (startsPipeTable(lines, i)) {
+      let last = i + 1;
+      while (last + 1 < lines.length && lines[last + 1].text.trim() && lines[last + 1].text.includes('|')) last++;
+      blocks.push({
+        type: 'table',
+        start: line.start,
+        end: lines[last].end,
+        headerEnd: lines[i + 1].end,
+        parts: lines.slice(i + 2, last + 1).map(({ start, end }) => ({ start, end }))
+      });
+      i = last + 1;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line.text)) {
+      i = readList(lines, i, blocks);
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line.text)) {
+      let last = i;
+      while (last + 1 < lines.length && (BLOCKQUOTE.test(lines[last + 1].text) || continuesParagraph(lines, last + 1))) last++;
+      blocks.push({ type: 'quote', start: line.start, end: lines[last].end });
+      i = last + 1;
+      continue;
+    }
+
+    // Paragraph, or a setext heading when underlined with = or -
+    let last = i;
+    while (last + 1 < lines.length && !SETEXT_UNDERLINE.test(lines[last + 1].text) && continuesParagraph(lines, last + 1)) last++;
+    const underline = last + 1 < lines.length ? SETEXT_UNDERLINE.exec(lines[last + 1].text) : null;
+    // A dash line right above a # heading ends the section (PDF conversions
+    // write them that way); read as an underline it would pull the paragraph
+    // into the next section
+    const sectionBreak = underline && underline[1][0] === '-' && last + 2 < lines.length && ATX_HEADING.test(lines[last + 2].text);
+    if (underline && !sectionBreak) {
+      const title = lines.slice(i, last + 1).map(({ text: lineText }) => lineText.trim()).join(' ');
+      blocks.push({ type: 'heading', start: line.start, end: lines[last + 1].end, level: underline[1][0] === '=' ? 1 : 2, title: headingTitle(title) });
+      i = last + 2;
+    } else {
+      blocks.push({ type: 'paragraph', start: line.start, end: lines[last].end });
+      i = last + 1;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * A list runs while lines are items at its own indent, indented content of
+ * an item (nested lists, continued paragraphs, code), or lines continuing an
+ * item's text. Each top-level item is one part.
+ */
+function readList(lines: Line[], first: number, blocks: Block[]): number {
+  const baseIndent = indentOf(lines[first].text);
+  const parts: Span[] = [];
+  let itemStart = first;
+  let last = first;
+
+  for (let j = first + 1; j < lines.length; j++) {
+    const lineText = lines[j].text;
+    if (!lineText.trim()) continue;
+
+    const indent = indentOf(lineText);
+    if (indent <= baseIndent + 1 && LIST_ITEM.test(lineText) && !THEMATIC_BREAK.test(lineText)) {
+      parts.push({ start: lines[itemStart].start, end: lines[last].end });
+      itemStart = j;
+    } else if (indent <= baseIndent && (j > last + 1 || !continuesParagraph(lines, j))) {
+      break;
+    }
+    last = j;
+  }
+  parts.push({ start: lines[itemStart].start, end: lines[last].end });
+
+  blocks.push({ type: 'list', start: lines[first].start, end: lines[last].end, parts });
+  return last + 1;
+}
+
+function startsPipeTable(lines: Line[], index: number): boolean {
+  const next = lines[index + 1];
+  return lines[index].text.includes('|') && Boolean(next) && next.text.includes('|') && TABLE_DELIMITER.test(next.text);
+}
+
+// Whether a line carries on the paragraph above it rather than starting a block
+function continuesParagraph(lines: Line[], index: number): boolean {
+  const lineText = lines[index].text;
+  return Boolean(lineText.trim())
+    && !ATX_HEADING.test(lineText)
+    && !FENCE.test(lineText)
+    && !THEMATIC_BREAK.test(lineText)
+    && !LIST_ITEM.test(lineText)
+    && !BLOCKQUOTE.test(lineText)
+    && !HTML_TABLE.test(lineText)
+    && !startsPipeTable(lines, index);
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  while (start <= text.length) {
+    const newline = text.indexOf('\n', start);
+    const lineEnd = newline < 0 ? text.length : newline;
+    const lineText = text.slice(start, lineEnd).replace(/\r$/, '');
+    lines.push({ start, end: start + lineText.length, text: lineText });
+    if (newline < 0) break;
+    start = newline + 1;
+  }
+  return lines;
+}
+
+function indentOf(lineText: string): number {
+  let indent = 0;
+  for (const char of lineText) {
+    if (char === ' ') indent++;
+    else if (char === '\t') indent += 4 - (indent % 4);
+    else break;
+  }
+  return indent;
+}
+
+// Heading text without inline markup or a trailing colon
+function headingTitle(source: string): string {
+  return source
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*{1,3}|_{1,3}|`+|~~)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/\s+/g, ' ')
+    .replace(/[\s:]+$/, '')
+    .trim();
+}
+
+/**
+ * Cut text longer than `size` at the last sentence end before the limit,
+ * else at the last whitespace, else at the limit
+ */
+function splitProse(text: string, start: number, end: number, size: number): Span[] {
+  const spans: Span[] = [];
+  let from = start;
+  while (end - from > size) {
+    const window = text.slice(from, from + size + 1);
+    const cut = lastBreak(window, SENTENCE_END) || lastBreak(window, WHITESPACE);
+    spans.push({ start: from, end: cut ? from + cut.index : from + size });
+    from = cut ? from + cut.index + cut.length : from + size;
+  }
+  spans.push({ start: from, end });
+  return spans;
+}
+
+/**
+ * Cut text longer than `size` at the last line end before the limit; a
+ * single line longer than that is cut like prose
+ */
+function splitBetweenLines(text: string, start: number, end: number, size: number): Span[] {
+  const spans: Span[] = [];
+  let from = start;
+  while (end - from > size) {
+    if (text[from] === '\n') {
+      from++;
+      continue;
+    }
+    const newline = text.lastIndexOf('\n', from + size);
+    if (newline > from) {
+      spans.push({ start: from, end: newline });
+      from = newline + 1;
+      continue;
+    }
+    const lineEnd = text.indexOf('\n', from);
+    const stop = lineEnd < 0 || lineEnd > end ? end : lineEnd;
+    spans.push(...splitProse(text, from, stop, size));
+    from = stop;
+  }
+  if (from < end) spans.push({ start: from, end });
+  return spans;
+}
+
+function lastBreak(window: string, pattern: RegExp): { index: number; length: number } | null {
+  let found: { index: number; length: number } | null = null;
+  pattern.lastIndex = 0;
+  let match;
+  while ((match = pattern.exec(window)) !== null) {
+    const index = match.index + match[1].length;
+    if (index > 0) found = { index, length: match[0].length - match[1].length };
+  }
+  return found;
+}
+
+/**
+ * Split a table between rows; pieces after the first repeat the header and
+ * delimiter rows so each one reads as a table
+ */
+function splitTableRows(text: string, block: Block, size: number): Unit[] {
+  const header = text.slice(block.start, block.headerEnd);
+  const rows = block.parts!;
+  const units: Unit[] = [];
+  let first = 0;
+
+  while (first < rows.length) {
+    const pieceStart = first === 0 ? block.start : rows[first].start;
+    const overhead = first === 0 ? 0 : header.length + 1;
+    let last = first;
+    while (last + 1 < rows.length && overhead + rows[last + 1].end - pieceStart <= size) last++;
+
+    const end = rows[last].end;
+    units.push(first === 0
+      ? { start: pieceStart, end, isTable: true }
+      : { start: pieceStart, end, isTable: true, content: `${header}\n${text.slice(pieceStart, end)}` });
+    first = last + 1;
+  }
+  return units;
+}
+
+export const markdownChunker = new MarkdownChunker();
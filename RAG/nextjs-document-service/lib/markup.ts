@@ -0,0 +1,237 @@
+/**
+ * Markup parsing for HTML pages and Office Open XML parts
+ * A forgiving tokenizer that builds an element tree: enough for reading
+ * text, headings and tables, not a validating parser. In HTML mode tag names
+ * are lowercased, void elements close themselves, script and style contents
+ * are dropped, and paragraphs, list items and table cells left open are
+ * closed the way browsers close them.
+ */
+
+export interface MarkupElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: MarkupNode[];
+}
+
+export type MarkupNode = MarkupElement | string;
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+// Contents are not markup and are not text
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+// Opening one of these closes an open paragraph
+const PARAGRAPH_CLOSERS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figure', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+]);
+
+// Opening the key closes these elements while they are the innermost open one
+const TABLE_PARTS = ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'];
+const IMPLIED_END_TAGS: Record<string, string[]> = {
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  option: ['option'],
+  thead: TABLE_PARTS,
+  tbody: TABLE_PARTS,
+  tfoot: TABLE_PARTS,
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th']
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', shy: '',
+  ndash: '–', mdash: '—', hellip: '…', bull: '•', middot: '·',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  deg: '°', plusmn: '±', times: '×', divide: '÷', micro: 'µ',
+  le: '≤', ge: '≥', ne: '≠', asymp: '≈', frac12: '½', frac14: '¼', frac34: '¾',
+  sup2: '²', sup3: '³', alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', mu: 'μ',
+  copy: '©', reg: '®', trade: '™', sect: '§', para: '¶', euro: '€', pound: '£'
+};
+
+// Sticky, to match only at the '<' being read (the flag is built at runtime for the es5 target)
+const TAG = new RegExp(/<(\/?)([A-Za-z][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>/.source, 'y');
+const ATTRIBUTE = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+/**
+ * Parse markup into a tree under a '#document' element
+ */
+export function parseMarkup(source: string, options: { html?: boolean } = {}): MarkupElement {
+  const html = Boolean(options.html);
+  const root: MarkupElement = { name: '#document', attributes: {}, children: [] };
+  const stack: MarkupElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const appendText = (text: string) => {
+    if (!text) return;
+    const children = current().children;
+    const last = children[children.length - 1];
+    if (typeof last === 'string') {
+      children[children.length - 1] = last + text;
+    } else {
+      children.push(text);
+    }
+  };
+
+  const closeElement = (name: string) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (stack[i].name === name) {
+        stack.length = i;
+        return;
+      }
+    }
+  };
+
+  let position = 0;
+  while (position < source.length) {
+    const open = source.indexOf('<', position);
+    if (open < 0) break;
+    appendText(decodeEntities(source.slice(position, open)));
+
+    if (source.startsWith('<!--', open)) {
+      const end = source.indexOf('-->', open + 4);
+      position = end < 0 ? source.length : end + 3;
+      continue;
+    }
+    if (source.startsWith('<![CDATA[', open)) {
+      const end = source.indexOf(']]>', open + 9);
+      appendText(source.slice(open + 9, end < 0 ? source.length : end));
+      position = end < 0 ? source.length : end + 3;
+      continue;
+    }
+    if (source[open + 1] === '!' || source[open + 1] === '?') {
+      const end = source.indexOf('>', open);
+      position = end < 0 ? source.length : end + 1;
+      continue;
+    }
+
+    TAG.lastIndex = open;
+    const match = TAG.exec(source);
+    if (!match) {
+      appendText('<');
+      position = open + 1;
+      continue;
+    }
+    position = TAG.lastIndex;
+
+    const [, closing, rawName, rawAttributes, selfClosing] = match;
+    const name = html ? rawName.toLowerCase() : rawName;
+
+    if (closing) {
+      closeElement(name);
+      continue;
+    }
+
+    if (html) {
+      if (PARAGRAPH_CLOSERS.has(name) && current().name === 'p') {
+        stack.pop();
+      }
+      const implied = IMPLIED_END_TAGS[name];
+      while (implied && implied.includes(current().name)) {
+        stack.pop();
+      }
+    }
+
+    const element: MarkupElement = { name, attributes: parseAttributes(rawAttributes), children: [] };
+    current().children.push(element);
+
+    if (html && RAW_TEXT_ELEMENTS.has(name)) {
+      const end = new RegExp(`</${name}\\s*>`, 'gi');
+      end.lastIndex = position;
+      const endMatch = end.exec(source);
+      position = endMatch ? end.lastIndex : source.length;
+      continue;
+    }
+    if (!selfClosing && !(html && VOID_ELEMENTS.has(name))) {
+      stack.push(element);
+    }
+  }
+  appendText(decodeEntities(source.slice(position)));
+
+  return root;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  ATTRIBUTE.lastIndex = 0;
+  let match;
+  while ((match = ATTRIBUTE.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Replace character references (&amp;, &#176;, &#xB0;) with their characters
+ */
+export function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (reference, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : reference;
+    }
+    return NAMED_ENTITIES[entity] ?? NAMED_ENTITIES[entity.toLowerCase()] ?? reference;
+  });
+}
+
+/**
+ * Element name without its namespace prefix ("w:p" is "p")
+ */
+export function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon < 0 ? name : name.slice(colon + 1);
+}
+
+export function isElement(node: MarkupNode): node is MarkupElement {
+  return typeof node !== 'string';
+}
+
+/**
+ * Child elements, optionally only those with the given local name
+ */
+export function childElements(element: MarkupElement, name?: string): MarkupElement[] {
+  return element.children.filter(isElement).filter(child => !name || localName(child.name) === name);
+}
+
+/**
+ * First descendant with the given local name, depth first
+ */
+export function findFirst(element: MarkupElement, name: string): MarkupElement | null {
+  for (const child of childElements(element)) {
+    if (localName(child.name) === name) return child;
+    const found = findFirst(child, name);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Every descendant with the given local name, in document order
+ */
+export function findAll(element: MarkupElement, name: string, found: MarkupElement[] = []): MarkupElement[] {
+  for (const child of childElements(element)) {
+    if (localName(child.name) === name) found.push(child);
+    findAll(child, name, found);
+  }
+  return found;
+}
+
+/**
+ * Attribute by local name ("w:val" and "val" both match "val")
+ */
+export function attribute(element: MarkupElement | null | undefined, name: string): string | undefined {
+  if (!element) return undefined;
+  for (const key of Object.keys(element.attributes)) {
+    if (localName(key) === name) return element.attributes[key];
+  }
+  return undefined;
+}
+
+export function textContent(node: MarkupNode): string {
+  return isElement(node) ? node.children.map(textContent).join('') : node;
+}
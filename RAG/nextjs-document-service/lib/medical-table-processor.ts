@@ -4,7 +4,7 @@
  */
 
 import { db } from './database';
-import { generateEmbedding } from './embeddings';
+import { generateEmbedding, getEmbeddingModelInfo } from './embeddings';
 import { ExtractedTable, isMedicalTable } from './pdf-processor';
 
 export interface StoredMedicalTable {
@@ -79,8 +79,11 @@ export async function storeMedicalTables(
         searchableText,
         embeddingVector,
         JSON.stringify({
-          embeddingModel: 'text-embedding-3-small',
+          embeddingModel: getEmbeddingModelInfo().model,
+          embeddingDimensions: embeddingResult.embedding.length,
           tokensUsed: embeddingResult.usage.total_tokens,
+          ...(table.bbox && { boundingBox: table.bbox }),
+          ...(table.title && { title: table.title }),
           processingTimestamp: new Date().toISOString()
         })
       ];
@@ -118,7 +121,7 @@ export async function storeMedicalTables(
  * Create searchable text representation of table
  */
 function createSearchableText(table: ExtractedTable): string {
-  let searchableText = '';
+  let searchableText = table.title ? `Table: ${table.title}\n` : '';
   
   // Add headers
   if (table.headers.length > 0) {
@@ -202,6 +205,7 @@ export async function searchMedicalTables(
     tableType?: string;
     limit?: number;
     similarityThreshold?: number;
+    collectionIds?: string[] | null;
   } = {}
 ): Promise<any[]> {
   try {
@@ -210,7 +214,7 @@ export async function searchMedicalTables(
     const queryEmbedding = `[${embeddingResult.embedding.join(',')}]`;
     
     const query = `
-      SELECT * FROM search_medical_tables($1, $2::vector, $3, $4, $5, $6)
+      SELECT * FROM search_medical_tables($1, $2::vector, $3, $4, $5, $6, $7::uuid[])
     `;
     
     const values = [
@@ -219,7 +223,8 @@ export async function searchMedicalTables(
       userId,
       options.tableType || null,
       options.limit || 10,
-      options.similarityThreshold || 0.3
+      options.similarityThreshold || 0.3,
+      options.collectionIds || null
     ];
     
     const result = await db.query(query, values);
@@ -4,6 +4,14 @@
  */
 
 import { neon } from '@neondatabase/serverless';
+import type { VersionScope } from './database';
+import { buildKeywordSearch, KeywordSearchOptions } from './keyword-search';
+import { buildSemanticSearch } from './semantic-search';
+import type { SearchFilters } from './search-filters';
+import { withTenantSetting } from './tenant-context';
+import { isUuid } from './collection-scope';
+
+const LATEST_VERSIONS: VersionScope = { latestOnly: true, documentIds: null };
 
 // Database connection configuration
 const getDatabaseUrl = (): string => {
@@ -31,8 +39,8 @@ console.log('🔌 Neon Database Configuration:', {
   ssl: process.env.NODE_ENV === 'production' ? 'enabled' : 'disabled'
 });
 
-// Initialize Neon client
-const sql = neon(getDatabaseUrl());
+// Initialize Neon client; every query carries the tenant for row-level security
+const sql = withTenantSetting(neon(getDatabaseUrl()));
 
 // Neon Database service functions with the same interface as existing database.ts
 export class NeonDocumentService {
@@ -84,13 +92,38 @@ export class NeonDocumentService {
 
   // Get document by ID
   static async getDocument(id: string): Promise<any | null> {
+    // Not an id at all; the uuid column would reject it
+    if (!isUuid(id)) {
+      return null;
+    }
     const result = await sql`SELECT * FROM documents WHERE id = ${id}`;
     return result[0] || null;
   }
 
-  // Delete document and its chunks
-  static async deleteDocument(id: string): Promise<void> {
-    await sql`DELETE FROM documents WHERE id = ${id}`;
+  // Delete document with its chunks and medical tables; returns false if it did not exist
+  static async deleteDocument(id: string): Promise<boolean> {
+    const [, , deleted] = await sql.transaction([
+      sql`DELETE FROM medical_tables WHERE document_id = ${id}`,
+      sql`DELETE FROM chunks WHERE document_id = ${id}`,
+      // Deleting the latest version hands that role to the newest completed one left
+      sql`
+        WITH deleted AS (
+          DELETE FROM documents WHERE id = ${id} RETURNING id, family_id, is_latest
+        ),
+        promoted AS (
+          UPDATE documents SET is_latest = TRUE
+          WHERE id = (
+            SELECT d.id FROM documents d
+            JOIN deleted ON d.family_id = deleted.family_id AND deleted.is_latest
+            WHERE d.id <> deleted.id AND d.status = 'completed'
+            ORDER BY d.version DESC
+            LIMIT 1
+          )
+        )
+        SELECT id FROM deleted
+      `
+    ]);
+    return deleted.length > 0;
   }
 }
 
@@ -116,25 +149,21 @@ export class NeonChunkService {
     }
   }
 
-  // Search similar chunks using vector similarity
+  // Search similar chunks using vector similarity; same statement as the pg driver
   static async searchSimilarChunks(
     queryEmbedding: number[],
     userId: string,
     options: {
       similarityThreshold?: number;
       maxResults?: number;
+      scope?: VersionScope;
+      filters?: SearchFilters | null;
+      collectionIds?: string[] | null;
     } = {}
   ): Promise<any[]> {
-    const { similarityThreshold = 0.7, maxResults = 5 } = options;
+    const search = buildSemanticSearch(queryEmbedding, userId, options);
     
-    return sql`
-      SELECT * FROM search_similar_chunks(
-        ${JSON.stringify(queryEmbedding)}::vector,
-        ${userId},
-        ${similarityThreshold},
-        ${maxResults}
-      )
-    `;
+    return sql.query(search.text, search.values);
   }
 
   // Hybrid search combining semantic and keyword search
@@ -147,13 +176,17 @@ export class NeonChunkService {
       keywordWeight?: number;
       similarityThreshold?: number;
       maxResults?: number;
+      scope?: VersionScope;
+      collectionIds?: string[] | null;
     } = {}
   ): Promise<any[]> {
     const { 
       semanticWeight = 0.7, 
       keywordWeight = 0.3, 
       similarityThreshold = 0.6, 
-      maxResults = 5 
+      maxResults = 5,
+      scope = LATEST_VERSIONS,
+      collectionIds = null
     } = options;
     
     return sql`
@@ -164,24 +197,26 @@ export class NeonChunkService {
         ${semanticWeight},
         ${keywordWeight},
         ${similarityThreshold},
-        ${maxResults}
+        ${maxResults},
+        ${scope.latestOnly},
+        ${scope.documentIds}::uuid[],
+        ${collectionIds}::uuid[]
       )
     `;
   }
 
-  // Keyword-only search
+  // Keyword-only search; same statement as the pg driver, so same scores
   static async searchKeywordChunks(
     queryText: string,
     userId: string,
-    options: {
-      maxResults?: number;
-    } = {}
+    options: KeywordSearchOptions = {}
   ): Promise<any[]> {
-    const { maxResults = 5 } = options;
+    const search = buildKeywordSearch(queryText, userId, options);
+    if (!search) {
+      return [];
+    }
     
-    return sql`
-      SELECT * FROM search_keyword_chunks(${queryText}, ${userId}, ${maxResults})
-    `;
+    return sql.query(search.text, search.values);
   }
 
   // Get chunks for a document
@@ -239,13 +274,15 @@ export class NeonMedicalTableService {
       tableType?: string;
       limit?: number;
       similarityThreshold?: number;
+      collectionIds?: string[] | null;
     } = {}
   ): Promise<any[]> {
     const {
       queryEmbedding,
       tableType,
       limit = 10,
-      similarityThreshold = 0.3
+      similarityThreshold = 0.3,
+      collectionIds = null
     } = options;
 
     return sql`
@@ -255,7 +292,8 @@ export class NeonMedicalTableService {
         ${userId},
         ${tableType || null},
         ${limit},
-        ${similarityThreshold}
+        ${similarityThreshold},
+        ${collectionIds}::uuid[]
       )
     `;
   }
@@ -339,11 +377,17 @@ export async function searchSimilarChunks(
   queryEmbedding: number[],
   userId: string,
   similarityThreshold: number = 0.7,
-  maxResults: number = 5
+  maxResults: number = 5,
+  scope: VersionScope = LATEST_VERSIONS,
+  filters: SearchFilters | null = null,
+  collectionIds: string[] | null = null
 ): Promise<any[]> {
   return NeonChunkService.searchSimilarChunks(queryEmbedding, userId, {
     similarityThreshold,
-    maxResults
+    maxResults,
+    scope,
+    filters,
+    collectionIds
   });
 }
 
@@ -0,0 +1,289 @@
+/**
+ * OCR for scanned PDF pages and image uploads
+ * OCR is off unless OCR_ENABLED=true. Images are read by the Tesseract CLI
+ * (TESSERACT_PATH), which is not bundled and must be installed on the
+ * server; uploads are checked with ocrUnavailableReason. Its TSV output
+ * lists every recognized word with its confidence. Words keep their
+ * confidence through chunking: each chunk of OCR'd text records its words
+ * and their mean confidence, and search can down-weight chunks whose text was
+ * poorly recognized (ocrWeighting).
+ */
+
+import { execFile } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ocrConfig, ragConfig } from './config';
+
+export const OCR_IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'tif', 'tiff'];
+
+export const OCR_IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/tiff'];
+
+/**
+ * A recognized word. confidence is 0-1; start/end are character offsets into
+ * the line it was read from, or into the document text once placed there.
+ */
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Text of one recognized page. Lines line up with lineWords; an empty line
+ * separates paragraphs.
+ */
+export interface OcrPage {
+  page: number;
+  lines: string[];
+  lineWords: OcrWord[][];
+}
+
+/**
+ * Decoded image as pdf.js returns it for an image XObject
+ */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  kind: number; // 1: 1 bit grayscale, 2: RGB, 3: RGBA
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+export interface OcrWeighting {
+  threshold: number;
+  penalty: number;
+}
+
+export class OcrError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OcrError';
+  }
+}
+
+// Reads an image file and returns Tesseract's TSV output; replaceable in tests
+export type OcrRunner = (imagePath: string) => Promise<string>;
+
+let ocrRunner: OcrRunner = runTesseract;
+
+/**
+ * Override how images are recognized (pass null to restore the Tesseract CLI)
+ */
+export function setOcrRunner(runner: OcrRunner | null): void {
+  ocrRunner = runner || runTesseract;
+}
+
+// Tesseract paths that answered --version
+const workingTesseractPaths = new Set<string>();
+
+/**
+ * Why images cannot be OCR'd here, or null when they can: OCR is disabled or
+ * the Tesseract CLI does not run. A working binary is remembered; a missing
+ * one is checked again next time, so installing it needs no restart.
+ */
+export async function ocrUnavailableReason(): Promise<string | null> {
+  if (!ocrConfig.enabled) {
+    return 'OCR is disabled (set OCR_ENABLED=true and install Tesseract)';
+  }
+  if (ocrRunner !== runTesseract || workingTesseractPaths.has(ocrConfig.tesseractPath)) {
+    return null;
+  }
+
+  const tesseractPath = ocrConfig.tesseractPath;
+  return new Promise(resolve => {
+    execFile(tesseractPath, ['--version'], { timeout: 10000 }, error => {
+      if (!error) {
+        workingTesseractPaths.add(tesseractPath);
+        resolve(null);
+      } else if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        resolve(`Tesseract not found at "${tesseractPath}" (install it or set TESSERACT_PATH)`);
+      } else {
+        resolve(`Tesseract at "${tesseractPath}" does not run: ${error.message.trim()}`);
+      }
+    });
+  });
+}
+
+function runTesseract(imagePath: string): Promise<string> {
+  const args = [imagePath, 'stdout', '-l', ocrConfig.language, 'tsv'];
+  return new Promise((resolve, reject) => {
+    execFile(ocrConfig.tesseractPath, args, { timeout: ocrConfig.timeoutMs, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        const reason = (error as NodeJS.ErrnoException).code === 'ENOENT'
+          ? `Tesseract not found at "${ocrConfig.tesseractPath}" (set TESSERACT_PATH)`
+          : (stderr || error.message).trim();
+        reject(new OcrError(`OCR failed: ${reason}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+/**
+ * Recognize an image file's contents. Multi-page TIFFs give one page each.
+ */
+export async function recognizeImage(image: Buffer, extension: string): Promise<OcrPage[]> {
+  if (!ocrConfig.enabled) {
+    throw new OcrError('OCR is disabled (OCR_ENABLED=false)');
+  }
+
+  const directory = await mkdtemp(join(tmpdir(), 'rag-ocr-'));
+  try {
+    const imagePath = join(directory, `image.${extension}`);
+    await writeFile(imagePath, image);
+    return parseTesseractTsv(await ocrRunner(imagePath));
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Read Tesseract's TSV output (one row per page, block, paragraph, line and
+ * word) into pages of lines. Paragraphs are separated by an empty line.
+ */
+export function parseTesseractTsv(tsv: string): OcrPage[] {
+  const pages = new Map<number, OcrPage & { lastLine: string; lastParagraph: string }>();
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const fields = row.split('\t');
+    // level 5 rows are words: level page block paragraph line word left top width height conf text
+    if (fields.length < 12 || fields[0] !== '5') continue;
+    const text = fields.slice(11).join('\t').trim();
+    if (!text) continue;
+
+    const pageNumber = parseInt(fields[1]);
+    if (!pages.has(pageNumber)) {
+      pages.set(pageNumber, { page: pageNumber, lines: [], lineWords: [], lastLine: '', lastParagraph: '' });
+    }
+    const page = pages.get(pageNumber)!;
+
+    const paragraph = `${fields[2]}.${fields[3]}`;
+    const line = `${paragraph}.${fields[4]}`;
+    if (line !== page.lastLine) {
+      if (page.lines.length > 0 && paragraph !== page.lastParagraph) {
+        page.lines.push('');
+        page.lineWords.push([]);
+      }
+      page.lines.push('');
+      page.lineWords.push([]);
+      page.lastLine = line;
+      page.lastParagraph = paragraph;
+    }
+
+    const index = page.lines.length - 1;
+    const start = page.lines[index] ? page.lines[index].length + 1 : 0;
+    page.lines[index] = page.lines[index] ? `${page.lines[index]} ${text}` : text;
+    page.lineWords[index].push({
+      text,
+      confidence: Math.min(Math.max(parseFloat(fields[10]) / 100, 0), 1),
+      start,
+      end: start + text.length
+    });
+  }
+
+  return Array.from(pages.values())
+    .sort((a, b) => a.page - b.page)
+    .map(({ page, lines, lineWords }) => ({ page, lines, lineWords }));
+}
+
+/**
+ * Encode a decoded PDF image as a binary PGM/PPM file, which Tesseract reads
+ */
+export function encodePnm(image: DecodedImage): Buffer {
+  const { width, height, kind, data } = image;
+
+  if (kind === 1) {
+    // Rows of packed bits, a set bit is white
+    const rowBytes = (width + 7) >> 3;
+    const pixels = Buffer.alloc(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7));
+        pixels[y * width + x] = bit ? 255 : 0;
+      }
+    }
+    return Buffer.concat([Buffer.from(`P5\n${width} ${height}\n255\n`), pixels]);
+  }
+
+  const channels = kind === 3 ? 4 : 3;
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    pixels[i * 3] = data[i * channels];
+    pixels[i * 3 + 1] = data[i * channels + 1];
+    pixels[i * 3 + 2] = data[i * channels + 2];
+  }
+  return Buffer.concat([Buffer.from(`P6\n${width} ${height}\n255\n`), pixels]);
+}
+
+/**
+ * Chunk metadata for the OCR'd words between two offsets of the document
+ * text, or null when the chunk has none
+ */
+export function ocrChunkMetadata(words: OcrWord[], start: number, end: number): {
+  ocrConfidence: number;
+  ocrLowConfidenceWords: number;
+  ocrWords: Array<{ text: string; confidence: number }>;
+} | null {
+  const inChunk = words.filter(word => word.start >= start && word.end <= end);
+  if (inChunk.length === 0) return null;
+
+  const mean = inChunk.reduce((sum, word) => sum + word.confidence, 0) / inChunk.length;
+  return {
+    ocrConfidence: Math.round(mean * 1000) / 1000,
+    ocrLowConfidenceWords: inChunk.filter(word => word.confidence < ragConfig.ocrLowConfidence).length,
+    ocrWords: inChunk.map(word => ({ text: word.text, confidence: word.confidence }))
+  };
+}
+
+/**
+ * Read the `ocrWeighting` search option: true uses the configured threshold
+ * and penalty, { threshold, penalty } sets them. Absent or false disables.
+ */
+export function parseOcrWeighting(input: any): { options: OcrWeighting | null; error?: string } {
+  if (input === undefined || input === null || input === false) {
+    return { options: null };
+  }
+
+  const options: OcrWeighting = { threshold: ragConfig.ocrLowConfidence, penalty: ragConfig.ocrConfidencePenalty };
+  if (input === true) {
+    return { options };
+  }
+  if (typeof input !== 'object') {
+    return { options: null, error: 'ocrWeighting must be a boolean or an object' };
+  }
+
+  for (const field of ['threshold', 'penalty'] as const) {
+    if (input[field] !== undefined) {
+      if (typeof input[field] !== 'number' || input[field] < 0 || input[field] > 1) {
+        return { options: null, error: `ocrWeighting.${field} must be a number between 0 and 1` };
+      }
+      options[field] = input[field];
+    }
+  }
+
+  return { options };
+}
+
+/**
+ * Scale down the score of results whose OCR confidence is below the
+ * threshold: linearly from 1 at the threshold to `penalty` at confidence 0.
+ * Results without OCR'd text keep their score. Scaled results record
+ * ocr_weight and are re-sorted.
+ */
+export function applyOcrWeighting<T extends { similarity_score: number; ocr_confidence?: number | null }>(
+  results: T[],
+  options: OcrWeighting
+): Array<T & { ocr_weight?: number }> {
+  return results
+    .map(result => {
+      const confidence = result.ocr_confidence;
+      if (confidence === undefined || confidence === null || confidence >= options.threshold) {
+        return result;
+      }
+      const weight = options.penalty + (1 - options.penalty) * (confidence / options.threshold);
+      return { ...result, similarity_score: result.similarity_score * weight, ocr_weight: Math.round(weight * 1000) / 1000 };
+    })
+    .sort((a, b) => b.similarity_score - a.similarity_score);
+}
@@ -0,0 +1,487 @@
+/**
+ * Office Open XML extraction: Word documents, PowerPoint decks and Excel
+ * workbooks, read from the XML parts of the ZIP package.
+ * - DOCX: heading styles become markdown headings, list paragraphs "-" items
+ *   and tables ExtractedTables (written into the text as markdown tables).
+ * - PPTX: each slide is a page, its title a heading; slide tables and
+ *   speaker notes are kept.
+ * - XLSX: each visible sheet is a page holding one table named after it.
+ */
+
+import type { ExtractedContent } from './ingestion';
+import { attribute, childElements, findAll, findFirst, localName, MarkupElement, parseMarkup, textContent } from './markup';
+import { ExtractedTable, joinPages, PDFPageText } from './pdf-processor';
+import { buildStructuredTable, TableCell, tableToMarkdown } from './structured-tables';
+import { readZip } from './zip';
+
+interface RenderContext {
+  blocks: string[];
+  tables: ExtractedTable[];
+}
+
+type Parts = Map<string, Buffer>;
+
+export function processDocx(buffer: Buffer): ExtractedContent {
+  return withFormat('DOCX', () => {
+    const parts = readZip(buffer, name => name.startsWith('word/') && name.endsWith('.xml'));
+    const body = findFirst(readPart(parts, 'word/document.xml'), 'body');
+    if (!body) throw new Error('word/document.xml has no body');
+
+    const context: RenderContext = { blocks: [], tables: [] };
+    const styles = parts.has('word/styles.xml') ? readHeadingStyles(readPart(parts, 'word/styles.xml')) : new Map();
+    renderDocxBlocks(body, styles, context);
+
+    return { text: context.blocks.join('\n\n'), tables: context.tables, markdown: true };
+  });
+}
+
+export function processPptx(buffer: Buffer): ExtractedContent {
+  return withFormat('PPTX', () => {
+    const parts = readZip(buffer, name => name.startsWith('ppt/') && (name.endsWith('.xml') || name.endsWith('.rels')));
+    const presentationPath = 'ppt/presentation.xml';
+    const slideTargets = readRelationships(parts, presentationPath);
+    const tables: ExtractedTable[] = [];
+
+    // Slides in presentation order, numbered from 1 as PowerPoint shows them
+    const pages: PDFPageText[] = findAll(readPart(parts, presentationPath), 'sldId').map((slideId, index) => {
+      const slidePath = slideTargets.get(relationshipId(slideId))?.target;
+      if (!slidePath || !parts.has(slidePath)) return { page: index + 1, text: '' };
+
+      const context: RenderContext = { blocks: [], tables: [] };
+      const shapes = findFirst(readPart(parts, slidePath), 'spTree');
+      if (shapes) renderSlideShapes(shapes, index + 1, context);
+
+      const notes = Array.from(readRelationships(parts, slidePath).values()).find(rel => rel.type.endsWith('/notesSlide'));
+      if (notes && parts.has(notes.target)) {
+        const notesContext: RenderContext = { blocks: [], tables: [] };
+        const notesShapes = findFirst(readPart(parts, notes.target), 'spTree');
+        if (notesShapes) renderSlideShapes(notesShapes, index + 1, notesContext, ['body']);
+        if (notesContext.blocks.length > 0) context.blocks.push(`Speaker notes:\n${notesContext.blocks.join('\n')}`);
+      }
+
+      tables.push(...context.tables);
+      return { page: index + 1, text: context.blocks.join('\n\n') };
+    });
+
+    const { text, pageMap } = joinPages(pages);
+    return { text, tables, pageMap, markdown: true };
+  });
+}
+
+export function processXlsx(buffer: Buffer): ExtractedContent {
+  return withFormat('XLSX', () => {
+    const parts = readZip(buffer, name => name.startsWith('xl/') && (name.endsWith('.xml') || name.endsWith('.rels')));
+    const workbookPath = 'xl/workbook.xml';
+    const workbook = readPart(parts, workbookPath);
+    const sheetTargets = readRelationships(parts, workbookPath);
+
+    const sharedStrings = parts.has('xl/sharedStrings.xml')
+      ? findAll(readPart(parts, 'xl/sharedStrings.xml'), 'si').map(sharedString)
+      : [];
+    const dateStyles = parts.has('xl/styles.xml') ? readDateStyles(readPart(parts, 'xl/styles.xml')) : new Set<number>();
+    const date1904 = ['1', 'true'].includes(attribute(findFirst(workbook, 'workbookPr'), 'date1904') || '');
+
+    const tables: ExtractedTable[] = [];
+    const sheets = findAll(workbook, 'sheet').filter(sheet => !['hidden', 'veryHidden'].includes(attribute(sheet, 'state') || ''));
+    const pages: PDFPageText[] = sheets.map((sheet, index) => {
+      const name = attribute(sheet, 'name') || `Sheet ${index + 1}`;
+      const sheetPath = sheetTargets.get(relationshipId(sheet))?.target;
+      if (!sheetPath || !parts.has(sheetPath)) return { page: index + 1, text: '' };
+
+      const rows = readSheetRows(readPart(parts, sheetPath), sharedStrings, dateStyles, date1904);
+      if (rows.length === 0) return { page: index + 1, text: '' };
+
+      const table = buildStructuredTable(rows, index + 1, name);
+      if (!table) {
+        const lines = rows.map(row => row.map(cell => cell.text).filter(Boolean).join(' ')).filter(Boolean);
+        return { page: index + 1, text: [`## ${name}`, ...lines].join('\n') };
+      }
+      tables.push(table);
+      return { page: index + 1, text: `## ${name}\n\n${tableToMarkdown(table)}` };
+    });
+
+    const { text, pageMap } = joinPages(pages);
+    return { text, tables, pageMap, markdown: true };
+  });
+}
+
+function withFormat(format: string, extract: () => ExtractedContent): ExtractedContent {
+  try {
+    return extract();
+  } catch (error) {
+    throw new Error(`Failed to process ${format}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function readPart(parts: Parts, path: string): MarkupElement {
+  const part = parts.get(path);
+  if (!part) throw new Error(`${path} is missing`);
+  return parseMarkup(part.toString('utf8'));
+}
+
+// The r:id of a slide or sheet entry, which also has a plain id or sheetId
+function relationshipId(element: MarkupElement): string {
+  const key = Object.keys(element.attributes).find(name => name !== localName(name) && localName(name) === 'id');
+  return key ? element.attributes[key] : '';
+}
+
+/**
+ * A part's relationships by id, with targets resolved to package paths
+ */
+function readRelationships(parts: Parts, partPath: string): Map<string, { target: string; type: string }> {
+  const directory = partPath.slice(0, partPath.lastIndexOf('/'));
+  const relsPath = `${directory}/_rels/${partPath.slice(directory.length + 1)}.rels`;
+  const relationships = new Map<string, { target: string; type: string }>();
+  if (!parts.has(relsPath)) return relationships;
+
+  for (const rel of findAll(readPart(parts, relsPath), 'Relationship')) {
+    const target = rel.attributes.Target || '';
+    const segments = target.startsWith('/') ? [] : directory.split('/');
+    target.split('/').filter(Boolean).forEach(segment => {
+      if (segment === '..') segments.pop();
+      else if (segment !== '.') segments.push(segment);
+    });
+    relationships.set(rel.attributes.Id, { target: segments.join('/'), type: rel.attributes.Type || '' });
+  }
+  return relationships;
+}
+
+/**
+ * Heading level of each paragraph style: "heading N" and outline levels,
+ * with Title as a top-level heading. Styles are matched by name because
+ * style ids are localized.
+ */
+function readHeadingStyles(styles: MarkupElement): Map<string, number> {
+  const levels = new Map<string, number>();
+  for (const style of findAll(styles, 'style')) {
+    const name = attribute(findFirst(style, 'name'), 'val') || '';
+    const heading = /^heading\s*(\d)$/i.exec(name);
+    const outline = parseInt(attribute(findFirst(style, 'outlineLvl'), 'val') || '', 10);
+    const level = heading ? parseInt(heading[1]) : /^title$/i.test(name) ? 1 : outline >= 0 && outline < 9 ? outline + 1 : 0;
+    if (level > 0) levels.set(attribute(style, 'styleId') || '', Math.min(level, 6));
+  }
+  return levels;
+}
+
+function renderDocxBlocks(container: MarkupElement, styles: Map<string, number>, context: RenderContext): void {
+  let previousWasListItem = false;
+  for (const child of childElements(container)) {
+    const name = localName(child.name);
+    if (name === 'p') {
+      const text = docxRunText(child).split('\n').map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean).join('\n');
+      const properties = findFirst(child, 'pPr');
+      const listLevel = properties ? findFirst(properties, 'numPr') && parseInt(attribute(findFirst(properties, 'ilvl'), 'val') || '0') : null;
+      const outline = parseInt(attribute(properties && findFirst(properties, 'outlineLvl'), 'val') || '', 10);
+      const level = styles.get(attribute(properties && findFirst(properties, 'pStyle'), 'val') || '')
+        || (outline >= 0 && outline < 9 ? Math.min(outline + 1, 6) : 0);
+
+      if (!text) continue;
+      if (level) {
+        context.blocks.push(`${'#'.repeat(level)} ${text.replace(/\n/g, ' ')}`);
+        previousWasListItem = false;
+      } else if (typeof listLevel === 'number') {
+        // Consecutive list items form one block
+        const item = `${'  '.repeat(listLevel)}- ${text.replace(/\n/g, ' ')}`;
+        if (previousWasListItem) context.blocks[context.blocks.length - 1] += `\n${item}`;
+        else context.blocks.push(item);
+        previousWasListItem = true;
+      } else {
+        context.blocks.push(text);
+        previousWasListItem = false;
+      }
+    } else if (name === 'tbl') {
+      renderDocxTable(child, styles, context);
+      previousWasListItem = false;
+    } else if (name === 'sdt') {
+      // Content controls wrap ordinary paragraphs and tables
+      const content = childElements(child, 'sdtContent')[0];
+      if (content) renderDocxBlocks(content, styles, context);
+    } else if (name === 'customXml') {
+      renderDocxBlocks(child, styles, context);
+    }
+  }
+}
+
+// Text of a paragraph's runs, hyperlinks and fields; deleted revisions and field codes are left out
+function docxRunText(element: MarkupElement): string {
+  return element.children.map(child => {
+    if (typeof child === 'string') return '';
+    switch (localName(child.name)) {
+      case 't':
+        return textContent(child);
+      case 'tab':
+        return ' ';
+      case 'br':
+      case 'cr':
+        return '\n';
+      case 'noBreakHyphen':
+        return '-';
+      case 'del':
+      case 'pPr':
+      case 'rPr':
+      case 'instrText':
+      case 'Fallback':
+        return '';
+      default:
+        return docxRunText(child);
+    }
+  }).join('');
+}
+
+function renderDocxTable(table: MarkupElement, styles: Map<string, number>, context: RenderContext): void {
+  const rows: TableCell[][] = [];
+  const cellBlocks: string[][] = [];
+  // Cells continuing a vertical merge extend the cell that started it in their column
+  const mergeOrigins = new Map<number, TableCell>();
+
+  for (const row of tableParts(table, 'tr')) {
+    const rowProperties = childElements(row, 'trPr')[0];
+    const header = Boolean(rowProperties && findFirst(rowProperties, 'tblHeader'))
+      && !['0', 'false'].includes(attribute(findFirst(rowProperties, 'tblHeader'), 'val') || '');
+    const cells: TableCell[] = [];
+    let column = parseInt(attribute(rowProperties && findFirst(rowProperties, 'gridBefore'), 'val') || '0');
+    if (column > 0) cells.push({ text: '', colSpan: column });
+
+    for (const cell of tableParts(row, 'tc')) {
+      const properties = childElements(cell, 'tcPr')[0];
+      const colSpan = parseInt(attribute(properties && findFirst(properties, 'gridSpan'), 'val') || '1') || 1;
+      const vMerge = properties && findFirst(properties, 'vMerge');
+
+      if (vMerge && attribute(vMerge, 'val') !== 'restart' && mergeOrigins.has(column)) {
+        const origin = mergeOrigins.get(column)!;
+        origin.rowSpan = (origin.rowSpan || 1) + 1;
+      } else {
+        const inner: RenderContext = { blocks: [], tables: context.tables };
+        renderDocxBlocks(cell, styles, inner);
+        cellBlocks.push(inner.blocks);
+        const tableCell: TableCell = { text: inner.blocks.join(' '), colSpan, header };
+        cells.push(tableCell);
+        if (vMerge) mergeOrigins.set(column, tableCell);
+        else mergeOrigins.delete(column);
+      }
+      column += colSpan;
+    }
+    rows.push(cells);
+  }
+
+  const extracted = buildStructuredTable(rows, 1);
+  if (!extracted) {
+    // A single-column table is a box around text
+    cellBlocks.forEach(blocks => context.blocks.push(...blocks));
+    return;
+  }
+  context.tables.push(extracted);
+  context.blocks.push(tableToMarkdown(extracted));
+}
+
+// Rows of a table or cells of a row, including those wrapped in content controls
+function tableParts(element: MarkupElement, name: string): MarkupElement[] {
+  return childElements(element).flatMap(child => {
+    if (localName(child.name) === name) return [child];
+    if (localName(child.name) === 'sdt' || localName(child.name) === 'sdtContent' || localName(child.name) === 'customXml') {
+      return tableParts(child, name);
+    }
+    return [];
+  });
+}
+
+/**
+ * Read a slide's shapes in drawing order. Titles become headings; slide
+ * numbers, dates and footers are left out. `placeholderTypes` limits the
+ * shapes read to placeholders of those types (the body of a notes page).
+ */
+function renderSlideShapes(container: MarkupElement, slide: number, context: RenderContext, placeholderTypes?: string[]): void {
+  for (const child of childElements(container)) {
+    const name = localName(child.name);
+    if (name === 'grpSp') {
+      renderSlideShapes(child, slide, context, placeholderTypes);
+    } else if (name === 'sp') {
+      const placeholder = findFirst(childElements(child, 'nvSpPr')[0] || child, 'ph');
+      const type = placeholder ? attribute(placeholder, 'type') || 'body' : null;
+      if (type && ['sldNum', 'dt', 'ftr', 'hdr', 'sldImg'].includes(type)) continue;
+      if (placeholderTypes && (!type || !placeholderTypes.includes(type))) continue;
+
+      const body = childElements(child, 'txBody')[0];
+      const paragraphs = body ? findAll(body, 'p').map(slideParagraphText).filter(Boolean) : [];
+      if (paragraphs.length === 0) continue;
+      if (type === 'title' || type === 'ctrTitle') {
+        context.blocks.push(`# ${paragraphs.join(' ')}`);
+      } else {
+        context.blocks.push(paragraphs.join('\n'));
+      }
+    } else if (name === 'graphicFrame' && !placeholderTypes) {
+      const table = findFirst(child, 'tbl');
+      if (table) renderSlideTable(table, slide, context);
+    }
+  }
+}
+
+function slideParagraphText(paragraph: MarkupElement): string {
+  return childElements(paragraph)
+    .map(child => {
+      const name = localName(child.name);
+      if (name === 'r' || name === 'fld') return textContent(childElements(child, 't')[0] || '');
+      if (name === 'br') return '\n';
+      return '';
+    })
+    .join('')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function renderSlideTable(table: MarkupElement, slide: number, context: RenderContext): void {
+  // Cells covered by a merge are marked hMerge/vMerge and left out
+  const rows: TableCell[][] = childElements(table, 'tr').map(row =>
+    childElements(row, 'tc')
+      .filter(cell => !cell.attributes.hMerge && !cell.attributes.vMerge)
+      .map(cell => ({
+        text: findAll(cell, 'p').map(slideParagraphText).filter(Boolean).join(' '),
+        colSpan: parseInt(cell.attributes.gridSpan) || 1,
+        rowSpan: parseInt(cell.attributes.rowSpan) || 1
+      })));
+
+  const extracted = buildStructuredTable(rows, slide);
+  if (!extracted) {
+    rows.flat().forEach(cell => { if (cell.text) context.blocks.push(cell.text); });
+    return;
+  }
+  context.tables.push(extracted);
+  context.blocks.push(tableToMarkdown(extracted));
+}
+
+// Shared string text, without phonetic guides
+function sharedString(item: MarkupElement): string {
+  return childElements(item)
+    .map(child => {
+      const name = localName(child.name);
+      if (name === 't') return textContent(child);
+      if (name === 'r') return childElements(child, 't').map(textContent).join('');
+      return '';
+    })
+    .join('');
+}
+
+// Built-in number formats that show dates or times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+/**
+ * Indexes of the cell styles (cellXfs) whose number format is a date or time
+ */
+function readDateStyles(styles: MarkupElement): Set<number> {
+  const dateFormats = new Set(DATE_FORMAT_IDS);
+  for (const format of findAll(styles, 'numFmt')) {
+    // Date codes use d, m, y, h or s outside quoted text and [color]/[$-locale] sections
+    const code = (attribute(format, 'formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+    if (/[dmyhs]/i.test(code)) dateFormats.add(parseInt(attribute(format, 'numFmtId') || ''));
+  }
+
+  const dateStyles = new Set<number>();
+  const cellFormats = findFirst(styles, 'cellXfs');
+  if (cellFormats) {
+    childElements(cellFormats, 'xf').forEach((format, index) => {
+      if (dateFormats.has(parseInt(attribute(format, 'numFmtId') || ''))) dateStyles.add(index);
+    });
+  }
+  return dateStyles;
+}
+
+/**
+ * A sheet's cells as rows, from its first used row and column, with merged
+ * ranges as spanning cells
+ */
+function readSheetRows(sheet: MarkupElement, sharedStrings: string[], dateStyles: Set<number>, date1904: boolean): TableCell[][] {
+  const values: string[][] = [];
+  findAll(sheet, 'row').forEach((row, rowIndex) => {
+    const r = (parseInt(attribute(row, 'r') || '') || rowIndex + 1) - 1;
+    let nextColumn = 0;
+    for (const cell of childElements(row, 'c')) {
+      const reference = attribute(cell, 'r');
+      const c = reference ? cellPosition(reference)[1] : nextColumn;
+      nextColumn = c + 1;
+      const value = cellValue(cell, sharedStrings, dateStyles, date1904).trim();
+      if (value) (values[r] = values[r] || [])[c] = value;
+    }
+  });
+
+  const merges = findAll(sheet, 'mergeCell').map(merge => {
+    const [from, to] = (attribute(merge, 'ref') || '').split(':').map(cellPosition);
+    return { from, to: to || from };
+  });
+
+  const usedRows = values.map((row, r) => (row && row.some(Boolean) ? r : -1)).filter(r => r >= 0);
+  if (usedRows.length === 0) return [];
+  const firstRow = usedRows[0];
+  const lastRow = usedRows[usedRows.length - 1];
+  const firstColumn = usedRows.reduce((min, r) => Math.min(min, values[r].findIndex(Boolean)), Infinity);
+  const lastColumn = usedRows.reduce((max, r) => Math.max(max, values[r].length - 1), 0);
+
+  const covered = new Set<string>();
+  const spans = new Map<string, { colSpan: number; rowSpan: number }>();
+  merges.forEach(({ from, to }) => {
+    spans.set(`${from[0]}:${from[1]}`, { rowSpan: to[0] - from[0] + 1, colSpan: to[1] - from[1] + 1 });
+    for (let r = from[0]; r <= to[0]; r++) {
+      for (let c = from[1]; c <= to[1]; c++) {
+        if (r !== from[0] || c !== from[1]) covered.add(`${r}:${c}`);
+      }
+    }
+  });
+
+  const rows: TableCell[][] = [];
+  for (let r = firstRow; r <= lastRow; r++) {
+    const cells: TableCell[] = [];
+    for (let c = firstColumn; c <= lastColumn; c++) {
+      if (covered.has(`${r}:${c}`)) continue;
+      const span = spans.get(`${r}:${c}`);
+      cells.push({
+        text: values[r]?.[c] || '',
+        colSpan: span ? Math.min(span.colSpan, lastColumn - c + 1) : 1,
+        rowSpan: span?.rowSpan || 1
+      });
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+// Zero-based [row, column] of a cell reference like "B3"
+function cellPosition(reference: string): [number, number] {
+  const match = /^\$?([A-Z]+)\$?(\d+)$/i.exec(reference.trim());
+  if (!match) return [0, 0];
+  const column = match[1].toUpperCase().split('').reduce((value, letter) => value * 26 + letter.charCodeAt(0) - 64, 0);
+  return [parseInt(match[2]) - 1, column - 1];
+}
+
+function cellValue(cell: MarkupElement, sharedStrings: string[], dateStyles: Set<number>, date1904: boolean): string {
+  const raw = textContent(childElements(cell, 'v')[0] || '');
+  switch (attribute(cell, 't')) {
+    case 's':
+      return sharedStrings[parseInt(raw)] || '';
+    case 'inlineStr':
+      return sharedString(childElements(cell, 'is')[0] || { name: 'is', attributes: {}, children: [] });
+    case 'b':
+      return raw === '1' ? 'TRUE' : 'FALSE';
+    case 'str':
+    case 'e':
+    case 'd':
+      return raw;
+    default: {
+      if (!raw) return '';
+      const number = parseFloat(raw);
+      if (isNaN(number)) return raw;
+      if (dateStyles.has(parseInt(attribute(cell, 's') || '0'))) return formatSerialDate(number, date1904);
+      // Drop floating point noise such as 0.30000000000000004
+      return String(parseFloat(number.toPrecision(15)));
+    }
+  }
+}
+
+// Excel serial day numbers count from 1899-12-30 (1904-01-01 in the 1904 date system)
+function formatSerialDate(serial: number, date1904: boolean): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const iso = new Date(epoch + Math.round(serial * 86400) * 1000).toISOString();
+  const hasTime = serial % 1 !== 0;
+  if (serial < 1 && hasTime) return iso.slice(11, 16);
+  return hasTime ? `${iso.slice(0, 10)} ${iso.slice(11, 16)}` : iso.slice(0, 10);
+}
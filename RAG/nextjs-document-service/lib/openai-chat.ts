@@ -1,86 +1,274 @@
 /**
- * OpenAI Chat Completion wrapper for RAG-enhanced question answering
+ * Chat completion wrapper for RAG-enhanced question answering.
+ * Models come from the provider chain in lib/chat-providers.ts.
  */
 
-interface SearchResult {
+import {
+  getChatProviders,
+  ChatModelProvider,
+  ChatProviderError,
+  ChatUsage,
+  ChatCompletion,
+  ChatCompletionOptions,
+  ChatStreamChunk
+} from './chat-providers';
+import type { ChatHistoryMessage } from './conversations';
+import { verifyCitations, CitationReport } from './citations';
+import { chatConfig } from './config';
+import { parseFusionOptions, FusionOptions } from './hybrid-search';
+import { parseRerankOptions, RerankOptions } from './reranker';
+import { parseSearchFilters, SearchFilters } from './search-filters';
+import { parseCollectionIds, isUuid } from './collection-scope';
+import type { UsageMeter } from './query-log';
+
+// Fixed reply when retrieval finds nothing; no model is called
+export const NO_CONTEXT_ANSWER = "I don't have enough relevant information in the knowledge base to answer your question. Please try rephrasing your question or upload more relevant documents.";
+
+export interface SearchResult {
   chunk_id: string;
   document_name: string;
   text: string;
   similarity_score?: number;
   page?: number;
+  // Heading path of the chunk ("Diabetes > Insulin > Dosing")
+  section?: string;
   chunk_index?: number;
+  reranked_score?: number;
+  reranking_factors?: Record<string, number>;
+}
+
+interface ChatSource {
+  chunk_id: string;
+  document: string;
+  page?: number;
+  section?: string;
+  relevance_score?: number;
+  text_preview: string;
+  reranked_score?: number;
+  reranking_factors?: Record<string, number>;
 }
 
-interface ChatResponse {
+export interface ChatResponse {
   answer: string;
-  sources: {
-    chunk_id: string;
-    document: string;
-    page?: number;
-    relevance_score?: number;
-    text_preview: string;
-  }[];
+  sources: ChatSource[];
   search_results_count: number;
   tokens_used: number;
   model_used: string;
+  usage: ChatUsage;
+  // Per-sentence verdicts; absent when verification is disabled
+  citations?: CitationReport;
 }
 
+/**
+ * Events of a streamed answer, in order: sources once, any number of
+ * deltas, then done (or error)
+ */
+export type ChatStreamEvent =
+  | { type: 'sources'; sources: ChatSource[]; search_results_count: number; conversation_id?: string; standalone_query?: string }
+  | { type: 'delta'; content: string }
+  | { type: 'done'; tokens_used: number; model_used: string; usage: ChatUsage; citations?: CitationReport; query_id?: string | null; conversation_id?: string }
+  | { type: 'error'; error: string };
+
 interface ChatRequest {
   question: string;
   searchResults: SearchResult[];
   userId: string;
+  // Earlier turns of the conversation, oldest first, already bounded
+  history?: ChatHistoryMessage[];
+  // Receives the citation verification embeddings; the answer's own usage is returned
+  usage?: UsageMeter;
 }
 
 /**
- * Generate AI response using OpenAI with RAG context
+ * Generate AI response with RAG context, falling back along the provider chain
  */
 export async function generateChatResponse(request: ChatRequest): Promise<ChatResponse> {
-  const { question, searchResults, userId } = request;
+  const { question, searchResults, userId, history = [], usage: meter } = request;
   
   // Prepare context from search results
   const context = formatContextFromResults(searchResults);
   
   // Build the prompt
-  const prompt = buildRAGPrompt(question, context, searchResults);
+  const prompt = buildRAGPrompt(question, context, searchResults, history);
   
-  // Try GPT-4o (latest) first, fallback to GPT-4, then GPT-3.5-turbo
-  const models = ['gpt-4o', 'gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo'];
   let modelUsed = '';
   let answer = '';
-  let tokensUsed = 0;
+  let usage: ChatUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
   
-  for (const model of models) {
+  const providers = getChatProviders();
+  for (const provider of providers) {
     try {
-      const response = await callOpenAI(prompt, model);
-      answer = response.answer;
-      tokensUsed = response.tokensUsed;
-      modelUsed = model;
+      const response = await completeWithRetry(provider, prompt);
+      answer = response.content;
+      usage = response.usage;
+      modelUsed = provider.model;
       break;
     } catch (error) {
-      console.warn(`Failed to use model ${model}:`, error);
+      console.warn(`Failed to use model ${provider.name}:${provider.model}:`, error);
       // Continue to next model
-      if (model === models[models.length - 1]) {
-        throw new Error(`All OpenAI models failed. Last error: ${error}`);
+      if (provider === providers[providers.length - 1]) {
+        throw new ChatProviderError(`All chat models failed. Last error: ${error}`);
       }
     }
   }
   
-  // Format sources with citations
-  const sources = searchResults.map((result, index) => ({
+  return {
+    answer,
+    sources: formatSources(searchResults),
+    search_results_count: searchResults.length,
+    tokens_used: usage.total_tokens,
+    model_used: modelUsed,
+    usage,
+    citations: await checkCitations(answer, searchResults, meter)
+  };
+}
+
+/**
+ * Stream an AI response. Model fallback only applies until the first model
+ * accepts the request; after that, errors end the stream. Aborting the signal
+ * cancels the upstream completion.
+ */
+export async function* streamChatResponse(request: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+  const { question, searchResults, history = [], usage: meter } = request;
+
+  yield { type: 'sources', sources: formatSources(searchResults), search_results_count: searchResults.length };
+
+  const prompt = buildRAGPrompt(question, formatContextFromResults(searchResults), searchResults, history);
+
+  const providers = getChatProviders();
+  let stream: AsyncGenerator<ChatStreamChunk> | null = null;
+  let first: IteratorResult<ChatStreamChunk> | null = null;
+  let modelUsed = '';
+
+  // A provider has accepted the request once its first chunk arrives
+  for (const provider of providers) {
+    try {
+      stream = provider.stream([{ role: 'user', content: prompt }], { signal });
+      first = await stream.next();
+      modelUsed = provider.model;
+      break;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`Failed to stream with model ${provider.name}:${provider.model}:`, error);
+      if (provider === providers[providers.length - 1]) {
+        throw new ChatProviderError(`All chat models failed. Last error: ${error}`);
+      }
+    }
+  }
+
+  let usage: ChatUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  let answer = '';
+
+  for (let result = first!; !result.done; result = await stream!.next()) {
+    const chunk = result.value;
+    if (chunk.type === 'delta') {
+      answer += chunk.content;
+      yield { type: 'delta', content: chunk.content };
+    } else {
+      usage = chunk.usage;
+    }
+  }
+
+  yield {
+    type: 'done',
+    tokens_used: usage.total_tokens,
+    model_used: modelUsed,
+    usage,
+    citations: await checkCitations(answer, searchResults, meter)
+  };
+}
+
+/**
+ * Post-process an answer: parse its [n] markers, flag indices with no
+ * matching source and judge each cited sentence against its source chunk
+ */
+async function checkCitations(answer: string, searchResults: SearchResult[], usage?: UsageMeter): Promise<CitationReport | undefined> {
+  if (!chatConfig.citationVerification) {
+    return undefined;
+  }
+
+  try {
+    const report = await verifyCitations(answer, searchResults, {
+      supportThreshold: chatConfig.citationSupportThreshold,
+      lexicalWeight: chatConfig.citationLexicalWeight,
+      usage
+    });
+    if (report.unsupportedCount > 0 || report.invalidCitations.length > 0) {
+      console.warn(`Citation check: ${report.unsupportedCount} unsupported sentences, invalid citations: [${report.invalidCitations.join(', ')}]`);
+    }
+    return report;
+  } catch (error) {
+    console.error('Citation verification failed:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Rewrite a follow-up question into a standalone search query using the
+ * conversation so far. Without history the question is returned unchanged;
+ * if the rewrite fails, the previous user question is prepended instead.
+ * The rewrite's tokens are added to `usage`.
+ */
+export async function condenseQuestion(question: string, history: ChatHistoryMessage[], usage?: UsageMeter): Promise<string> {
+  if (history.length === 0) {
+    return question;
+  }
+
+  const transcript = history
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n');
+
+  const prompt = `Rewrite the follow-up question so it can be understood without the conversation. Resolve pronouns and implied subjects using the conversation. Keep the user's wording where possible. If the question already stands alone, return it unchanged. Reply with the rewritten question only.
+
+CONVERSATION:
+${transcript}
+
+FOLLOW-UP QUESTION: ${question}
+
+STANDALONE QUESTION:`;
+
+  try {
+    // First model of the chain only: a failed rewrite has a cheap fallback
+    const provider = getChatProviders()[0];
+    const completion = await completeWithRetry(provider, prompt, { maxTokens: 200 }, 1);
+    usage?.addChat(completion.usage, provider.model);
+    const condensed = completion.content.replace(/^["']|["']$/g, '').trim();
+    if (condensed) {
+      return condensed;
+    }
+  } catch (error) {
+    console.warn('Query condensation failed, using previous question as context:', error);
+  }
+
+  const previousQuestion = [...history].reverse().find(message => message.role === 'user');
+  return previousQuestion ? `${previousQuestion.content} ${question}` : question;
+}
+
+/**
+ * Format search results as cited sources
+ */
+function formatSources(results: SearchResult[]): ChatSource[] {
+  return results.map(result => ({
     chunk_id: result.chunk_id,
     document: result.document_name,
     page: result.page,
+    ...(result.section && { section: result.section }),
     relevance_score: result.similarity_score,
-    text_preview: result.text.substring(0, 150) + (result.text.length > 150 ? '...' : '')
+    text_preview: result.text.substring(0, 150) + (result.text.length > 150 ? '...' : ''),
+    ...(result.reranking_factors && {
+      reranked_score: result.reranked_score,
+      reranking_factors: result.reranking_factors
+    })
   }));
-  
-  return {
-    answer,
-    sources,
-    search_results_count: searchResults.length,
-    tokens_used: tokensUsed,
-    model_used: modelUsed
-  };
+}
+
+/**
+ * Document name with the page and section a result comes from
+ */
+function sourceLabel(result: SearchResult): string {
+  const pageInfo = result.page ? ` (Page ${result.page})` : '';
+  const sectionInfo = result.section ? ` - ${result.section}` : '';
+  return `${result.document_name}${pageInfo}${sectionInfo}`;
 }
 
 /**
@@ -89,10 +277,7 @@ export async function generateChatResponse(request: ChatRequest): Promise<ChatRe
 function formatContextFromResults(results: SearchResult[]): string {
   return results.map((result, index) => {
     const sourceId = `[${index + 1}]`;
-    const pageInfo = result.page ? ` (Page ${result.page})` : '';
-    const docInfo = `${result.document_name}${pageInfo}`;
-    
-    return `${sourceId} Source: ${docInfo}
+    return `${sourceId} Source: ${sourceLabel(result)}
 Content: ${result.text}`;
   }).join('\n\n');
 }
@@ -100,11 +285,16 @@ Content: ${result.text}`;
 /**
  * Build RAG-enhanced prompt for OpenAI
  */
-function buildRAGPrompt(question: string, context: string, results: SearchResult[]): string {
-  const sourceList = results.map((result, index) => {
-    const pageInfo = result.page ? ` (Page ${result.page})` : '';
-    return `[${index + 1}] ${result.document_name}${pageInfo}`;
-  }).join('\n');
+function buildRAGPrompt(question: string, context: string, results: SearchResult[], history: ChatHistoryMessage[] = []): string {
+  const sourceList = results.map((result, index) => `[${index + 1}] ${sourceLabel(result)}`).join('\n');
+
+  // Earlier turns help interpret the question; facts must still come from the sources
+  const conversation = history.length > 0
+    ? `CONVERSATION SO FAR (use it only to understand the question):
+${history.map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`).join('\n')}
+
+`
+    : '';
   
   return `You are a helpful AI assistant that answers questions based on provided document contexts. Your task is to provide accurate, comprehensive answers using ONLY the information from the given sources.
 
@@ -122,61 +312,25 @@ ${sourceList}
 CONTEXT DOCUMENTS:
 ${context}
 
-QUESTION: ${question}
+${conversation}QUESTION: ${question}
 
 Please provide a comprehensive answer with proper citations:`;
 }
 
 /**
- * Call OpenAI API with retry logic
+ * Single-prompt completion with exponential backoff between attempts
  */
-async function callOpenAI(prompt: string, model: string): Promise<{ answer: string; tokensUsed: number }> {
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) {
-    throw new Error('OpenAI API key not configured');
-  }
-  
-  const maxRetries = 3;
+async function completeWithRetry(
+  provider: ChatModelProvider,
+  prompt: string,
+  options: ChatCompletionOptions = {},
+  maxRetries = 3
+): Promise<ChatCompletion> {
   let lastError: Error | null = null;
   
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${openaiApiKey}`,
-        },
-        body: JSON.stringify({
-          model: model,
-          messages: [
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          max_tokens: 2000,
-          temperature: 0.1, // Low temperature for factual responses
-          top_p: 0.95,
-        }),
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`OpenAI API error (${response.status}): ${errorData.error?.message || response.statusText}`);
-      }
-      
-      const data = await response.json();
-      
-      if (!data.choices || data.choices.length === 0) {
-        throw new Error('No response from OpenAI API');
-      }
-      
-      const answer = data.choices[0].message.content.trim();
-      const tokensUsed = data.usage?.total_tokens || 0;
-      
-      return { answer, tokensUsed };
-      
+      return await provider.complete([{ role: 'user', content: prompt }], options);
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
       
@@ -184,7 +338,7 @@ async function callOpenAI(prompt: string, model: string): Promise<{ answer: stri
         // Exponential backoff
         const delay = Math.pow(2, attempt) * 1000;
         await new Promise(resolve => setTimeout(resolve, delay));
-        console.warn(`Attempt ${attempt} failed for model ${model}, retrying in ${delay}ms...`);
+        console.warn(`Attempt ${attempt} failed for model ${provider.model}, retrying in ${delay}ms...`);
       }
     }
   }
@@ -200,10 +354,16 @@ export function validateChatRequest(body: any): {
   error?: string;
   data?: {
     question: string;
-    userId: string;
+    userId?: string;
     searchMode?: string;
     maxResults?: number;
     similarityThreshold?: number;
+    stream?: boolean;
+    conversationId?: string;
+    fusion?: FusionOptions;
+    rerank?: RerankOptions | null;
+    filters?: SearchFilters | null;
+    collectionIds?: string[] | null;
   };
 } {
   if (!body) {
@@ -222,11 +382,35 @@ export function validateChatRequest(body: any): {
     return { isValid: false, error: 'Question is too long (max 1000 characters)' };
   }
   
-  const userId = body.userId || 'demo-user';
+  const userId = body.userId || undefined; // Checked against the authenticated user by the route
   const searchMode = body.searchMode || 'hybrid';
   const maxResults = Math.min(body.maxResults || 10, 20); // Cap at 20 for token limits
   const similarityThreshold = body.similarityThreshold || 0.3;
   
+  if (body.conversationId !== undefined && body.conversationId !== '' && !isUuid(body.conversationId)) {
+    return { isValid: false, error: 'conversationId must be a conversation id (UUID)' };
+  }
+  
+  const { options: fusion, error: fusionError } = parseFusionOptions(body.fusion);
+  if (!fusion) {
+    return { isValid: false, error: fusionError };
+  }
+  
+  const { options: rerank, error: rerankError } = parseRerankOptions(body.rerank);
+  if (rerankError) {
+    return { isValid: false, error: rerankError };
+  }
+  
+  const { filters, error: filtersError } = parseSearchFilters(body.filters);
+  if (filtersError) {
+    return { isValid: false, error: filtersError };
+  }
+  
+  const { collectionIds, error: collectionsError } = parseCollectionIds(body.collectionIds);
+  if (collectionsError) {
+    return { isValid: false, error: collectionsError };
+  }
+  
   // Validate search mode
   const validSearchModes = ['semantic', 'keyword', 'hybrid', 'medical_tables'];
   if (!validSearchModes.includes(searchMode)) {
@@ -240,7 +424,13 @@ export function validateChatRequest(body: any): {
       userId,
       searchMode,
       maxResults,
-      similarityThreshold
+      similarityThreshold,
+      stream: body.stream === true,
+      conversationId: body.conversationId || undefined,
+      fusion,
+      rerank,
+      filters,
+      collectionIds
     }
   };
 }
\ No newline at end of file
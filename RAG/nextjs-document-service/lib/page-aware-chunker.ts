@@ -13,12 +13,14 @@ interface TableBoundary {
   isTable: boolean;
 }
 
-interface ChunkResult {
+export interface ChunkResult {
   content: string;
   metadata: {
     pageNumbers: number[];
     isTable?: boolean;
     chunkSize: number;
+    // Headings the chunk sits under, outermost first (markdown chunker)
+    sectionPath?: string[];
   };
 }
 
@@ -1,9 +1,15 @@
 /**
  * PDF processing utilities for medical document table extraction
+ * Text is laid out page by page from pdf.js text positions, so chunks can be
+ * traced back to the page they came from. Tables are read from the same
+ * positions and the lines drawn on the page (see pdf-tables.ts). Scanned
+ * pages and images are read by OCR (see ocr.ts).
  */
 
-// Using dynamic import to avoid module resolution issues
-// import { tabula } from 'tabula-js'; // Optional dependency
+import { ocrConfig } from './config';
+import type { PageMap } from './ingestion';
+import { DecodedImage, encodePnm, OcrPage, OcrWord, recognizeImage } from './ocr';
+import { extractRulings, extractTablesFromPage } from './pdf-tables';
 
 export interface ExtractedTable {
   data: string[][];
@@ -12,12 +18,34 @@ export interface ExtractedTable {
   colCount: number;
   page: number;
   confidence: number;
+  // Where the table is on its page; only known for PDFs
+  bbox?: TableBoundingBox;
+  // Sheet name or caption, for tables that have one
+  title?: string;
+}
+
+/**
+ * Rectangle in PDF units, origin at the bottom left of the page
+ */
+export interface TableBoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
 }
 
 export interface PDFProcessingResult {
   text: string;
   tables: ExtractedTable[];
   pageCount: number;
+  // Text of each page, in reading order and without running headers/footers
+  pages: PDFPageText[];
+  // Where each page's text sits in `text`, for the page-aware chunker
+  pageMap: PageMap;
+  // Pages whose text was read by OCR
+  ocrPages: number[];
+  // OCR'd words with their offsets in `text`
+  ocrWords: OcrWord[];
   metadata: {
     title?: string;
     author?: string;
@@ -26,31 +54,115 @@ export interface PDFProcessingResult {
   };
 }
 
+export interface PDFPageText {
+  page: number;
+  text: string;
+}
+
+// Lines of a page before running headers/footers are removed; lineWords
+// lines up with lines when the page was OCR'd
+interface PageLines {
+  page: number;
+  lines: string[];
+  lineWords?: OcrWord[][];
+}
+
+/**
+ * A positioned run of text from pdf.js getTextContent(). x/y are the
+ * baseline origin in PDF units, y growing upwards.
+ */
+export interface PDFTextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Pages are separated by a blank line in the combined text
+const PAGE_SEPARATOR = '\n\n';
+
+// A line or page number repeated at the same edge of this share of pages is a running header/footer
+const RUNNING_LINE_MIN_SHARE = 0.5;
+// Lines at each edge of a page that may be a header or footer
+const EDGE_LINES = 2;
+
+// Text side by side on this many lines, either side of a shared gap, may be columns...
+const MIN_COLUMN_LINES = 3;
+// ...when the lines on both sides are about this many font heights wide; table
+// rows with short cells are read across instead
+const MIN_COLUMN_WIDTH_EMS = 12;
+
 /**
- * Extract text and tables from PDF buffer
+ * Extract text and tables from PDF buffer. Pages without a text layer
+ * (scans) are read by OCR from their largest image.
  */
 export async function processPDF(buffer: Buffer): Promise<PDFProcessingResult> {
   try {
-    // Use require instead of dynamic import to avoid pdf-parse debug mode issue
-    const pdf = require('pdf-parse');
-    
-    // Extract basic text content
-    const pdfData = await pdf(buffer);
-    
-    // Extract tables using tabula-js
-    const tables = await extractTablesFromPDF(buffer);
-    
-    return {
-      text: pdfData.text,
-      tables,
-      pageCount: pdfData.numpages,
-      metadata: {
-        title: pdfData.info?.Title,
-        author: pdfData.info?.Author,
-        creationDate: pdfData.info?.CreationDate,
-        modificationDate: pdfData.info?.ModDate,
+    // pdf.js build bundled with pdf-parse, used directly so each page's
+    // images can be read as well as its text
+    const PDFJS = require('pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js');
+    PDFJS.disableWorker = true;
+
+    // pdf.js reads the whole ArrayBuffer behind a Buffer, so a Buffer that is
+    // a slice of a larger one (pooled, or read from the database) is copied
+    // first. Images are decoded by pdf.js so scanned pages can be OCR'd.
+    const doc = await PDFJS.getDocument({ data: new Uint8Array(buffer), nativeImageDecoderSupport: 'none' });
+    try {
+      const info = (await doc.getMetadata().catch(() => null))?.info;
+      const pageLines: PageLines[] = [];
+      const tables: ExtractedTable[] = [];
+      const ocrPages: number[] = [];
+      let ocrFailure: Error | null = null;
+
+      for (let page = 1; page <= doc.numPages; page++) {
+        const pageData = await doc.getPage(page);
+        const [content, operatorList] = await Promise.all([
+          pageData.getTextContent({ normalizeWhitespace: true }),
+          pageData.getOperatorList()
+        ]);
+        const items: PDFTextItem[] = content.items.map(toTextItem);
+
+        if (items.some(item => item.str.trim()) || !ocrConfig.enabled) {
+          pageLines.push({ page, lines: layoutTextItems(items) });
+          tables.push(...extractTablesFromPage(items, extractRulings(operatorList, PDFJS.OPS), page));
+          continue;
+        }
+
+        try {
+          const recognized = await recognizePageImage(pageData, operatorList, PDFJS.OPS);
+          if (recognized) {
+            pageLines.push({ page, lines: recognized.lines, lineWords: recognized.lineWords });
+            ocrPages.push(page);
+          }
+        } catch (error) {
+          console.warn(`OCR failed for page ${page}:`, error instanceof Error ? error.message : error);
+          ocrFailure = ocrFailure || (error as Error);
+        }
       }
-    };
+
+      const { text, pages, pageMap, ocrWords } = composePages(pageLines);
+      // A scan that could not be read at all is an OCR problem, not an empty file
+      if (!text && ocrFailure) throw ocrFailure;
+
+      return {
+        text,
+        tables,
+        pageCount: doc.numPages,
+        pages,
+        pageMap,
+        ocrPages,
+        ocrWords,
+        metadata: {
+          title: info?.Title,
+          author: info?.Author,
+          creationDate: info?.CreationDate,
+          modificationDate: info?.ModDate,
+        }
+      };
+    } finally {
+      doc.destroy();
+    }
   } catch (error) {
     console.error('PDF processing error:', error);
     throw new Error(`Failed to process PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -58,163 +170,323 @@ export async function processPDF(buffer: Buffer): Promise<PDFProcessingResult> {
 }
 
 /**
- * Extract tables from PDF using tabula-js
+ * Extract text from a scanned image (PNG, JPEG or TIFF) by OCR. Each page of
+ * a multi-page TIFF is a page of the result.
  */
-async function extractTablesFromPDF(buffer: Buffer): Promise<ExtractedTable[]> {
-  try {
-    // Use require instead of dynamic import to avoid pdf-parse debug mode issue
-    const pdf = require('pdf-parse');
-    
-    // Note: tabula-js may require Java installation
-    // For now, implement basic table detection from text
-    const pdfData = await pdf(buffer);
-    return detectTablesFromText(pdfData.text);
-  } catch (error) {
-    console.error('Table extraction error:', error);
-    // Fallback to text-based table detection
-    const pdf = require('pdf-parse');
-    const pdfData = await pdf(buffer);
-    return detectTablesFromText(pdfData.text);
-  }
+export async function processImage(buffer: Buffer, extension: string): Promise<PDFProcessingResult> {
+  const recognized = await recognizeImage(buffer, extension);
+  const { text, pages, pageMap, ocrWords } = composePages(recognized);
+
+  return {
+    text,
+    tables: [],
+    pageCount: recognized.length,
+    pages,
+    pageMap,
+    ocrPages: recognized.map(page => page.page),
+    ocrWords,
+    metadata: {}
+  };
 }
 
 /**
- * Detect tables from extracted text (fallback method)
+ * OCR the largest image painted on a page, or null when it has none
  */
-function detectTablesFromText(text: string): ExtractedTable[] {
-  const tables: ExtractedTable[] = [];
-  const lines = text.split('\n');
-  
-  let currentTable: string[][] = [];
-  let inTable = false;
-  let tableStartIndex = 0;
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-    
-    // Skip empty lines
-    if (!line) {
-      if (inTable && currentTable.length > 0) {
-        // End of table
-        tables.push(createTableFromRows(currentTable, tableStartIndex));
-        currentTable = [];
-        inTable = false;
-      }
-      continue;
+async function recognizePageImage(pageData: any, operatorList: any, ops: any): Promise<OcrPage | null> {
+  let largest: DecodedImage | null = null;
+  for (let i = 0; i < operatorList.fnArray.length; i++) {
+    const fn = operatorList.fnArray[i];
+    const args = operatorList.argsArray[i];
+    let image: DecodedImage | null = null;
+    if (fn === ops.paintImageXObject) {
+      image = await new Promise<DecodedImage>(resolve => pageData.objs.get(args[0], resolve));
+    } else if (fn === ops.paintInlineImageXObject) {
+      image = args[0];
     }
-    
-    // Detect table-like patterns
-    if (isTableRow(line)) {
-      if (!inTable) {
-        inTable = true;
-        tableStartIndex = i;
-      }
-      
-      // Parse row data
-      const rowData = parseTableRow(line);
-      if (rowData.length > 1) {
-        currentTable.push(rowData);
-      }
-    } else if (inTable) {
-      // End of table
-      if (currentTable.length > 1) {
-        tables.push(createTableFromRows(currentTable, tableStartIndex));
-      }
-      currentTable = [];
-      inTable = false;
+    if (image && image.data && (!largest || image.width * image.height > largest.width * largest.height)) {
+      largest = image;
     }
   }
-  
-  // Handle table at end of document
-  if (inTable && currentTable.length > 1) {
-    tables.push(createTableFromRows(currentTable, tableStartIndex));
-  }
-  
-  return tables;
+  if (!largest) return null;
+
+  const [recognized] = await recognizeImage(encodePnm(largest), 'pnm');
+  return recognized || null;
+}
+
+function toTextItem(item: any): PDFTextItem {
+  const [, , c, d, x, y] = item.transform;
+  return {
+    str: item.str,
+    x,
+    y,
+    width: item.width || 0,
+    // Font size from the text matrix when pdf.js reports no height
+    height: item.height || Math.sqrt(c * c + d * d) || 1
+  };
+}
+
+interface TextLine {
+  y: number;
+  height: number;
+  items: PDFTextItem[]; // Left to right
 }
 
 /**
- * Check if a line looks like a table row
+ * Arrange a page's text items into lines in reading order. Items are on one
+ * line when their baselines are within half a font height. Columns are found
+ * first: consecutive lines that leave a shared vertical gutter empty, with
+ * lines of running text on both sides. Each column is read to its end before
+ * the next one; text above and below the columns (a title, a full-width
+ * paragraph) keeps its place. Elsewhere lines run top to bottom, then left
+ * to right. Gaps wider than a couple of characters become a run of spaces so
+ * table cells stay apart, and a vertical gap of more than about a line and a
+ * half becomes an empty line (paragraph break).
  */
-function isTableRow(line: string): boolean {
-  // Skip empty or whitespace-only lines
-  if (!line.trim()) {
-    return false;
+export function layoutTextItems(items: PDFTextItem[]): string[] {
+  return layoutLines(groupLines(items.filter(item => item.str.trim())));
+}
+
+function groupLines(items: PDFTextItem[]): TextLine[] {
+  const sorted = items.slice().sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lines: TextLine[] = [];
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= Math.max(line.height, item.height) / 2) {
+      line.items.push(item);
+      line.height = Math.max(line.height, item.height);
+    } else {
+      lines.push({ y: item.y, height: item.height, items: [item] });
+    }
   }
-  
-  // Skip separator lines (like -------|-------|-----)
-  if (/^[\s\-\|]*$/.test(line)) {
-    return false;
+  lines.forEach(line => line.items.sort((a, b) => a.x - b.x));
+  return lines;
+}
+
+function layoutLines(lines: TextLine[]): string[] {
+  const columns = findColumns(lines);
+  if (!columns) {
+    const result: string[] = [];
+    lines.forEach((line, index) => {
+      if (index > 0 && isParagraphBreak(lines[index - 1], line)) {
+        result.push('');
+      }
+      result.push(renderLine(line));
+    });
+    return result;
   }
-  
-  // Look for common table patterns
-  const patterns = [
-    /.*\|.*\|.*/,       // Pipe-separated (content with pipes)
-    /.*\t.*\t.*/,       // Tab-separated (content with tabs)  
-    /\s{3,}.+\s{3,}/,   // Multiple spaces (must have content between spaces)
-    /^\s*\w+\s+[\d\.]/,  // Name followed by number
-  ];
-  
-  return patterns.some(pattern => pattern.test(line));
+
+  const { start, end, gutter } = columns;
+  const middle = (gutter[0] + gutter[1]) / 2;
+  const left: PDFTextItem[] = [];
+  const right: PDFTextItem[] = [];
+  lines.slice(start, end).forEach(line => {
+    line.items.forEach(item => (item.x + item.width / 2 < middle ? left : right).push(item));
+  });
+
+  const result = layoutLines(lines.slice(0, start));
+  if (start > 0 && isParagraphBreak(lines[start - 1], lines[start])) {
+    result.push('');
+  }
+  // No break between columns: a paragraph may run on into the next one
+  result.push(...layoutLines(groupLines(left)), ...layoutLines(groupLines(right)));
+  if (end < lines.length) {
+    if (isParagraphBreak(lines[end - 1], lines[end])) {
+      result.push('');
+    }
+    result.push(...layoutLines(lines.slice(end)));
+  }
+  return result;
 }
 
 /**
- * Parse a table row into columns
+ * The first run of lines laid out in columns, and the gutter between the
+ * first two. Lines with text on one side only (a column that ends early or
+ * has a paragraph break) stay in the run.
  */
-function parseTableRow(line: string): string[] {
-  // Try different delimiters
-  if (line.includes('|')) {
-    return line.split('|').map(cell => cell.trim()).filter(cell => cell);
+function findColumns(lines: TextLine[]): { start: number; end: number; gutter: [number, number] } | null {
+  for (let start = 0; start < lines.length; start++) {
+    const em = lines[start].height;
+    for (const gap of lineGaps(lines[start])) {
+      let gutter = gap;
+      let end = start + 1;
+      while (end < lines.length) {
+        const line = lines[end];
+        if (line.items.every(item => item.x + item.width <= gutter[0]) || line.items.every(item => item.x >= gutter[1])) {
+          end++;
+          continue;
+        }
+        const shared = lineGaps(line)
+          .map(([from, to]): [number, number] => [Math.max(from, gutter[0]), Math.min(to, gutter[1])])
+          .find(([from, to]) => to - from >= em / 2);
+        if (!shared) break;
+        gutter = shared;
+        end++;
+      }
+
+      if (end - start >= MIN_COLUMN_LINES && isRunningText(lines.slice(start, end), gutter)) {
+        return { start, end, gutter };
+      }
+    }
   }
-  
-  if (line.includes('\t')) {
-    return line.split('\t').map(cell => cell.trim()).filter(cell => cell);
+  return null;
+}
+
+// Horizontal gaps of at least a font height between the items of a line
+function lineGaps(line: TextLine): Array<[number, number]> {
+  const gaps: Array<[number, number]> = [];
+  let lastEnd = line.items[0].x + line.items[0].width;
+  for (const item of line.items.slice(1)) {
+    if (item.x - lastEnd >= line.height) {
+      gaps.push([lastEnd, item.x]);
+    }
+    lastEnd = Math.max(lastEnd, item.x + item.width);
   }
-  
-  // Split on multiple spaces
-  return line.split(/\s{2,}/).map(cell => cell.trim()).filter(cell => cell);
+  return gaps;
+}
+
+// Whether the lines are typically wide on both sides of the gutter
+function isRunningText(lines: TextLine[], gutter: [number, number]): boolean {
+  const medianWidth = (side: (item: PDFTextItem) => boolean) => {
+    const widths = lines
+      .map(line => line.items.filter(side))
+      .filter(items => items.length > 0)
+      .map(items => items[items.length - 1].x + items[items.length - 1].width - items[0].x)
+      .sort((a, b) => a - b);
+    return widths.length > 0 ? widths[Math.floor(widths.length / 2)] : 0;
+  };
+  const minWidth = MIN_COLUMN_WIDTH_EMS * lines[0].height;
+  return medianWidth(item => item.x < gutter[0]) >= minWidth && medianWidth(item => item.x >= gutter[1]) >= minWidth;
+}
+
+function isParagraphBreak(previous: TextLine, line: TextLine): boolean {
+  return previous.y - line.y > Math.max(previous.height, line.height) * 1.8;
+}
+
+function renderLine(line: TextLine): string {
+  let text = '';
+  let lastEnd: number | null = null;
+  for (const item of line.items) {
+    if (lastEnd !== null) {
+      const gap = item.x - lastEnd;
+      if (gap > item.height * 2) {
+        text += '   ';
+      } else if (gap > item.height * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.str)) {
+        text += ' ';
+      }
+    }
+    text += item.str;
+    lastEnd = item.x + item.width;
+  }
+  return text.trim();
 }
 
 /**
- * Create structured table from parsed rows
+ * Remove running headers and footers: lines among the first or last few of
+ * a page that repeat on enough pages once numbers are ignored ("Page 3 of
+ * 12", "Chapter 2 - Dosing"), plus bare page numbers at either edge.
  */
-function createTableFromRows(rows: string[][], startIndex: number): ExtractedTable {
-  if (rows.length === 0) {
-    throw new Error('Cannot create table from empty rows');
-  }
-  
-  const headers = rows[0];
-  const data = rows.slice(1);
-  
-  return {
-    data,
-    headers,
-    rowCount: data.length,
-    colCount: headers.length,
-    page: Math.floor(startIndex / 50) + 1, // Rough page estimate
-    confidence: calculateTableConfidence(rows)
+export function stripRunningLines<T extends { lines: string[]; lineWords?: OcrWord[][] }>(pages: T[]): T[] {
+  const key = (line: string) => line.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+  const edgeIndexes = (lines: string[]) => {
+    const content = lines.map((line, index) => (line.trim() ? index : -1)).filter(index => index >= 0);
+    return {
+      top: content.slice(0, EDGE_LINES),
+      bottom: content.slice(-EDGE_LINES)
+    };
   };
+
+  // Count each edge line once per page
+  const counts = { top: new Map<string, number>(), bottom: new Map<string, number>() };
+  for (const { lines } of pages) {
+    const edges = edgeIndexes(lines);
+    (['top', 'bottom'] as const).forEach(edge => {
+      new Set(edges[edge].map(index => key(lines[index]))).forEach(lineKey => {
+        counts[edge].set(lineKey, (counts[edge].get(lineKey) || 0) + 1);
+      });
+    });
+  }
+
+  const minPages = Math.max(2, Math.ceil(pages.length * RUNNING_LINE_MIN_SHARE));
+  const isPageNumber = (line: string) => /^[-\s]*(page\s*)?\d+(\s*(of|\/)\s*\d+)?[-\s]*$/i.test(line);
+
+  return pages.map(page => {
+    const edges = edgeIndexes(page.lines);
+    const drop = new Set<number>();
+    (['top', 'bottom'] as const).forEach(edge => {
+      edges[edge].forEach(index => {
+        const line = page.lines[index];
+        if (isPageNumber(line) || (counts[edge].get(key(line)) || 0) >= minPages) {
+          drop.add(index);
+        }
+      });
+    });
+    const keep = (_: unknown, index: number) => !drop.has(index);
+    return {
+      ...page,
+      lines: page.lines.filter(keep),
+      ...(page.lineWords && { lineWords: page.lineWords.filter(keep) })
+    };
+  });
 }
 
 /**
- * Calculate confidence score for detected table
+ * Turn the lines of each page into the document text: running headers and
+ * footers are removed, blank lines at the edges of a page dropped and runs of
+ * them collapsed, and OCR'd words placed at their offsets in the text.
  */
-function calculateTableConfidence(rows: string[][]): number {
-  if (rows.length < 2) return 0;
-  
-  // Check consistency of column counts
-  const expectedCols = rows[0].length;
-  const consistentRows = rows.filter(row => row.length === expectedCols).length;
-  const consistency = consistentRows / rows.length;
-  
-  // Check for medical-like content
-  const medicalTerms = /glucose|cholesterol|pressure|heart|blood|test|result|normal|high|low/i;
-  const medicalContent = rows.flat().some(cell => medicalTerms.test(cell));
-  
-  let confidence = consistency * 0.7;
-  if (medicalContent) confidence += 0.3;
-  
-  return Math.min(confidence, 1.0);
+function composePages(pageLines: PageLines[]): {
+  text: string;
+  pages: PDFPageText[];
+  pageMap: PageMap;
+  ocrWords: OcrWord[];
+} {
+  const pageWords: OcrWord[][] = [];
+  const pages = stripRunningLines(pageLines).map(({ page, lines, lineWords }) => {
+    const kept: string[] = [];
+    const words: OcrWord[] = [];
+    let length = 0;
+    lines.forEach((line, index) => {
+      if (!line && (kept.length === 0 || !kept[kept.length - 1])) return;
+      if (kept.length > 0) length += 1;
+      (lineWords?.[index] || []).forEach(word => {
+        words.push({ ...word, start: length + word.start, end: length + word.end });
+      });
+      kept.push(line);
+      length += line.length;
+    });
+    while (kept.length > 0 && !kept[kept.length - 1]) kept.pop();
+    pageWords.push(words);
+    return { page, text: kept.join('\n') };
+  });
+
+  const { text, pageMap } = joinPages(pages);
+  // joinPages skips empty pages, which have no words either
+  const ocrWords: OcrWord[] = [];
+  Array.from(pageMap.values()).forEach(({ start, page }) => {
+    const words = pageWords[pages.findIndex(entry => entry.page === page)];
+    words.forEach(word => ocrWords.push({ ...word, start: start + word.start, end: start + word.end }));
+  });
+
+  return { text, pages, pageMap, ocrWords };
+}
+
+/**
+ * Join page texts and record where each one starts and ends
+ */
+export function joinPages(pages: PDFPageText[]): { text: string; pageMap: PageMap } {
+  const pageMap: PageMap = new Map();
+  const parts: string[] = [];
+  let position = 0;
+
+  pages.filter(page => page.text).forEach((page, index) => {
+    if (index > 0) position += PAGE_SEPARATOR.length;
+    pageMap.set(index, { start: position, end: position + page.text.length, page: page.page });
+    parts.push(page.text);
+    position += page.text.length;
+  });
+
+  return { text: parts.join(PAGE_SEPARATOR), pageMap };
 }
 
 /**
@@ -0,0 +1,477 @@
+/**
+ * Geometry-based table extraction from PDF pages
+ * Works from the positions of a page's text items and the lines drawn on it,
+ * all in PDF units with the origin at the bottom left of the page.
+ *   - Ruled tables: a grid of drawn horizontal and vertical lines gives the
+ *     rows and columns; a missing line inside the grid is a merged cell.
+ *   - Unruled tables: columns are clustered from the x-ranges of the text on
+ *     consecutive lines that have more than one run of text.
+ * Multi-row headers are flattened into one name per column, e.g. a "Dose"
+ * cell over "Adult" and "Child" becomes "Dose Adult" and "Dose Child".
+ */
+
+import type { ExtractedTable, PDFTextItem, TableBoundingBox } from './pdf-processor';
+
+/**
+ * A horizontal or vertical line drawn on the page
+ */
+export interface RulingLine {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// A cell of a table row and the columns it covers
+interface Span {
+  text: string;
+  from: number;
+  to: number;
+}
+
+interface TextLine {
+  y: number;
+  height: number;
+  segments: Array<{ x0: number; x1: number; text: string; items: PDFTextItem[] }>;
+}
+
+// Positions this close (PDF units) are the same line or boundary
+const TOLERANCE = 3;
+// Drawn lines shorter than this are not table rules
+const MIN_RULING_LENGTH = 5;
+// Filled rectangles thinner than this are drawn lines
+const MAX_RULE_THICKNESS = 3;
+// Unruled blocks whose cells average more words than this are prose columns, not tables
+const MAX_WORDS_PER_CELL = 8;
+
+/**
+ * Collect the horizontal and vertical lines stroked or filled on a page from
+ * its pdf.js operator list. `ops` is pdf.js's OPS table.
+ */
+export function extractRulings(
+  operatorList: { fnArray: number[]; argsArray: any[] },
+  ops: Record<string, number>
+): RulingLine[] {
+  const rulings: RulingLine[] = [];
+  const stack: number[][] = [];
+  let ctm = [1, 0, 0, 1, 0, 0];
+  let path: RulingLine[] = [];
+
+  const point = (x: number, y: number) => [ctm[0] * x + ctm[2] * y + ctm[4], ctm[1] * x + ctm[3] * y + ctm[5]];
+  const segment = (ax: number, ay: number, bx: number, by: number) => {
+    const [x0, y0] = point(ax, ay);
+    const [x1, y1] = point(bx, by);
+    path.push({ x0, y0, x1, y1 });
+  };
+
+  const paint = [
+    ops.stroke, ops.closeStroke, ops.fill, ops.eoFill, ops.fillStroke,
+    ops.eoFillStroke, ops.closeFillStroke, ops.closeEOFillStroke
+  ];
+
+  operatorList.fnArray.forEach((fn, index) => {
+    const args = operatorList.argsArray[index];
+
+    if (fn === ops.save) {
+      stack.push(ctm);
+    } else if (fn === ops.restore) {
+      ctm = stack.pop() || ctm;
+    } else if (fn === ops.transform) {
+      const [a, b, c, d, e, f] = args;
+      ctm = [
+        a * ctm[0] + b * ctm[2], a * ctm[1] + b * ctm[3],
+        c * ctm[0] + d * ctm[2], c * ctm[1] + d * ctm[3],
+        e * ctm[0] + f * ctm[2] + ctm[4], e * ctm[1] + f * ctm[3] + ctm[5]
+      ];
+    } else if (fn === ops.constructPath) {
+      const [pathOps, coords] = args as [number[], number[]];
+      let c = 0;
+      let current = [0, 0];
+      let start = [0, 0];
+
+      for (const op of pathOps) {
+        if (op === ops.moveTo) {
+          current = start = [coords[c], coords[c + 1]];
+          c += 2;
+        } else if (op === ops.lineTo) {
+          segment(current[0], current[1], coords[c], coords[c + 1]);
+          current = [coords[c], coords[c + 1]];
+          c += 2;
+        } else if (op === ops.rectangle) {
+          const [x, y, w, h] = coords.slice(c, c + 4);
+          c += 4;
+          if (Math.abs(h) <= MAX_RULE_THICKNESS) {
+            segment(x, y + h / 2, x + w, y + h / 2);
+          } else if (Math.abs(w) <= MAX_RULE_THICKNESS) {
+            segment(x + w / 2, y, x + w / 2, y + h);
+          } else {
+            segment(x, y, x + w, y);
+            segment(x + w, y, x + w, y + h);
+            segment(x + w, y + h, x, y + h);
+            segment(x, y + h, x, y);
+          }
+          current = start = [x, y];
+        } else if (op === ops.curveTo) {
+          current = [coords[c + 4], coords[c + 5]];
+          c += 6;
+        } else if (op === ops.curveTo2 || op === ops.curveTo3) {
+          current = [coords[c + 2], coords[c + 3]];
+          c += 4;
+        } else if (op === ops.closePath) {
+          segment(current[0], current[1], start[0], start[1]);
+          current = start;
+        }
+      }
+    } else if (paint.includes(fn)) {
+      rulings.push(...path);
+      path = [];
+    } else if (fn === ops.endPath) {
+      // A path ended without painting is a clipping path
+      path = [];
+    }
+  });
+
+  return rulings
+    .map(line => ({
+      x0: Math.min(line.x0, line.x1),
+      y0: Math.min(line.y0, line.y1),
+      x1: Math.max(line.x0, line.x1),
+      y1: Math.max(line.y0, line.y1)
+    }))
+    .filter(line => {
+      const horizontal = line.y1 - line.y0 <= 1 && line.x1 - line.x0 >= MIN_RULING_LENGTH;
+      const vertical = line.x1 - line.x0 <= 1 && line.y1 - line.y0 >= MIN_RULING_LENGTH;
+      return horizontal || vertical;
+    });
+}
+
+/**
+ * Find the tables on one page. Text inside a ruled table is not considered
+ * again for unruled ones.
+ */
+export function extractTablesFromPage(items: PDFTextItem[], rulings: RulingLine[], page: number): ExtractedTable[] {
+  const tables: ExtractedTable[] = [];
+  let remaining = items.filter(item => item.str.trim());
+
+  for (const grid of findGrids(rulings)) {
+    const table = readRuledTable(grid, remaining, page);
+    if (table) {
+      tables.push(table);
+      remaining = remaining.filter(item => !contains(table.bbox!, center(item)));
+    }
+  }
+
+  tables.push(...readUnruledTables(remaining, page));
+  return tables.sort((a, b) => b.bbox!.y1 - a.bbox!.y1);
+}
+
+// Rulings of one grid: groups of lines joined by crossing one another
+interface Grid {
+  horizontals: RulingLine[];
+  verticals: RulingLine[];
+}
+
+function findGrids(rulings: RulingLine[]): Grid[] {
+  const horizontals = rulings.filter(line => line.y1 - line.y0 <= 1);
+  const verticals = rulings.filter(line => line.y1 - line.y0 > 1);
+  const lines = [...horizontals, ...verticals];
+  const parent = lines.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+
+  horizontals.forEach((h, i) => {
+    verticals.forEach((v, j) => {
+      const crosses = v.x0 >= h.x0 - TOLERANCE && v.x0 <= h.x1 + TOLERANCE
+        && h.y0 >= v.y0 - TOLERANCE && h.y0 <= v.y1 + TOLERANCE;
+      if (crosses) parent[find(i)] = find(horizontals.length + j);
+    });
+  });
+
+  const groups = new Map<number, Grid>();
+  lines.forEach((line, index) => {
+    const root = find(index);
+    if (!groups.has(root)) groups.set(root, { horizontals: [], verticals: [] });
+    const grid = groups.get(root)!;
+    (index < horizontals.length ? grid.horizontals : grid.verticals).push(line);
+  });
+
+  // At least two rows and two columns
+  return Array.from(groups.values()).filter(grid =>
+    cluster(grid.horizontals.map(line => line.y0)).length >= 3
+    && cluster(grid.verticals.map(line => line.x0)).length >= 3
+  );
+}
+
+function readRuledTable(grid: Grid, items: PDFTextItem[], page: number): ExtractedTable | null {
+  const xs = cluster(grid.verticals.map(line => line.x0));
+  const ys = cluster(grid.horizontals.map(line => line.y0)).reverse();
+  const columns = xs.length - 1;
+  const bands = ys.length - 1;
+
+  // Whether a line separates the cells on either side of it
+  const verticalAt = (c: number, band: number) => {
+    const mid = (ys[band] + ys[band + 1]) / 2;
+    return grid.verticals.some(line => Math.abs(line.x0 - xs[c]) <= TOLERANCE && line.y0 - TOLERANCE <= mid && mid <= line.y1 + TOLERANCE);
+  };
+  const horizontalAt = (band: number, c: number) => {
+    const mid = (xs[c] + xs[c + 1]) / 2;
+    return grid.horizontals.some(line => Math.abs(line.y0 - ys[band]) <= TOLERANCE && line.x0 - TOLERANCE <= mid && mid <= line.x1 + TOLERANCE);
+  };
+
+  // Spans of each band; a cell merged across bands belongs to its top band
+  const spans: Span[][] = [];
+  const owner: Array<Array<Span>> = [];
+  for (let band = 0; band < bands; band++) {
+    spans.push([]);
+    owner.push([]);
+    for (let c = 0; c < columns; c++) {
+      if (band > 0 && !horizontalAt(band, c)) {
+        owner[band][c] = owner[band - 1][c];
+      } else if (c > 0 && !verticalAt(c, band) && owner[band][c - 1] && spans[band].includes(owner[band][c - 1])) {
+        owner[band][c] = owner[band][c - 1];
+        owner[band][c].to = c;
+      } else {
+        owner[band][c] = { text: '', from: c, to: c };
+        spans[band].push(owner[band][c]);
+      }
+    }
+  }
+
+  const cellItems = new Map<Span, PDFTextItem[]>();
+  for (const item of items) {
+    const [x, y] = center(item);
+    const c = xs.findIndex((left, index) => index < columns && x >= left && x <= xs[index + 1]);
+    const band = ys.findIndex((top, index) => index < bands && y <= top && y >= ys[index + 1]);
+    if (c < 0 || band < 0) continue;
+    const span = owner[band][c];
+    cellItems.set(span, [...(cellItems.get(span) || []), item]);
+  }
+  if (cellItems.size === 0) return null;
+  cellItems.forEach((cell, span) => { span.text = cellText(cell); });
+
+  // The header grows while its last row has merged cells over the next one
+  let headerRows = 1;
+  while (headerRows < bands - 1) {
+    const last = spans[headerRows - 1];
+    const spansColumns = last.some(span => span.to > span.from);
+    const spansRows = Array.from({ length: columns }, (_, c) => !horizontalAt(headerRows, c)).some(Boolean);
+    if (!spansColumns && !spansRows) break;
+    headerRows++;
+  }
+
+  const body = spans.slice(headerRows).map(row => toCells(row, columns));
+  return buildTable(spans.slice(0, headerRows), body, columns, page, {
+    x0: xs[0],
+    y0: ys[ys.length - 1],
+    x1: xs[xs.length - 1],
+    y1: ys[0]
+  }, true);
+}
+
+function readUnruledTables(items: PDFTextItem[], page: number): ExtractedTable[] {
+  const lines = toLines(items);
+  const tables: ExtractedTable[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].segments.length < 2) {
+      i++;
+      continue;
+    }
+
+    // A block runs over lines with several runs of text, plus single runs
+    // that start right of its left edge (wrapped cells)
+    const left = lines[i].segments[0].x0;
+    let start = i;
+    let end = i + 1;
+    while (end < lines.length && closeBelow(lines[end - 1], lines[end])
+      && (lines[end].segments.length >= 2 || lines[end].segments[0].x0 > left + lines[end].height)) {
+      end++;
+    }
+    // A line just above whose text is all right of the left edge heads merged columns
+    if (start > 0 && closeBelow(lines[start - 1], lines[start])
+      && lines[start - 1].segments.every(segment => segment.x0 > left + lines[start].height)) {
+      start--;
+    }
+
+    const table = readUnruledBlock(lines.slice(start, end), left, page);
+    if (table) tables.push(table);
+    i = end;
+  }
+
+  return tables;
+}
+
+function readUnruledBlock(lines: TextLine[], left: number, page: number): ExtractedTable | null {
+  if (lines.filter(line => line.segments.length >= 2).length < 3) return null;
+
+  // Columns: the x-ranges covered by text below the header line, merged where they overlap
+  const first = lines.findIndex(line => line.segments[0].x0 <= left + TOLERANCE);
+  const ranges = lines.slice(first + 1)
+    .flatMap(line => line.segments.map(segment => ({ x0: segment.x0, x1: segment.x1 })))
+    .sort((a, b) => a.x0 - b.x0);
+  const columns: Array<{ x0: number; x1: number }> = [];
+  for (const range of ranges) {
+    const last = columns[columns.length - 1];
+    if (last && range.x0 <= last.x1 + TOLERANCE) {
+      last.x1 = Math.max(last.x1, range.x1);
+    } else {
+      columns.push({ ...range });
+    }
+  }
+  if (columns.length < 2) return null;
+
+  // Each column owns the space up to halfway to its neighbours, so a header
+  // cell centred over several columns covers all of them
+  const edges = columns.map((column, index) => (index === 0 ? -Infinity : (columns[index - 1].x1 + column.x0) / 2));
+  edges.push(Infinity);
+  const toSpans = (line: TextLine): Span[] => line.segments.map(segment => {
+    const covered = columns
+      .map((_, index) => (segment.x0 < edges[index + 1] && segment.x1 > edges[index] ? index : -1))
+      .filter(index => index >= 0);
+    return { text: segment.text, from: covered[0], to: covered[covered.length - 1] };
+  });
+
+  // A row starts with text in the first column; other lines continue the
+  // cells of the row above
+  const rows: Span[][][] = [];
+  for (const line of lines) {
+    const spans = toSpans(line);
+    if (spans.some(span => span.from === 0) || rows.length === 0) {
+      rows.push([spans]);
+    } else {
+      rows[rows.length - 1].push(spans);
+    }
+  }
+  // Lines above the first row head merged columns and belong to the header too
+  const headerCount = rows[0][0].some(span => span.from === 0) ? 1 : 2;
+  const header = rows.slice(0, headerCount).flat();
+  const body = rows.slice(headerCount).map(row => toCells(row.flat(), columns.length));
+  if (body.length === 0) return null;
+
+  const cells = [...header.flat().map(span => span.text), ...body.flat().filter(Boolean)];
+  const words = cells.reduce((sum, text) => sum + text.split(/\s+/).length, 0);
+  if (words / cells.length > MAX_WORDS_PER_CELL) return null;
+
+  const blockItems = lines.flatMap(line => line.segments.flatMap(segment => segment.items));
+  return buildTable(header, body, columns.length, page, {
+    x0: Math.min(...blockItems.map(item => item.x)),
+    y0: Math.min(...blockItems.map(item => item.y)),
+    x1: Math.max(...blockItems.map(item => item.x + item.width)),
+    y1: Math.max(...blockItems.map(item => item.y + item.height))
+  }, false);
+}
+
+function buildTable(
+  headerRows: Span[][],
+  body: string[][],
+  colCount: number,
+  page: number,
+  bbox: TableBoundingBox,
+  ruled: boolean
+): ExtractedTable | null {
+  // Each column is named by every header cell above it, merged ones included
+  const headers = Array.from({ length: colCount }, (_, c) => {
+    const parts: string[] = [];
+    headerRows.flat()
+      .filter(span => span.from <= c && c <= span.to && span.text)
+      .forEach(span => { if (parts[parts.length - 1] !== span.text) parts.push(span.text); });
+    return parts.join(' ');
+  });
+
+  const data = body.filter(row => row.some(Boolean));
+  if (data.length === 0) return null;
+
+  const filled = data.flat().filter(Boolean).length / (data.length * colCount);
+  return {
+    data,
+    headers,
+    rowCount: data.length,
+    colCount,
+    page,
+    confidence: Math.round((ruled ? 0.8 + 0.2 * filled : 0.5 + 0.3 * filled) * 100) / 100,
+    bbox
+  };
+}
+
+// Items grouped into lines top to bottom, each split into runs of text at gaps wider than a character
+function toLines(items: PDFTextItem[]): TextLine[] {
+  const lines: Array<{ y: number; height: number; items: PDFTextItem[] }> = [];
+  for (const item of [...items].sort((a, b) => b.y - a.y || a.x - b.x)) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= Math.max(line.height, item.height) / 2) {
+      line.items.push(item);
+      line.height = Math.max(line.height, item.height);
+    } else {
+      lines.push({ y: item.y, height: item.height, items: [item] });
+    }
+  }
+
+  return lines.map(line => {
+    const segments: TextLine['segments'] = [];
+    for (const item of line.items.sort((a, b) => a.x - b.x)) {
+      const last = segments[segments.length - 1];
+      if (last && item.x - last.x1 <= line.height) {
+        last.items.push(item);
+        last.x1 = Math.max(last.x1, item.x + item.width);
+      } else {
+        segments.push({ x0: item.x, x1: item.x + item.width, text: '', items: [item] });
+      }
+    }
+    segments.forEach(segment => { segment.text = cellText(segment.items); });
+    return { y: line.y, height: line.height, segments };
+  });
+}
+
+// Row cells by column; text of a merged cell goes to its first column
+function toCells(spans: Span[], colCount: number): string[] {
+  const cells = new Array<string>(colCount).fill('');
+  spans.forEach(span => {
+    if (span.text) cells[span.from] = cells[span.from] ? `${cells[span.from]} ${span.text}` : span.text;
+  });
+  return cells;
+}
+
+function cellText(items: PDFTextItem[]): string {
+  return toLinesOfItems(items)
+    .map(line => line.sort((a, b) => a.x - b.x).map(item => item.str.trim()).join(' '))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toLinesOfItems(items: PDFTextItem[]): PDFTextItem[][] {
+  const lines: PDFTextItem[][] = [];
+  for (const item of [...items].sort((a, b) => b.y - a.y)) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].y - item.y) <= item.height / 2) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+  return lines;
+}
+
+// Whether the next line is near enough to belong to the same block
+function closeBelow(above: TextLine, below: TextLine): boolean {
+  return above.y - below.y <= Math.max(above.height, below.height) * 2.5;
+}
+
+// Sorted positions with near-equal ones merged
+function cluster(values: number[]): number[] {
+  const result: number[] = [];
+  for (const value of [...values].sort((a, b) => a - b)) {
+    if (result.length === 0 || value - result[result.length - 1] > TOLERANCE) {
+      result.push(value);
+    }
+  }
+  return result;
+}
+
+function center(item: PDFTextItem): [number, number] {
+  return [item.x + item.width / 2, item.y + item.height / 3];
+}
+
+function contains(box: TableBoundingBox, [x, y]: [number, number]): boolean {
+  return x >= box.x0 && x <= box.x1 && y >= box.y0 && y <= box.y1;
+}
@@ -0,0 +1,289 @@
+/**
+ * Query log
+ * Every search and chat query is recorded with its ranked results, per-stage
+ * latency, model and token usage: every chat model call and embedding the
+ * query needed, not only the answer. getAnalytics() summarizes the log for
+ * /api/analytics: top queries, zero-result queries, slow queries and token
+ * spend per day.
+ */
+
+import { db } from './database';
+import { ragConfig } from './config';
+import { estimateCost, ChatUsage } from './chat-providers';
+import type { SearchFilters } from './search-filters';
+
+export type QuerySource = 'search' | 'chat';
+
+export interface QueryLogEntry {
+  userId: string;
+  source: QuerySource;
+  query: string;
+  searchMode: string;
+  filters?: SearchFilters | null;
+  results: any[]; // As returned to the caller, best first
+  stageLatencyMs: Record<string, number>;
+  totalMs: number;
+  modelUsed?: string | null;
+  usage?: QueryUsage;
+  conversationId?: string | null;
+}
+
+export interface QueryUsage extends ChatUsage {
+  embedding_tokens: number; // Part of total_tokens, not priced
+}
+
+export interface LoggedResult {
+  chunk_id: string;
+  score: number | null;
+}
+
+export interface QueryAnalytics {
+  days: number;
+  slowQueryMs: number;
+  totals: {
+    queries: number;
+    searchQueries: number;
+    chatQueries: number;
+    zeroResultRate: number;
+    avgLatencyMs: number;
+    p95LatencyMs: number;
+    totalTokens: number;
+    costUsd: number;
+  };
+  topQueries: Array<{ query: string; count: number; avg_results: number; last_seen: Date }>;
+  zeroResultQueries: Array<{ query: string; count: number; last_seen: Date }>;
+  slowQueries: Array<{
+    id: string;
+    source: QuerySource;
+    query_text: string;
+    search_mode: string;
+    total_ms: number;
+    stage_latency_ms: Record<string, number>;
+    created_at: Date;
+  }>;
+  tokenSpend: Array<{
+    day: string;
+    model_used: string;
+    queries: number;
+    prompt_tokens: number;
+    completion_tokens: number;
+    embedding_tokens: number;
+    total_tokens: number;
+    cost_usd: number | null; // null when the model has no price (CHAT_MODEL_PRICES)
+  }>;
+}
+
+/**
+ * Times the stages of one request; repeated stages accumulate
+ */
+export class StageTimer {
+  private readonly started = Date.now();
+  readonly stages: Record<string, number> = {};
+
+  async time<T>(stage: string, work: () => Promise<T>): Promise<T> {
+    const stageStarted = Date.now();
+    try {
+      return await work();
+    } finally {
+      this.stages[stage] = (this.stages[stage] || 0) + Date.now() - stageStarted;
+    }
+  }
+
+  // For stages that are not a single awaited call, such as a streamed answer
+  add(stage: string, ms: number): void {
+    this.stages[stage] = (this.stages[stage] || 0) + ms;
+  }
+
+  elapsed(): number {
+    return Date.now() - this.started;
+  }
+}
+
+/**
+ * Adds up the tokens one request spends: chat model calls (condensing the
+ * question, LLM reranking, the answer) and embeddings (the query, citation
+ * verification)
+ */
+export class UsageMeter {
+  readonly usage: QueryUsage = { prompt_tokens: 0, completion_tokens: 0, embedding_tokens: 0, total_tokens: 0 };
+  // First chat model that was called, for requests without an answer model
+  model: string | null = null;
+
+  addChat(usage: ChatUsage, model?: string): void {
+    this.usage.prompt_tokens += usage.prompt_tokens;
+    this.usage.completion_tokens += usage.completion_tokens;
+    this.usage.total_tokens += usage.total_tokens;
+    this.model = this.model || model || null;
+  }
+
+  addEmbedding(tokens: number): void {
+    this.usage.embedding_tokens += tokens;
+    this.usage.total_tokens += tokens;
+  }
+}
+
+/**
+ * Chunk ids with the score the caller saw: reranked, else the 0-1 similarity
+ */
+export function toLoggedResults(results: any[]): LoggedResult[] {
+  return results.map(result => {
+    const raw = result.reranked_score ?? result.similarity_score ?? null;
+    const score = raw === null ? NaN : Number(raw);
+    return {
+      chunk_id: String(result.chunk_id ?? result.id),
+      score: isNaN(score) ? null : Math.round(score * 10000) / 10000
+    };
+  });
+}
+
+const QUERY_WINDOW = `user_id = $1 AND created_at >= NOW() - ($2::int * INTERVAL '1 day')`;
+
+export class QueryLogService {
+  /**
+   * Record one query and return its id, which feedback refers to. Logging
+   * failures are reported and swallowed (null) so a query never fails because
+   * of analytics.
+   */
+  static async record(entry: QueryLogEntry): Promise<string | null> {
+    if (!ragConfig.queryLogEnabled) return null;
+
+    const results = toLoggedResults(entry.results);
+    const usage = entry.usage || { prompt_tokens: 0, completion_tokens: 0, embedding_tokens: 0, total_tokens: 0 };
+
+    try {
+      const result = await db.query(`
+        INSERT INTO query_log (
+          user_id, source, query_text, search_mode, filters, results, result_count,
+          stage_latency_ms, total_ms, model_used, prompt_tokens, completion_tokens, embedding_tokens, total_tokens, conversation_id
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        RETURNING id::text as id
+      `, [
+        entry.userId,
+        entry.source,
+        entry.query,
+        entry.searchMode,
+        entry.filters ? JSON.stringify(entry.filters) : null,
+        JSON.stringify(results),
+        results.length,
+        JSON.stringify(entry.stageLatencyMs),
+        entry.totalMs,
+        entry.modelUsed || null,
+        usage.prompt_tokens,
+        usage.completion_tokens,
+        usage.embedding_tokens,
+        usage.total_tokens,
+        entry.conversationId || null
+      ]);
+      return result.rows[0].id;
+    } catch (error) {
+      console.warn('Failed to record query in query_log:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Analytics over the user's queries of the last `days` days
+   */
+  static async getAnalytics(
+    userId: string,
+    options: { days?: number; limit?: number; slowQueryMs?: number } = {}
+  ): Promise<QueryAnalytics> {
+    const { days = 30, limit = 10, slowQueryMs = ragConfig.slowQueryMs } = options;
+    const window = [userId, days];
+
+    const [totals, topQueries, zeroResultQueries, slowQueries, tokenSpend] = await Promise.all([
+      db.query(`
+        SELECT
+          COUNT(*)::int as queries,
+          COUNT(*) FILTER (WHERE source = 'search')::int as search_queries,
+          COUNT(*) FILTER (WHERE source = 'chat')::int as chat_queries,
+          COUNT(*) FILTER (WHERE result_count = 0)::int as zero_result_queries,
+          COALESCE(AVG(total_ms), 0)::float8 as avg_latency_ms,
+          COALESCE(PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY total_ms), 0)::float8 as p95_latency_ms,
+          COALESCE(SUM(total_tokens), 0)::int as total_tokens
+        FROM query_log
+        WHERE ${QUERY_WINDOW}
+      `, window),
+
+      // Case and surrounding whitespace are ignored when grouping queries
+      db.query(`
+        SELECT
+          LOWER(TRIM(query_text)) as query,
+          COUNT(*)::int as count,
+          ROUND(AVG(result_count), 1)::float8 as avg_results,
+          MAX(created_at) as last_seen
+        FROM query_log
+        WHERE ${QUERY_WINDOW}
+        GROUP BY LOWER(TRIM(query_text))
+        ORDER BY count DESC, last_seen DESC
+        LIMIT $3
+      `, [...window, limit]),
+
+      db.query(`
+        SELECT
+          LOWER(TRIM(query_text)) as query,
+          COUNT(*)::int as count,
+          MAX(created_at) as last_seen
+        FROM query_log
+        WHERE ${QUERY_WINDOW} AND result_count = 0
+        GROUP BY LOWER(TRIM(query_text))
+        ORDER BY count DESC, last_seen DESC
+        LIMIT $3
+      `, [...window, limit]),
+
+      db.query(`
+        SELECT id::text as id, source, query_text, search_mode, total_ms, stage_latency_ms, created_at
+        FROM query_log
+        WHERE ${QUERY_WINDOW} AND total_ms >= $3
+        ORDER BY total_ms DESC
+        LIMIT $4
+      `, [...window, slowQueryMs, limit]),
+
+      db.query(`
+        SELECT
+          TO_CHAR(DATE(created_at), 'YYYY-MM-DD') as day,
+          model_used,
+          COUNT(*)::int as queries,
+          SUM(prompt_tokens)::int as prompt_tokens,
+          SUM(completion_tokens)::int as completion_tokens,
+          SUM(embedding_tokens)::int as embedding_tokens,
+          SUM(total_tokens)::int as total_tokens
+        FROM query_log
+        WHERE ${QUERY_WINDOW} AND total_tokens > 0
+        GROUP BY DATE(created_at), model_used
+        ORDER BY day, model_used
+      `, window)
+    ]);
+
+    // Only chat model tokens are priced
+    const spend = tokenSpend.rows.map((row: any) => ({
+      ...row,
+      cost_usd: estimateCost(row.model_used, {
+        prompt_tokens: row.prompt_tokens,
+        completion_tokens: row.completion_tokens,
+        total_tokens: row.prompt_tokens + row.completion_tokens
+      })
+    }));
+    const total = totals.rows[0];
+
+    return {
+      days,
+      slowQueryMs,
+      totals: {
+        queries: total.queries,
+        searchQueries: total.search_queries,
+        chatQueries: total.chat_queries,
+        zeroResultRate: total.queries > 0 ? Math.round((total.zero_result_queries / total.queries) * 10000) / 10000 : 0,
+        avgLatencyMs: Math.round(total.avg_latency_ms),
+        p95LatencyMs: Math.round(total.p95_latency_ms),
+        totalTokens: total.total_tokens,
+        costUsd: Math.round(spend.reduce((sum: number, row: any) => sum + (row.cost_usd ?? 0), 0) * 10000) / 10000
+      },
+      topQueries: topQueries.rows,
+      zeroResultQueries: zeroResultQueries.rows,
+      slowQueries: slowQueries.rows,
+      tokenSpend: spend
+    };
+  }
+}
@@ -17,6 +17,7 @@ export type ProcessingStatus =
 
 export interface ProcessingUpdate {
   documentId: string;
+  jobId?: string; // Set when processing runs through the ingestion job queue
   userId: string;
   filename: string;
   status: ProcessingStatus;
@@ -82,12 +83,14 @@ export class DocumentProcessor {
   private documentId: string;
   private userId: string;
   private filename: string;
+  private jobId?: string;
   private startTime: Date;
 
-  constructor(documentId: string, userId: string, filename: string) {
+  constructor(documentId: string, userId: string, filename: string, jobId?: string) {
     this.documentId = documentId;
     this.userId = userId;
     this.filename = filename;
+    this.jobId = jobId;
     this.startTime = new Date();
   }
 
@@ -95,6 +98,7 @@ export class DocumentProcessor {
   updateStatus(status: ProcessingStatus, progress: number, message: string, metadata?: any) {
     const update: ProcessingUpdate = {
       documentId: this.documentId,
+      jobId: this.jobId,
       userId: this.userId,
       filename: this.filename,
       status,
@@ -252,6 +256,6 @@ processingEmitter.on('status_update', (update: ProcessingUpdate) => {
 });
 
 // Utility function to create a document processor
-export function createDocumentProcessor(documentId: string, userId: string, filename: string): DocumentProcessor {
-  return new DocumentProcessor(documentId, userId, filename);
+export function createDocumentProcessor(documentId: string, userId: string, filename: string, jobId?: string): DocumentProcessor {
+  return new DocumentProcessor(documentId, userId, filename, jobId);
 }
\ No newline at end of file
@@ -1,9 +1,47 @@
 /**
  * Re-ranking system for search results
- * Adjusts scores based on multiple relevance signals
+ * Every reranker scores the top-N candidates of a search; applyReranker
+ * reorders them and keeps the per-result factors behind each new score.
+ * - heuristic: length, position, keyword density and query coverage
+ * - llm: one listwise relevance judgement from the chat model
+ * - cross_encoder: a local cross-encoder behind an HTTP rerank endpoint
+ * Learned feedback boosts (lib/feedback.ts) are added to the reranked scores.
  */
 
 import { HybridSearchResult } from './database';
+import { ragConfig } from './config';
+import { getChatProviders, ChatModelProvider } from './chat-providers';
+import { FeedbackService } from './feedback';
+import type { UsageMeter } from './query-log';
+
+export type RerankerName = 'heuristic' | 'llm' | 'cross_encoder';
+
+export const RERANKERS: RerankerName[] = ['heuristic', 'llm', 'cross_encoder'];
+
+export interface RerankCandidate {
+  chunk_id: string;
+  chunk_text: string;
+  chunk_index: number;
+  score: number; // Retrieval score before reranking
+  filename?: string;
+}
+
+export interface RerankScore {
+  score: number;
+  factors: Record<string, number>;
+}
+
+export interface Reranker {
+  readonly name: RerankerName;
+  // One score per candidate, in candidate order; model calls add their tokens to usage
+  score(query: string, candidates: RerankCandidate[], signal?: AbortSignal, usage?: UsageMeter): Promise<RerankScore[]>;
+}
+
+export interface RerankOptions {
+  reranker: RerankerName;
+  topN: number; // Candidates passed to the reranker; the rest keep their order below them
+  feedback?: boolean; // Apply feedback boosts; defaults to RAG_RERANK_FEEDBACK
+}
 
 export interface RerankedResult extends HybridSearchResult {
   original_combined_score: number;
@@ -32,7 +70,8 @@ export interface RerankingOptions {
   rerankingWeight?: number;
 }
 
-export class SearchReranker {
+export class SearchReranker implements Reranker {
+  readonly name = 'heuristic';
   private options: Required<RerankingOptions>;
 
   constructor(options: RerankingOptions = {}) {
@@ -79,8 +118,29 @@ export class SearchReranker {
     return rerankedResults.sort((a, b) => b.reranked_score - a.reranked_score);
   }
 
+  /**
+   * Reranker interface: the same blend, starting from the retrieval score
+   */
+  async score(query: string, candidates: RerankCandidate[]): Promise<RerankScore[]> {
+    const queryTerms = this.extractQueryTerms(query);
+
+    return candidates.map((candidate, index) => {
+      const factors = this.calculateRerankingFactors(candidate, query, queryTerms, index);
+      const rerankingBoost =
+        factors.length_penalty * this.options.lengthPenaltyWeight +
+        factors.position_boost * this.options.positionBoostWeight +
+        factors.keyword_density * this.options.keywordDensityWeight +
+        factors.query_coverage * this.options.queryCoverageWeight;
+
+      return {
+        score: Math.min(1.0, Math.max(0.0, candidate.score + rerankingBoost * this.options.rerankingWeight)),
+        factors
+      };
+    });
+  }
+
   private calculateRerankingFactors(
-    result: HybridSearchResult, 
+    result: { chunk_text: string; chunk_index: number }, 
     query: string, 
     queryTerms: string[], 
     position: number
@@ -165,4 +225,272 @@ Score Breakdown:
 }
 
 // Default reranker instance
-export const defaultReranker = new SearchReranker();
\ No newline at end of file
+export const defaultReranker = new SearchReranker();
+
+/**
+ * Listwise LLM reranker: all candidates go into one prompt and the model
+ * rates each passage 0-10 for how well it answers the query
+ */
+export class LLMReranker implements Reranker {
+  readonly name = 'llm';
+
+  constructor(private provider?: ChatModelProvider, private maxPassageChars = 800) {}
+
+  async score(query: string, candidates: RerankCandidate[], signal?: AbortSignal, usage?: UsageMeter): Promise<RerankScore[]> {
+    const passages = candidates
+      .map((candidate, index) => `[${index + 1}] ${candidate.chunk_text.slice(0, this.maxPassageChars).replace(/\s+/g, ' ')}`)
+      .join('\n\n');
+
+    const prompt = `Rate how well each passage answers the query, from 0 (irrelevant) to 10 (answers it completely). Judge only relevance to the query, not writing quality.
+
+QUERY: ${query}
+
+PASSAGES:
+${passages}
+
+Reply with a JSON array only, one entry per passage: [{"id": 1, "score": 7}, ...]`;
+
+    const provider = this.provider || getChatProviders()[0];
+    const { content, usage: completionUsage } = await provider.complete([{ role: 'user', content: prompt }], { maxTokens: 20 + candidates.length * 15, temperature: 0, signal });
+    usage?.addChat(completionUsage, provider.model);
+
+    const ratings = new Map<number, number>();
+    const json = content.match(/\[[\s\S]*\]/);
+    if (!json) {
+      throw new Error('LLM reranker reply contained no JSON array');
+    }
+    for (const entry of JSON.parse(json[0])) {
+      const score = Number(entry?.score);
+      if (Number.isInteger(entry?.id) && isFinite(score)) {
+        ratings.set(entry.id, Math.min(10, Math.max(0, score)));
+      }
+    }
+
+    // Passages the model skipped count as irrelevant
+    return candidates.map((candidate, index) => {
+      const rating = ratings.get(index + 1) ?? 0;
+      return { score: rating / 10, factors: { llm_rating: rating, retrieval_score: candidate.score } };
+    });
+  }
+}
+
+/**
+ * Cross-encoder served over HTTP (llama.cpp server, vLLM, Infinity or any
+ * Jina/Cohere-style /rerank endpoint): POST { model, query, documents }, reply
+ * { results: [{ index, relevance_score }] } or [{ index, score }]
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly name = 'cross_encoder';
+
+  constructor(private url: string, private model: string) {}
+
+  async score(query: string, candidates: RerankCandidate[], signal?: AbortSignal): Promise<RerankScore[]> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.model,
+        query,
+        documents: candidates.map(candidate => candidate.chunk_text)
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Cross-encoder reranker error (${response.status}): ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const rows: any[] = Array.isArray(data) ? data : data.results;
+    if (!Array.isArray(rows)) {
+      throw new Error('Cross-encoder reranker returned no results');
+    }
+
+    const scores = new Map<number, number>();
+    rows.forEach(row => scores.set(row.index, Number(row.relevance_score ?? row.score)));
+
+    return candidates.map((candidate, index) => {
+      const raw = scores.get(index) ?? Number.NEGATIVE_INFINITY;
+      // Raw logits are squashed so reranked scores stay within 0-1
+      const score = raw >= 0 && raw <= 1 ? raw : 1 / (1 + Math.exp(-raw));
+      return { score, factors: { cross_encoder_score: isFinite(raw) ? raw : 0, retrieval_score: candidate.score } };
+    });
+  }
+}
+
+export function createReranker(name: RerankerName): Reranker {
+  switch (name) {
+    case 'heuristic':
+      return new SearchReranker();
+    case 'llm':
+      return new LLMReranker();
+    case 'cross_encoder':
+      return new CrossEncoderReranker(ragConfig.rerankerUrl, ragConfig.rerankerModel);
+    default:
+      throw new Error(`Unknown reranker: ${name}`);
+  }
+}
+
+const activeRerankers = new Map<RerankerName, Reranker>();
+
+export function getReranker(name: RerankerName): Reranker {
+  if (!activeRerankers.has(name)) {
+    activeRerankers.set(name, createReranker(name));
+  }
+  return activeRerankers.get(name)!;
+}
+
+// Override a reranker (used by tests); null clears every override
+export function setReranker(reranker: Reranker | null): void {
+  if (reranker) {
+    activeRerankers.set(reranker.name, reranker);
+  } else {
+    activeRerankers.clear();
+  }
+}
+
+type FeedbackBoostLoader = (chunkIds: string[]) => Promise<Map<string, number>>;
+
+let feedbackBoostLoader: FeedbackBoostLoader = chunkIds => FeedbackService.getChunkBoosts(chunkIds);
+
+// Override where feedback boosts come from (used by tests); null restores chunk_feedback
+export function setFeedbackBoostLoader(loader: FeedbackBoostLoader | null): void {
+  feedbackBoostLoader = loader || (chunkIds => FeedbackService.getChunkBoosts(chunkIds));
+}
+
+/**
+ * Read the `rerank` request option: true uses the configured reranker, a
+ * name picks one, and { reranker, topN, feedback } sets them. Absent or
+ * false disables.
+ */
+export function parseRerankOptions(input: any): { options: RerankOptions | null; error?: string } {
+  if (input === undefined || input === null || input === false) {
+    return { options: null };
+  }
+
+  const options: RerankOptions = { reranker: ragConfig.reranker, topN: ragConfig.rerankTopN };
+  if (input === true) {
+    return { options };
+  }
+  if (typeof input === 'string') {
+    input = { reranker: input };
+  }
+  if (typeof input !== 'object') {
+    return { options: null, error: 'rerank must be a boolean, a reranker name or an object' };
+  }
+
+  if (input.reranker !== undefined) {
+    if (!RERANKERS.includes(input.reranker)) {
+      return { options: null, error: `rerank.reranker must be one of: ${RERANKERS.join(', ')}` };
+    }
+    options.reranker = input.reranker;
+  }
+  if (input.topN !== undefined) {
+    if (!Number.isInteger(input.topN) || input.topN < 1 || input.topN > 100) {
+      return { options: null, error: 'rerank.topN must be an integer between 1 and 100' };
+    }
+    options.topN = input.topN;
+  }
+  if (input.feedback !== undefined) {
+    if (typeof input.feedback !== 'boolean') {
+      return { options: null, error: 'rerank.feedback must be a boolean' };
+    }
+    options.feedback = input.feedback;
+  }
+
+  return { options };
+}
+
+export interface RerankedFields {
+  original_score: number;
+  reranked_score: number;
+  reranking_factors: Record<string, number>;
+}
+
+export interface RerankDetails {
+  reranker: RerankerName;
+  topN: number;
+  reranked: number;
+  feedbackBoosted?: number; // Reranked results whose score a feedback boost moved
+  error?: string; // Set when the reranker failed and retrieval order was kept
+}
+
+/**
+ * Add each candidate's feedback boost to its reranker score, recording it as
+ * the feedback_boost factor. Candidates without a boost are returned as is.
+ */
+export function applyFeedbackBoosts(
+  scores: RerankScore[],
+  candidates: RerankCandidate[],
+  boosts: Map<string, number>
+): RerankScore[] {
+  return scores.map((entry, index) => {
+    const boost = boosts.get(candidates[index].chunk_id);
+    if (!boost) return entry;
+    return { score: entry.score + boost, factors: { ...entry.factors, feedback_boost: boost } };
+  });
+}
+
+// Feedback lookups never fail a search; without them scores are left alone
+async function loadFeedbackBoosts(candidates: RerankCandidate[]): Promise<Map<string, number>> {
+  try {
+    return await feedbackBoostLoader(candidates.map(candidate => candidate.chunk_id));
+  } catch (error) {
+    console.warn('Failed to load feedback boosts:', error);
+    return new Map();
+  }
+}
+
+/**
+ * Rerank the first topN results. Each reranked result gains original_score,
+ * reranked_score and reranking_factors; results beyond topN follow unchanged.
+ * Feedback boosts, when enabled, are added before sorting. A failing reranker leaves the retrieval order in place.
+ * An LLM reranker's tokens are added to `usage`.
+ */
+export async function applyReranker<T>(
+  query: string,
+  results: T[],
+  options: RerankOptions,
+  toCandidate: (result: T) => RerankCandidate,
+  signal?: AbortSignal,
+  usage?: UsageMeter
+): Promise<{ results: Array<T & Partial<RerankedFields>>; details: RerankDetails }> {
+  const unchanged = results as Array<T & Partial<RerankedFields>>;
+  const head = results.slice(0, options.topN);
+  const tail = results.slice(options.topN);
+  const details: RerankDetails = { reranker: options.reranker, topN: options.topN, reranked: 0 };
+
+  if (head.length === 0) {
+    return { results: unchanged, details };
+  }
+
+  try {
+    const candidates = head.map(toCandidate);
+    let scores = await getReranker(options.reranker).score(query, candidates, signal, usage);
+
+    if (options.feedback ?? ragConfig.rerankFeedback) {
+      const boosts = await loadFeedbackBoosts(candidates);
+      if (boosts.size > 0) {
+        scores = applyFeedbackBoosts(scores, candidates, boosts);
+        details.feedbackBoosted = candidates.filter(candidate => boosts.has(candidate.chunk_id)).length;
+      }
+    }
+
+    const reranked = head
+      .map((result, index) => ({
+        ...result,
+        original_score: candidates[index].score,
+        reranked_score: scores[index].score,
+        reranking_factors: scores[index].factors
+      }))
+      .sort((a, b) => b.reranked_score - a.reranked_score);
+
+    details.reranked = reranked.length;
+    return { results: [...reranked, ...(tail as Array<T & Partial<RerankedFields>>)], details };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn(`Reranker ${options.reranker} failed, keeping retrieval order:`, error);
+    details.error = error instanceof Error ? error.message : String(error);
+    return { results: unchanged, details };
+  }
+}
@@ -0,0 +1,428 @@
+/**
+ * Retrieval evaluation
+ * Runs a golden question set (JSONL, one question per line with the chunks
+ * that should be retrieved) through each search mode and scores the
+ * rankings with recall@k, MRR and nDCG@k. Runs are stored with the
+ * configuration they ran under so that changes can be compared (lib/eval-runs.ts).
+ *
+ * Golden set line:
+ *   {"id": "dm-1", "question": "...", "relevant": [{"document": "diabetes.md", "text": "MODY"}]}
+ * A label may name a document (filename), page, chunkIndex, chunkId and/or a
+ * text snippet; a chunk is relevant to a label when it matches every field given.
+ * Answer evaluation (lib/answer-eval.ts) reads the same file; it also uses
+ * `referenceAnswer`, and `"answerable": false` marks questions the documents
+ * cannot answer (no labels needed, skipped by retrieval evaluation).
+ */
+
+import { ragConfig } from './config';
+import { getEmbeddingModelInfo } from './embeddings';
+import { parseFusionOptions, FusionOptions, defaultFusionOptions, retrieve, RetrievedChunk as SearchChunk } from './hybrid-search';
+import { KeywordRanking, KEYWORD_RANKINGS } from './keyword-search';
+import { applyReranker, parseRerankOptions, RerankOptions } from './reranker';
+import { parseSearchFilters, SearchFilters } from './search-filters';
+
+export type EvalSearchMode = 'semantic' | 'keyword' | 'hybrid';
+
+export const EVAL_SEARCH_MODES: EvalSearchMode[] = ['semantic', 'keyword', 'hybrid'];
+
+export interface RelevanceLabel {
+  document?: string;
+  page?: number;
+  chunkIndex?: number;
+  chunkId?: string;
+  text?: string; // Case- and whitespace-insensitive substring of the chunk
+}
+
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  relevant: RelevanceLabel[];
+  answerable: boolean;
+  referenceAnswer?: string;
+}
+
+export interface RetrievedChunk {
+  chunk_id: string;
+  filename: string;
+  chunk_index: number;
+  chunk_text: string;
+  pages: number[];
+}
+
+// Returns the ranked chunks for one question, best first
+export type Retriever = (question: string, mode: EvalSearchMode, k: number) => Promise<RetrievedChunk[]>;
+
+export interface RankingScore {
+  recall: number; // Share of labels matched in the top k
+  reciprocalRank: number; // 1 / rank of the first relevant chunk, 0 if none
+  ndcg: number;
+  firstRelevantRank: number | null;
+  relevantRanks: number[]; // 1-based ranks of the chunks that were credited
+}
+
+export interface QuestionResult extends RankingScore {
+  id: string;
+  question: string;
+  latencyMs: number;
+  error?: string;
+  retrieved: Array<{ rank: number; chunk_id: string; filename: string; chunk_index: number; relevant: boolean }>;
+}
+
+export interface ModeSummary {
+  questions: number;
+  errors: number;
+  recallAtK: number;
+  mrr: number;
+  ndcg: number;
+  latencyMs: { mean: number; p50: number; p95: number };
+}
+
+export interface RetrievalEvalReport {
+  k: number;
+  modes: EvalSearchMode[];
+  summary: Partial<Record<EvalSearchMode, ModeSummary>>;
+  results: Partial<Record<EvalSearchMode, QuestionResult[]>>;
+}
+
+/**
+ * An invalid golden set; the message names the offending line
+ */
+export class EvalSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvalSetError';
+  }
+}
+
+const LABEL_FIELDS = ['document', 'page', 'chunkIndex', 'chunkId', 'text'];
+
+function parseLabel(label: any, where: string): RelevanceLabel {
+  if (typeof label !== 'object' || label === null || Array.isArray(label)) {
+    throw new EvalSetError(`${where}: each relevant label must be an object`);
+  }
+  const fields = Object.keys(label).filter(key => LABEL_FIELDS.includes(key));
+  if (fields.length === 0) {
+    throw new EvalSetError(`${where}: a label needs one of ${LABEL_FIELDS.join(', ')}`);
+  }
+  for (const key of ['page', 'chunkIndex']) {
+    if (label[key] !== undefined && (!Number.isInteger(label[key]) || label[key] < 0)) {
+      throw new EvalSetError(`${where}: ${key} must be a non-negative integer`);
+    }
+  }
+  for (const key of ['document', 'chunkId', 'text']) {
+    if (label[key] !== undefined && (typeof label[key] !== 'string' || !label[key].trim())) {
+      throw new EvalSetError(`${where}: ${key} must be a non-empty string`);
+    }
+  }
+
+  const parsed: RelevanceLabel = {};
+  fields.forEach(key => {
+    (parsed as any)[key] = label[key];
+  });
+  return parsed;
+}
+
+/**
+ * Parse a JSONL golden set; blank lines and lines starting with // are skipped
+ */
+export function parseGoldenSet(jsonl: string): GoldenQuestion[] {
+  const questions: GoldenQuestion[] = [];
+  const ids = new Set<string>();
+
+  jsonl.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const where = `line ${index + 1}`;
+    if (!line || line.startsWith('//')) return;
+
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new EvalSetError(`${where}: invalid JSON`);
+    }
+
+    if (typeof entry.question !== 'string' || !entry.question.trim()) {
+      throw new EvalSetError(`${where}: question is required`);
+    }
+    if (entry.answerable !== undefined && typeof entry.answerable !== 'boolean') {
+      throw new EvalSetError(`${where}: answerable must be true or false`);
+    }
+    const answerable = entry.answerable !== false;
+    const relevant = entry.relevant ?? (answerable ? undefined : []);
+    if (!Array.isArray(relevant) || (answerable && relevant.length === 0)) {
+      throw new EvalSetError(`${where}: relevant must be a non-empty array of labels`);
+    }
+    if (entry.referenceAnswer !== undefined && typeof entry.referenceAnswer !== 'string') {
+      throw new EvalSetError(`${where}: referenceAnswer must be a string`);
+    }
+
+    const id = entry.id !== undefined ? String(entry.id) : `q${questions.length + 1}`;
+    if (ids.has(id)) {
+      throw new EvalSetError(`${where}: duplicate question id "${id}"`);
+    }
+    ids.add(id);
+
+    questions.push({
+      id,
+      question: entry.question.trim(),
+      relevant: relevant.map((label: any) => parseLabel(label, where)),
+      answerable,
+      ...(entry.referenceAnswer && { referenceAnswer: entry.referenceAnswer })
+    });
+  });
+
+  if (questions.length === 0) {
+    throw new EvalSetError('Golden set has no questions');
+  }
+  return questions;
+}
+
+/**
+ * Write questions as JSONL that parseGoldenSet reads back, with an optional
+ * comment line on top
+ */
+export function formatGoldenSet(questions: GoldenQuestion[], comment?: string): string {
+  const lines = questions.map(({ id, question, relevant, answerable, referenceAnswer }) => JSON.stringify({
+    id,
+    question,
+    ...(relevant.length > 0 && { relevant }),
+    ...(!answerable && { answerable: false }),
+    ...(referenceAnswer && { referenceAnswer })
+  }));
+  return [...(comment ? [`// ${comment}`] : []), ...lines].join('\n') + '\n';
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function matchesLabel(chunk: RetrievedChunk, label: RelevanceLabel): boolean {
+  if (label.document !== undefined && chunk.filename.toLowerCase() !== label.document.toLowerCase()) return false;
+  if (label.page !== undefined && !chunk.pages.includes(label.page)) return false;
+  if (label.chunkIndex !== undefined && chunk.chunk_index !== label.chunkIndex) return false;
+  if (label.chunkId !== undefined && String(chunk.chunk_id) !== label.chunkId) return false;
+  if (label.text !== undefined && !normalizeText(chunk.chunk_text).includes(normalizeText(label.text))) return false;
+  return true;
+}
+
+/**
+ * Score one ranking against its labels with binary relevance. Each chunk is
+ * credited to at most one label and each label at most once, so a ranking
+ * that places one matching chunk per label at the top scores 1 everywhere.
+ */
+export function scoreRanking(retrieved: RetrievedChunk[], relevant: RelevanceLabel[], k: number): RankingScore {
+  const credited = new Set<number>();
+  const relevantRanks: number[] = [];
+  let firstRelevantRank: number | null = null;
+  let dcg = 0;
+
+  retrieved.slice(0, k).forEach((chunk, index) => {
+    const rank = index + 1;
+    const matching = relevant.map((label, labelIndex) => (matchesLabel(chunk, label) ? labelIndex : -1)).filter(i => i >= 0);
+    if (matching.length === 0) return;
+
+    if (firstRelevantRank === null) firstRelevantRank = rank;
+    const label = matching.find(labelIndex => !credited.has(labelIndex));
+    if (label === undefined) return;
+
+    credited.add(label);
+    relevantRanks.push(rank);
+    dcg += 1 / Math.log2(rank + 1);
+  });
+
+  let idcg = 0;
+  for (let rank = 1; rank <= Math.min(relevant.length, k); rank++) {
+    idcg += 1 / Math.log2(rank + 1);
+  }
+
+  return {
+    recall: relevant.length > 0 ? credited.size / relevant.length : 0,
+    reciprocalRank: firstRelevantRank ? 1 / firstRelevantRank : 0,
+    ndcg: idcg > 0 ? dcg / idcg : 0,
+    firstRelevantRank,
+    relevantRanks
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+export const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+export const round = (value: number) => Math.round(value * 10000) / 10000;
+
+export function latencyStats(latencies: number[]): { mean: number; p50: number; p95: number } {
+  const sorted = [...latencies].sort((a, b) => a - b);
+  return {
+    mean: Math.round(mean(sorted)),
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95)
+  };
+}
+
+export function summarizeResults(results: QuestionResult[]): ModeSummary {
+  // Failed questions count as misses
+  return {
+    questions: results.length,
+    errors: results.filter(r => r.error).length,
+    recallAtK: round(mean(results.map(r => r.recall))),
+    mrr: round(mean(results.map(r => r.reciprocalRank))),
+    ndcg: round(mean(results.map(r => r.ndcg))),
+    latencyMs: latencyStats(results.map(r => r.latencyMs))
+  };
+}
+
+/**
+ * Run every answerable question through every mode, one search at a time so
+ * that latencies are not skewed by concurrent queries
+ */
+export async function runRetrievalEval(
+  questions: GoldenQuestion[],
+  retriever: Retriever,
+  options: { modes?: EvalSearchMode[]; k?: number } = {}
+): Promise<RetrievalEvalReport> {
+  const { modes = EVAL_SEARCH_MODES, k = 5 } = options;
+  const report: RetrievalEvalReport = { k, modes, summary: {}, results: {} };
+
+  for (const mode of modes) {
+    const results: QuestionResult[] = [];
+
+    for (const question of questions.filter(q => q.answerable)) {
+      const started = Date.now();
+      let retrieved: RetrievedChunk[] = [];
+      let error: string | undefined;
+      try {
+        retrieved = (await retriever(question.question, mode, k)).slice(0, k);
+      } catch (e: any) {
+        error = e.message || String(e);
+      }
+      const latencyMs = Date.now() - started;
+      const score = scoreRanking(retrieved, question.relevant, k);
+
+      results.push({
+        id: question.id,
+        question: question.question,
+        latencyMs,
+        ...score,
+        ...(error && { error }),
+        retrieved: retrieved.map((chunk, index) => ({
+          rank: index + 1,
+          chunk_id: String(chunk.chunk_id),
+          filename: chunk.filename,
+          chunk_index: chunk.chunk_index,
+          relevant: score.relevantRanks.includes(index + 1)
+        }))
+      });
+    }
+
+    report.results[mode] = results;
+    report.summary[mode] = summarizeResults(results);
+  }
+
+  return report;
+}
+
+export interface SearchRetrieverOptions {
+  similarityThreshold?: number;
+  keywordRanking?: KeywordRanking;
+  fusion?: FusionOptions;
+  rerank?: RerankOptions | null;
+  filters?: SearchFilters | null;
+}
+
+/**
+ * Search settings of an eval request body (similarityThreshold, keywordRanking,
+ * fusion, rerank, filters)
+ */
+export function parseSearchRetrieverOptions(body: any): { options: SearchRetrieverOptions; error?: string } {
+  const keywordRanking = body.keywordRanking ?? undefined;
+  if (keywordRanking !== undefined && !KEYWORD_RANKINGS.includes(keywordRanking)) {
+    return { options: {}, error: `keywordRanking must be one of: ${KEYWORD_RANKINGS.join(', ')}` };
+  }
+  if (body.similarityThreshold !== undefined && typeof body.similarityThreshold !== 'number') {
+    return { options: {}, error: 'similarityThreshold must be a number' };
+  }
+
+  const { options: fusion, error: fusionError } = parseFusionOptions(body.fusion);
+  const { options: rerank, error: rerankError } = parseRerankOptions(body.rerank);
+  const { filters, error: filtersError } = parseSearchFilters(body.filters);
+  const error = fusionError || rerankError || filtersError;
+  if (error) {
+    return { options: {}, error };
+  }
+
+  return {
+    options: {
+      similarityThreshold: body.similarityThreshold ?? 0.3,
+      keywordRanking,
+      fusion,
+      rerank,
+      filters
+    }
+  };
+}
+
+function toRetrievedChunk(chunk: SearchChunk): RetrievedChunk & { score: number } {
+  const pages = Array.isArray(chunk.metadata.pages) ? chunk.metadata.pages : chunk.page ? [chunk.page] : [];
+  return {
+    chunk_id: chunk.chunk_id,
+    filename: chunk.filename,
+    chunk_index: chunk.chunk_index,
+    chunk_text: chunk.chunk_text,
+    pages,
+    score: chunk.fused_score ?? chunk.similarity_score
+  };
+}
+
+/**
+ * Retriever backed by the live search statements (latest document versions)
+ */
+export function createSearchRetriever(userId: string, options: SearchRetrieverOptions = {}): Retriever {
+  const {
+    similarityThreshold = 0.3,
+    keywordRanking = ragConfig.keywordRanking,
+    fusion = defaultFusionOptions(),
+    rerank = null,
+    filters = null
+  } = options;
+
+  return async (question, mode, k) => {
+    const count = rerank ? Math.max(k, rerank.topN) : k;
+
+    const retrieval = await retrieve(mode, question, { userId, maxResults: count, similarityThreshold, keywordRanking, fusion, filters });
+    let ranked = retrieval.results.map(toRetrievedChunk);
+
+    if (rerank) {
+      const reranked = await applyReranker(question, ranked, rerank, chunk => ({
+        chunk_id: String(chunk.chunk_id),
+        chunk_text: chunk.chunk_text,
+        chunk_index: chunk.chunk_index,
+        score: chunk.score,
+        filename: chunk.filename
+      }));
+      ranked = reranked.results;
+    }
+
+    return ranked.slice(0, k);
+  };
+}
+
+/**
+ * Settings that affect retrieval quality, stored with every run
+ */
+export function describeRetrievalConfig(options: SearchRetrieverOptions = {}): Record<string, any> {
+  return {
+    chunkSize: ragConfig.chunkSize,
+    chunkOverlap: ragConfig.chunkOverlap,
+    pageAwareChunking: ragConfig.pageAwareChunking,
+    embedding: getEmbeddingModelInfo(),
+    similarityThreshold: options.similarityThreshold ?? 0.3,
+    keywordRanking: options.keywordRanking ?? ragConfig.keywordRanking,
+    fusion: options.fusion ?? defaultFusionOptions(),
+    rerank: options.rerank ?? null,
+    filters: options.filters ?? null
+  };
+}
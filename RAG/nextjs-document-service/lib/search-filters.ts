@@ -0,0 +1,216 @@
+/**
+ * Structured search filters
+ * Validates the `filters` object of /api/search and /api/chat and renders it
+ * as SQL predicates over chunks (c) and documents (d). The search statement
+ * builders append these, so both database drivers filter identically.
+ */
+
+export const CONTENT_TYPES = ['medical', 'regulatory', 'educational', 'general'];
+
+export type MetadataOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'exists';
+
+const METADATA_OPERATORS: MetadataOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'exists'];
+
+export interface MetadataPredicate {
+  path: string; // Dot-separated key path into chunk metadata, e.g. "pages" or "source.section"
+  op: MetadataOperator;
+  value?: any;
+}
+
+export interface SearchFilters {
+  documentIds?: string[];
+  filename?: string; // Glob: * and ?, case-insensitive
+  contentTypes?: string[]; // detectContentType() labels
+  pageFrom?: number;
+  pageTo?: number;
+  uploadedAfter?: string; // ISO 8601
+  uploadedBefore?: string;
+  metadata?: Record<string, any> | MetadataPredicate[]; // Object: chunk metadata contains it
+  documentMetadata?: Record<string, any>; // Document metadata contains it
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const METADATA_KEY = /^[A-Za-z0-9_-]+$/;
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: any): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Validate a request's `filters`; absent or empty filters yield null
+ */
+export function parseSearchFilters(input: any): { filters: SearchFilters | null; error?: string } {
+  if (input === undefined || input === null) {
+    return { filters: null };
+  }
+  if (!isPlainObject(input)) {
+    return { filters: null, error: 'filters must be an object' };
+  }
+
+  const filters: SearchFilters = {};
+  const fail = (error: string) => ({ filters: null, error });
+
+  if (input.documentIds !== undefined) {
+    if (!isStringArray(input.documentIds) || !input.documentIds.every(id => UUID_PATTERN.test(id))) {
+      return fail('filters.documentIds must be an array of document ids');
+    }
+    filters.documentIds = input.documentIds;
+  }
+
+  if (input.filename !== undefined) {
+    if (typeof input.filename !== 'string' || input.filename.length === 0) {
+      return fail('filters.filename must be a non-empty glob pattern');
+    }
+    filters.filename = input.filename;
+  }
+
+  if (input.contentTypes !== undefined) {
+    const contentTypes = typeof input.contentTypes === 'string' ? [input.contentTypes] : input.contentTypes;
+    if (!isStringArray(contentTypes) || !contentTypes.every(type => CONTENT_TYPES.includes(type))) {
+      return fail(`filters.contentTypes must contain only: ${CONTENT_TYPES.join(', ')}`);
+    }
+    filters.contentTypes = contentTypes;
+  }
+
+  for (const key of ['pageFrom', 'pageTo'] as const) {
+    if (input[key] === undefined) continue;
+    if (!Number.isInteger(input[key]) || input[key] < 1) {
+      return fail(`filters.${key} must be a positive integer`);
+    }
+    filters[key] = input[key];
+  }
+  if (filters.pageFrom && filters.pageTo && filters.pageFrom > filters.pageTo) {
+    return fail('filters.pageFrom must not be after filters.pageTo');
+  }
+
+  for (const key of ['uploadedAfter', 'uploadedBefore'] as const) {
+    if (input[key] === undefined) continue;
+    if (typeof input[key] !== 'string' || isNaN(Date.parse(input[key]))) {
+      return fail(`filters.${key} must be an ISO 8601 date`);
+    }
+    filters[key] = new Date(input[key]).toISOString();
+  }
+
+  if (input.metadata !== undefined) {
+    if (Array.isArray(input.metadata)) {
+      for (const predicate of input.metadata) {
+        if (!isPlainObject(predicate) || typeof predicate.path !== 'string' || !predicate.path.split('.').every(key => METADATA_KEY.test(key))) {
+          return fail('filters.metadata predicates need a dot-separated path of letters, digits, _ and -');
+        }
+        if (!METADATA_OPERATORS.includes(predicate.op)) {
+          return fail(`filters.metadata op must be one of: ${METADATA_OPERATORS.join(', ')}`);
+        }
+        if (['gt', 'gte', 'lt', 'lte'].includes(predicate.op) && typeof predicate.value !== 'number') {
+          return fail(`filters.metadata "${predicate.op}" needs a numeric value`);
+        }
+        if (predicate.op === 'in' && !Array.isArray(predicate.value)) {
+          return fail('filters.metadata "in" needs an array value');
+        }
+      }
+    } else if (!isPlainObject(input.metadata)) {
+      return fail('filters.metadata must be an object or an array of predicates');
+    }
+    filters.metadata = input.metadata;
+  }
+
+  if (input.documentMetadata !== undefined) {
+    if (!isPlainObject(input.documentMetadata)) {
+      return fail('filters.documentMetadata must be an object');
+    }
+    filters.documentMetadata = input.documentMetadata;
+  }
+
+  return { filters: Object.keys(filters).length > 0 ? filters : null };
+}
+
+/**
+ * Translate a glob into an ILIKE pattern
+ */
+export function globToLike(glob: string): string {
+  return glob
+    .replace(/[\\%_]/g, match => `\\${match}`)
+    .replace(/\*/g, '%')
+    .replace(/\?/g, '_');
+}
+
+const COMPARISONS: Record<string, string> = { gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+/**
+ * Render filters as SQL predicates joined by AND (each prefixed with AND,
+ * ready to follow a WHERE clause). Parameters are appended to `values`, so
+ * numbering continues after the caller's own placeholders.
+ */
+export function buildFilterClause(filters: SearchFilters | null | undefined, values: any[]): string {
+  if (!filters) {
+    return '';
+  }
+
+  const clauses: string[] = [];
+  const param = (value: any) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  if (filters.documentIds) {
+    clauses.push(`d.id = ANY(${param(filters.documentIds)}::uuid[])`);
+  }
+  if (filters.filename) {
+    clauses.push(`d.filename ILIKE ${param(globToLike(filters.filename))}`);
+  }
+  if (filters.contentTypes) {
+    clauses.push(`c.metadata->>'contentType' = ANY(${param(filters.contentTypes)}::text[])`);
+  }
+  if (filters.pageFrom !== undefined || filters.pageTo !== undefined) {
+    // A chunk matches when any page it spans falls in the range
+    const bounds = [
+      filters.pageFrom !== undefined ? `p.page::int >= ${param(filters.pageFrom)}::int` : null,
+      filters.pageTo !== undefined ? `p.page::int <= ${param(filters.pageTo)}::int` : null
+    ].filter(Boolean).join(' AND ');
+    clauses.push(`EXISTS (
+          SELECT 1 FROM jsonb_array_elements_text(
+            CASE WHEN jsonb_typeof(c.metadata->'pages') = 'array' THEN c.metadata->'pages' ELSE jsonb_build_array(c.page) END
+          ) AS p(page)
+          WHERE p.page IS NOT NULL AND ${bounds}
+        )`);
+  }
+  if (filters.uploadedAfter) {
+    clauses.push(`d.uploaded_at >= ${param(filters.uploadedAfter)}::timestamptz`);
+  }
+  if (filters.uploadedBefore) {
+    clauses.push(`d.uploaded_at < ${param(filters.uploadedBefore)}::timestamptz`);
+  }
+  if (filters.documentMetadata) {
+    clauses.push(`d.metadata @> ${param(JSON.stringify(filters.documentMetadata))}::jsonb`);
+  }
+
+  if (Array.isArray(filters.metadata)) {
+    for (const predicate of filters.metadata) {
+      const path = `${param(predicate.path.split('.'))}::text[]`;
+      switch (predicate.op) {
+        case 'eq':
+          clauses.push(`c.metadata #> ${path} = ${param(JSON.stringify(predicate.value))}::jsonb`);
+          break;
+        case 'ne':
+          clauses.push(`c.metadata #> ${path} IS DISTINCT FROM ${param(JSON.stringify(predicate.value))}::jsonb`);
+          break;
+        case 'in':
+          clauses.push(`c.metadata #> ${path} IN (SELECT jsonb_array_elements(${param(JSON.stringify(predicate.value))}::jsonb))`);
+          break;
+        case 'exists':
+          clauses.push(`c.metadata #> ${path} IS NOT NULL`);
+          break;
+        default:
+          // Numeric comparisons skip values that are not JSON numbers
+          clauses.push(`(CASE WHEN jsonb_typeof(c.metadata #> ${path}) = 'number' THEN (c.metadata #>> ${path})::numeric END) ${COMPARISONS[predicate.op]} ${param(predicate.value)}::numeric`);
+      }
+    }
+  } else if (filters.metadata) {
+    clauses.push(`c.metadata @> ${param(JSON.stringify(filters.metadata))}::jsonb`);
+  }
+
+  return clauses.map(clause => `\n        AND ${clause}`).join('');
+}
@@ -0,0 +1,72 @@
+/**
+ * Vector similarity chunk search
+ * Same rows as the search_similar_chunks() SQL function, built in TypeScript
+ * so request filters and the collection scope can be added to the WHERE
+ * clause. Both drivers run the statement verbatim.
+ */
+
+import type { VersionScope } from './database';
+import { buildFilterClause, SearchFilters } from './search-filters';
+import { buildAccessClause } from './collection-scope';
+
+export interface SemanticSearchOptions {
+  similarityThreshold?: number;
+  maxResults?: number;
+  scope?: VersionScope;
+  filters?: SearchFilters | null;
+  collectionIds?: string[] | null; // Search these collections instead of the user's documents
+}
+
+/**
+ * Build the semantic search statement.
+ * Rows: chunk_id, document_id, filename, chunk_text, chunk_index, page,
+ * metadata and similarity_score (cosine similarity, 0-1).
+ */
+export function buildSemanticSearch(
+  queryEmbedding: number[],
+  userId: string,
+  options: SemanticSearchOptions = {}
+): { text: string; values: any[] } {
+  const {
+    similarityThreshold = 0.7,
+    maxResults = 5,
+    scope = { latestOnly: true, documentIds: null },
+    filters = null,
+    collectionIds = null
+  } = options;
+
+  const values: any[] = [
+    `[${queryEmbedding.join(',')}]`,
+    userId,
+    similarityThreshold,
+    maxResults,
+    scope.latestOnly,
+    scope.documentIds
+  ];
+  const accessClause = buildAccessClause('$2', collectionIds, values);
+  const filterClause = buildFilterClause(filters, values);
+
+  const text = `
+      SELECT
+        c.id AS chunk_id,
+        c.document_id,
+        d.filename,
+        c.text AS chunk_text,
+        c.chunk_index,
+        c.page,
+        c.metadata,
+        (1 - (c.embedding <=> $1::vector))::float8 AS similarity_score
+      FROM chunks c
+      JOIN documents d ON c.document_id = d.id
+      WHERE ${accessClause}
+        AND d.status = 'completed'
+        AND (NOT $5 OR d.is_latest)
+        AND ($6::uuid[] IS NULL OR d.id = ANY($6::uuid[]))
+        AND c.embedding IS NOT NULL
+        AND (1 - (c.embedding <=> $1::vector)) >= $3${filterClause}
+      ORDER BY c.embedding <=> $1::vector
+      LIMIT $4
+    `;
+
+  return { text, values };
+}
@@ -0,0 +1,57 @@
+/**
+ * Server-Sent Events helpers
+ * Shared by the chat route (writing), the OpenAI client (reading the upstream
+ * stream) and the chat UI (reading /api/chat). No Node-only imports so it can
+ * run in the browser.
+ */
+
+const encoder = new TextEncoder();
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+};
+
+/**
+ * Encode one event as a `data:` frame
+ */
+export function encodeSSE(data: unknown): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Yield the data payload of every event in a stream. Multi-line data fields
+ * are joined with newlines; comments and other fields are ignored.
+ */
+export async function* readSSEData(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Events end with a blank line
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : events.pop() || '';
+
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(line.startsWith('data: ') ? 6 : 5));
+
+        if (data.length > 0) {
+          yield data.join('\n');
+        }
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
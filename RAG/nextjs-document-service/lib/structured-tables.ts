@@ -0,0 +1,104 @@
+/**
+ * Tables whose structure comes from the source format: HTML and Word tables,
+ * slide tables and spreadsheet sheets. Spanning cells are laid out on a grid
+ * and header rows are flattened the same way as for PDF tables, so "Dose
+ * (mg)" over "Adult" names the column "Dose (mg) Adult".
+ */
+
+import type { ExtractedTable } from './pdf-processor';
+
+export interface TableCell {
+  text: string;
+  colSpan?: number;
+  rowSpan?: number;
+  // A header cell: <th>, a cell in <thead> or a Word repeating header row
+  header?: boolean;
+}
+
+interface GridSlot {
+  text: string;
+  header: boolean;
+  // False for the columns a cell spans after its first one
+  first: boolean;
+  // Row index below the last row the cell spans
+  rowEnd: number;
+}
+
+/**
+ * Build a table from rows of cells. Leading rows of header cells are the
+ * headers; without any, the first row is. The headers also take in the rows
+ * a header cell spans down into. Returns null for tables that are
+ * not tabular data: a single column, or no rows below the headers.
+ */
+export function buildStructuredTable(rows: TableCell[][], page: number, title?: string): ExtractedTable | null {
+  const grid: Array<Array<GridSlot | undefined>> = rows.map(() => []);
+  rows.forEach((row, r) => {
+    let c = 0;
+    for (const cell of row) {
+      // Skip positions taken by cells spanning down from the rows above
+      while (grid[r][c]) c++;
+      const colSpan = Math.max(1, cell.colSpan || 1);
+      const rowSpan = Math.min(Math.max(1, cell.rowSpan || 1), rows.length - r);
+      const text = cell.text.replace(/\s+/g, ' ').trim();
+      for (let dr = 0; dr < rowSpan; dr++) {
+        for (let dc = 0; dc < colSpan; dc++) {
+          grid[r + dr][c + dc] = { text, header: Boolean(cell.header), first: dc === 0, rowEnd: r + rowSpan };
+        }
+      }
+      c += colSpan;
+    }
+  });
+
+  const colCount = grid.reduce((max, row) => Math.max(max, row.length), 0);
+  if (colCount < 2 || grid.length < 2) return null;
+
+  let headerCount = 0;
+  while (headerCount < grid.length && grid[headerCount].every(slot => !slot || slot.header)) {
+    headerCount++;
+  }
+  if (headerCount === 0 || headerCount === grid.length) headerCount = 1;
+  for (let r = 0; r < headerCount; r++) {
+    grid[r].forEach(slot => { if (slot) headerCount = Math.max(headerCount, slot.rowEnd); });
+  }
+
+  // Each column is named by every header cell above it, merged ones included
+  const headers = Array.from({ length: colCount }, (_, c) => {
+    const parts: string[] = [];
+    grid.slice(0, headerCount).forEach(row => {
+      const text = row[c]?.text;
+      if (text && parts[parts.length - 1] !== text) parts.push(text);
+    });
+    return parts.join(' ');
+  });
+
+  // In the body a cell spanning rows repeats on each of them, one spanning
+  // columns is only in its first
+  const data = grid.slice(headerCount)
+    .map(row => Array.from({ length: colCount }, (_, c) => (row[c]?.first ? row[c]!.text : '')))
+    .filter(row => row.some(Boolean));
+  if (data.length === 0) return null;
+
+  const filled = data.flat().filter(Boolean).length / (data.length * colCount);
+  return {
+    data,
+    headers,
+    rowCount: data.length,
+    colCount,
+    page,
+    confidence: Math.round((0.8 + 0.2 * filled) * 100) / 100,
+    ...(title && { title })
+  };
+}
+
+/**
+ * Render a table as a markdown table, which the page-aware chunker keeps in
+ * one piece
+ */
+export function tableToMarkdown(table: ExtractedTable): string {
+  const row = (cells: string[]) => `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [
+    row(table.headers),
+    row(table.headers.map(() => '---')),
+    ...table.data.map(row)
+  ].join('\n');
+}
@@ -0,0 +1,90 @@
+/**
+ * Tenant context for row-level security
+ * authenticateRequest() records the caller for the rest of the request; both
+ * database drivers send it as the app.user_id setting with every query, and
+ * the policies in database/create_row_level_security.sql filter documents,
+ * chunks and medical tables by it. Queries made outside a tenant context
+ * see none of those rows.
+ *   - pg: set on the pooled connection each time it is checked out
+ *   - Neon: each query runs in a transaction that sets it first
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { NeonQueryFunction, NeonQueryPromise } from '@neondatabase/serverless';
+
+export interface TenantContext {
+  userId: string | null;
+}
+
+const storage = new AsyncLocalStorage<TenantContext>();
+
+// Session setting read by app_user_id(); false = lasts for the whole connection
+export const TENANT_SETTING_SQL = `SELECT set_config('app.user_id', $1, false)`;
+
+/**
+ * Start a tenant context for the rest of the current request and return it so
+ * the caller can fill in the user once known. It must be entered before the
+ * first await of the authenticating function, or the route handler that awaits
+ * it would not see the context.
+ */
+export function enterTenantContext(): TenantContext {
+  const context: TenantContext = { userId: null };
+  storage.enterWith(context);
+  return context;
+}
+
+/**
+ * Run work as the given user, e.g. a queued job on behalf of its uploader
+ */
+export function runAsTenant<T>(userId: string, work: () => T): T {
+  return storage.run({ userId }, work);
+}
+
+/**
+ * Run work outside any tenant context, e.g. a worker started from a request
+ * that must not keep acting as that request's user
+ */
+export function runWithoutTenant<T>(work: () => T): T {
+  return storage.run({ userId: null }, work);
+}
+
+export function currentTenantId(): string | null {
+  return storage.getStore()?.userId ?? null;
+}
+
+/**
+ * Apply the current tenant to a pg connection before it is used
+ */
+export async function applyTenantSetting(client: { query(text: string, values?: any[]): Promise<any> }): Promise<void> {
+  // An empty value also clears what the connection's previous user left behind
+  await client.query(TENANT_SETTING_SQL, [currentTenantId() ?? '']);
+}
+
+/**
+ * Wrap a Neon sql function so every query carries the current tenant. The
+ * HTTP driver has no session to keep a setting in, so each query becomes a
+ * transaction whose first statement sets it locally. Queries passed to
+ * sql.transaction() share one such statement.
+ */
+export function withTenantSetting(sql: NeonQueryFunction<false, false>): NeonQueryFunction<false, false> {
+  const setting = (userId: string | null) => sql`SELECT set_config('app.user_id', ${userId ?? ''}, true)`;
+
+  // The tenant is the one current when the query is built. It runs lazily like
+  // the driver's own queries and keeps queryData so it can still be listed in
+  // transaction().
+  const scoped = (query: NeonQueryPromise<false, false>): NeonQueryPromise<false, false> => {
+    const userId = currentTenantId();
+    return new NeonQueryPromise(async () => (await sql.transaction([setting(userId), query]))[1], query.queryData, query.opts);
+  };
+
+  const tenantSql: any = (strings: TemplateStringsArray, ...params: any[]) => scoped(sql(strings, ...params));
+  tenantSql.query = (text: string, params?: any[], opts?: any) => scoped(sql.query(text, params, opts));
+  tenantSql.unsafe = sql.unsafe;
+  tenantSql.transaction = async (queriesOrFn: any, opts?: any) => {
+    const queries = typeof queriesOrFn === 'function' ? queriesOrFn(tenantSql) : queriesOrFn;
+    const results = await sql.transaction([setting(currentTenantId()), ...queries], opts);
+    return results.slice(1);
+  };
+
+  return tenantSql as NeonQueryFunction<false, false>;
+}
@@ -0,0 +1,400 @@
+/**
+ * Workspaces, members and shared document collections
+ * A workspace has members with one of three roles:
+ *   - viewer: search and chat over the workspace's collections
+ *   - editor: also create collections and add or remove documents
+ *   - owner: also manage members, delete collections and the workspace
+ * Collections hold document families, so every new version of a document
+ * stays in the collection. Only a document's uploader can add it. Callers
+ * that are not members see workspaces and collections as missing, and so
+ * does anyone asking for an id that is not a UUID.
+ */
+
+import { db } from './database';
+import { isUuid } from './collection-scope';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer'];
+
+export interface WorkspaceRecord {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: Date;
+  role: WorkspaceRole; // The caller's role
+  member_count: number;
+  collection_count: number;
+}
+
+export interface WorkspaceMember {
+  user_id: string;
+  role: WorkspaceRole;
+  added_at: Date;
+}
+
+export interface CollectionRecord {
+  id: string;
+  workspace_id: string;
+  workspace_name: string;
+  name: string;
+  description: string | null;
+  created_by: string;
+  created_at: Date;
+  role: WorkspaceRole; // The caller's role in the workspace
+  document_count: number;
+}
+
+export interface CollectionDocument {
+  family_id: string;
+  document_id: string; // Latest version
+  filename: string;
+  version: number;
+  owner_id: string;
+  added_by: string;
+  added_at: Date;
+}
+
+/**
+ * The caller's role does not allow the operation
+ */
+export class WorkspaceAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceAccessError';
+  }
+}
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+export function hasRole(role: WorkspaceRole, required: WorkspaceRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export function isWorkspaceRole(value: any): value is WorkspaceRole {
+  return WORKSPACE_ROLES.includes(value);
+}
+
+/**
+ * Validate a workspace or collection name
+ */
+export function parseName(value: any, field = 'name'): { name: string | null; error?: string } {
+  if (typeof value !== 'string' || !value.trim()) {
+    return { name: null, error: `${field} is required` };
+  }
+  if (value.trim().length > 200) {
+    return { name: null, error: `${field} must be at most 200 characters` };
+  }
+  return { name: value.trim() };
+}
+
+export class WorkspaceService {
+  /**
+   * Create a workspace with the creator as its owner
+   */
+  static async createWorkspace(userId: string, name: string): Promise<WorkspaceRecord> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(`
+        INSERT INTO workspaces (name, created_by) VALUES ($1, $2)
+        RETURNING id, name, created_by, created_at
+      `, [name, userId]);
+      const workspace = result.rows[0];
+      await client.query(`
+        INSERT INTO workspace_members (workspace_id, user_id, role) VALUES ($1, $2, 'owner')
+      `, [workspace.id, userId]);
+      await client.query('COMMIT');
+      return { ...workspace, role: 'owner', member_count: 1, collection_count: 0 };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Workspaces the user is a member of, with their role
+   */
+  static async listWorkspaces(userId: string): Promise<WorkspaceRecord[]> {
+    const result = await db.query(`
+      SELECT
+        w.id, w.name, w.created_by, w.created_at, m.role,
+        (SELECT COUNT(*) FROM workspace_members wm WHERE wm.workspace_id = w.id)::int as member_count,
+        (SELECT COUNT(*) FROM collections c WHERE c.workspace_id = w.id)::int as collection_count
+      FROM workspaces w
+      JOIN workspace_members m ON m.workspace_id = w.id AND m.user_id = $1
+      ORDER BY w.name
+    `, [userId]);
+    return result.rows;
+  }
+
+  static async getRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+    if (!isUuid(workspaceId)) {
+      return null;
+    }
+    const result = await db.query(`
+      SELECT role FROM workspace_members WHERE workspace_id = $1 AND user_id = $2
+    `, [workspaceId, userId]);
+    return result.rows[0]?.role ?? null;
+  }
+
+  /**
+   * The caller's role, or null when they are not a member; throws when the
+   * role is below the one required
+   */
+  private static async requireRole(workspaceId: string, userId: string, required: WorkspaceRole): Promise<WorkspaceRole | null> {
+    const role = await this.getRole(workspaceId, userId);
+    if (role && !hasRole(role, required)) {
+      throw new WorkspaceAccessError(`This requires the ${required} role in the workspace`);
+    }
+    return role;
+  }
+
+  /**
+   * A workspace with its members and collections, or null for non-members
+   */
+  static async getWorkspace(workspaceId: string, userId: string): Promise<{
+    workspace: WorkspaceRecord;
+    members: WorkspaceMember[];
+    collections: CollectionRecord[];
+  } | null> {
+    const workspace = (await this.listWorkspaces(userId)).find(entry => entry.id === workspaceId);
+    if (!workspace) {
+      return null;
+    }
+
+    const [members, collections] = await Promise.all([
+      db.query(`
+        SELECT user_id, role, added_at FROM workspace_members
+        WHERE workspace_id = $1
+        ORDER BY CASE role WHEN 'owner' THEN 1 WHEN 'editor' THEN 2 ELSE 3 END, user_id
+      `, [workspaceId]),
+      this.listCollections(userId, workspaceId)
+    ]);
+
+    return { workspace, members: members.rows, collections };
+  }
+
+  /**
+   * Delete a workspace with its collections (owner only); false for non-members
+   */
+  static async deleteWorkspace(workspaceId: string, userId: string): Promise<boolean> {
+    if (!(await this.requireRole(workspaceId, userId, 'owner'))) {
+      return false;
+    }
+    await db.query('DELETE FROM workspaces WHERE id = $1', [workspaceId]);
+    return true;
+  }
+
+  /**
+   * Add a member or change their role (owner only). The last owner cannot be
+   * demoted. Returns false for non-members.
+   */
+  static async setMember(workspaceId: string, userId: string, memberId: string, role: WorkspaceRole): Promise<boolean> {
+    if (!(await this.requireRole(workspaceId, userId, 'owner'))) {
+      return false;
+    }
+    if (role !== 'owner') {
+      await this.ensureAnotherOwner(workspaceId, memberId);
+    }
+
+    await db.query(`
+      INSERT INTO workspace_members (workspace_id, user_id, role) VALUES ($1, $2, $3)
+      ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role
+    `, [workspaceId, memberId, role]);
+    return true;
+  }
+
+  /**
+   * Remove a member (owner only), or leave the workspace. The last owner
+   * cannot leave. Returns false when the caller or the member is not in it.
+   */
+  static async removeMember(workspaceId: string, userId: string, memberId: string): Promise<boolean> {
+    const role = memberId === userId
+      ? await this.getRole(workspaceId, userId)
+      : await this.requireRole(workspaceId, userId, 'owner');
+    if (!role) {
+      return false;
+    }
+    await this.ensureAnotherOwner(workspaceId, memberId);
+
+    const result = await db.query(`
+      DELETE FROM workspace_members WHERE workspace_id = $1 AND user_id = $2
+    `, [workspaceId, memberId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // A workspace always keeps at least one owner
+  private static async ensureAnotherOwner(workspaceId: string, memberId: string): Promise<void> {
+    const result = await db.query(`
+      SELECT COUNT(*) FILTER (WHERE user_id <> $2)::int as other_owners, BOOL_OR(user_id = $2) as is_owner
+      FROM workspace_members
+      WHERE workspace_id = $1 AND role = 'owner'
+    `, [workspaceId, memberId]);
+    const { other_owners, is_owner } = result.rows[0];
+    if (is_owner && other_owners === 0) {
+      throw new WorkspaceAccessError('A workspace needs at least one owner');
+    }
+  }
+
+  /**
+   * Create a collection in a workspace (editor or owner); null for non-members
+   */
+  static async createCollection(
+    workspaceId: string,
+    userId: string,
+    collection: { name: string; description?: string | null }
+  ): Promise<CollectionRecord | null> {
+    if (!(await this.requireRole(workspaceId, userId, 'editor'))) {
+      return null;
+    }
+
+    const result = await db.query(`
+      INSERT INTO collections (workspace_id, name, description, created_by)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id
+    `, [workspaceId, collection.name, collection.description || null, userId]);
+    return this.getCollection(result.rows[0].id, userId);
+  }
+
+  /**
+   * Collections the user can search, optionally of one workspace
+   */
+  static async listCollections(userId: string, workspaceId?: string): Promise<CollectionRecord[]> {
+    if (workspaceId !== undefined && !isUuid(workspaceId)) {
+      return [];
+    }
+    const result = await db.query(`
+      SELECT
+        c.id, c.workspace_id, w.name as workspace_name, c.name, c.description, c.created_by, c.created_at, m.role,
+        (SELECT COUNT(*) FROM collection_documents cd WHERE cd.collection_id = c.id)::int as document_count
+      FROM collections c
+      JOIN workspaces w ON w.id = c.workspace_id
+      JOIN workspace_members m ON m.workspace_id = c.workspace_id AND m.user_id = $1
+      WHERE ($2::uuid IS NULL OR c.workspace_id = $2)
+      ORDER BY w.name, c.name
+    `, [userId, workspaceId || null]);
+    return result.rows;
+  }
+
+  static async getCollection(collectionId: string, userId: string): Promise<CollectionRecord | null> {
+    if (!isUuid(collectionId)) {
+      return null;
+    }
+    const result = await db.query(`
+      SELECT
+        c.id, c.workspace_id, w.name as workspace_name, c.name, c.description, c.created_by, c.created_at, m.role,
+        (SELECT COUNT(*) FROM collection_documents cd WHERE cd.collection_id = c.id)::int as document_count
+      FROM collections c
+      JOIN workspaces w ON w.id = c.workspace_id
+      JOIN workspace_members m ON m.workspace_id = c.workspace_id AND m.user_id = $2
+      WHERE c.id = $1
+    `, [collectionId, userId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Documents in a collection, each at its latest version. Families whose
+   * documents have all been deleted are left out.
+   */
+  static async getCollectionDocuments(collectionId: string): Promise<CollectionDocument[]> {
+    const result = await db.query(`
+      SELECT
+        cd.family_id, d.id as document_id, d.filename, d.version, d.user_id as owner_id, cd.added_by, cd.added_at
+      FROM collection_documents cd
+      JOIN documents d ON d.family_id = cd.family_id AND d.is_latest
+      WHERE cd.collection_id = $1
+      ORDER BY d.filename
+    `, [collectionId]);
+    return result.rows;
+  }
+
+  /**
+   * Delete a collection (owner only); false for non-members
+   */
+  static async deleteCollection(collectionId: string, userId: string): Promise<boolean> {
+    const collection = await this.getCollection(collectionId, userId);
+    if (!collection) {
+      return false;
+    }
+    if (!hasRole(collection.role, 'owner')) {
+      throw new WorkspaceAccessError('This requires the owner role in the workspace');
+    }
+    await db.query('DELETE FROM collections WHERE id = $1', [collectionId]);
+    return true;
+  }
+
+  /**
+   * Add one of the user's documents, with all its versions, to a collection
+   * (editor or owner). Returns null when the collection or document is missing.
+   */
+  static async addDocument(collectionId: string, userId: string, documentId: string): Promise<CollectionDocument | null> {
+    const collection = await this.getCollection(collectionId, userId);
+    if (!collection) {
+      return null;
+    }
+    if (!hasRole(collection.role, 'editor')) {
+      throw new WorkspaceAccessError('This requires the editor role in the workspace');
+    }
+    if (!isUuid(documentId)) {
+      return null;
+    }
+
+    const owned = await db.query(`
+      SELECT family_id FROM documents WHERE id = $1 AND user_id = $2
+    `, [documentId, userId]);
+    if (owned.rows.length === 0) {
+      return null;
+    }
+    const familyId = owned.rows[0].family_id;
+
+    // Adding a document that is already in the collection is a no-op
+    await db.query(`
+      INSERT INTO collection_documents (collection_id, family_id, added_by)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (collection_id, family_id) DO NOTHING
+    `, [collectionId, familyId, userId]);
+
+    const documents = await this.getCollectionDocuments(collectionId);
+    return documents.find(document => document.family_id === familyId) ?? null;
+  }
+
+  /**
+   * Remove a document family from a collection (editor or owner)
+   */
+  static async removeDocument(collectionId: string, userId: string, familyId: string): Promise<boolean> {
+    const collection = await this.getCollection(collectionId, userId);
+    if (!collection) {
+      return false;
+    }
+    if (!hasRole(collection.role, 'editor')) {
+      throw new WorkspaceAccessError('This requires the editor role in the workspace');
+    }
+    if (!isUuid(familyId)) {
+      return false;
+    }
+
+    const result = await db.query(`
+      DELETE FROM collection_documents WHERE collection_id = $1 AND family_id = $2
+    `, [collectionId, familyId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Of the requested collections, those the user cannot search (missing or
+   * in a workspace they are not a member of)
+   */
+  static async findUnreadableCollections(userId: string, collectionIds: string[]): Promise<string[]> {
+    const result = await db.query(`
+      SELECT c.id::text as id
+      FROM collections c
+      JOIN workspace_members m ON m.workspace_id = c.workspace_id AND m.user_id = $1
+      WHERE c.id = ANY($2::uuid[])
+    `, [userId, collectionIds]);
+    const readable = new Set(result.rows.map((row: any) => row.id));
+    return collectionIds.filter(id => !readable.has(id));
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * ZIP reading for Office Open XML uploads (.docx, .pptx, .xlsx)
+ * Entries are located through the central directory and inflated with zlib.
+ * Encrypted, multi-disk and ZIP64 archives are not supported, which Office
+ * files never need. Uncompressed sizes are capped so that a small upload
+ * cannot inflate into gigabytes (a ZIP bomb).
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_FILE_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+export interface ZipLimits {
+  maxEntrySize: number; // bytes, uncompressed
+  maxTotalSize: number; // bytes, uncompressed, across the entries read
+}
+
+export const DEFAULT_ZIP_LIMITS: ZipLimits = {
+  maxEntrySize: 50 * 1024 * 1024,
+  maxTotalSize: 200 * 1024 * 1024
+};
+
+/**
+ * Read the entries of a ZIP archive whose names pass `include` (all of them
+ * by default), keyed by path within the archive
+ */
+export function readZip(
+  buffer: Buffer,
+  include: (name: string) => boolean = () => true,
+  limits: ZipLimits = DEFAULT_ZIP_LIMITS
+): Map<string, Buffer> {
+  if (buffer.length < 22) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  // The end record is the last 22 bytes, unless followed by an archive comment
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const entries = new Map<string, Buffer>();
+  let totalSize = 0;
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_FILE_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !include(name)) continue;
+
+    checkSize(name, uncompressedSize, totalSize + uncompressedSize, limits);
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry: ${name}`);
+    }
+    // The local header has its own name and extra field lengths
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === 0) {
+      content = data;
+    } else if (method === 8) {
+      content = inflate(data, name, Math.min(limits.maxEntrySize, limits.maxTotalSize - totalSize));
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+
+    // The recorded size may understate the data, so count what was read
+    totalSize += content.length;
+    checkSize(name, content.length, totalSize, limits);
+    entries.set(name, content);
+  }
+
+  return entries;
+}
+
+function checkSize(name: string, entrySize: number, totalSize: number, limits: ZipLimits): void {
+  if (entrySize > limits.maxEntrySize) {
+    throw new Error(`ZIP entry ${name} is larger than ${limits.maxEntrySize} bytes uncompressed`);
+  }
+  if (totalSize > limits.maxTotalSize) {
+    throw new Error(`ZIP archive is larger than ${limits.maxTotalSize} bytes uncompressed`);
+  }
+}
+
+// Inflate at most maxSize bytes; zlib stops with ERR_BUFFER_TOO_LARGE past that
+function inflate(data: Buffer, name: string, maxSize: number): Buffer {
+  try {
+    return inflateRawSync(data, { maxOutputLength: Math.max(1, maxSize) });
+  } catch (error: any) {
+    if (error.code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`ZIP entry ${name} inflates past the ${maxSize} byte limit`);
+    }
+    throw error;
+  }
+}
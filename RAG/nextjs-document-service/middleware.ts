@@ -0,0 +1,40 @@
+/**
+ * API authentication gate
+ * Runs on the edge, so it only rejects requests with neither a bearer token
+ * nor a session cookie. Signatures, sessions and API keys are verified in the
+ * route handlers (lib/auth.ts), which need Node crypto, the JWKS file and the
+ * database. Skipped only with AUTH_ENABLED=false.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+// Endpoints that stay reachable without credentials
+const PUBLIC_PATHS = ['/api/health', '/api/session'];
+
+// Kept in step with SESSION_COOKIE in lib/auth.ts, which the edge cannot import
+const SESSION_COOKIE = 'rag_session';
+
+export function middleware(request: NextRequest) {
+  if (process.env.AUTH_ENABLED === 'false') {
+    return NextResponse.next();
+  }
+
+  const { pathname } = request.nextUrl;
+  if (request.method === 'OPTIONS' || PUBLIC_PATHS.some(path => pathname.startsWith(path))) {
+    return NextResponse.next();
+  }
+
+  const hasToken = /^Bearer\s+\S+/i.test(request.headers.get('authorization') || '');
+  if (!hasToken && !request.cookies.get(SESSION_COOKIE)?.value) {
+    return NextResponse.json(
+      { error: 'Missing bearer token', success: false },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};
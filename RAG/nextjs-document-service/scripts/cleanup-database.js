@@ -13,8 +13,17 @@ async function cleanupDatabase() {
     host: process.env.DB_HOST || 'localhost',
     port: process.env.DB_PORT || 5432,
     database: process.env.DB_NAME || 'rag_system',
-    user: process.env.DB_USER || 'ddctu',
-    password: process.env.DB_PASSWORD,
+    // A login that may SET ROLE rag_maintenance; not the application's DB_USER
+    user: process.env.DB_MAINTENANCE_USER || process.env.DB_USER || 'ddctu',
+    password: process.env.DB_MAINTENANCE_PASSWORD || process.env.DB_PASSWORD,
+  });
+  // Every user's rows: rag_maintenance bypasses row-level security
+  // (database/create_row_level_security.sql)
+  pool.on('connect', client => {
+    client.query('SET ROLE rag_maintenance').catch(error => {
+      console.error(`❌ Cannot switch to the rag_maintenance role: ${error.message}`);
+      process.exit(1);
+    });
   });
 
   try {
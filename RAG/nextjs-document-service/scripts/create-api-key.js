@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+
+/**
+ * Issue an API key for a user
+ * Usage: node scripts/create-api-key.js <user-id> [email]
+ * Prints the key once; only its SHA-256 hash is stored. Re-running replaces the old key.
+ */
+
+const { Pool } = require('pg');
+const crypto = require('crypto');
+require('dotenv').config({ path: '.env.local' });
+
+async function createApiKey(userId, email) {
+  const pool = new Pool({
+    host: process.env.DB_HOST || 'localhost',
+    port: process.env.DB_PORT || 5432,
+    database: process.env.DB_NAME || 'rag_system',
+    user: process.env.DB_USER || 'ddctu',
+    password: process.env.DB_PASSWORD,
+  });
+
+  try {
+    const apiKey = `rag_${crypto.randomBytes(32).toString('base64url')}`;
+    const apiKeyHash = crypto.createHash('sha256').update(apiKey).digest('hex');
+
+    await pool.query(`
+      INSERT INTO users (firebase_uid, email, api_key_hash, api_key_created_at)
+      VALUES ($1, $2, $3, NOW())
+      ON CONFLICT (firebase_uid) DO UPDATE
+      SET api_key_hash = EXCLUDED.api_key_hash,
+          api_key_created_at = NOW(),
+          email = COALESCE(EXCLUDED.email, users.email),
+          updated_at = NOW()
+    `, [userId, email || null, apiKeyHash]);
+
+    console.log(`🔑 API key for ${userId} (store it now, it cannot be shown again):`);
+    console.log(apiKey);
+
+  } catch (error) {
+    console.error('❌ Failed to create API key:', error.message);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+const [userId, email] = process.argv.slice(2);
+if (!userId) {
+  console.error('Usage: node scripts/create-api-key.js <user-id> [email]');
+  process.exit(1);
+}
+
+createApiKey(userId, email);
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+/**
+ * Run the feedback job against a running server via /api/feedback/process
+ * Usage: node scripts/process-feedback.js [--days 90] [--out eval/golden/feedback.jsonl]
+ *          [--url http://localhost:8003]
+ * Rebuilds the reranker's chunk boosts from every source mark and writes the
+ * golden questions drawn from recent feedback, ready for scripts/run-eval.js.
+ * Authenticates with RAG_API_KEY (see scripts/create-api-key.js), which must
+ * belong to a user listed in AUTH_ADMIN_USERS when auth is on. To run it
+ * nightly, add a cron entry such as:
+ *   0 3 * * * cd /path/to/nextjs-document-service && npm run feedback
+ */
+
+const fs = require('fs');
+const path = require('path');
+require('dotenv').config({ path: '.env.local' });
+
+function parseArgs(argv) {
+  const args = {
+    url: process.env.RAG_BASE_URL || 'http://localhost:8003',
+    out: 'eval/golden/feedback.jsonl',
+    days: '90'
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--(\w+)$/);
+    if (!match || argv[i + 1] === undefined) {
+      throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+    args[match[1]] = argv[++i];
+  }
+  return args;
+}
+
+async function processFeedback() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const response = await fetch(`${args.url}/api/feedback/process`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(process.env.RAG_API_KEY && { Authorization: `Bearer ${process.env.RAG_API_KEY}` })
+    },
+    body: JSON.stringify({ days: parseInt(args.days) })
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(`/api/feedback/process failed (${response.status}): ${data.error || response.statusText}`);
+  }
+
+  const { boosts } = data;
+  console.log(`🔁 Chunk boosts rebuilt: ${boosts.chunks} rated chunks, ${boosts.boosted} boosted, ${boosts.penalized} penalized`);
+
+  if (data.questionCount === 0) {
+    console.log('ℹ️  No feedback has produced eval questions yet');
+    return;
+  }
+  fs.mkdirSync(path.dirname(args.out), { recursive: true });
+  fs.writeFileSync(args.out, data.goldenSet);
+  console.log(`📝 ${data.questionCount} eval questions written to ${args.out}`);
+  console.log(`   Run them with: node scripts/run-eval.js --golden ${args.out}`);
+}
+
+processFeedback().catch(error => {
+  console.error('❌ Feedback processing failed:', error.message);
+  process.exit(1);
+});
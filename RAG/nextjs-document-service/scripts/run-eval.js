@@ -0,0 +1,203 @@
+#!/usr/bin/env node
+
+/**
+ * Run a golden question set against a running server via /api/eval
+ * Usage: node scripts/run-eval.js [--golden eval/golden/sample-docs.jsonl] [--ingest ../../data]
+ *          [--modes semantic,keyword,hybrid] [--k 5] [--name "baseline"] [--url http://localhost:8003]
+ *          [--out eval-results.json]
+ *        node scripts/run-eval.js --type answer [--golden ...] [--searchMode hybrid] [--maxResults 10] [--name ...]
+ *        node scripts/run-eval.js --compare <baselineRunId>,<runId>[,...]
+ * --type answer scores generated answers (/api/eval/answers) instead of rankings.
+ * Authenticates with RAG_API_KEY (see scripts/create-api-key.js). With --ingest, every
+ * supported file in the directory is uploaded first and the script waits for ingestion.
+ * For repeatable numbers start the server with EMBEDDING_PROVIDER=hashing.
+ */
+
+const fs = require('fs');
+const path = require('path');
+require('dotenv').config({ path: '.env.local' });
+
+const SUPPORTED_EXTENSIONS = ['.txt', '.md', '.markdown', '.pdf', '.json'];
+const MIME_TYPES = { '.md': 'text/markdown', '.markdown': 'text/markdown', '.pdf': 'application/pdf', '.json': 'application/json' };
+
+function parseArgs(argv) {
+  const args = {
+    golden: 'eval/golden/sample-docs.jsonl',
+    url: process.env.RAG_BASE_URL || 'http://localhost:8003',
+    type: 'retrieval',
+    modes: 'semantic,keyword,hybrid',
+    k: '5'
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--(\w+)$/);
+    if (!match || argv[i + 1] === undefined) {
+      throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+    args[match[1]] = argv[++i];
+  }
+  return args;
+}
+
+async function api(args, pathname, init = {}) {
+  const response = await fetch(`${args.url}${pathname}`, {
+    ...init,
+    headers: { ...init.headers, ...(process.env.RAG_API_KEY && { Authorization: `Bearer ${process.env.RAG_API_KEY}` }) }
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(`${pathname} failed (${response.status}): ${data.error || response.statusText}`);
+  }
+  return data;
+}
+
+// Upload every supported file and wait until each ingestion job finishes
+async function ingestDirectory(args, directory) {
+  const files = fs.readdirSync(directory).filter(name => SUPPORTED_EXTENSIONS.includes(path.extname(name).toLowerCase()));
+  console.log(`📤 Uploading ${files.length} files from ${directory}...`);
+
+  const jobs = [];
+  for (const name of files) {
+    const form = new FormData();
+    const type = MIME_TYPES[path.extname(name).toLowerCase()] || 'text/plain';
+    form.append('file', new Blob([fs.readFileSync(path.join(directory, name))], { type }), name);
+    const upload = await api(args, '/api/upload', { method: 'POST', body: form });
+    jobs.push({ name, statusUrl: upload.statusUrl });
+  }
+
+  for (const job of jobs) {
+    for (;;) {
+      const { job: status } = await api(args, job.statusUrl);
+      if (status.status === 'completed') {
+        console.log(`  ✅ ${job.name}`);
+        break;
+      }
+      if (status.status === 'failed') {
+        throw new Error(`Ingestion of ${job.name} failed: ${status.last_error || 'unknown error'}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+  }
+}
+
+function printReport(report) {
+  console.log(`\n📊 ${report.name} (${report.questionCount} questions, k=${report.config.k})`);
+  console.log(`   Embeddings: ${report.config.embedding.provider}/${report.config.embedding.model}, chunk size ${report.config.chunkSize}`);
+
+  const rows = Object.entries(report.summary).map(([mode, summary]) => ({
+    mode,
+    [`recall@${report.config.k}`]: summary.recallAtK,
+    MRR: summary.mrr,
+    nDCG: summary.ndcg,
+    'p50 ms': summary.latencyMs.p50,
+    'p95 ms': summary.latencyMs.p95,
+    errors: summary.errors
+  }));
+  console.table(rows);
+
+  for (const [mode, results] of Object.entries(report.results)) {
+    const misses = results.filter(result => result.recall < 1);
+    if (misses.length > 0) {
+      console.log(`   ${mode} misses: ${misses.map(result => result.error ? `${result.id} (${result.error})` : result.id).join(', ')}`);
+    }
+  }
+}
+
+function printAnswerReport(report) {
+  const { summary } = report;
+  console.log(`\n📊 ${report.name} (${summary.answerable} answerable, ${summary.unanswerable} unanswerable)`);
+  console.log(`   Models: ${report.config.modelChain.join(', ')}; ${report.config.searchMode} search, ${report.config.maxResults} chunks`);
+
+  console.table([{
+    'citation precision': summary.citationPrecision,
+    'citation recall': summary.citationRecall,
+    faithfulness: summary.faithfulness,
+    'answer F1': summary.answerF1,
+    'refusal accuracy': summary.refusalAccuracy,
+    tokens: summary.tokens.total,
+    'cost $': summary.costUsd,
+    'p50 ms': summary.latencyMs.p50,
+    errors: summary.errors
+  }]);
+
+  const flagged = report.results.filter(result => result.error || !result.refusalCorrect || result.unsupportedClaims.length > 0);
+  for (const result of flagged) {
+    const reason = result.error
+      ? result.error
+      : !result.refusalCorrect
+        ? (result.refused ? 'refused an answerable question' : 'answered an unanswerable question')
+        : `${result.unsupportedClaims.length} unsupported claim(s)`;
+    console.log(`   ${result.id}: ${reason}`);
+  }
+  if (summary.unpricedAnswers > 0) {
+    console.log(`   ${summary.unpricedAnswers} answers used a model without a price in CHAT_MODEL_PRICES`);
+  }
+}
+
+function printComparison(comparison) {
+  const names = comparison.runs.map(run => run.name);
+  console.log(`\n📊 ${names.join(' vs ')} (baseline: ${names[0]})`);
+
+  console.table(comparison.metrics.map(({ metric, values, delta }) => ({
+    metric,
+    ...Object.fromEntries(names.map((name, index) => [name, values[index]])),
+    delta
+  })));
+
+  for (const { setting, values } of comparison.configChanges) {
+    console.log(`   ${setting}: ${values.map(value => JSON.stringify(value)).join(' → ')}`);
+  }
+}
+
+async function runEval() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.compare) {
+    printComparison(await api(args, `/api/eval/compare?ids=${encodeURIComponent(args.compare)}`));
+    return;
+  }
+
+  if (args.ingest) {
+    await ingestDirectory(args, args.ingest);
+  }
+
+  const goldenSet = fs.readFileSync(args.golden, 'utf8');
+  const name = args.name || path.basename(args.golden, '.jsonl');
+
+  let report;
+  if (args.type === 'answer') {
+    report = await api(args, '/api/eval/answers', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        goldenSet,
+        name,
+        ...(args.searchMode && { searchMode: args.searchMode }),
+        ...(args.maxResults && { maxResults: parseInt(args.maxResults) })
+      })
+    });
+    printAnswerReport(report);
+  } else {
+    report = await api(args, '/api/eval', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        goldenSet,
+        name,
+        modes: args.modes.split(','),
+        k: parseInt(args.k)
+      })
+    });
+    printReport(report);
+  }
+  console.log(report.runId ? `\n💾 Stored as run ${report.runId}` : '');
+
+  if (args.out) {
+    fs.writeFileSync(args.out, JSON.stringify(report, null, 2));
+    console.log(`📝 Full results written to ${args.out}`);
+  }
+}
+
+runEval().catch(error => {
+  console.error('❌ Evaluation failed:', error.message);
+  process.exit(1);
+});
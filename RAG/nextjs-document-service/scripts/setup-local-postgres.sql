@@ -4,12 +4,78 @@
 -- Enable pgvector extension (if not already enabled)
 CREATE EXTENSION IF NOT EXISTS vector;
 
+-- Workspaces and shared document collections (see database/create_workspaces.sql)
+CREATE TABLE IF NOT EXISTS workspaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(200) NOT NULL,
+  created_by VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  name VARCHAR(200) NOT NULL,
+  description TEXT,
+  created_by VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (workspace_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS collection_documents (
+  collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  family_id UUID NOT NULL,
+  added_by VARCHAR(255) NOT NULL,
+  added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (collection_id, family_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_collections_workspace_id ON collections(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_collection_documents_family_id ON collection_documents(family_id);
+
+-- Document families in the given collections of the user's workspaces
+CREATE OR REPLACE FUNCTION collection_family_ids(user_id_param TEXT, collection_ids UUID[])
+RETURNS TABLE (family_id UUID) AS $$
+  SELECT DISTINCT cd.family_id
+  FROM collection_documents cd
+  JOIN collections col ON col.id = cd.collection_id
+  JOIN workspace_members wm ON wm.workspace_id = col.workspace_id
+  WHERE cd.collection_id = ANY(collection_ids)
+    AND wm.user_id = user_id_param
+$$ LANGUAGE sql STABLE;
+
+-- Drop older overloads of the search functions (without the version and
+-- collection scope arguments) so calls stay unambiguous
+DO $$
+DECLARE
+  fn regprocedure;
+BEGIN
+  FOR fn IN
+    SELECT oid::regprocedure FROM pg_proc
+    WHERE proname IN ('search_similar_chunks', 'search_hybrid_chunks', 'search_keyword_chunks')
+  LOOP
+    EXECUTE 'DROP FUNCTION ' || fn;
+  END LOOP;
+END $$;
+
 -- Search similar chunks function
 CREATE OR REPLACE FUNCTION search_similar_chunks(
   query_embedding vector(1536),
   user_id_param VARCHAR(255),
   similarity_threshold DECIMAL DEFAULT 0.7,
-  limit_param INTEGER DEFAULT 5
+  limit_param INTEGER DEFAULT 5,
+  latest_only BOOLEAN DEFAULT TRUE,
+  document_ids UUID[] DEFAULT NULL,
+  collection_ids UUID[] DEFAULT NULL
 )
 RETURNS TABLE (
   chunk_id UUID,
@@ -35,7 +101,10 @@ BEGIN
   FROM chunks c
   JOIN documents d ON c.document_id = d.id
   WHERE 
-    d.user_id = user_id_param
+    (CASE WHEN collection_ids IS NULL THEN d.user_id = user_id_param
+          ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
+    AND (NOT latest_only OR d.is_latest)
+    AND (document_ids IS NULL OR d.id = ANY(document_ids))
     AND c.embedding IS NOT NULL
     AND (1 - (c.embedding <=> query_embedding)) >= similarity_threshold
   ORDER BY c.embedding <=> query_embedding
@@ -51,7 +120,10 @@ CREATE OR REPLACE FUNCTION search_hybrid_chunks(
   semantic_weight DECIMAL DEFAULT 0.7,
   keyword_weight DECIMAL DEFAULT 0.3,
   similarity_threshold DECIMAL DEFAULT 0.6,
-  limit_param INTEGER DEFAULT 5
+  limit_param INTEGER DEFAULT 5,
+  latest_only BOOLEAN DEFAULT TRUE,
+  document_ids UUID[] DEFAULT NULL,
+  collection_ids UUID[] DEFAULT NULL
 )
 RETURNS TABLE (
   chunk_id UUID,
@@ -80,7 +152,10 @@ BEGIN
     FROM chunks c
     JOIN documents d ON c.document_id = d.id
     WHERE 
-      d.user_id = user_id_param
+      (CASE WHEN collection_ids IS NULL THEN d.user_id = user_id_param
+            ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
+      AND (NOT latest_only OR d.is_latest)
+      AND (document_ids IS NULL OR d.id = ANY(document_ids))
       AND c.embedding IS NOT NULL
   ),
   keyword_results AS (
@@ -96,7 +171,10 @@ BEGIN
     FROM chunks c
     JOIN documents d ON c.document_id = d.id
     WHERE 
-      d.user_id = user_id_param
+      (CASE WHEN collection_ids IS NULL THEN d.user_id = user_id_param
+            ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
+      AND (NOT latest_only OR d.is_latest)
+      AND (document_ids IS NULL OR d.id = ANY(document_ids))
       AND to_tsvector('english', c.text) @@ plainto_tsquery('english', query_text)
   )
   SELECT 
@@ -122,7 +200,10 @@ $$ LANGUAGE plpgsql;
 CREATE OR REPLACE FUNCTION search_keyword_chunks(
   query_text TEXT,
   user_id_param VARCHAR(255),
-  limit_param INTEGER DEFAULT 5
+  limit_param INTEGER DEFAULT 5,
+  latest_only BOOLEAN DEFAULT TRUE,
+  document_ids UUID[] DEFAULT NULL,
+  collection_ids UUID[] DEFAULT NULL
 )
 RETURNS TABLE (
   chunk_id UUID,
@@ -148,7 +229,10 @@ BEGIN
   FROM chunks c
   JOIN documents d ON c.document_id = d.id
   WHERE 
-    d.user_id = user_id_param
+    (CASE WHEN collection_ids IS NULL THEN d.user_id = user_id_param
+          ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
+    AND (NOT latest_only OR d.is_latest)
+    AND (document_ids IS NULL OR d.id = ANY(document_ids))
     AND to_tsvector('english', c.text) @@ plainto_tsquery('english', query_text)
   ORDER BY keyword_score DESC
   LIMIT limit_param;
@@ -224,4 +308,45 @@ BEGIN
     RETURN 'general';
   END IF;
 END;
-$$ LANGUAGE plpgsql;
\ No newline at end of file
+$$ LANGUAGE plpgsql;
+
+-- Row-level security: documents and chunks are visible only to the app.user_id
+-- session setting (see database/create_row_level_security.sql, which also covers
+-- medical_tables and creates the rag_maintenance role for maintenance scripts)
+CREATE OR REPLACE FUNCTION app_user_id() RETURNS TEXT AS $$
+  SELECT NULLIF(current_setting('app.user_id', true), '')
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE documents FORCE ROW LEVEL SECURITY;
+ALTER TABLE chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chunks FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS documents_owner ON documents;
+CREATE POLICY documents_owner ON documents
+  USING (user_id = app_user_id())
+  WITH CHECK (user_id = app_user_id());
+
+DROP POLICY IF EXISTS documents_shared_read ON documents;
+CREATE POLICY documents_shared_read ON documents FOR SELECT
+  USING (EXISTS (
+    SELECT 1
+    FROM collection_documents cd
+    JOIN collections col ON col.id = cd.collection_id
+    JOIN workspace_members wm ON wm.workspace_id = col.workspace_id
+    WHERE cd.family_id = documents.family_id
+      AND wm.user_id = app_user_id()
+  ));
+
+DROP POLICY IF EXISTS chunks_owner ON chunks;
+CREATE POLICY chunks_owner ON chunks
+  USING (EXISTS (
+    SELECT 1 FROM documents d WHERE d.id = chunks.document_id AND d.user_id = app_user_id()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM documents d WHERE d.id = chunks.document_id AND d.user_id = app_user_id()
+  ));
+
+DROP POLICY IF EXISTS chunks_shared_read ON chunks;
+CREATE POLICY chunks_shared_read ON chunks FOR SELECT
+  USING (EXISTS (SELECT 1 FROM documents d WHERE d.id = chunks.document_id));
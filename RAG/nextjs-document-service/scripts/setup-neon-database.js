@@ -41,7 +41,10 @@ async function setupNeonDatabase() {
         status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed', 'failed')),
         uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         processed_at TIMESTAMP,
-        metadata JSONB DEFAULT '{}'::jsonb
+        metadata JSONB DEFAULT '{}'::jsonb,
+        family_id UUID NOT NULL DEFAULT gen_random_uuid(),
+        version INTEGER NOT NULL DEFAULT 1,
+        is_latest BOOLEAN NOT NULL DEFAULT TRUE
       )
     `;
     console.log('✅ Documents table created');
@@ -124,6 +127,49 @@ async function setupNeonDatabase() {
     `;
     console.log('✅ Medical table cells created');
     
+    // Step 5b: Workspaces and shared document collections
+    await sql`
+      CREATE TABLE IF NOT EXISTS workspaces (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(200) NOT NULL,
+        created_by VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+    await sql`
+      CREATE TABLE IF NOT EXISTS workspace_members (
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        user_id VARCHAR(255) NOT NULL,
+        role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+        added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (workspace_id, user_id)
+      )
+    `;
+    await sql`
+      CREATE TABLE IF NOT EXISTS collections (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        name VARCHAR(200) NOT NULL,
+        description TEXT,
+        created_by VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (workspace_id, name)
+      )
+    `;
+    await sql`
+      CREATE TABLE IF NOT EXISTS collection_documents (
+        collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+        family_id UUID NOT NULL,
+        added_by VARCHAR(255) NOT NULL,
+        added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (collection_id, family_id)
+      )
+    `;
+    await sql`CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_collections_workspace_id ON collections(workspace_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_collection_documents_family_id ON collection_documents(family_id)`;
+    console.log('✅ Workspace and collection tables created');
+    
     // Step 6: Create indexes
     console.log('🔍 Creating indexes...');
     
@@ -131,6 +177,7 @@ async function setupNeonDatabase() {
     await sql`CREATE INDEX IF NOT EXISTS idx_documents_user_id ON documents(user_id)`;
     await sql`CREATE INDEX IF NOT EXISTS idx_documents_status ON documents(status)`;
     await sql`CREATE INDEX IF NOT EXISTS idx_documents_uploaded_at ON documents(uploaded_at DESC)`;
+    await sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_family_version ON documents(family_id, version)`;
     
     // Chunk indexes
     await sql`CREATE INDEX IF NOT EXISTS idx_chunks_document_id ON chunks(document_id)`;
@@ -153,6 +200,34 @@ async function setupNeonDatabase() {
     
     // Step 7: Create search functions
     console.log('🔧 Creating search functions...');
+
+    // Document families in the given collections of the user's workspaces
+    await sql`
+      CREATE OR REPLACE FUNCTION collection_family_ids(user_id_param TEXT, collection_ids UUID[])
+      RETURNS TABLE (family_id UUID) AS $$
+        SELECT DISTINCT cd.family_id
+        FROM collection_documents cd
+        JOIN collections col ON col.id = cd.collection_id
+        JOIN workspace_members wm ON wm.workspace_id = col.workspace_id
+        WHERE cd.collection_id = ANY(collection_ids)
+          AND wm.user_id = user_id_param
+      $$ LANGUAGE sql STABLE
+    `;
+
+    // Drop older overloads (without the version and collection scope arguments) so calls stay unambiguous
+    await sql`
+      DO $$
+      DECLARE
+        fn regprocedure;
+      BEGIN
+        FOR fn IN
+          SELECT oid::regprocedure FROM pg_proc
+          WHERE proname IN ('search_similar_chunks', 'search_hybrid_chunks', 'search_keyword_chunks', 'search_medical_tables')
+        LOOP
+          EXECUTE 'DROP FUNCTION ' || fn;
+        END LOOP;
+      END $$
+    `;
     
     // Search similar chunks function
     await sql`
@@ -160,7 +235,10 @@ async function setupNeonDatabase() {
         query_embedding vector(1536),
         user_id_param TEXT,
         similarity_threshold DECIMAL DEFAULT 0.7,
-        limit_param INTEGER DEFAULT 5
+        limit_param INTEGER DEFAULT 5,
+        latest_only BOOLEAN DEFAULT TRUE,
+        document_ids UUID[] DEFAULT NULL,
+        collection_ids UUID[] DEFAULT NULL
       )
       RETURNS TABLE (
         chunk_id UUID,
@@ -184,7 +262,10 @@ async function setupNeonDatabase() {
         FROM chunks c
         JOIN documents d ON c.document_id = d.id
         WHERE 
-          d.user_id = user_id_param
+          (CASE WHEN collection_ids IS NULL THEN d.user_id = user_id_param
+                ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
+          AND (NOT latest_only OR d.is_latest)
+          AND (document_ids IS NULL OR d.id = ANY(document_ids))
           AND c.embedding IS NOT NULL
           AND (1 - (c.embedding <=> query_embedding)) >= similarity_threshold
         ORDER BY c.embedding <=> query_embedding
@@ -202,7 +283,10 @@ async function setupNeonDatabase() {
         semantic_weight DECIMAL DEFAULT 0.7,
         keyword_weight DECIMAL DEFAULT 0.3,
         similarity_threshold DECIMAL DEFAULT 0.6,
-        limit_param INTEGER DEFAULT 5
+        limit_param INTEGER DEFAULT 5,
+        latest_only BOOLEAN DEFAULT TRUE,
+        document_ids UUID[] DEFAULT NULL,
+        collection_ids UUID[] DEFAULT NULL
       )
       RETURNS TABLE (
         chunk_id UUID,
@@ -229,7 +313,10 @@ async function setupNeonDatabase() {
           FROM chunks c
           JOIN documents d ON c.document_id = d.id
           WHERE 
-            d.user_id = user_id_param
+            (CASE WHEN collection_ids IS NULL THEN d.user_id = user_id_param
+                  ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
+            AND (NOT latest_only OR d.is_latest)
+            AND (document_ids IS NULL OR d.id = ANY(document_ids))
             AND c.embedding IS NOT NULL
         ),
         keyword_results AS (
@@ -244,7 +331,10 @@ async function setupNeonDatabase() {
           FROM chunks c
           JOIN documents d ON c.document_id = d.id
           WHERE 
-            d.user_id = user_id_param
+            (CASE WHEN collection_ids IS NULL THEN d.user_id = user_id_param
+                  ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
+            AND (NOT latest_only OR d.is_latest)
+            AND (document_ids IS NULL OR d.id = ANY(document_ids))
             AND to_tsvector('english', c.text) @@ plainto_tsquery('english', query_text)
         )
         SELECT 
@@ -271,7 +361,10 @@ async function setupNeonDatabase() {
       CREATE OR REPLACE FUNCTION search_keyword_chunks(
         query_text TEXT,
         user_id_param TEXT,
-        limit_param INTEGER DEFAULT 5
+        limit_param INTEGER DEFAULT 5,
+        latest_only BOOLEAN DEFAULT TRUE,
+        document_ids UUID[] DEFAULT NULL,
+        collection_ids UUID[] DEFAULT NULL
       )
       RETURNS TABLE (
         chunk_id UUID,
@@ -295,7 +388,10 @@ async function setupNeonDatabase() {
         FROM chunks c
         JOIN documents d ON c.document_id = d.id
         WHERE 
-          d.user_id = user_id_param
+          (CASE WHEN collection_ids IS NULL THEN d.user_id = user_id_param
+                ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
+          AND (NOT latest_only OR d.is_latest)
+          AND (document_ids IS NULL OR d.id = ANY(document_ids))
           AND to_tsvector('english', c.text) @@ plainto_tsquery('english', query_text)
         ORDER BY keyword_score DESC
         LIMIT limit_param;
@@ -391,7 +487,8 @@ async function setupNeonDatabase() {
         user_id_param TEXT DEFAULT NULL,
         table_type_filter VARCHAR(50) DEFAULT NULL,
         limit_param INTEGER DEFAULT 10,
-        similarity_threshold DECIMAL DEFAULT 0.3
+        similarity_threshold DECIMAL DEFAULT 0.3,
+        collection_ids UUID[] DEFAULT NULL
       )
       RETURNS TABLE (
         table_id INTEGER,
@@ -425,7 +522,8 @@ async function setupNeonDatabase() {
           FROM medical_tables mt
           JOIN documents d ON mt.document_id = d.id
           WHERE 
-            (user_id_param IS NULL OR d.user_id = user_id_param)
+            (CASE WHEN collection_ids IS NULL THEN (user_id_param IS NULL OR d.user_id = user_id_param)
+                  ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
             AND (table_type_filter IS NULL OR mt.table_type = table_type_filter)
             AND (query_embedding IS NULL OR (1 - (mt.embedding <=> query_embedding)) >= similarity_threshold)
         ),
@@ -444,7 +542,8 @@ async function setupNeonDatabase() {
           FROM medical_tables mt
           JOIN documents d ON mt.document_id = d.id
           WHERE 
-            (user_id_param IS NULL OR d.user_id = user_id_param)
+            (CASE WHEN collection_ids IS NULL THEN (user_id_param IS NULL OR d.user_id = user_id_param)
+                  ELSE d.family_id IN (SELECT f.family_id FROM collection_family_ids(user_id_param, collection_ids) f) END)
             AND (table_type_filter IS NULL OR mt.table_type = table_type_filter)
             AND to_tsvector('english', mt.searchable_text) @@ plainto_tsquery('english', query_text)
         )
@@ -468,6 +567,55 @@ async function setupNeonDatabase() {
     `;
     console.log('✅ Medical tables search function created');
     
+    // Step 9b: Row-level security. Rows are visible only to the app.user_id
+    // setting that the application sends with every query
+    // (see database/create_row_level_security.sql)
+    console.log('🔒 Enabling row-level security...');
+    await sql`
+      CREATE OR REPLACE FUNCTION app_user_id() RETURNS TEXT AS $$
+        SELECT NULLIF(current_setting('app.user_id', true), '')
+      $$ LANGUAGE sql STABLE
+    `;
+    for (const table of ['documents', 'chunks', 'medical_tables']) {
+      await sql.query(`ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY`);
+      await sql.query(`ALTER TABLE ${table} FORCE ROW LEVEL SECURITY`);
+    }
+    await sql`DROP POLICY IF EXISTS documents_owner ON documents`;
+    await sql`
+      CREATE POLICY documents_owner ON documents
+        USING (user_id = app_user_id())
+        WITH CHECK (user_id = app_user_id())
+    `;
+    await sql`DROP POLICY IF EXISTS documents_shared_read ON documents`;
+    await sql`
+      CREATE POLICY documents_shared_read ON documents FOR SELECT
+        USING (EXISTS (
+          SELECT 1
+          FROM collection_documents cd
+          JOIN collections col ON col.id = cd.collection_id
+          JOIN workspace_members wm ON wm.workspace_id = col.workspace_id
+          WHERE cd.family_id = documents.family_id
+            AND wm.user_id = app_user_id()
+        ))
+    `;
+    // Chunks and medical tables follow their document
+    for (const table of ['chunks', 'medical_tables']) {
+      const owned = `EXISTS (SELECT 1 FROM documents d WHERE d.id = ${table}.document_id AND d.user_id = app_user_id())`;
+      await sql.query(`DROP POLICY IF EXISTS ${table}_owner ON ${table}`);
+      await sql.query(`
+        CREATE POLICY ${table}_owner ON ${table}
+          USING (${owned})
+          WITH CHECK (${owned})
+      `);
+      await sql.query(`DROP POLICY IF EXISTS ${table}_shared_read ON ${table}`);
+      await sql.query(`
+        CREATE POLICY ${table}_shared_read ON ${table} FOR SELECT
+          USING (EXISTS (SELECT 1 FROM documents d WHERE d.id = ${table}.document_id))
+      `);
+    }
+    await sql`DROP FUNCTION IF EXISTS app_bypass_rls()`;
+    console.log('✅ Row-level security enabled');
+    
     // Step 10: Test the setup
     console.log('🧪 Testing database setup...');
     const testResult = await sql`SELECT 1 as test, version() as db_version`;
@@ -484,6 +632,7 @@ async function setupNeonDatabase() {
     console.log('- ✅ 11 indexes created for optimal performance');
     console.log('- ✅ 5 search functions created for RAG operations');
     console.log('- ✅ Medical intelligence functions ready');
+    console.log('- ✅ Row-level security on documents, chunks and medical_tables');
     
     console.log('\n🔗 Connection Details:');
     console.log(`Database: ${process.env.PGDATABASE}`);
@@ -37,13 +37,20 @@ async function testNeonIntegration() {
     
     // Test document query
     console.log('\n🗂️  Testing document queries...');
-    const docCount = await sql`SELECT COUNT(*) as count FROM documents`;
-    console.log('✅ Documents in database:', docCount[0].count);
+    // Row-level security shows only the rows of the user set for the transaction
+    const [, docCount] = await sql.transaction([
+      sql`SELECT set_config('app.user_id', 'demo-user', true)`,
+      sql`SELECT COUNT(*) as count FROM documents`
+    ]);
+    console.log('✅ Documents of demo-user:', docCount[0].count);
     
     // Test chunk query
     console.log('\n📝 Testing chunk queries...');
-    const chunkCount = await sql`SELECT COUNT(*) as count FROM chunks`;
-    console.log('✅ Chunks in database:', chunkCount[0].count);
+    const [, chunkCount] = await sql.transaction([
+      sql`SELECT set_config('app.user_id', 'demo-user', true)`,
+      sql`SELECT COUNT(*) as count FROM chunks`
+    ]);
+    console.log('✅ Chunks of demo-user:', chunkCount[0].count);
     
     // Test search functions
     console.log('\n🔍 Testing search functions...');
@@ -12,8 +12,18 @@ const pool = new Pool({
   host: process.env.DB_HOST,
   port: process.env.DB_PORT,
   database: process.env.DB_NAME,
-  user: process.env.DB_USER,
-  password: process.env.DB_PASSWORD,
+  // A login that may SET ROLE rag_maintenance; not the application's DB_USER
+  user: process.env.DB_MAINTENANCE_USER || process.env.DB_USER,
+  password: process.env.DB_MAINTENANCE_PASSWORD || process.env.DB_PASSWORD,
+});
+
+// Every user's rows: rag_maintenance bypasses row-level security
+// (database/create_row_level_security.sql)
+pool.on('connect', client => {
+  client.query('SET ROLE rag_maintenance').catch(error => {
+    console.error(`❌ Cannot switch to the rag_maintenance role: ${error.message}`);
+    process.exit(1);
+  });
 });
 
 async function validateEmbeddings() {
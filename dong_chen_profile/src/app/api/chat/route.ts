@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createChatProviders, completeWithFallback, getOpenAIApiKey } from '@/lib/chat-providers';
 
-// Simple chat API using OpenAI directly
+// Simple chat API using the models in CHAT_MODEL_CHAIN (see lib/chat-providers.ts)
 // TODO: In the future, this can call the RAG service at http://localhost:8003/api/search
 // to enhance responses with document context when needed
 
@@ -15,9 +16,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+    const providers = createChatProviders();
 
-    if (!OPENAI_API_KEY || OPENAI_API_KEY === 'your_openai_api_key_here') {
+    // Only an all-OpenAI chain needs the key; a local model can answer without it
+    if (!getOpenAIApiKey() && providers.every(provider => provider.name === 'openai')) {
       return NextResponse.json(
         { error: 'OpenAI API key not configured. Please set a valid OPENAI_API_KEY in .env.local file.' },
         { status: 500 }
@@ -61,35 +63,20 @@ APPROACH & PHILOSOPHY:
 
 Respond as Dong would - professional yet approachable, focused on practical business solutions, data-driven insights, and leveraging technology to solve real problems. Draw from your extensive experience in healthcare tech, data engineering, and product management. Keep responses insightful and actionable.`;
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: DONG_CHEN_SYSTEM_PROMPT
-          },
-          {
-            role: 'user',
-            content: message
-          }
-        ],
-        max_tokens: 500,
-        temperature: 0.7,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const reply = data.choices[0].message.content;
+    const reply = await completeWithFallback(
+      providers,
+      [
+        {
+          role: 'system',
+          content: DONG_CHEN_SYSTEM_PROMPT
+        },
+        {
+          role: 'user',
+          content: message
+        }
+      ],
+      { maxTokens: 500, temperature: 0.7 }
+    );
 
     return NextResponse.json({ reply });
   } catch (error) {
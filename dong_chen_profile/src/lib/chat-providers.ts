@@ -0,0 +1,114 @@
+// Chat model providers for the profile chat
+// CHAT_MODEL_CHAIN lists "provider:model" entries tried in order, e.g.
+// "compatible:llama3.1:8b,openai:gpt-4o-mini". The compatible provider talks to
+// any server with an OpenAI-style /chat/completions API (Ollama, vLLM, llama.cpp).
+// Read straight from the environment: lib/config.ts also requires the Firebase
+// variables, which this server route does not need.
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface ChatModelProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+}
+
+export class OpenAICompatibleChatProvider implements ChatModelProvider {
+  readonly name: string;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(options: { baseUrl: string; model: string; apiKey?: string; name?: string }) {
+    this.name = options.name || 'compatible';
+    this.model = options.model;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey || '';
+  }
+
+  async complete(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        max_tokens: options.maxTokens ?? 500,
+        temperature: options.temperature ?? 0.7,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.choices[0].message.content;
+  }
+}
+
+export class OpenAIChatProvider extends OpenAICompatibleChatProvider {
+  constructor(apiKey: string, model: string) {
+    super({ baseUrl: 'https://api.openai.com/v1', apiKey, model, name: 'openai' });
+  }
+}
+
+// A missing key or the .env.local.example placeholder both count as unset
+export function getOpenAIApiKey(): string {
+  const apiKey = process.env.OPENAI_API_KEY || '';
+  return apiKey === 'your_openai_api_key_here' ? '' : apiKey;
+}
+
+export function createChatProviders(): ChatModelProvider[] {
+  const chain = process.env.CHAT_MODEL_CHAIN || `openai:${process.env.OPENAI_CHAT_MODEL || 'gpt-4'}`;
+
+  return chain.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(':');
+    const name = separator === -1 ? 'openai' : entry.slice(0, separator);
+    const model = separator === -1 ? entry : entry.slice(separator + 1);
+
+    switch (name) {
+      case 'openai':
+        return new OpenAIChatProvider(getOpenAIApiKey(), model);
+      case 'compatible':
+        return new OpenAICompatibleChatProvider({
+          baseUrl: process.env.CHAT_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1',
+          apiKey: process.env.CHAT_COMPATIBLE_API_KEY,
+          model,
+        });
+      default:
+        throw new Error(`Unknown chat provider: ${name}`);
+    }
+  });
+}
+
+// Try each provider in order and return the first answer
+export async function completeWithFallback(
+  providers: ChatModelProvider[],
+  messages: ChatMessage[],
+  options?: ChatOptions
+): Promise<string> {
+  let lastError: unknown = null;
+
+  for (const provider of providers) {
+    try {
+      return await provider.complete(messages, options);
+    } catch (error) {
+      console.warn(`Chat model ${provider.name}:${provider.model} failed:`, error);
+      lastError = error;
+    }
+  }
+
+  throw lastError || new Error('No chat models configured');
+}